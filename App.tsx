@@ -5,95 +5,224 @@ import { KpiCard } from './components/KpiCard';
 import { RevenueChart } from './components/RevenueChart';
 import { LeadSourceChart } from './components/LeadSourceChart';
 import { AiInsight } from './components/AiInsight';
+import { Datasets, DatasetFocus } from './components/Datasets';
 import { Workflows } from './components/Workflows';
 import { Architecture } from './components/Architecture';
 import { Settings } from './components/Settings';
-import { sendChatMessage } from './services/geminiService';
-import { KPI_DATA, REVENUE_DATA, LEAD_SOURCE_DATA, CONNECTORS_DATA } from './constants';
-import type { Kpi, RevenueData, LeadSource, Connector, ChatMessage, ActiveView } from './types';
-import { SparklesIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { createChatSession, streamChatMessage } from './services/geminiService';
+import { getDashboard } from './services/dashboardService';
+import type { ChatMessage, ActiveView, DashboardData, AnswerFormat } from './types';
+import { SparklesIcon, ExclamationTriangleIcon, ArrowPathIcon, ChartBarIcon } from '@heroicons/react/24/outline';
+
+// How often the dashboard view re-fetches its metrics.
+const DASHBOARD_REFRESH_MS = 60_000;
+// How long a KPI card or chart stays highlighted after an insight links to it.
+const METRIC_HIGHLIGHT_MS = 2_000;
+
+const ChartEmptyState: React.FC<{ message: string }> = ({ message }) => (
+  <div className="h-full flex items-center justify-center text-sm text-brand-light text-center px-4">{message}</div>
+);
 
 const App: React.FC = () => {
-  const [kpis, setKpis] = useState<Kpi[]>(KPI_DATA);
-  const [revenueData, setRevenueData] = useState<RevenueData[]>(REVENUE_DATA);
-  const [leadSourceData, setLeadSourceData] = useState<LeadSource[]>(LEAD_SOURCE_DATA);
-  const [connectors, setConnectors] = useState<Connector[]>(CONNECTORS_DATA);
+  const [dashboard, setDashboard] = useState<DashboardData | null>(null);
+  const [isDashboardLoading, setIsDashboardLoading] = useState<boolean>(true);
+  const [dashboardError, setDashboardError] = useState<string | null>(null);
   
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isAiTyping, setIsAiTyping] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [activeView, setActiveView] = useState<ActiveView>('dashboard');
+  const [highlightedMetric, setHighlightedMetric] = useState<string | null>(null);
+  // The dataset the Datasets view opens on, when a citation led there.
+  const [datasetFocus, setDatasetFocus] = useState<DatasetFocus | null>(null);
 
   const hasFetchedInitialInsight = useRef(false);
+  // The backend keeps the conversation; every question in this page's chat goes to one session.
+  const chatSessionId = useRef<string | null>(null);
+  // Aborts the answer being streamed, when there is one.
+  const stopAnswer = useRef<AbortController | null>(null);
+
+  const loadDashboard = useCallback(async () => {
+    setIsDashboardLoading(true);
+    try {
+      setDashboard(await getDashboard());
+      setDashboardError(null);
+    } catch (err) {
+      // A failed refresh keeps showing the last data that loaded.
+      setDashboardError(err instanceof Error ? err.message : 'An unknown error occurred.');
+      console.error(err);
+    } finally {
+      setIsDashboardLoading(false);
+    }
+  }, []);
+
+  // Loaded on opening the dashboard, and refreshed only while it stays open.
+  const onDashboard = activeView === 'dashboard';
+  useEffect(() => {
+    if (!onDashboard) return;
+    loadDashboard();
+    const timer = setInterval(loadDashboard, DASHBOARD_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [onDashboard, loadDashboard]);
+
+  // Streams the answer to `question` into a new message after `previous`. A stopped answer
+  // keeps what was generated; a failed one keeps it too, unless nothing arrived. An insight
+  // arrives whole at the end, so only its tool calls show while it is generated.
+  const askQuestion = useCallback(async (question: string, previous: ChatMessage[], format: AnswerFormat = 'text') => {
+    const controller = new AbortController();
+    stopAnswer.current = controller;
+    setMessages([...previous, { sender: 'ai', text: '', streaming: true }]);
+    setIsAiTyping(true);
+    setError(null);
 
-  const getDashboardData = useCallback(() => {
-    return { kpis, revenueData, leadSourceData };
-  }, [kpis, revenueData, leadSourceData]);
+    try {
+      const reply = await streamChatMessage(chatSessionId.current, question, {
+        signal: controller.signal,
+        format,
+        onChunk: (chunk) => setMessages(current => current.map((message, index) =>
+          index === current.length - 1 ? { ...message, text: message.text + chunk } : message)),
+        onToolCall: (call) => setMessages(current => current.map((message, index) =>
+          index === current.length - 1 ? { ...message, toolCalls: [...(message.toolCalls ?? []), call] } : message)),
+      });
+      // Set when the session could not be created up front and the backend started one.
+      if (reply.sessionId) chatSessionId.current = reply.sessionId;
+      setMessages([...previous, {
+        sender: 'ai',
+        text: reply.text,
+        toolCalls: reply.toolCalls,
+        insight: reply.insight,
+        citations: reply.citations,
+        segments: reply.segments,
+        stopped: reply.stopped,
+      }]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+      console.error(err);
+      setMessages(current => current
+        .filter((message, index) => index < current.length - 1 || message.text || message.toolCalls?.length)
+        .map(message => ({ ...message, streaming: false })));
+    } finally {
+      stopAnswer.current = null;
+      setIsAiTyping(false);
+    }
+  }, []);
 
   useEffect(() => {
+    // The analyst looks up the figures itself, so this need not wait for the dashboard.
     if (hasFetchedInitialInsight.current) return;
     hasFetchedInitialInsight.current = true;
 
     const fetchInitialInsight = async () => {
-      setError(null);
       try {
-        const initialMessage = 'Provide a summary of the current business performance.';
-        const dashboardData = getDashboardData();
-        const firstInsight = await sendChatMessage(dashboardData, initialMessage);
-        setMessages([{ sender: 'ai', text: firstInsight }]);
+        chatSessionId.current = await createChatSession();
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        // The first question then starts the session instead.
         console.error(err);
-      } finally {
-        setIsAiTyping(false);
       }
+      await askQuestion('Provide a summary of the current business performance.', [], 'insight');
     };
-    
+
     fetchInitialInsight();
-  }, [getDashboardData]);
+  }, [askQuestion]);
 
   const handleSendMessage = async (userMessage: string) => {
     if (!userMessage.trim() || isAiTyping) return;
+    await askQuestion(userMessage, [...messages, { sender: 'user', text: userMessage }]);
+  };
 
-    const newMessages: ChatMessage[] = [...messages, { sender: 'user', text: userMessage }];
-    setMessages(newMessages);
-    setIsAiTyping(true);
-    setError(null);
+  const handleStopAnswer = () => {
+    stopAnswer.current?.abort();
+  };
 
-    try {
-        const dashboardData = getDashboardData();
-        const aiResponse = await sendChatMessage(dashboardData, userMessage);
-        setMessages([...newMessages, { sender: 'ai', text: aiResponse }]);
-    } catch (err) {
-        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
-        console.error(err);
-    } finally {
-        setIsAiTyping(false);
-    }
+  const highlightTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const handleShowMetric = (id: string) => {
+    document.getElementById(`metric-${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMetric(id);
+    if (highlightTimer.current) clearTimeout(highlightTimer.current);
+    highlightTimer.current = setTimeout(() => setHighlightedMetric(null), METRIC_HIGHLIGHT_MS);
+  };
+
+  const handleShowDataset = (focus: DatasetFocus) => {
+    setDatasetFocus(focus);
+    setActiveView('datasets');
   };
 
+  // Where the dashboard shows a saved metric, e.g. metric-<id> on its KPI card.
+  const metricAnchor = (id: string | null | undefined) => id
+    ? { id: `metric-${id}`, highlight: highlightedMetric === id ? 'ring-2 ring-brand-cyan' : '' }
+    : { id: undefined, highlight: '' };
+
   const renderActiveView = () => {
     switch (activeView) {
-      case 'dashboard':
+      case 'dashboard': {
+        const hasMetrics = !!dashboard && (dashboard.kpis.length > 0 || !!dashboard.revenueTitle || !!dashboard.leadSourceTitle);
+        const shownMetrics = dashboard
+          ? [...dashboard.kpis.map(kpi => kpi.metricId), dashboard.revenueMetric, dashboard.leadSourceMetric].filter((id): id is string => !!id)
+          : [];
+        const revenueAnchor = metricAnchor(dashboard?.revenueMetric);
+        const leadSourceAnchor = metricAnchor(dashboard?.leadSourceMetric);
         return (
           <div className="container mx-auto">
-            <h1 className="text-2xl md:text-3xl font-bold text-brand-text mb-6">Unified Dashboard</h1>
-            
+            <div className="flex justify-between items-center mb-6">
+              <h1 className="text-2xl md:text-3xl font-bold text-brand-text">Unified Dashboard</h1>
+              <div className="flex items-center space-x-2 text-xs text-brand-light">
+                {dashboard && <span>Updated {new Date(dashboard.generatedAt).toLocaleTimeString()}</span>}
+                <button onClick={loadDashboard} disabled={isDashboardLoading} aria-label="Refresh dashboard" className="hover:text-brand-text disabled:cursor-not-allowed">
+                  <ArrowPathIcon className={`h-5 w-5 ${isDashboardLoading ? 'animate-spin' : ''}`} />
+                </button>
+              </div>
+            </div>
+
+            {dashboardError && (
+              <div className="flex items-center justify-between text-brand-red bg-red-900/20 p-3 rounded-lg mb-6 text-sm">
+                <div className="flex items-center space-x-2">
+                  <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+                  <span>{dashboard ? 'Could not refresh the dashboard; showing the last loaded data.' : 'Could not load the dashboard.'} {dashboardError}</span>
+                </div>
+                <button onClick={loadDashboard} className="font-semibold hover:underline shrink-0 ml-4">Retry</button>
+              </div>
+            )}
+
+            {dashboard && dashboard.errors.length > 0 && (
+              <div className="text-yellow-300 bg-yellow-900/20 p-3 rounded-lg mb-6 text-sm">
+                {dashboard.errors.map(({ metric, error }) => <p key={metric}><span className="font-semibold">{metric}:</span> {error}</p>)}
+              </div>
+            )}
+
+            {dashboard && !hasMetrics && (
+              <div className="bg-brand-secondary p-6 rounded-xl shadow-lg mb-6 text-center text-brand-light">
+                <ChartBarIcon className="h-8 w-8 mx-auto" />
+                <p className="mt-2 text-sm">No metrics are defined yet. Ingest a dataset, then define KPIs, series and breakdowns through the <span className="font-mono">/api/metrics</span> API.</p>
+              </div>
+            )}
+
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6 mb-6">
-              {kpis.map((kpi) => (
-                <KpiCard key={kpi.title} {...kpi} />
+              {!dashboard && isDashboardLoading && [0, 1, 2, 3].map(i => (
+                <div key={i} className="bg-brand-secondary p-5 rounded-xl shadow-lg h-36 animate-pulse" />
               ))}
+              {dashboard?.kpis.map((kpi) => {
+                const anchor = metricAnchor(kpi.metricId);
+                return (
+                  <div key={kpi.title} id={anchor.id} className={`rounded-xl transition-shadow ${anchor.highlight}`}>
+                    <KpiCard {...kpi} />
+                  </div>
+                );
+              })}
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
               <div className="lg:col-span-2 flex flex-col gap-6">
-                <div className="bg-brand-secondary p-4 md:p-6 rounded-xl shadow-lg h-80">
-                  <h2 className="text-xl font-semibold text-brand-text mb-4">Revenue Over Time</h2>
-                  <RevenueChart data={revenueData} />
+                <div id={revenueAnchor.id} className={`bg-brand-secondary p-4 md:p-6 rounded-xl shadow-lg h-80 transition-shadow ${revenueAnchor.highlight}`}>
+                  <h2 className="text-xl font-semibold text-brand-text mb-4">{dashboard?.revenueTitle ?? 'Revenue Over Time'}</h2>
+                  {dashboard?.revenueData.length
+                    ? <RevenueChart data={dashboard.revenueData} />
+                    : <ChartEmptyState message={!dashboard ? (isDashboardLoading ? 'Loading...' : 'No data.') : dashboard.revenueTitle ? 'No rows match this metric yet.' : 'Define a series metric to chart values over time.'} />}
                 </div>
-                <div className="bg-brand-secondary p-4 md:p-6 rounded-xl shadow-lg h-80">
-                  <h2 className="text-xl font-semibold text-brand-text mb-4">Lead Sources</h2>
-                  <LeadSourceChart data={leadSourceData} />
+                <div id={leadSourceAnchor.id} className={`bg-brand-secondary p-4 md:p-6 rounded-xl shadow-lg h-80 transition-shadow ${leadSourceAnchor.highlight}`}>
+                  <h2 className="text-xl font-semibold text-brand-text mb-4">{dashboard?.leadSourceTitle ?? 'Lead Sources'}</h2>
+                  {dashboard?.leadSourceData.length
+                    ? <LeadSourceChart data={dashboard.leadSourceData} />
+                    : <ChartEmptyState message={!dashboard ? (isDashboardLoading ? 'Loading...' : 'No data.') : dashboard.leadSourceTitle ? 'No rows match this metric yet.' : 'Define a breakdown metric to compare categories.'} />}
                 </div>
               </div>
 
@@ -107,19 +236,26 @@ const App: React.FC = () => {
                     messages={messages} 
                     isTyping={isAiTyping} 
                     error={error} 
-                    onSendMessage={handleSendMessage} 
+                    onSendMessage={handleSendMessage}
+                    onStop={handleStopAnswer}
+                    shownMetrics={shownMetrics}
+                    onShowMetric={handleShowMetric}
+                    onShowDataset={handleShowDataset}
                   />
                 </div>
               </div>
             </div>
           </div>
         );
+      }
+      case 'datasets':
+        return <Datasets focus={datasetFocus} />;
       case 'workflows':
         return <Workflows />;
       case 'architecture':
         return <Architecture />;
       case 'settings':
-        return <Settings connectors={connectors} />;
+        return <Settings />;
       default:
         return null;
     }
@@ -127,7 +263,7 @@ const App: React.FC = () => {
 
   return (
     <div className="flex h-screen bg-brand-primary font-sans">
-      <Sidebar activeView={activeView} setActiveView={setActiveView} />
+      <Sidebar activeView={activeView} setActiveView={(view) => { setDatasetFocus(null); setActiveView(view); }} />
       <div className="flex-1 flex flex-col overflow-hidden">
         <Header />
         <main className="flex-1 overflow-x-hidden overflow-y-auto bg-brand-primary p-4 md:p-8">
@@ -1,13 +1,22 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { PaperAirplaneIcon, SparklesIcon } from '@heroicons/react/24/outline';
-import type { ChatMessage } from '../types';
+import { PaperAirplaneIcon, SparklesIcon, StopIcon, WrenchScrewdriverIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import type { ChatMessage, ChatToolCall, AnswerCitation, AnswerSegment } from '../types';
+import type { DatasetFocus } from './Datasets';
+import { InsightCards } from './InsightCards';
 
 interface AiInsightProps {
   messages: ChatMessage[];
   isTyping: boolean;
   error: string | null;
   onSendMessage: (message: string) => void;
+  // Stops the answer being generated.
+  onStop: () => void;
+  // Metrics the dashboard shows, which insights can link to.
+  shownMetrics: string[];
+  onShowMetric: (id: string) => void;
+  // Opens a cited dataset at the cited rows.
+  onShowDataset: (focus: DatasetFocus) => void;
 }
 
 const TypingIndicator: React.FC = () => (
@@ -18,18 +27,139 @@ const TypingIndicator: React.FC = () => (
   </div>
 );
 
-const MessageBubble: React.FC<ChatMessage> = ({ sender, text }) => {
+// e.g. aggregate(dataset: "ingest-1700000000000", aggregation: "sum", column: "amount")
+function describeCall({ name, args }: ChatToolCall): string {
+  const params = Object.entries(args).map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return `${name}(${params.join(', ')})`;
+}
+
+// The tools the analyst used for an answer; each expands to show what it returned.
+const ToolCalls: React.FC<{ calls: ChatToolCall[] }> = ({ calls }) => (
+  <div className="mb-2 space-y-1">
+    {calls.map((call, index) => (
+      <details key={index} className="text-xs text-brand-light">
+        <summary className="flex items-start cursor-pointer hover:text-brand-text list-none">
+          {call.error
+            ? <ExclamationTriangleIcon className="h-4 w-4 mr-1 shrink-0 text-brand-red" />
+            : <WrenchScrewdriverIcon className="h-4 w-4 mr-1 shrink-0" />}
+          <span className="font-mono break-all">{describeCall(call)}</span>
+        </summary>
+        <pre className="mt-1 p-2 bg-brand-primary rounded-lg overflow-x-auto max-h-48 text-[11px]">
+          {call.error ?? JSON.stringify(call.result, null, 2)}
+        </pre>
+      </details>
+    ))}
+  </div>
+);
+
+// e.g. "Revenue (Mar 2024)", "Pipeline: Referral" or "Orders: sum of amount, rows 3–4"
+function describeCitation(citation: AnswerCitation): string {
+  switch (citation.kind) {
+    case 'kpi':
+      return `${citation.title}${citation.period ? ` (${citation.period})` : ''}`;
+    case 'chart':
+      return `${citation.title}: ${citation.point}`;
+    case 'dataset': {
+      const { title, detail, firstRow, lastRow } = citation;
+      const rows = firstRow ? (firstRow === lastRow || !lastRow ? `row ${firstRow}` : `rows ${firstRow}–${lastRow}`) : '';
+      return [title, [detail, rows].filter(Boolean).join(', ')].filter(Boolean).join(': ');
+    }
+  }
+}
+
+interface CitationLinks {
+  shownMetrics: string[];
+  onShowMetric: (id: string) => void;
+  onShowDataset: (focus: DatasetFocus) => void;
+}
+
+// Metric citations lead to their KPI card or chart when the dashboard shows it; dataset
+// citations open the dataset at the cited rows.
+const CitationChip: React.FC<CitationLinks & { citation: AnswerCitation; label: string }> = ({ citation, label, shownMetrics, onShowMetric, onShowDataset }) => {
+  const open = citation.kind === 'dataset'
+    ? () => onShowDataset({ datasetId: citation.datasetId, firstRow: citation.firstRow, lastRow: citation.lastRow })
+    : shownMetrics.includes(citation.metricId) ? () => onShowMetric(citation.metricId) : undefined;
+  const className = 'inline-block mx-0.5 px-1.5 rounded-full bg-brand-primary text-[10px] font-semibold align-text-top';
+  return open
+    ? <button onClick={open} title={describeCitation(citation)} className={`${className} text-brand-cyan hover:bg-brand-cyan hover:text-brand-primary`}>{label}</button>
+    : <span title={describeCitation(citation)} className={`${className} text-brand-light`}>{label}</span>;
+};
+
+// A segment's text with the numbers not found in the data marked, then its citations.
+const Segment: React.FC<CitationLinks & { segment: AnswerSegment; citations: AnswerCitation[] }> = ({ segment, citations, ...links }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  for (const { start, end } of segment.unsupported) {
+    parts.push(segment.text.slice(position, start));
+    parts.push(
+      <span key={start} title="Not found in the data the analyst looked at" className="underline decoration-dotted decoration-brand-red underline-offset-2">
+        {segment.text.slice(start, end)}
+      </span>
+    );
+    position = end;
+  }
+  // Citations go before the whitespace that ends the sentence.
+  const rest = segment.text.slice(position);
+  const trimmed = rest.trimEnd();
+  return (
+    <>
+      {parts}
+      {trimmed}
+      {segment.citations.map(index => <CitationChip key={index} citation={citations[index]} label={String(index + 1)} {...links} />)}
+      {rest.slice(trimmed.length)}
+    </>
+  );
+};
+
+// Every citation of an answer, and a warning when some of its numbers could not be checked.
+const Sources: React.FC<CitationLinks & { citations: AnswerCitation[]; segments: AnswerSegment[] }> = ({ citations, segments, ...links }) => {
+  const unsupported = segments.flatMap(({ text, unsupported }) => unsupported.map(({ start, end }) => text.slice(start, end)));
+  if (citations.length === 0 && unsupported.length === 0) return null;
+  return (
+    <div className="mt-2 pt-2 border-t border-brand-primary text-xs text-brand-light space-y-1">
+      {citations.length > 0 && (
+        <div className="flex flex-wrap items-center gap-y-1">
+          <span className="mr-1">Sources:</span>
+          {citations.map((citation, index) => (
+            <CitationChip key={index} citation={citation} label={`${index + 1} ${describeCitation(citation)}`} {...links} />
+          ))}
+        </div>
+      )}
+      {unsupported.length > 0 && (
+        <p className="flex items-start text-brand-red">
+          <ExclamationTriangleIcon className="h-4 w-4 mr-1 shrink-0" />
+          <span>Not found in the data: {[...new Set(unsupported)].join(', ')}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+interface MessageBubbleProps extends ChatMessage, CitationLinks {}
+
+const MessageBubble: React.FC<MessageBubbleProps> = ({ sender, text, streaming, stopped, toolCalls, insight, citations = [], segments, ...links }) => {
   const isUser = sender === 'user';
   return (
     <div className={`flex w-full ${isUser ? 'justify-end' : 'justify-start'} mb-4`}>
        <div className={`max-w-xs md:max-w-md px-4 py-3 rounded-2xl ${isUser ? 'bg-brand-cyan text-brand-primary' : 'bg-brand-accent text-brand-text'}`}>
-        <p className="text-sm leading-relaxed whitespace-pre-wrap">{text}</p>
+        {toolCalls && toolCalls.length > 0 && <ToolCalls calls={toolCalls} />}
+        {insight && <InsightCards insight={insight} shownMetrics={links.shownMetrics} onShowMetric={links.onShowMetric} />}
+        {!insight && (text || streaming) && (
+          <p className="text-sm leading-relaxed whitespace-pre-wrap">
+            {segments
+              ? segments.map((segment, index) => <Segment key={index} segment={segment} citations={citations} {...links} />)
+              : text}
+            {streaming && <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-brand-light animate-pulse" />}
+          </p>
+        )}
+        {segments && <Sources citations={citations} segments={segments} {...links} />}
+        {stopped && <p className="mt-1 text-xs text-brand-light italic">Stopped</p>}
       </div>
     </div>
   );
 };
 
-export const AiInsight: React.FC<AiInsightProps> = ({ messages, isTyping, error, onSendMessage }) => {
+export const AiInsight: React.FC<AiInsightProps> = ({ messages, isTyping, error, onSendMessage, onStop, shownMetrics, onShowMetric, onShowDataset }) => {
   const [input, setInput] = useState('');
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
 
@@ -49,10 +179,14 @@ export const AiInsight: React.FC<AiInsightProps> = ({ messages, isTyping, error,
     }
   };
 
+  // An answer that has not produced any text or tool calls yet shows as the typing indicator.
+  const visible = messages.filter(msg => !msg.streaming || msg.text || msg.toolCalls?.length);
+  const waiting = isTyping && visible.length === messages.length - 1;
+
   return (
     <div className="flex flex-col flex-grow h-full min-h-0">
       <div className="flex-grow overflow-y-auto pr-2 -mr-2">
-        {messages.length === 0 && isTyping ? (
+        {visible.length === 0 && isTyping ? (
              <div className="flex items-center justify-center h-full">
                 <div className="text-center text-brand-light">
                     <SparklesIcon className="h-8 w-8 mx-auto animate-pulse" />
@@ -60,9 +194,9 @@ export const AiInsight: React.FC<AiInsightProps> = ({ messages, isTyping, error,
                 </div>
             </div>
         ) : (
-            messages.map((msg, index) => <MessageBubble key={index} {...msg} />)
+            visible.map((msg, index) => <MessageBubble key={index} {...msg} shownMetrics={shownMetrics} onShowMetric={onShowMetric} onShowDataset={onShowDataset} />)
         )}
-        {messages.length > 0 && isTyping && (
+        {visible.length > 0 && waiting && (
           <div className="flex justify-start mb-4">
               <div className="bg-brand-accent rounded-2xl px-4 py-3">
                 <TypingIndicator />
@@ -86,14 +220,25 @@ export const AiInsight: React.FC<AiInsightProps> = ({ messages, isTyping, error,
           className="flex-grow bg-brand-primary border border-brand-accent rounded-lg py-2 px-3 text-brand-text placeholder-brand-light focus:outline-none focus:ring-2 focus:ring-brand-cyan transition"
           disabled={isTyping}
         />
-        <button
-          type="submit"
-          aria-label="Send message"
-          disabled={isTyping || !input.trim()}
-          className="bg-brand-cyan text-brand-primary p-2 rounded-lg transition-colors hover:bg-opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          <PaperAirplaneIcon className="h-5 w-5" />
-        </button>
+        {isTyping ? (
+          <button
+            type="button"
+            onClick={onStop}
+            aria-label="Stop generating"
+            className="bg-brand-accent text-brand-text p-2 rounded-lg transition-colors hover:bg-brand-red hover:text-brand-primary"
+          >
+            <StopIcon className="h-5 w-5" />
+          </button>
+        ) : (
+          <button
+            type="submit"
+            aria-label="Send message"
+            disabled={!input.trim()}
+            className="bg-brand-cyan text-brand-primary p-2 rounded-lg transition-colors hover:bg-opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <PaperAirplaneIcon className="h-5 w-5" />
+          </button>
+        )}
       </form>
     </div>
   );
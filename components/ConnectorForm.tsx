@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { createConnector, updateConnector, testConnectorSettings } from '../services/connectorService';
+import type { Connector, ConnectorField, ConnectorType } from '../types';
+
+const inputClass = 'mt-1 w-full bg-brand-primary border border-brand-accent rounded-lg py-1.5 px-2 text-sm text-brand-text focus:outline-none focus:ring-2 focus:ring-brand-cyan';
+const buttonClass = 'bg-brand-primary hover:bg-brand-accent transition-colors px-3 py-1.5 rounded-lg text-sm font-medium disabled:opacity-50';
+
+// The form keeps every field as text (or a checkbox state) and builds the settings on submit.
+type Draft = Record<string, string | boolean>;
+
+const getPath = (value: unknown, key: string): unknown =>
+    key.split('.').reduce<unknown>((current, part) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[part] : undefined), value);
+
+const setPath = (target: Record<string, unknown>, key: string, value: unknown) => {
+    const parts = key.split('.');
+    let current = target;
+    for (const part of parts.slice(0, -1)) {
+        if (!current[part] || typeof current[part] !== 'object') current[part] = {};
+        current = current[part] as Record<string, unknown>;
+    }
+    current[parts[parts.length - 1]] = value;
+};
+
+const separatorOf = (field: ConnectorField) => field.separator ?? '=';
+
+// Parses 'key<separator>value' lines, e.g. headers ('Accept: text/json') or fields ('id = $.id').
+const parseLines = (text: string, separator: string): Record<string, string> => {
+    const result: Record<string, string> = {};
+    for (const line of text.split('\n')) {
+        const index = line.indexOf(separator);
+        if (index > 0) result[line.slice(0, index).trim()] = line.slice(index + separator.length).trim();
+    }
+    return result;
+};
+
+const formatLines = (values: Record<string, string>, separator: string) =>
+    Object.entries(values).map(([key, value]) => `${key}${separator === ':' ? ': ' : ` ${separator} `}${value}`).join('\n');
+
+const toText = (field: ConnectorField, value: unknown): string | boolean => {
+    if (field.type === 'boolean') return value === undefined ? field.default === true : value === true;
+    if (value === undefined || value === null) return String(field.default ?? field.options?.[0]?.value ?? '');
+    if (field.type === 'password') return '';
+    if (field.type === 'map' && typeof value === 'object') return formatLines(value as Record<string, string>, separatorOf(field));
+    if (field.type === 'list' && Array.isArray(value)) return value.join(', ');
+    if (field.type === 'json') return JSON.stringify(value, null, 2);
+    return String(value);
+};
+
+const toDraft = (fields: ConnectorField[], settings: Record<string, unknown> = {}): Draft =>
+    Object.fromEntries(fields.map(field => [field.key, toText(field, getPath(settings, field.key))]));
+
+const isVisible = (field: ConnectorField, draft: Draft) =>
+    !field.visibleWhen || field.visibleWhen.equals.includes(String(draft[field.visibleWhen.key] ?? ''));
+
+// Hidden fields are left out, and so are empty secrets, so an edited connector keeps its saved ones.
+const toSettings = (fields: ConnectorField[], draft: Draft): Record<string, unknown> => {
+    const settings: Record<string, unknown> = {};
+    for (const field of fields) {
+        if (!isVisible(field, draft)) continue;
+        const value = draft[field.key];
+        if (field.type === 'boolean') {
+            setPath(settings, field.key, value === true);
+            continue;
+        }
+        const text = String(value ?? '').trim();
+        if (!text) {
+            if (field.required) throw new Error(`${field.label} is required.`);
+            continue;
+        }
+        if (field.type === 'number') {
+            setPath(settings, field.key, Number(text));
+        } else if (field.type === 'list') {
+            setPath(settings, field.key, text.split(',').map(item => item.trim()).filter(Boolean));
+        } else if (field.type === 'map') {
+            setPath(settings, field.key, parseLines(text, separatorOf(field)));
+        } else if (field.type === 'json') {
+            try {
+                setPath(settings, field.key, JSON.parse(text));
+            } catch {
+                throw new Error(`${field.label} must be valid JSON.`);
+            }
+        } else {
+            setPath(settings, field.key, text);
+        }
+    }
+    return settings;
+};
+
+interface ConnectorFormProps {
+    type: ConnectorType;
+    // The connector being edited; a new one is created without it.
+    connector?: Connector;
+    onSaved: (connector: Connector) => void;
+    onCancel: () => void;
+}
+
+export const ConnectorForm: React.FC<ConnectorFormProps> = ({ type, connector, onSaved, onCancel }) => {
+    const [name, setName] = useState(connector?.name ?? type.name);
+    const [draft, setDraft] = useState<Draft>(() => toDraft(type.fields, connector?.settings));
+    const [busy, setBusy] = useState<'test' | 'save' | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const update = (key: string, value: string | boolean) => setDraft(previous => ({ ...previous, [key]: value }));
+
+    const run = async (key: 'test' | 'save', action: () => Promise<void>) => {
+        setBusy(key);
+        setError(null);
+        setNotice(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const test = () => run('test', async () => {
+        setNotice(await testConnectorSettings(type.type, toSettings(type.fields, draft), connector?.id));
+    });
+
+    const save = (event: React.FormEvent) => {
+        event.preventDefault();
+        run('save', async () => {
+            const settings = toSettings(type.fields, draft);
+            onSaved(connector ? await updateConnector(connector.id, name, settings) : await createConnector(type.type, name, settings));
+        });
+    };
+
+    const renderInput = (field: ConnectorField) => {
+        const value = draft[field.key];
+        const text = typeof value === 'string' ? value : '';
+        const onText = (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => update(field.key, event.target.value);
+        switch (field.type) {
+            case 'select':
+                return (
+                    <select value={text} onChange={onText} className={inputClass}>
+                        {field.options?.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                    </select>
+                );
+            case 'textarea':
+            case 'json':
+            case 'map':
+                return <textarea value={text} onChange={onText} rows={3} placeholder={field.placeholder} className={`${inputClass} font-mono`} />;
+            case 'password':
+                return (
+                    <input
+                        type="password"
+                        value={text}
+                        onChange={onText}
+                        placeholder={connector ? 'Unchanged' : field.placeholder}
+                        autoComplete="new-password"
+                        className={inputClass}
+                    />
+                );
+            default:
+                return <input type={field.type === 'number' ? 'number' : 'text'} value={text} onChange={onText} placeholder={field.placeholder} className={inputClass} />;
+        }
+    };
+
+    const visibleFields = type.fields.filter(field => isVisible(field, draft));
+
+    return (
+        <form onSubmit={save} className="bg-brand-primary/50 p-4 rounded-lg space-y-3">
+            <div className="flex items-center space-x-3">
+                <img src={type.iconUrl} alt={`${type.name} logo`} className="h-6 w-6 object-contain" />
+                <h4 className="font-semibold text-brand-text">{connector ? `Edit ${connector.name}` : `New ${type.name} connector`}</h4>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <label className="text-sm text-brand-light">Name<input value={name} onChange={e => setName(e.target.value)} className={inputClass} /></label>
+                {visibleFields.map(field => field.type === 'boolean' ? (
+                    <label key={field.key} className="flex items-center space-x-2 text-sm text-brand-light self-end pb-2">
+                        <input type="checkbox" checked={draft[field.key] === true} onChange={e => update(field.key, e.target.checked)} />
+                        <span>{field.label}</span>
+                    </label>
+                ) : (
+                    <label key={field.key} className={`text-sm text-brand-light ${['textarea', 'json', 'map'].includes(field.type) ? 'md:col-span-2' : ''}`}>
+                        {field.label}{field.required && <span className="text-brand-red"> *</span>}
+                        {renderInput(field)}
+                        {field.help && <span className="block mt-1 text-xs text-brand-light/80">{field.help}</span>}
+                    </label>
+                ))}
+            </div>
+            {type.fields.length === 0 && <p className="text-sm text-brand-light">{type.description}</p>}
+            <div className="flex items-center justify-end space-x-2">
+                <button type="button" onClick={onCancel} disabled={busy !== null} className={buttonClass}>Cancel</button>
+                {type.fields.length > 0 && (
+                    <button type="button" onClick={test} disabled={busy !== null} className={buttonClass}>{busy === 'test' ? 'Testing...' : 'Test connection'}</button>
+                )}
+                <button type="submit" disabled={busy !== null} className="bg-brand-cyan text-brand-primary px-4 py-1.5 rounded-lg text-sm font-semibold hover:bg-opacity-90 transition-colors disabled:opacity-50">
+                    {busy === 'save' ? 'Saving...' : connector ? 'Save' : 'Add connector'}
+                </button>
+            </div>
+            {notice && (
+                <div className="flex items-center space-x-2 text-sm text-brand-green">
+                    <CheckCircleIcon className="h-5 w-5 shrink-0" />
+                    <span>{notice}</span>
+                </div>
+            )}
+            {error && (
+                <div className="flex items-center space-x-2 text-brand-red bg-red-900/20 p-3 rounded-lg text-sm">
+                    <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+                    <span>{error}</span>
+                </div>
+            )}
+        </form>
+    );
+};
@@ -1,30 +1,55 @@
-
 import React from 'react';
 import type { Connector } from '../types';
 
-export const ConnectorStatus: React.FC<Connector> = ({ name, status, iconUrl }) => {
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+interface ConnectorStatusProps extends Connector {
+  // Opens the log of a sync run; an "Error" status links to the run that failed.
+  onShowRun?: (runId: string) => void;
+}
+
+export const ConnectorStatus: React.FC<ConnectorStatusProps> = ({ name, typeName, status, iconUrl, lastSyncAt, lastRowCount, lastStatus, lastError, lastRunId, onShowRun }) => {
   const statusIndicator = {
     Connected: 'bg-brand-green',
     Syncing: 'bg-brand-yellow',
     Error: 'bg-brand-red',
+    'Not connected': 'bg-brand-light',
   };
 
   const statusTextColor = {
     Connected: 'text-brand-green',
     Syncing: 'text-brand-yellow',
     Error: 'text-brand-red',
+    'Not connected': 'text-brand-light',
   };
 
   return (
-    <div className="flex items-center justify-between p-3 bg-brand-primary rounded-lg">
-      <div className="flex items-center space-x-3">
-        <img src={iconUrl} alt={`${name} logo`} className="h-8 w-8 object-contain" />
-        <span className="font-medium text-brand-text">{name}</span>
-      </div>
-      <div className="flex items-center space-x-2">
-        <div className={`h-2.5 w-2.5 rounded-full ${statusIndicator[status]}`}></div>
-        <span className={`text-sm font-semibold ${statusTextColor[status]}`}>{status}</span>
+    <div className="p-3 bg-brand-primary rounded-lg">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <img src={iconUrl} alt={`${typeName} logo`} className="h-8 w-8 object-contain" />
+          <div>
+            <span className="font-medium text-brand-text">{name}</span>
+            {name !== typeName && <span className="ml-2 text-xs text-brand-light">{typeName}</span>}
+            <p className="text-xs text-brand-light">
+              {lastSyncAt
+                ? `Last synced ${formatDate(lastSyncAt)}${lastStatus === 'ok' && lastRowCount !== undefined ? ` · ${lastRowCount.toLocaleString()} rows` : ''}`
+                : 'Never synced'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className={`h-2.5 w-2.5 rounded-full ${statusIndicator[status]}`}></div>
+          {status === 'Error' && lastRunId && onShowRun ? (
+            <button onClick={() => onShowRun(lastRunId)} title="View the failed run's log" className={`text-sm font-semibold underline ${statusTextColor[status]}`}>
+              {status}
+            </button>
+          ) : (
+            <span className={`text-sm font-semibold ${statusTextColor[status]}`}>{status}</span>
+          )}
+        </div>
       </div>
+      {status === 'Error' && lastError && <p className="mt-2 text-xs text-brand-red">{lastError}</p>}
     </div>
   );
 };
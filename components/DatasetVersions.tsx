@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import { listDatasetVersions, diffDatasetVersions, rollbackDataset } from '../services/datasetService';
+import type { DatasetDetail, DatasetVersion, DatasetDiff, RawDatasetRow } from '../types';
+
+interface DatasetVersionsProps {
+    dataset: DatasetDetail;
+    onRolledBack: (dataset: DatasetDetail) => void;
+}
+
+const describeVersion = (version: DatasetVersion) => {
+    if (version.kind === 'rollback') return `Rollback to v${version.restoredFrom}`;
+    const file = version.source?.fileName ?? version.source?.filePath;
+    return `${version.kind === 'upsert' ? 'Upsert' : 'Ingest'}${file ? ` · ${file}` : ''}`;
+};
+
+const describeReport = ({ report }: DatasetVersion) =>
+    report ? `+${report.inserted} ~${report.updated} −${report.deleted}` : '';
+
+const DiffRows: React.FC<{ title: string; rows: RawDatasetRow[]; columns: string[]; className: string }> = ({ title, rows, columns, className }) => {
+    if (rows.length === 0) return null;
+    return (
+        <div className="mt-4">
+            <p className="text-xs text-brand-light uppercase font-semibold mb-1">{title}</p>
+            <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                    <thead className="text-xs text-brand-light"><tr>{columns.map(name => <th key={name} className="p-1 whitespace-nowrap">{name}</th>)}</tr></thead>
+                    <tbody>
+                        {rows.map((row, index) => (
+                            <tr key={index} className={className}>
+                                {columns.map(name => <td key={name} className="p-1 whitespace-nowrap">{row[name] ?? ''}</td>)}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+const DiffView: React.FC<{ diff: DatasetDiff }> = ({ diff }) => {
+    const columns = [...new Set([...diff.rows.added, ...diff.rows.removed, ...diff.rows.changed.flatMap(c => [c.before, c.after])].flatMap(row => Object.keys(row)))];
+    const hasSchemaChanges = diff.schema.added.length + diff.schema.removed.length + diff.schema.changed.length > 0;
+
+    return (
+        <div className="mt-4 bg-brand-primary/50 p-4 rounded-lg">
+            <p className="text-sm text-brand-text">
+                v{diff.from.version} → v{diff.to.version}: <span className="text-brand-green">{diff.counts.added} added</span>, <span className="text-brand-red">{diff.counts.removed} removed</span>, <span className="text-yellow-400">{diff.counts.changed} changed</span>, {diff.counts.unchanged} unchanged
+            </p>
+            <p className="text-xs text-brand-light mt-1">
+                {diff.key ? `Rows matched on ${diff.key.join(', ')}.` : 'No unique primary key in both versions, so rows are compared as a whole and changes show as a removal plus an addition.'}
+                {diff.truncated && ' Only the first rows of each kind are shown.'}
+            </p>
+
+            {hasSchemaChanges && (
+                <ul className="mt-3 text-sm text-brand-text list-disc list-inside">
+                    {diff.schema.added.map(name => <li key={`+${name}`}>Column <span className="font-mono">{name}</span> added</li>)}
+                    {diff.schema.removed.map(name => <li key={`-${name}`}>Column <span className="font-mono">{name}</span> removed</li>)}
+                    {diff.schema.changed.map(change => <li key={`~${change.name}`}>Column <span className="font-mono">{change.name}</span> changed from {change.from} to {change.to}</li>)}
+                </ul>
+            )}
+
+            <DiffRows title="Added rows" rows={diff.rows.added} columns={columns} className="text-brand-green" />
+            <DiffRows title="Removed rows" rows={diff.rows.removed} columns={columns} className="text-brand-red line-through" />
+            {diff.rows.changed.length > 0 && (
+                <div className="mt-4">
+                    <p className="text-xs text-brand-light uppercase font-semibold mb-1">Changed rows</p>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm">
+                            <thead className="text-xs text-brand-light"><tr>{columns.map(name => <th key={name} className="p-1 whitespace-nowrap">{name}</th>)}</tr></thead>
+                            <tbody className="divide-y divide-brand-accent/50">
+                                {diff.rows.changed.map(({ before, after }, index) => (
+                                    <tr key={index}>
+                                        {columns.map(name => (
+                                            <td key={name} className="p-1 whitespace-nowrap text-brand-text">
+                                                {(before[name] ?? '') === (after[name] ?? '')
+                                                    ? after[name] ?? ''
+                                                    : <><span className="text-brand-red line-through">{before[name] ?? ''}</span> <span className="text-yellow-400">{after[name] ?? ''}</span></>}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const DatasetVersions: React.FC<DatasetVersionsProps> = ({ dataset, onRolledBack }) => {
+    const [versions, setVersions] = useState<DatasetVersion[]>([]);
+    const [from, setFrom] = useState<number | null>(null);
+    const [to, setTo] = useState<number | null>(null);
+    const [diff, setDiff] = useState<DatasetDiff | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setError(null);
+        listDatasetVersions(dataset.id)
+            .then(list => {
+                setVersions(list);
+                setTo(list[0]?.version ?? null);
+                setFrom(list[1]?.version ?? null);
+            })
+            .catch(err => setError(err instanceof Error ? err.message : 'An unknown error occurred.'));
+    }, [dataset.id, dataset.version]);
+
+    const handleCompare = async () => {
+        if (from === null || to === null) return;
+        setIsBusy(true);
+        setError(null);
+        try {
+            setDiff(await diffDatasetVersions(dataset.id, from, to));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleRollback = async (version: DatasetVersion) => {
+        if (!window.confirm(`Roll '${dataset.name}' back to version ${version.version}? The current state stays available as version ${dataset.version}.`)) return;
+        setIsBusy(true);
+        setError(null);
+        try {
+            setDiff(null);
+            onRolledBack(await rollbackDataset(dataset.id, version.version));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    if (versions.length === 0 && !error) {
+        return <p className="text-sm text-brand-light">No versions recorded yet. A version is created every time data is ingested into this dataset.</p>;
+    }
+
+    const selectClass = 'bg-brand-primary border border-brand-accent rounded-lg py-1.5 px-2 text-sm text-brand-text focus:outline-none focus:ring-2 focus:ring-brand-cyan';
+
+    return (
+        <div>
+            {error && <p className="text-sm text-brand-red mb-3">{error}</p>}
+            <table className="w-full text-left">
+                <thead className="border-b border-brand-accent/50 text-xs text-brand-light uppercase">
+                    <tr>
+                        <th className="p-2">Version</th>
+                        <th className="p-2">Change</th>
+                        <th className="p-2">Rows</th>
+                        <th className="p-2">Created</th>
+                        <th className="p-2"></th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-brand-accent/50">
+                    {versions.map(version => (
+                        <tr key={version.version}>
+                            <td className="p-2 text-sm text-brand-text">
+                                v{version.version}
+                                {version.version === dataset.version && <span className="ml-2 text-xs bg-brand-cyan/20 text-brand-cyan px-2 py-0.5 rounded-full">current</span>}
+                            </td>
+                            <td className="p-2 text-sm text-brand-light">{describeVersion(version)} <span className="text-xs">{describeReport(version)}</span></td>
+                            <td className="p-2 text-sm text-brand-light">{version.rowCount.toLocaleString()}</td>
+                            <td className="p-2 text-sm text-brand-light">{new Date(version.createdAt).toLocaleString()}</td>
+                            <td className="p-2 text-right">
+                                {version.version !== dataset.version && (
+                                    <button onClick={() => handleRollback(version)} disabled={isBusy} aria-label={`Roll back to version ${version.version}`} className="text-brand-light hover:text-brand-cyan disabled:opacity-50">
+                                        <ArrowUturnLeftIcon className="h-5 w-5" />
+                                    </button>
+                                )}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            {versions.length > 1 && (
+                <div className="mt-4 flex items-center space-x-2 text-sm text-brand-light">
+                    <span>Compare</span>
+                    <select value={from ?? ''} onChange={(e) => setFrom(Number(e.target.value))} aria-label="Base version" className={selectClass}>
+                        {versions.map(v => <option key={v.version} value={v.version}>v{v.version}</option>)}
+                    </select>
+                    <span>with</span>
+                    <select value={to ?? ''} onChange={(e) => setTo(Number(e.target.value))} aria-label="Compared version" className={selectClass}>
+                        {versions.map(v => <option key={v.version} value={v.version}>v{v.version}</option>)}
+                    </select>
+                    <button onClick={handleCompare} disabled={isBusy || from === to} className="bg-brand-cyan text-brand-primary px-3 py-1.5 rounded-lg text-sm font-semibold hover:bg-opacity-90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Diff</button>
+                </div>
+            )}
+
+            {diff && <DiffView diff={diff} />}
+        </div>
+    );
+};
@@ -0,0 +1,276 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowPathIcon, TrashIcon, ChevronLeftIcon, ChevronRightIcon, CircleStackIcon } from '@heroicons/react/24/outline';
+import { listDatasets, getDataset, getDatasetRows, updateDataset, deleteDataset } from '../services/datasetService';
+import { SchemaEditor } from './SchemaEditor';
+import { DatasetVersions } from './DatasetVersions';
+import type { DatasetSummary, DatasetDetail, DatasetRowsPage } from '../types';
+
+const PAGE_SIZE = 25;
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+// A dataset to open, e.g. from a citation in an AI answer; the rows given are shown highlighted.
+export interface DatasetFocus {
+    datasetId: string;
+    firstRow?: number;
+    lastRow?: number;
+}
+
+const SOURCE_ORIGINS: Record<DatasetSummary['source']['connector'], string> = {
+    upload: 'Upload',
+    file: 'Server file',
+    'google-drive': 'Google Drive',
+    postgres: 'PostgreSQL',
+    'rest-api': 'REST API',
+};
+
+const sourceLabel = (dataset: DatasetSummary) => {
+    const { connector, format, fileName, filePath, table, url } = dataset.source;
+    const location = fileName ?? filePath ?? table ?? url;
+    return `${SOURCE_ORIGINS[connector]} · ${format.toUpperCase()}${location ? ` · ${location}` : ''}`;
+};
+
+const DatasetPreview: React.FC<{ dataset: DatasetDetail; focus?: DatasetFocus }> = ({ dataset, focus }) => {
+    const [page, setPage] = useState<DatasetRowsPage | null>(null);
+    // Starts on the page holding the first focused row.
+    const [offset, setOffset] = useState(focus?.firstRow ? Math.floor((focus.firstRow - 1) / PAGE_SIZE) * PAGE_SIZE : 0);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setError(null);
+        getDatasetRows(dataset.id, offset, PAGE_SIZE)
+            .then(setPage)
+            .catch(err => setError(err instanceof Error ? err.message : 'An unknown error occurred.'));
+    }, [dataset.id, dataset.schema, offset]);
+
+    if (error) return <p className="text-sm text-brand-red">{error}</p>;
+    if (!page) return <p className="text-sm text-brand-light">Loading rows...</p>;
+
+    const columns = dataset.schema.columns.map(c => c.name);
+    const isFocused = (row: number) => !!focus?.firstRow && row >= focus.firstRow && row <= (focus.lastRow ?? focus.firstRow);
+    return (
+        <div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-left">
+                    <thead className="border-b border-brand-accent/50 text-xs text-brand-light uppercase">
+                        <tr>{columns.map(name => <th key={name} className="p-2 whitespace-nowrap">{name}</th>)}</tr>
+                    </thead>
+                    <tbody className="divide-y divide-brand-accent/50">
+                        {page.rows.map((row, index) => (
+                            <tr key={offset + index} className={isFocused(offset + index + 1) ? 'bg-brand-cyan/10' : ''}>
+                                {columns.map(name => (
+                                    <td key={name} className="p-2 text-sm text-brand-text whitespace-nowrap">
+                                        {row[name] === null ? <span className="text-brand-light">null</span> : String(row[name])}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <div className="mt-3 flex items-center justify-between text-sm text-brand-light">
+                <span>Rows {page.total === 0 ? 0 : offset + 1}–{Math.min(offset + PAGE_SIZE, page.total)} of {page.total.toLocaleString()}</span>
+                <div className="flex items-center space-x-2">
+                    <button aria-label="Previous page" onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))} disabled={offset === 0} className="p-1 rounded hover:bg-brand-accent disabled:opacity-50 disabled:cursor-not-allowed">
+                        <ChevronLeftIcon className="h-5 w-5" />
+                    </button>
+                    <button aria-label="Next page" onClick={() => setOffset(offset + PAGE_SIZE)} disabled={offset + PAGE_SIZE >= page.total} className="p-1 rounded hover:bg-brand-accent disabled:opacity-50 disabled:cursor-not-allowed">
+                        <ChevronRightIcon className="h-5 w-5" />
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface DatasetDetailPanelProps {
+    datasetId: string;
+    onChanged: (dataset: DatasetSummary) => void;
+    onDeleted: (id: string) => void;
+    focus?: DatasetFocus;
+}
+
+const DatasetDetailPanel: React.FC<DatasetDetailPanelProps> = ({ datasetId, onChanged, onDeleted, focus }) => {
+    const [dataset, setDataset] = useState<DatasetDetail | null>(null);
+    const [name, setName] = useState('');
+    const [tags, setTags] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setDataset(null);
+        setError(null);
+        getDataset(datasetId)
+            .then(detail => {
+                setDataset(detail);
+                setName(detail.name);
+                setTags(detail.tags.join(', '));
+            })
+            .catch(err => setError(err instanceof Error ? err.message : 'An unknown error occurred.'));
+    }, [datasetId]);
+
+    if (error) return <div className="bg-brand-secondary p-6 rounded-xl shadow-lg text-sm text-brand-red">{error}</div>;
+    if (!dataset) return <div className="bg-brand-secondary p-6 rounded-xl shadow-lg text-sm text-brand-light">Loading dataset...</div>;
+
+    const handleSave = async () => {
+        setError(null);
+        try {
+            const updated = await updateDataset(dataset.id, { name, tags: tags.split(',') });
+            setDataset({ ...dataset, ...updated });
+            setTags(updated.tags.join(', '));
+            onChanged(updated);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!window.confirm(`Delete dataset '${dataset.name}'? This cannot be undone.`)) return;
+        try {
+            await deleteDataset(dataset.id);
+            onDeleted(dataset.id);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        }
+    };
+
+    const isDirty = name !== dataset.name || tags !== dataset.tags.join(', ');
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-brand-secondary p-6 rounded-xl shadow-lg">
+                <div className="flex justify-between items-start mb-4">
+                    <div>
+                        <h3 className="text-lg font-bold text-brand-text">{dataset.name}</h3>
+                        <p className="text-sm text-brand-light">{sourceLabel(dataset)} · ingested {formatDate(dataset.createdAt)}{dataset.version > 0 ? ` · v${dataset.version}` : ''}</p>
+                        <p className="text-xs text-brand-light mt-1">SQL table: <span className="font-mono text-brand-text">{dataset.table}</span></p>
+                        {dataset.primaryKey && <p className="text-xs text-brand-light mt-1">Primary key: <span className="font-mono text-brand-text">{dataset.primaryKey.join(', ')}</span></p>}
+                    </div>
+                    <button onClick={handleDelete} aria-label="Delete dataset" className="text-brand-light hover:text-brand-red"><TrashIcon className="h-5 w-5" /></button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <label className="text-sm text-brand-light">
+                        Name
+                        <input value={name} onChange={(e) => setName(e.target.value)} className="mt-1 w-full bg-brand-primary border border-brand-accent rounded-lg py-2 px-3 text-brand-text focus:outline-none focus:ring-2 focus:ring-brand-cyan" />
+                    </label>
+                    <label className="text-sm text-brand-light">
+                        Tags (comma separated)
+                        <input value={tags} onChange={(e) => setTags(e.target.value)} className="mt-1 w-full bg-brand-primary border border-brand-accent rounded-lg py-2 px-3 text-brand-text focus:outline-none focus:ring-2 focus:ring-brand-cyan" />
+                    </label>
+                </div>
+                <div className="mt-3 flex justify-end">
+                    <button onClick={handleSave} disabled={!isDirty || !name.trim()} className="bg-brand-cyan text-brand-primary px-4 py-2 rounded-lg text-sm font-semibold hover:bg-opacity-90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Save</button>
+                </div>
+            </div>
+
+            <div className="bg-brand-secondary p-6 rounded-xl shadow-lg">
+                <h3 className="text-lg font-bold text-brand-text mb-4">Schema</h3>
+                <SchemaEditor datasetId={dataset.id} schema={dataset.schema} onSchemaChange={(schema) => setDataset({ ...dataset, schema })} />
+            </div>
+
+            <div className="bg-brand-secondary p-6 rounded-xl shadow-lg">
+                <h3 className="text-lg font-bold text-brand-text mb-4">Versions</h3>
+                <DatasetVersions dataset={dataset} onRolledBack={(detail) => { setDataset(detail); onChanged(detail); }} />
+            </div>
+
+            <div className="bg-brand-secondary p-6 rounded-xl shadow-lg">
+                <h3 className="text-lg font-bold text-brand-text mb-4">Preview</h3>
+                <DatasetPreview dataset={dataset} focus={focus} />
+            </div>
+        </div>
+    );
+};
+
+export const Datasets: React.FC<{ focus?: DatasetFocus | null }> = ({ focus }) => {
+    const [datasets, setDatasets] = useState<DatasetSummary[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(focus?.datasetId ?? null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadDatasets = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setDatasets(await listDatasets());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadDatasets();
+    }, [loadDatasets]);
+
+    const handleChanged = (updated: DatasetSummary) => {
+        setDatasets(datasets.map(d => d.id === updated.id ? updated : d));
+    };
+
+    const handleDeleted = (id: string) => {
+        setDatasets(datasets.filter(d => d.id !== id));
+        setSelectedId(null);
+    };
+
+    return (
+        <div className="container mx-auto">
+            <h1 className="text-2xl md:text-3xl font-bold text-brand-text mb-2">Datasets</h1>
+            <p className="text-brand-light mb-8">Browse, rename, tag and clean up the data you have ingested.</p>
+
+            <div className="bg-brand-secondary p-6 rounded-xl shadow-lg mb-6">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-bold text-brand-text">Catalog</h3>
+                    <button onClick={loadDatasets} aria-label="Refresh datasets" className="text-brand-light hover:text-brand-text">
+                        <ArrowPathIcon className={`h-5 w-5 ${isLoading ? 'animate-spin' : ''}`} />
+                    </button>
+                </div>
+                {error && (
+                    <div className="text-brand-red bg-red-900/20 p-3 rounded-lg mb-4 text-sm">
+                        <p><span className="font-semibold">Error:</span> {error}</p>
+                    </div>
+                )}
+                {!isLoading && !error && datasets.length === 0 ? (
+                    <div className="text-center text-brand-light py-10">
+                        <CircleStackIcon className="h-8 w-8 mx-auto" />
+                        <p className="mt-2 text-sm">No datasets yet. Upload a file from Settings → Connectors.</p>
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead className="border-b border-brand-accent/50 text-xs text-brand-light uppercase">
+                                <tr>
+                                    <th className="p-3">Name</th>
+                                    <th className="p-3">Source</th>
+                                    <th className="p-3">Rows</th>
+                                    <th className="p-3">Columns</th>
+                                    <th className="p-3">Ingested</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-brand-accent/50">
+                                {datasets.map(dataset => (
+                                    <tr
+                                        key={dataset.id}
+                                        onClick={() => setSelectedId(dataset.id)}
+                                        className={`cursor-pointer transition-colors ${selectedId === dataset.id ? 'bg-brand-accent/50' : 'hover:bg-brand-accent/20'}`}
+                                    >
+                                        <td className="p-3">
+                                            <p className="font-medium text-brand-text">{dataset.name}</p>
+                                            <div className="flex flex-wrap gap-1 mt-1">
+                                                {dataset.tags.map(tag => <span key={tag} className="text-xs bg-brand-accent text-brand-text px-2 py-0.5 rounded-full">{tag}</span>)}
+                                            </div>
+                                        </td>
+                                        <td className="p-3 text-sm text-brand-light">{sourceLabel(dataset)}</td>
+                                        <td className="p-3 text-sm text-brand-light">{dataset.rowCount.toLocaleString()}</td>
+                                        <td className="p-3 text-sm text-brand-light">{dataset.columnCount}</td>
+                                        <td className="p-3 text-sm text-brand-light">{formatDate(dataset.createdAt)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {selectedId && <DatasetDetailPanel key={selectedId} datasetId={selectedId} onChanged={handleChanged} onDeleted={handleDeleted} focus={focus?.datasetId === selectedId ? focus : undefined} />}
+        </div>
+    );
+};
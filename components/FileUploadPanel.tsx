@@ -0,0 +1,212 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ArrowUpTrayIcon, CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { SchemaEditor } from './SchemaEditor';
+import { uploadFile, inspectFile, MAX_UPLOAD_BYTES, UPLOAD_EXTENSIONS } from '../services/ingestService';
+import { listDatasets } from '../services/datasetService';
+import type { IngestResult, DatasetSummary, UpsertReport } from '../types';
+
+const UpsertSummary: React.FC<{ report: UpsertReport }> = ({ report }) => (
+    <div className="mt-2 grid grid-cols-5 gap-2 text-center">
+        {([
+            ['Inserted', report.inserted],
+            ['Updated', report.updated],
+            ['Unchanged', report.unchanged],
+            ['Deleted', report.deleted],
+            ['Duplicates', report.duplicates],
+        ] as const).map(([label, count]) => (
+            <div key={label} className="bg-brand-secondary rounded-lg p-2">
+                <p className="text-lg font-bold text-brand-text">{count.toLocaleString()}</p>
+                <p className="text-xs text-brand-light">{label}</p>
+            </div>
+        ))}
+    </div>
+);
+
+export const FileUploadPanel: React.FC = () => {
+    const [isDragging, setIsDragging] = useState(false);
+    const [progress, setProgress] = useState<number | null>(null);
+    const [result, setResult] = useState<IngestResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [pendingWorkbook, setPendingWorkbook] = useState<{ file: File, sheets: string[] } | null>(null);
+    const [selectedSheet, setSelectedSheet] = useState('');
+    const [datasets, setDatasets] = useState<DatasetSummary[]>([]);
+    const [targetDataset, setTargetDataset] = useState('');
+    const [primaryKey, setPrimaryKey] = useState('');
+    const [deleteMissing, setDeleteMissing] = useState(false);
+    const inputRef = useRef<HTMLInputElement | null>(null);
+
+    const isUploading = progress !== null;
+
+    // The target list is a convenience; uploads still work if the catalog can't be loaded.
+    const loadDatasets = () => listDatasets().then(setDatasets).catch(() => setDatasets([]));
+
+    useEffect(() => {
+        loadDatasets();
+    }, []);
+
+    const handleTargetChange = (id: string) => {
+        setTargetDataset(id);
+        setPrimaryKey(datasets.find(d => d.id === id)?.primaryKey?.join(', ') ?? '');
+        if (!id) setDeleteMissing(false);
+    };
+
+    const upload = async (file: File, sheet?: string) => {
+        setPendingWorkbook(null);
+        setProgress(0);
+        try {
+            const keyColumns = primaryKey.split(',').map(c => c.trim()).filter(Boolean);
+            setResult(await uploadFile(file, {
+                sheet,
+                dataset: targetDataset || undefined,
+                primaryKey: keyColumns.length ? keyColumns : undefined,
+                deleteMissing: Boolean(targetDataset) && deleteMissing,
+            }, setProgress));
+            loadDatasets();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    const handleFile = async (file: File) => {
+        setResult(null);
+        setError(null);
+        setPendingWorkbook(null);
+
+        const name = file.name.toLowerCase();
+        if (!UPLOAD_EXTENSIONS.some(ext => name.endsWith(ext))) {
+            setError(`'${file.name}' is not a supported file. Use one of: ${UPLOAD_EXTENSIONS.join(', ')}.`);
+            return;
+        }
+        if (file.size > MAX_UPLOAD_BYTES) {
+            setError(`'${file.name}' exceeds the ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB upload limit.`);
+            return;
+        }
+
+        // Workbooks with several sheets need the user to pick one first.
+        if (name.endsWith('.xlsx') || name.endsWith('.xls')) {
+            try {
+                const { sheets = [] } = await inspectFile(file);
+                if (sheets.length > 1) {
+                    setPendingWorkbook({ file, sheets });
+                    setSelectedSheet(sheets[0]);
+                    return;
+                }
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+                return;
+            }
+        }
+
+        upload(file);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        const file = e.dataTransfer.files[0];
+        if (file && !isUploading) handleFile(file);
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) handleFile(file);
+        e.target.value = '';
+    };
+
+    return (
+        <div className="bg-brand-primary/50 p-4 rounded-lg">
+            <div
+                onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                onClick={() => !isUploading && inputRef.current?.click()}
+                className={`flex flex-col items-center justify-center border-2 border-dashed rounded-lg p-6 cursor-pointer transition-colors ${isDragging ? 'border-brand-cyan bg-brand-cyan/10' : 'border-brand-accent hover:border-brand-light'}`}
+            >
+                <ArrowUpTrayIcon className="h-8 w-8 text-brand-light" />
+                <p className="mt-2 text-sm text-brand-text font-medium">Drag and drop a file, or click to browse</p>
+                <p className="text-xs text-brand-light">CSV, Excel, JSON or NDJSON, up to {MAX_UPLOAD_BYTES / (1024 * 1024)} MB</p>
+                <input ref={inputRef} type="file" accept={UPLOAD_EXTENSIONS.join(',')} className="hidden" onChange={handleChange} />
+            </div>
+
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+                <label className="text-sm text-brand-light">
+                    Import into
+                    <select
+                        value={targetDataset}
+                        onChange={(e) => handleTargetChange(e.target.value)}
+                        disabled={isUploading}
+                        className="mt-1 w-full bg-brand-primary border border-brand-accent rounded-lg py-1.5 px-2 text-sm text-brand-text focus:outline-none focus:ring-2 focus:ring-brand-cyan"
+                    >
+                        <option value="">New dataset</option>
+                        {datasets.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                    </select>
+                </label>
+                <label className="text-sm text-brand-light">
+                    Primary key columns {targetDataset ? '' : '(optional)'}
+                    <input
+                        value={primaryKey}
+                        onChange={(e) => setPrimaryKey(e.target.value)}
+                        disabled={isUploading}
+                        placeholder="e.g. id or region, month"
+                        className="mt-1 w-full bg-brand-primary border border-brand-accent rounded-lg py-1.5 px-2 text-sm text-brand-text focus:outline-none focus:ring-2 focus:ring-brand-cyan"
+                    />
+                </label>
+            </div>
+            {targetDataset && (
+                <label className="mt-2 flex items-center space-x-2 text-sm text-brand-light">
+                    <input type="checkbox" checked={deleteMissing} onChange={(e) => setDeleteMissing(e.target.checked)} disabled={isUploading} className="accent-brand-cyan" />
+                    <span>Delete rows that are missing from the new file</span>
+                </label>
+            )}
+
+            {pendingWorkbook && (
+                <div className="mt-4 flex items-center space-x-2">
+                    <span className="text-sm text-brand-light shrink-0">Sheet</span>
+                    <select
+                        value={selectedSheet}
+                        onChange={(e) => setSelectedSheet(e.target.value)}
+                        aria-label="Sheet to import"
+                        className="flex-grow bg-brand-primary border border-brand-accent rounded-lg py-1.5 px-2 text-sm text-brand-text focus:outline-none focus:ring-2 focus:ring-brand-cyan"
+                    >
+                        {pendingWorkbook.sheets.map(sheet => <option key={sheet} value={sheet}>{sheet}</option>)}
+                    </select>
+                    <button onClick={() => upload(pendingWorkbook.file, selectedSheet)} className="bg-brand-cyan text-brand-primary px-3 py-1.5 rounded-lg text-sm font-semibold hover:bg-opacity-90 transition-colors">Import</button>
+                    <button onClick={() => setPendingWorkbook(null)} className="text-sm text-brand-light hover:text-brand-text px-2">Cancel</button>
+                </div>
+            )}
+
+            {isUploading && (
+                <div className="mt-4">
+                    <div className="flex justify-between text-xs text-brand-light mb-1">
+                        <span>{progress < 100 ? 'Uploading...' : 'Processing...'}</span>
+                        <span>{progress}%</span>
+                    </div>
+                    <div className="h-2 bg-brand-accent rounded-full overflow-hidden">
+                        <div className="h-full bg-brand-cyan transition-all" style={{ width: `${progress}%` }}></div>
+                    </div>
+                </div>
+            )}
+
+            {result && (
+                <div className="mt-4">
+                    <div className="flex items-center space-x-2 text-sm text-brand-green">
+                        <CheckCircleIcon className="h-5 w-5 shrink-0" />
+                        <span>Ingested {result.ingested.toLocaleString()} rows from {result.fileName}{result.sheet ? ` (${result.sheet})` : ''} into {result.dataset.name}.</span>
+                    </div>
+                    {(result.dataset.primaryKey || result.upsert.duplicates > 0) && <UpsertSummary report={result.upsert} />}
+                    <p className="mt-4 mb-2 text-xs text-brand-light uppercase font-semibold">Inferred schema</p>
+                    <SchemaEditor datasetId={result.id} schema={result.schema} onSchemaChange={(schema) => setResult({ ...result, schema })} />
+                </div>
+            )}
+
+            {error && (
+                <div className="mt-4 flex items-center space-x-2 text-brand-red bg-red-900/20 p-3 rounded-lg text-sm">
+                    <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+                    <span>{error}</span>
+                </div>
+            )}
+        </div>
+    );
+};
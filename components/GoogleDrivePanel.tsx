@@ -0,0 +1,274 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CheckCircleIcon, ExclamationTriangleIcon, FolderIcon, DocumentIcon, EyeIcon, EyeSlashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import {
+    getDriveStatus,
+    getDriveAuthUrl,
+    disconnectDrive,
+    listDriveFolder,
+    importDriveFile,
+    untrackDriveFile,
+    watchDriveFolder,
+    unwatchDriveFolder,
+} from '../services/googleDriveService';
+import type { DriveStatus, DriveFolderListing } from '../types';
+
+const ROOT_FOLDER = { id: 'root', name: 'My Drive' };
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+interface GoogleDrivePanelProps {
+    // Called when the connection changes so the connector row can refresh its status.
+    onChange?: () => void;
+}
+
+export const GoogleDrivePanel: React.FC<GoogleDrivePanelProps> = ({ onChange }) => {
+    const [status, setStatus] = useState<DriveStatus | null>(null);
+    const [path, setPath] = useState([ROOT_FOLDER]);
+    const [listing, setListing] = useState<DriveFolderListing | null>(null);
+    const [busy, setBusy] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const folder = path[path.length - 1];
+
+    const loadStatus = useCallback(async () => {
+        try {
+            const next = await getDriveStatus();
+            setStatus(next);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        }
+    }, []);
+
+    const loadFolder = useCallback(async (folderId: string, pageToken?: string) => {
+        try {
+            const page = await listDriveFolder(folderId, pageToken);
+            setListing(previous => pageToken && previous ? { ...page, entries: [...previous.entries, ...page.entries] } : page);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        }
+    }, []);
+
+    useEffect(() => {
+        loadStatus();
+    }, [loadStatus]);
+
+    useEffect(() => {
+        if (status?.connected) loadFolder(folder.id);
+    }, [status?.connected, folder.id, loadFolder]);
+
+    // The OAuth callback page posts its result back to this window before closing.
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            if (event.data?.source !== 'google-drive') return;
+            if (event.data.connected) {
+                setError(null);
+                setNotice(event.data.message);
+            } else {
+                setError(event.data.message);
+            }
+            loadStatus();
+            onChange?.();
+        };
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, [loadStatus, onChange]);
+
+    // Runs one action at a time, identified by `key` so its button can show progress.
+    const run = async (key: string, action: () => Promise<string | void>) => {
+        setBusy(key);
+        setError(null);
+        setNotice(null);
+        try {
+            const message = await action();
+            if (message) setNotice(message);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const connect = () => run('connect', async () => {
+        const url = await getDriveAuthUrl();
+        if (!window.open(url, 'google-drive-auth', 'width=520,height=640')) {
+            window.location.href = url;
+        }
+    });
+
+    const disconnect = () => run('disconnect', async () => {
+        await disconnectDrive();
+        setListing(null);
+        setPath([ROOT_FOLDER]);
+        await loadStatus();
+        onChange?.();
+    });
+
+    const importFile = (fileId: string) => run(fileId, async () => {
+        const result = await importDriveFile(fileId);
+        await Promise.all([loadStatus(), loadFolder(folder.id)]);
+        return `Imported ${result.ingested.toLocaleString()} rows from ${result.fileName}${result.sheet ? ` (${result.sheet})` : ''} into ${result.dataset.name}.`;
+    });
+
+    const toggleWatch = (folderId: string, watched: boolean) => run(folderId, async () => {
+        if (watched) {
+            await unwatchDriveFolder(folderId);
+        } else {
+            await watchDriveFolder(folderId);
+        }
+        await loadStatus();
+    });
+
+    const untrack = (fileId: string) => run(fileId, async () => {
+        await untrackDriveFile(fileId);
+        await Promise.all([loadStatus(), loadFolder(folder.id)]);
+    });
+
+    const openFolder = (id: string, name: string) => {
+        setListing(null);
+        setPath([...path, { id, name }]);
+    };
+
+    const openPathAt = (index: number) => {
+        if (index === path.length - 1) return;
+        setListing(null);
+        setPath(path.slice(0, index + 1));
+    };
+
+    if (!status) {
+        return (
+            <div className="bg-brand-primary/50 p-4 rounded-lg text-sm text-brand-light">
+                {error ?? 'Checking the Google Drive connection...'}
+            </div>
+        );
+    }
+
+    const watchedIds = new Set(status.folders.map(f => f.folderId));
+    const buttonClass = 'bg-brand-primary hover:bg-brand-accent transition-colors px-3 py-1.5 rounded-lg text-sm font-medium disabled:opacity-50';
+
+    return (
+        <div className="bg-brand-primary/50 p-4 rounded-lg space-y-4">
+            {!status.configured ? (
+                <p className="text-sm text-brand-light">
+                    Google Drive is not configured. Set <code>GOOGLE_CLIENT_ID</code> and <code>GOOGLE_CLIENT_SECRET</code> on the backend to enable it.
+                </p>
+            ) : !status.connected ? (
+                <div className="flex items-center justify-between">
+                    <p className="text-sm text-brand-light">Connect a Google account to import CSV, Excel and Google Sheets files.</p>
+                    <button onClick={connect} disabled={busy !== null} className="bg-brand-cyan text-brand-primary px-4 py-2 rounded-lg text-sm font-semibold hover:bg-opacity-90 transition-colors disabled:opacity-50">
+                        Connect Google Drive
+                    </button>
+                </div>
+            ) : (
+                <>
+                    <div className="flex items-center justify-between">
+                        <p className="text-sm text-brand-light">
+                            Connected{status.account ? <> as <span className="text-brand-text">{status.account}</span></> : ''}
+                            {status.connectedAt ? ` since ${formatDate(status.connectedAt)}` : ''}
+                        </p>
+                        <button onClick={disconnect} disabled={busy !== null} className={`${buttonClass} hover:text-brand-red`}>Disconnect</button>
+                    </div>
+
+                    <div>
+                        <div className="flex items-center flex-wrap text-sm mb-2">
+                            {path.map((entry, index) => (
+                                <React.Fragment key={entry.id}>
+                                    {index > 0 && <span className="mx-1 text-brand-light">/</span>}
+                                    <button onClick={() => openPathAt(index)} className={index === path.length - 1 ? 'text-brand-text font-medium' : 'text-brand-light hover:text-brand-cyan'}>
+                                        {entry.name}
+                                    </button>
+                                </React.Fragment>
+                            ))}
+                        </div>
+                        <div className="border border-brand-accent/50 rounded-lg divide-y divide-brand-accent/50 max-h-72 overflow-y-auto">
+                            {!listing && <p className="p-3 text-sm text-brand-light">Loading files...</p>}
+                            {listing && listing.entries.length === 0 && <p className="p-3 text-sm text-brand-light">This folder is empty.</p>}
+                            {listing?.entries.map(entry => (
+                                <div key={entry.id} className="flex items-center justify-between p-2">
+                                    {entry.isFolder ? (
+                                        <button onClick={() => openFolder(entry.id, entry.name)} className="flex items-center space-x-2 text-sm text-brand-text hover:text-brand-cyan">
+                                            <FolderIcon className="h-5 w-5 text-brand-yellow" />
+                                            <span>{entry.name}</span>
+                                        </button>
+                                    ) : (
+                                        <div className={`flex items-center space-x-2 text-sm ${entry.importable ? 'text-brand-text' : 'text-brand-light'}`}>
+                                            <DocumentIcon className="h-5 w-5" />
+                                            <span>{entry.name}</span>
+                                            {entry.datasetId && <span className="text-xs text-brand-green">Synced</span>}
+                                        </div>
+                                    )}
+                                    {entry.isFolder ? (
+                                        <button onClick={() => toggleWatch(entry.id, watchedIds.has(entry.id))} disabled={busy !== null} className={`flex items-center space-x-1 ${buttonClass}`}>
+                                            {watchedIds.has(entry.id) ? <EyeSlashIcon className="h-4 w-4" /> : <EyeIcon className="h-4 w-4" />}
+                                            <span>{watchedIds.has(entry.id) ? 'Unwatch' : 'Watch'}</span>
+                                        </button>
+                                    ) : entry.importable && (
+                                        <button onClick={() => importFile(entry.id)} disabled={busy !== null} className={buttonClass}>
+                                            {busy === entry.id ? 'Importing...' : entry.datasetId ? 'Re-import' : 'Import'}
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                            {listing?.nextPageToken && (
+                                <button onClick={() => loadFolder(folder.id, listing.nextPageToken)} className="w-full p-2 text-sm text-brand-light hover:text-brand-cyan">Load more</button>
+                            )}
+                        </div>
+                    </div>
+
+                    {status.folders.length > 0 && (
+                        <div>
+                            <p className="mb-2 text-xs text-brand-light uppercase font-semibold">Watched folders</p>
+                            <p className="mb-2 text-xs text-brand-light">New files in these folders are imported on each sync.</p>
+                            <ul className="space-y-1">
+                                {status.folders.map(watched => (
+                                    <li key={watched.folderId} className="flex items-center justify-between text-sm">
+                                        <span className="text-brand-text">{watched.name}</span>
+                                        <span className="flex items-center space-x-3 text-xs text-brand-light">
+                                            <span>{watched.syncedAt ? `Synced ${formatDate(watched.syncedAt)}` : 'Not synced yet'}</span>
+                                            <button onClick={() => toggleWatch(watched.folderId, true)} disabled={busy !== null} aria-label={`Stop watching ${watched.name}`} className="hover:text-brand-red">
+                                                <XMarkIcon className="h-4 w-4" />
+                                            </button>
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {status.files.length > 0 && (
+                        <div>
+                            <p className="mb-2 text-xs text-brand-light uppercase font-semibold">Synced files</p>
+                            <ul className="space-y-1">
+                                {status.files.map(file => (
+                                    <li key={file.fileId} className="flex items-center justify-between text-sm">
+                                        <span className="text-brand-text">{file.name}{file.sheet ? ` (${file.sheet})` : ''}</span>
+                                        <span className="flex items-center space-x-3 text-xs text-brand-light">
+                                            <span className="font-mono">{file.datasetId}</span>
+                                            <span>Synced {formatDate(file.syncedAt)}</span>
+                                            <button onClick={() => untrack(file.fileId)} disabled={busy !== null} aria-label={`Stop syncing ${file.name}`} className="hover:text-brand-red">
+                                                <XMarkIcon className="h-4 w-4" />
+                                            </button>
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </>
+            )}
+
+            {notice && (
+                <div className="flex items-center space-x-2 text-sm text-brand-green">
+                    <CheckCircleIcon className="h-5 w-5 shrink-0" />
+                    <span>{notice}</span>
+                </div>
+            )}
+            {error && (
+                <div className="flex items-center space-x-2 text-brand-red bg-red-900/20 p-3 rounded-lg text-sm">
+                    <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+                    <span>{error}</span>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,97 @@
+import React from 'react';
+import { ArrowTrendingUpIcon, ExclamationTriangleIcon, LightBulbIcon, ChartBarIcon } from '@heroicons/react/24/outline';
+import type { Insight, InsightPoint } from '../types';
+
+const SEVERITY_CLASSES: Record<Insight['concerns'][number]['severity'], string> = {
+    high: 'bg-brand-red/20 text-brand-red',
+    medium: 'bg-brand-yellow/20 text-brand-yellow',
+    low: 'bg-brand-light/20 text-brand-light',
+};
+
+interface InsightCardsProps {
+    insight: Insight;
+    // Metrics with a card or chart on the dashboard; links to other metrics are not offered.
+    shownMetrics: string[];
+    onShowMetric: (id: string) => void;
+}
+
+// A structured insight from the analyst: summary, highlights, concerns, actions and the
+// metrics it refers to, each linking to its KPI card or chart when the dashboard shows it.
+export const InsightCards: React.FC<InsightCardsProps> = ({ insight, shownMetrics, onShowMetric }) => {
+    const metricName = (id: string) => insight.metrics.find(m => m.id === id)?.name ?? id;
+
+    const MetricLink: React.FC<{ id: string; label?: string }> = ({ id, label }) => shownMetrics.includes(id) ? (
+        <button
+            onClick={() => onShowMetric(id)}
+            className="inline-flex items-center text-xs text-brand-cyan hover:underline"
+        >
+            <ChartBarIcon className="h-3.5 w-3.5 mr-1" />
+            {label ?? metricName(id)}
+        </button>
+    ) : (
+        <span className="inline-flex items-center text-xs text-brand-light">
+            <ChartBarIcon className="h-3.5 w-3.5 mr-1" />
+            {label ?? metricName(id)}
+        </span>
+    );
+
+    const PointCard: React.FC<{ point: InsightPoint; icon: React.ReactNode; badge?: React.ReactNode }> = ({ point, icon, badge }) => (
+        <div className="bg-brand-primary rounded-lg p-3">
+            <div className="flex items-start justify-between">
+                <p className="flex items-start text-sm font-semibold">
+                    {icon}
+                    {point.title}
+                </p>
+                {badge}
+            </div>
+            {point.detail && <p className="text-xs text-brand-light mt-1">{point.detail}</p>}
+            {point.metric && <div className="mt-2"><MetricLink id={point.metric} /></div>}
+        </div>
+    );
+
+    return (
+        <div className="space-y-3">
+            <p className="text-sm leading-relaxed">{insight.summary}</p>
+
+            {insight.highlights.length > 0 && (
+                <div className="space-y-2">
+                    <h3 className="text-xs uppercase tracking-wide text-brand-light">Highlights</h3>
+                    {insight.highlights.map((point, index) => (
+                        <PointCard key={index} point={point} icon={<ArrowTrendingUpIcon className="h-4 w-4 mr-1.5 mt-0.5 shrink-0 text-brand-green" />} />
+                    ))}
+                </div>
+            )}
+
+            {insight.concerns.length > 0 && (
+                <div className="space-y-2">
+                    <h3 className="text-xs uppercase tracking-wide text-brand-light">Concerns</h3>
+                    {insight.concerns.map((concern, index) => (
+                        <PointCard
+                            key={index}
+                            point={concern}
+                            icon={<ExclamationTriangleIcon className="h-4 w-4 mr-1.5 mt-0.5 shrink-0 text-brand-red" />}
+                            badge={<span className={`ml-2 px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase shrink-0 ${SEVERITY_CLASSES[concern.severity]}`}>{concern.severity}</span>}
+                        />
+                    ))}
+                </div>
+            )}
+
+            {insight.actions.length > 0 && (
+                <div className="space-y-2">
+                    <h3 className="text-xs uppercase tracking-wide text-brand-light">Recommended actions</h3>
+                    {insight.actions.map((action, index) => (
+                        <PointCard key={index} point={action} icon={<LightBulbIcon className="h-4 w-4 mr-1.5 mt-0.5 shrink-0 text-brand-cyan" />} />
+                    ))}
+                </div>
+            )}
+
+            {insight.metrics.length > 0 && (
+                <div className="flex flex-wrap gap-x-3 gap-y-1 pt-1 border-t border-brand-primary">
+                    {insight.metrics.map(metric => (
+                        <MetricLink key={metric.id} id={metric.id} label={metric.value ? `${metric.name}: ${metric.value}` : metric.name} />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -3,7 +3,7 @@ import React from 'react';
 import type { Kpi } from '../types';
 import { ArrowUpIcon, ArrowDownIcon } from '@heroicons/react/24/solid';
 
-export const KpiCard: React.FC<Kpi> = ({ title, value, change, changeType, icon: Icon }) => {
+export const KpiCard: React.FC<Kpi> = ({ title, value, change, changeType, icon: Icon, comparisonPeriod }) => {
   const isIncrease = changeType === 'increase';
   const changeColor = isIncrease ? 'text-brand-green' : 'text-brand-red';
 
@@ -18,13 +18,19 @@ export const KpiCard: React.FC<Kpi> = ({ title, value, change, changeType, icon:
           <Icon className="h-6 w-6 text-brand-text" />
         </div>
       </div>
-      <div className="mt-4 flex items-center space-x-1">
-        <div className={`flex items-center text-sm font-semibold ${changeColor}`}>
-          {isIncrease ? <ArrowUpIcon className="h-4 w-4" /> : <ArrowDownIcon className="h-4 w-4" />}
-          <span>{change}</span>
+      {change && (
+        <div className="mt-4 flex items-center space-x-1">
+          {change === 'n/a' ? (
+            <span className="text-sm font-semibold text-brand-light">n/a</span>
+          ) : (
+            <div className={`flex items-center text-sm font-semibold ${changeColor}`}>
+              {isIncrease ? <ArrowUpIcon className="h-4 w-4" /> : <ArrowDownIcon className="h-4 w-4" />}
+              <span>{change}</span>
+            </div>
+          )}
+          <span className="text-xs text-brand-light">vs {comparisonPeriod ?? 'last month'}</span>
         </div>
-        <span className="text-xs text-brand-light">vs last month</span>
-      </div>
+      )}
     </div>
   );
 };
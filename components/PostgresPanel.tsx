@@ -0,0 +1,244 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowPathIcon, CheckCircleIcon, ExclamationTriangleIcon, PlayIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { previewPostgresSource, listPostgresSyncs, createPostgresSync, deletePostgresSync, runPostgresSync, resetPostgresSync, PostgresSourceInput } from '../services/postgresService';
+import { discoverConnector } from '../services/connectorService';
+import type { DiscoveredStream, PostgresSync, DatasetRow } from '../types';
+
+const inputClass = 'mt-1 w-full bg-brand-primary border border-brand-accent rounded-lg py-1.5 px-2 text-sm text-brand-text focus:outline-none focus:ring-2 focus:ring-brand-cyan';
+const buttonClass = 'bg-brand-primary hover:bg-brand-accent transition-colors px-3 py-1.5 rounded-lg text-sm font-medium disabled:opacity-50';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+const describeSource = (sync: PostgresSync) =>
+    sync.source.kind === 'table' ? `${sync.source.schema}.${sync.source.table}` : 'Saved query';
+
+interface PostgresPanelProps {
+    // The connection (connector instance) whose syncs are shown.
+    connectionId: string;
+    // Called after a sync ran, so the connector row can refresh its status.
+    onChange?: () => void;
+}
+
+export const PostgresPanel: React.FC<PostgresPanelProps> = ({ connectionId, onChange }) => {
+    const [syncs, setSyncs] = useState<PostgresSync[]>([]);
+    const [tables, setTables] = useState<DiscoveredStream[]>([]);
+    const [mode, setMode] = useState<'table' | 'query'>('table');
+    const [table, setTable] = useState('');
+    const [query, setQuery] = useState('');
+    const [syncName, setSyncName] = useState('');
+    const [cursorColumn, setCursorColumn] = useState('');
+    const [primaryKey, setPrimaryKey] = useState('');
+    const [preview, setPreview] = useState<{ columns: string[]; rows: DatasetRow[] } | null>(null);
+    const [busy, setBusy] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const load = useCallback(async () => {
+        try {
+            setSyncs(await listPostgresSyncs(connectionId));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        }
+    }, [connectionId]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    useEffect(() => {
+        discoverConnector(connectionId)
+            .then(setTables)
+            .catch(err => setError(err instanceof Error ? err.message : 'An unknown error occurred.'));
+    }, [connectionId]);
+
+    // Runs one action at a time, identified by `key` so its button can show progress.
+    const run = async (key: string, action: () => Promise<string | void>) => {
+        setBusy(key);
+        setError(null);
+        setNotice(null);
+        try {
+            const message = await action();
+            if (message) setNotice(message);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const source = (): PostgresSourceInput => mode === 'table' ? { table } : { query };
+
+    const showPreview = () => run('preview', async () => {
+        setPreview(await previewPostgresSource(connectionId, source()));
+    });
+
+    const createSync = () => run('create', async () => {
+        const keyColumns = primaryKey.split(',').map(c => c.trim()).filter(Boolean);
+        const sync = await createPostgresSync({
+            ...source(),
+            connectionId,
+            name: syncName.trim() || undefined,
+            cursorColumn: cursorColumn || undefined,
+            primaryKey: keyColumns.length ? keyColumns : undefined,
+        });
+        setSyncName('');
+        setCursorColumn('');
+        setPrimaryKey('');
+        await load();
+        return `Created sync ${sync.name}. Run it to import the data.`;
+    });
+
+    const runSync = (sync: PostgresSync) => run(sync.id, async () => {
+        try {
+            const result = await runPostgresSync(sync.id);
+            return result.status === 'unchanged'
+                ? `${sync.name}: no new rows.`
+                : `${sync.name}: read ${result.fetched.toLocaleString()} rows into ${result.dataset?.name ?? 'its dataset'}.`;
+        } finally {
+            await load();
+            onChange?.();
+        }
+    });
+
+    const resetSync = (sync: PostgresSync) => run(sync.id, async () => {
+        await resetPostgresSync(sync.id);
+        await load();
+        return `${sync.name} will read the whole source on its next run.`;
+    });
+
+    const removeSync = (sync: PostgresSync) => run(sync.id, async () => {
+        await deletePostgresSync(sync.id);
+        await load();
+    });
+
+    const selectedTable = tables.find(t => t.name === table);
+    const sourceColumns = mode === 'table' ? selectedTable?.columns.map(c => c.name) ?? [] : preview?.columns ?? [];
+    const canUseSource = mode === 'table' ? Boolean(table) : Boolean(query.trim());
+
+    return (
+        <div className="bg-brand-primary/50 p-4 rounded-lg space-y-4">
+            <div className="border border-brand-accent/50 rounded-lg p-3 space-y-3">
+                <p className="text-xs text-brand-light uppercase font-semibold">New sync</p>
+                <div className="flex items-center space-x-4 text-sm text-brand-light">
+                    {(['table', 'query'] as const).map(option => (
+                        <label key={option} className="flex items-center space-x-1">
+                            <input type="radio" checked={mode === option} onChange={() => { setMode(option); setPreview(null); setCursorColumn(''); }} className="accent-brand-cyan" />
+                            <span>{option === 'table' ? 'Table' : 'SQL query'}</span>
+                        </label>
+                    ))}
+                </div>
+                {mode === 'table' ? (
+                    <select value={table} onChange={e => { setTable(e.target.value); setPreview(null); setCursorColumn(''); }} aria-label="Table to sync" className={inputClass}>
+                        <option value="">Choose a table...</option>
+                        {tables.map(t => (
+                            <option key={t.name} value={t.name}>{t.name}{t.kind === 'view' ? ' (view)' : ''}</option>
+                        ))}
+                    </select>
+                ) : (
+                    <textarea value={query} onChange={e => { setQuery(e.target.value); setPreview(null); }} rows={4} placeholder="SELECT * FROM orders WHERE status = 'paid'" aria-label="SQL query to sync" className={`${inputClass} font-mono`} />
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <label className="text-sm text-brand-light">Dataset name<input value={syncName} onChange={e => setSyncName(e.target.value)} placeholder="Defaults to the table name" className={inputClass} /></label>
+                    <label className="text-sm text-brand-light">
+                        Cursor column (incremental)
+                        <select value={cursorColumn} onChange={e => setCursorColumn(e.target.value)} disabled={sourceColumns.length === 0} className={inputClass}>
+                            <option value="">None, full refresh</option>
+                            {sourceColumns.map(name => <option key={name} value={name}>{name}</option>)}
+                        </select>
+                    </label>
+                    <label className="text-sm text-brand-light">
+                        Primary key columns {cursorColumn ? '' : '(optional)'}
+                        <input value={primaryKey} onChange={e => setPrimaryKey(e.target.value)} placeholder="e.g. id" className={inputClass} />
+                    </label>
+                </div>
+                {mode === 'query' && sourceColumns.length === 0 && <p className="text-xs text-brand-light">Preview the query to choose a cursor column.</p>}
+                <div className="flex justify-end space-x-2">
+                    <button onClick={showPreview} disabled={busy !== null || !canUseSource} className={buttonClass}>{busy === 'preview' ? 'Loading...' : 'Preview'}</button>
+                    <button onClick={createSync} disabled={busy !== null || !canUseSource} className="bg-brand-cyan text-brand-primary px-3 py-1.5 rounded-lg text-sm font-semibold hover:bg-opacity-90 transition-colors disabled:opacity-50">Create sync</button>
+                </div>
+                {preview && (
+                    <div className="overflow-x-auto max-h-60">
+                        <table className="w-full text-left text-xs">
+                            <thead className="border-b border-brand-accent/50 text-brand-light uppercase">
+                                <tr>{preview.columns.map(name => <th key={name} className="p-2 whitespace-nowrap">{name}</th>)}</tr>
+                            </thead>
+                            <tbody className="divide-y divide-brand-accent/50">
+                                {preview.rows.map((row, index) => (
+                                    <tr key={index}>{preview.columns.map(name => <td key={name} className="p-2 whitespace-nowrap text-brand-text">{String(row[name] ?? '')}</td>)}</tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {syncs.length > 0 && (
+                <div>
+                    <p className="mb-2 text-xs text-brand-light uppercase font-semibold">Syncs</p>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm">
+                            <thead className="border-b border-brand-accent/50 text-xs text-brand-light uppercase">
+                                <tr>
+                                    <th className="p-2">Name</th>
+                                    <th className="p-2">Source</th>
+                                    <th className="p-2">Mode</th>
+                                    <th className="p-2">Last run</th>
+                                    <th className="p-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-brand-accent/50">
+                                {syncs.map(sync => (
+                                    <tr key={sync.id}>
+                                        <td className="p-2 text-brand-text">{sync.name}</td>
+                                        <td className="p-2 text-brand-light">{describeSource(sync)}</td>
+                                        <td className="p-2 text-brand-light">
+                                            {sync.cursorColumn ? `Incremental on ${sync.cursorColumn}` : 'Full refresh'}
+                                            {sync.cursorValue && <span className="block text-xs">Cursor: {sync.cursorValue}</span>}
+                                        </td>
+                                        <td className="p-2">
+                                            {!sync.lastRunAt && <span className="text-brand-light">Never</span>}
+                                            {sync.lastRunAt && sync.lastStatus === 'ok' && (
+                                                <span className="text-brand-light">{formatDate(sync.lastRunAt)} · {(sync.lastRowCount ?? 0).toLocaleString()} rows</span>
+                                            )}
+                                            {sync.lastRunAt && sync.lastStatus === 'error' && (
+                                                <span className="text-brand-red" title={sync.lastError}>{formatDate(sync.lastRunAt)} · {sync.lastError}</span>
+                                            )}
+                                        </td>
+                                        <td className="p-2">
+                                            <div className="flex items-center space-x-3 text-brand-light">
+                                                <button onClick={() => runSync(sync)} disabled={busy !== null} aria-label={`Run ${sync.name}`} className="hover:text-brand-cyan">
+                                                    {busy === sync.id ? <ArrowPathIcon className="h-4 w-4 animate-spin" /> : <PlayIcon className="h-4 w-4" />}
+                                                </button>
+                                                {sync.cursorColumn && (
+                                                    <button onClick={() => resetSync(sync)} disabled={busy !== null} aria-label={`Reset the cursor of ${sync.name}`} className="hover:text-brand-yellow">
+                                                        <ArrowPathIcon className="h-4 w-4" />
+                                                    </button>
+                                                )}
+                                                <button onClick={() => removeSync(sync)} disabled={busy !== null} aria-label={`Delete ${sync.name}`} className="hover:text-brand-red">
+                                                    <TrashIcon className="h-4 w-4" />
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            {notice && (
+                <div className="flex items-center space-x-2 text-sm text-brand-green">
+                    <CheckCircleIcon className="h-5 w-5 shrink-0" />
+                    <span>{notice}</span>
+                </div>
+            )}
+            {error && (
+                <div className="flex items-center space-x-2 text-brand-red bg-red-900/20 p-3 rounded-lg text-sm">
+                    <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+                    <span>{error}</span>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { overrideDatasetSchema } from '../services/datasetService';
+import type { ColumnType, DatasetSchema } from '../types';
+
+const COLUMN_TYPES: ColumnType[] = ['integer', 'decimal', 'currency', 'percentage', 'date', 'boolean', 'enum', 'string'];
+
+interface SchemaEditorProps {
+    datasetId: string;
+    schema: DatasetSchema;
+    onSchemaChange: (schema: DatasetSchema) => void;
+}
+
+export const SchemaEditor: React.FC<SchemaEditorProps> = ({ datasetId, schema, onSchemaChange }) => {
+    const [edits, setEdits] = useState<Record<string, ColumnType>>({});
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const hasEdits = Object.keys(edits).length > 0;
+
+    const handleTypeChange = (name: string, type: ColumnType) => {
+        const current = schema.columns.find(c => c.name === name)?.type;
+        const next = { ...edits };
+        if (type === current) delete next[name]; else next[name] = type;
+        setEdits(next);
+    };
+
+    const handleApply = async () => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            onSchemaChange(await overrideDatasetSchema(datasetId, edits));
+            setEdits({});
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-left">
+                    <thead className="border-b border-brand-accent/50 text-xs text-brand-light uppercase">
+                        <tr>
+                            <th className="p-2">Column</th>
+                            <th className="p-2">Type</th>
+                            <th className="p-2">Invalid</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-brand-accent/50">
+                        {schema.columns.map(column => (
+                            <tr key={column.name}>
+                                <td className="p-2 text-sm font-medium text-brand-text">
+                                    {column.name}
+                                    {column.nullable && <span className="ml-1 text-xs text-brand-light">nullable</span>}
+                                </td>
+                                <td className="p-2">
+                                    <select
+                                        value={edits[column.name] ?? column.type}
+                                        onChange={(e) => handleTypeChange(column.name, e.target.value as ColumnType)}
+                                        aria-label={`Type of ${column.name}`}
+                                        className={`bg-brand-primary border rounded-lg py-1 px-2 text-sm text-brand-text focus:outline-none focus:ring-2 focus:ring-brand-cyan ${column.overridden ? 'border-brand-yellow' : 'border-brand-accent'}`}
+                                    >
+                                        {COLUMN_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                                    </select>
+                                </td>
+                                <td className={`p-2 text-sm ${column.invalidCount > 0 ? 'text-brand-red font-semibold' : 'text-brand-light'}`}>
+                                    {column.invalidCount}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            {error && <p className="mt-2 text-sm text-brand-red">{error}</p>}
+            <div className="mt-3 flex justify-end">
+                <button
+                    onClick={handleApply}
+                    disabled={!hasEdits || isSaving}
+                    className="flex items-center space-x-2 bg-brand-cyan text-brand-primary px-3 py-1.5 rounded-lg text-sm font-semibold hover:bg-opacity-90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <ArrowPathIcon className={`h-4 w-4 ${isSaving ? 'animate-spin' : ''}`} />
+                    <span>Re-run with overrides</span>
+                </button>
+            </div>
+        </div>
+    );
+};
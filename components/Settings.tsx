@@ -1,15 +1,28 @@
-import React, { useState } from 'react';
-import type { Connector, User, ApiKey, Role } from '../types';
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Connector, ConnectorType, DiscoveredStream, User, ApiKey, Role } from '../types';
 import { USERS_DATA, API_KEYS_DATA } from '../constants';
+import { listConnectorTypes, listConnectors, deleteConnector, testConnector, discoverConnector, syncConnector } from '../services/connectorService';
 import { ConnectorStatus } from './ConnectorStatus';
+import { ConnectorForm } from './ConnectorForm';
+import { SyncHistory } from './SyncHistory';
+import { SyncSchedule } from './SyncSchedule';
 import { ToggleSwitch } from './ToggleSwitch';
-import { ShieldCheckIcon, KeyIcon, UsersIcon, LinkIcon, PlusIcon, TrashIcon, DocumentDuplicateIcon } from '@heroicons/react/24/outline';
+import { FileUploadPanel } from './FileUploadPanel';
+import { GoogleDrivePanel } from './GoogleDrivePanel';
+import { PostgresPanel } from './PostgresPanel';
+import {
+    ShieldCheckIcon, KeyIcon, UsersIcon, LinkIcon, PlusIcon, TrashIcon, DocumentDuplicateIcon, ArrowPathIcon, SignalIcon,
+    MagnifyingGlassIcon, PencilIcon, CheckCircleIcon, ExclamationTriangleIcon, XMarkIcon, ClockIcon,
+} from '@heroicons/react/24/outline';
 
 type SettingsTab = 'Connectors' | 'Security' | 'API Keys' | 'Users';
 
-interface SettingsProps {
-    connectors: Connector[];
-}
+const UPLOAD_ICON_URL = 'https://www.svgrepo.com/show/452148/excel.svg';
+// How often the list is refreshed while a connector is syncing, e.g. on its schedule.
+const SYNCING_REFRESH_MS = 5000;
+// Connector types whose instances get a panel of their own below their row.
+const GOOGLE_DRIVE_TYPE = 'google-drive';
+const POSTGRES_TYPE = 'postgres';
 
 const TabButton: React.FC<{active: boolean, onClick: () => void, icon: React.ElementType, label: string}> = ({ active, onClick, icon: Icon, label }) => (
     <button onClick={onClick} className={`flex items-center space-x-2 px-4 py-2 text-sm font-medium rounded-md transition-colors ${active ? 'bg-brand-accent text-brand-text' : 'text-brand-light hover:bg-brand-accent/50 hover:text-brand-text'}`}>
@@ -155,7 +168,121 @@ const UsersTab: React.FC = () => {
     );
 }
 
-const ConnectorsTab: React.FC<{connectors: Connector[]}> = ({ connectors }) => {
+// What Discover found: each table, endpoint or file with its columns and a few sample rows.
+const DiscoveredStreams: React.FC<{ streams: DiscoveredStream[]; onClose: () => void }> = ({ streams, onClose }) => (
+    <div className="bg-brand-primary/50 p-4 rounded-lg space-y-3">
+        <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-brand-text">{streams.length} {streams.length === 1 ? 'stream' : 'streams'} found</h4>
+            <button onClick={onClose} aria-label="Close" className="text-brand-light hover:text-brand-text"><XMarkIcon className="h-4 w-4" /></button>
+        </div>
+        {streams.map(stream => (
+            <div key={stream.name} className="text-sm">
+                <p className="text-brand-text">{stream.name}{stream.kind && <span className="ml-2 text-xs text-brand-light">{stream.kind}</span>}</p>
+                <p className="text-xs text-brand-light">
+                    {stream.columns.map(column => column.type ? `${column.name} (${column.type})` : column.name).join(', ') || 'No columns'}
+                </p>
+                {stream.sampleRows && stream.sampleRows.length > 0 && (
+                    <div className="overflow-x-auto mt-2">
+                        <table className="w-full text-left text-xs">
+                            <thead className="text-brand-light">
+                                <tr>{stream.columns.map(column => <th key={column.name} className="p-1">{column.name}</th>)}</tr>
+                            </thead>
+                            <tbody className="divide-y divide-brand-accent/50">
+                                {stream.sampleRows.map((row, index) => (
+                                    <tr key={index}>{stream.columns.map(column => <td key={column.name} className="p-1 text-brand-text">{row[column.name]}</td>)}</tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        ))}
+    </div>
+);
+
+const ConnectorsTab: React.FC = () => {
+    const [types, setTypes] = useState<ConnectorType[]>([]);
+    const [connectors, setConnectors] = useState<Connector[]>([]);
+    // The form being shown: a type picked from "Add New Connector", or a connector being edited.
+    const [form, setForm] = useState<{ type: ConnectorType; connector?: Connector } | null>(null);
+    const [picking, setPicking] = useState(false);
+    const [streams, setStreams] = useState<{ connectorId: string; streams: DiscoveredStream[] } | null>(null);
+    const [history, setHistory] = useState<{ connectorId: string; runId?: string } | null>(null);
+    const [busy, setBusy] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const reload = useCallback(async () => {
+        try {
+            const [nextTypes, nextConnectors] = await Promise.all([listConnectorTypes(), listConnectors()]);
+            setTypes(nextTypes);
+            setConnectors(nextConnectors);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        }
+    }, []);
+
+    useEffect(() => {
+        reload();
+    }, [reload]);
+
+    const syncing = connectors.some(c => c.status === 'Syncing');
+    useEffect(() => {
+        if (!syncing) return;
+        const timer = window.setInterval(reload, SYNCING_REFRESH_MS);
+        return () => window.clearInterval(timer);
+    }, [syncing, reload]);
+
+    // Runs one action at a time, identified by `key` so its button can show progress.
+    const run = async (key: string, action: () => Promise<string | void>) => {
+        setBusy(key);
+        setError(null);
+        setNotice(null);
+        try {
+            const message = await action();
+            if (message) setNotice(message);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        } finally {
+            setBusy(null);
+            reload();
+        }
+    };
+
+    const test = (connector: Connector) => run(`test-${connector.id}`, () => testConnector(connector.id));
+
+    const discover = (connector: Connector) => run(`discover-${connector.id}`, async () => {
+        setStreams({ connectorId: connector.id, streams: await discoverConnector(connector.id) });
+    });
+
+    const sync = (connector: Connector) => run(`sync-${connector.id}`, async () => {
+        const result = await syncConnector(connector.id);
+        return `${connector.name}: ${result.message}`;
+    });
+
+    const remove = (connector: Connector) => {
+        if (!window.confirm(`Remove ${connector.name}? Datasets it has filled are kept.`)) return;
+        run(`remove-${connector.id}`, async () => {
+            await deleteConnector(connector.id);
+            if (form?.connector?.id === connector.id) setForm(null);
+        });
+    };
+
+    const edit = (connector: Connector) => {
+        const type = types.find(t => t.type === connector.type);
+        if (type) setForm({ type, connector });
+    };
+
+    const saved = (connector: Connector) => {
+        setForm(null);
+        setNotice(`Saved ${connector.name}.`);
+        reload();
+    };
+
+    // Singleton types, e.g. the one Google account, are offered only until they are added.
+    const addableTypes = types.filter(t => !t.singleton || !connectors.some(c => c.type === t.type));
+    const buttonClass = 'flex items-center space-x-1 bg-brand-secondary hover:bg-brand-accent transition-colors px-2 py-1 rounded-md text-xs font-medium disabled:opacity-50';
+
     return (
         <div className="bg-brand-secondary p-6 rounded-xl shadow-lg">
              <div className="flex justify-between items-center mb-4">
@@ -163,22 +290,99 @@ const ConnectorsTab: React.FC<{connectors: Connector[]}> = ({ connectors }) => {
                     <h3 className="text-lg font-bold text-brand-text">Data Connectors</h3>
                     <p className="text-sm text-brand-light">Manage your connected data sources.</p>
                 </div>
-                 <button className="flex items-center space-x-2 bg-brand-cyan text-brand-primary px-4 py-2 rounded-lg text-sm font-semibold hover:bg-opacity-90 transition-colors">
+                 <button onClick={() => { setPicking(!picking); setForm(null); }} className="flex items-center space-x-2 bg-brand-cyan text-brand-primary px-4 py-2 rounded-lg text-sm font-semibold hover:bg-opacity-90 transition-colors">
                     <PlusIcon className="h-5 w-5" />
                     <span>Add New Connector</span>
                 </button>
             </div>
             <div className="space-y-4">
+                {picking && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        {addableTypes.map(type => (
+                            <button
+                                key={type.type}
+                                onClick={() => { setForm({ type }); setPicking(false); }}
+                                className="flex items-start space-x-3 text-left bg-brand-primary hover:bg-brand-accent/50 transition-colors p-3 rounded-lg"
+                            >
+                                <img src={type.iconUrl} alt={`${type.name} logo`} className="h-8 w-8 object-contain shrink-0" />
+                                <div>
+                                    <p className="font-medium text-brand-text">{type.name}</p>
+                                    <p className="text-xs text-brand-light">{type.description}</p>
+                                </div>
+                            </button>
+                        ))}
+                        {addableTypes.length === 0 && <p className="text-sm text-brand-light">Every connector type has been added.</p>}
+                    </div>
+                )}
+                {form && <ConnectorForm key={form.connector?.id ?? form.type.type} {...form} onSaved={saved} onCancel={() => setForm(null)} />}
+                {notice && (
+                    <div className="flex items-center space-x-2 text-sm text-brand-green">
+                        <CheckCircleIcon className="h-5 w-5 shrink-0" />
+                        <span>{notice}</span>
+                    </div>
+                )}
+                {error && (
+                    <div className="flex items-center space-x-2 text-brand-red bg-red-900/20 p-3 rounded-lg text-sm">
+                        <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+                        <span>{error}</span>
+                    </div>
+                )}
                 {connectors.map((connector) => (
-                    <ConnectorStatus key={connector.name} {...connector} />
+                    <div key={connector.id} className="space-y-2">
+                        <ConnectorStatus {...connector} onShowRun={runId => setHistory({ connectorId: connector.id, runId })} />
+                        <div className="flex flex-wrap items-center gap-2">
+                            <button onClick={() => sync(connector)} disabled={busy !== null || connector.status === 'Not connected'} className={buttonClass}>
+                                <ArrowPathIcon className={`h-4 w-4 ${busy === `sync-${connector.id}` || connector.status === 'Syncing' ? 'animate-spin' : ''}`} />
+                                <span>Sync now</span>
+                            </button>
+                            <button onClick={() => test(connector)} disabled={busy !== null} className={buttonClass}>
+                                <SignalIcon className="h-4 w-4" />
+                                <span>Test</span>
+                            </button>
+                            <button onClick={() => discover(connector)} disabled={busy !== null} className={buttonClass}>
+                                <MagnifyingGlassIcon className="h-4 w-4" />
+                                <span>Discover</span>
+                            </button>
+                            <button
+                                onClick={() => setHistory(history?.connectorId === connector.id ? null : { connectorId: connector.id })}
+                                className={buttonClass}
+                            >
+                                <ClockIcon className="h-4 w-4" />
+                                <span>History</span>
+                            </button>
+                            {types.find(t => t.type === connector.type)?.fields.length ? (
+                                <button onClick={() => edit(connector)} disabled={busy !== null} className={buttonClass}>
+                                    <PencilIcon className="h-4 w-4" />
+                                    <span>Edit</span>
+                                </button>
+                            ) : null}
+                            <button onClick={() => remove(connector)} disabled={busy !== null} className={`${buttonClass} hover:text-brand-red`}>
+                                <TrashIcon className="h-4 w-4" />
+                                <span>Remove</span>
+                            </button>
+                        </div>
+                        <SyncSchedule key={connector.schedule ?? ''} connector={connector} onChange={() => reload()} />
+                        {history?.connectorId === connector.id && <SyncHistory connector={connector} runId={history.runId} onClose={() => setHistory(null)} />}
+                        {streams?.connectorId === connector.id && <DiscoveredStreams streams={streams.streams} onClose={() => setStreams(null)} />}
+                        {connector.type === GOOGLE_DRIVE_TYPE && <GoogleDrivePanel onChange={reload} />}
+                        {connector.type === POSTGRES_TYPE && <PostgresPanel connectionId={connector.id} onChange={reload} />}
+                    </div>
                 ))}
+                {connectors.length === 0 && !form && <p className="text-sm text-brand-light">No connectors yet. Use "Add New Connector" to add a data source.</p>}
+                <div className="space-y-2">
+                    <div className="flex items-center space-x-3 p-3 bg-brand-primary rounded-lg">
+                        <img src={UPLOAD_ICON_URL} alt="CSV/Excel Upload logo" className="h-8 w-8 object-contain" />
+                        <span className="font-medium text-brand-text">CSV/Excel Upload</span>
+                    </div>
+                    <FileUploadPanel />
+                </div>
             </div>
         </div>
     );
 };
 
 
-export const Settings: React.FC<SettingsProps> = ({ connectors }) => {
+export const Settings: React.FC = () => {
     const [activeTab, setActiveTab] = useState<SettingsTab>('Security');
 
     const renderTabContent = () => {
@@ -186,7 +390,7 @@ export const Settings: React.FC<SettingsProps> = ({ connectors }) => {
             case 'Security': return <SecurityTab />;
             case 'API Keys': return <ApiKeysTab />;
             case 'Users': return <UsersTab />;
-            case 'Connectors': return <ConnectorsTab connectors={connectors} />;
+            case 'Connectors': return <ConnectorsTab />;
             default: return null;
         }
     };
@@ -1,5 +1,5 @@
 import React from 'react';
-import { ChartPieIcon, AdjustmentsHorizontalIcon, Cog6ToothIcon, QuestionMarkCircleIcon, ArrowLeftOnRectangleIcon, ServerStackIcon } from '@heroicons/react/24/outline';
+import { ChartPieIcon, AdjustmentsHorizontalIcon, Cog6ToothIcon, QuestionMarkCircleIcon, ArrowLeftOnRectangleIcon, ServerStackIcon, CircleStackIcon } from '@heroicons/react/24/outline';
 import type { ActiveView } from '../types';
 
 interface NavItemProps {
@@ -33,6 +33,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ activeView, setActiveView }) =
       <div className="flex-1">
         <nav className="space-y-2">
           <NavItem icon={ChartPieIcon} label="Dashboard" active={activeView === 'dashboard'} onClick={() => setActiveView('dashboard')} />
+          <NavItem icon={CircleStackIcon} label="Datasets" active={activeView === 'datasets'} onClick={() => setActiveView('datasets')} />
           <NavItem icon={Cog6ToothIcon} label="Workflows" active={activeView === 'workflows'} onClick={() => setActiveView('workflows')} />
           <NavItem icon={ServerStackIcon} label="Architecture" active={activeView === 'architecture'} onClick={() => setActiveView('architecture')} />
           <NavItem icon={AdjustmentsHorizontalIcon} label="Settings" active={activeView === 'settings'} onClick={() => setActiveView('settings')} />
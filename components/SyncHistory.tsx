@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { listSyncRuns, getSyncRun } from '../services/connectorService';
+import type { Connector, SyncRun, SyncRunDetail } from '../types';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+const formatDuration = (ms?: number) => {
+    if (ms === undefined) return '—';
+    if (ms < 1000) return `${ms} ms`;
+    const seconds = Math.round(ms / 1000);
+    return seconds < 60 ? `${seconds} s` : `${Math.floor(seconds / 60)} min ${seconds % 60} s`;
+};
+
+const STATUS_CLASSES: Record<SyncRun['status'], string> = {
+    running: 'text-brand-yellow',
+    ok: 'text-brand-green',
+    error: 'text-brand-red',
+};
+
+interface SyncHistoryProps {
+    connector: Connector;
+    // A run whose log is opened straight away, e.g. the one behind an "Error" status.
+    runId?: string;
+    onClose: () => void;
+}
+
+// A connector's past syncs; selecting one shows its log.
+export const SyncHistory: React.FC<SyncHistoryProps> = ({ connector, runId, onClose }) => {
+    const [runs, setRuns] = useState<SyncRun[] | null>(null);
+    const [selected, setSelected] = useState<string | undefined>(runId);
+    const [detail, setDetail] = useState<SyncRunDetail | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        listSyncRuns(connector.id)
+            .then(setRuns)
+            .catch(err => setError(err instanceof Error ? err.message : 'An unknown error occurred.'));
+    }, [connector.id, connector.lastRunId]);
+
+    useEffect(() => {
+        setSelected(runId);
+    }, [runId]);
+
+    useEffect(() => {
+        setDetail(null);
+        if (!selected) return;
+        getSyncRun(connector.id, selected)
+            .then(setDetail)
+            .catch(err => setError(err instanceof Error ? err.message : 'An unknown error occurred.'));
+    }, [connector.id, selected, connector.lastRunId]);
+
+    return (
+        <div className="bg-brand-primary/50 p-4 rounded-lg space-y-3">
+            <div className="flex items-center justify-between">
+                <h4 className="text-sm font-semibold text-brand-text">Sync history</h4>
+                <button onClick={onClose} aria-label="Close" className="text-brand-light hover:text-brand-text"><XMarkIcon className="h-4 w-4" /></button>
+            </div>
+            {error && <p className="text-sm text-brand-red">{error}</p>}
+            {runs && runs.length === 0 && <p className="text-sm text-brand-light">This connector has not synced yet.</p>}
+            {runs && runs.length > 0 && (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-xs">
+                        <thead className="text-brand-light uppercase">
+                            <tr>
+                                <th className="p-2">Started</th>
+                                <th className="p-2">Trigger</th>
+                                <th className="p-2">Status</th>
+                                <th className="p-2">Duration</th>
+                                <th className="p-2">Attempts</th>
+                                <th className="p-2">Rows</th>
+                                <th className="p-2">Error</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-brand-accent/50">
+                            {runs.map(run => (
+                                <tr
+                                    key={run.id}
+                                    onClick={() => setSelected(run.id === selected ? undefined : run.id)}
+                                    className={`cursor-pointer hover:bg-brand-accent/30 ${run.id === selected ? 'bg-brand-accent/30' : ''}`}
+                                >
+                                    <td className="p-2 text-brand-text">{formatDate(run.startedAt)}</td>
+                                    <td className="p-2 text-brand-light">{run.trigger === 'schedule' ? 'Scheduled' : 'Manual'}</td>
+                                    <td className={`p-2 font-semibold ${STATUS_CLASSES[run.status]}`}>{run.status}</td>
+                                    <td className="p-2 text-brand-light">{formatDuration(run.durationMs)}</td>
+                                    <td className="p-2 text-brand-light">{run.attempts}</td>
+                                    <td className="p-2 text-brand-light">{run.rowCount?.toLocaleString() ?? '—'}</td>
+                                    <td className="p-2 text-brand-red truncate max-w-xs" title={run.error}>{run.error}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            {detail && (
+                <div>
+                    <p className="text-xs text-brand-light mb-1">Log of the run started {formatDate(detail.startedAt)}</p>
+                    <ol className="bg-brand-primary rounded-lg p-3 font-mono text-xs space-y-1 max-h-64 overflow-y-auto">
+                        {detail.log.map((entry, index) => (
+                            <li key={index}>
+                                <span className="text-brand-light">{new Date(entry.at).toLocaleTimeString()}</span>{' '}
+                                <span className="text-brand-text">{entry.message}</span>
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            )}
+        </div>
+    );
+};
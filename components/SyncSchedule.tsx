@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { setConnectorSchedule } from '../services/connectorService';
+import type { Connector } from '../types';
+
+const inputClass = 'bg-brand-primary border border-brand-accent rounded-lg py-1 px-2 text-xs text-brand-text focus:outline-none focus:ring-2 focus:ring-brand-cyan';
+
+// Schedules are cron expressions evaluated in UTC.
+const PRESETS = [
+    { label: 'Off', value: '' },
+    { label: 'Every 15 minutes', value: '*/15 * * * *' },
+    { label: 'Hourly', value: '0 * * * *' },
+    { label: 'Daily at 06:00 UTC', value: '0 6 * * *' },
+    { label: 'Weekly on Monday', value: '0 6 * * 1' },
+];
+const CUSTOM = 'custom';
+
+interface SyncScheduleProps {
+    connector: Connector;
+    onChange: (connector: Connector) => void;
+}
+
+export const SyncSchedule: React.FC<SyncScheduleProps> = ({ connector, onChange }) => {
+    const current = connector.schedule ?? '';
+    const [preset, setPreset] = useState(PRESETS.some(p => p.value === current) ? current : CUSTOM);
+    const [expression, setExpression] = useState(current);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const save = async (schedule: string) => {
+        setSaving(true);
+        setError(null);
+        try {
+            onChange(await setConnectorSchedule(connector.id, schedule || null));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const choose = (value: string) => {
+        setPreset(value);
+        if (value === CUSTOM) return;
+        setExpression(value);
+        save(value);
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-brand-light">
+            <span>Sync schedule</span>
+            <select value={preset} onChange={e => choose(e.target.value)} disabled={saving} aria-label="Sync schedule" className={inputClass}>
+                {PRESETS.map(p => <option key={p.label} value={p.value}>{p.label}</option>)}
+                <option value={CUSTOM}>Custom cron...</option>
+            </select>
+            {preset === CUSTOM && (
+                <>
+                    <input value={expression} onChange={e => setExpression(e.target.value)} placeholder="*/30 * * * *" aria-label="Cron expression" className={`${inputClass} font-mono w-36`} />
+                    <button onClick={() => save(expression)} disabled={saving || expression.trim() === current} className="text-brand-cyan hover:underline disabled:opacity-50">Save</button>
+                </>
+            )}
+            {connector.nextSyncAt && <span>Next sync {new Date(connector.nextSyncAt).toLocaleString()}</span>}
+            {error && <span className="text-brand-red">{error}</span>}
+        </div>
+    );
+};
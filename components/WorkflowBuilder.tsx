@@ -0,0 +1,493 @@
+import React, { useState } from 'react';
+import { ArrowDownIcon, ArrowUpIcon, ExclamationTriangleIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { createWorkflow, updateWorkflow, deleteWorkflow, workflowIcon } from '../services/workflowService';
+import { WorkflowScheduleFields, browserTimeZone } from './WorkflowScheduleFields';
+import { WorkflowWebhookFields, WebhookDraft, toWebhookDraft } from './WorkflowWebhookFields';
+import type { Workflow, WorkflowCatalog, WorkflowDefinition, WorkflowField, WorkflowStep, WorkflowStepType } from '../types';
+
+const inputClass = 'mt-1 w-full bg-brand-primary border border-brand-accent rounded-lg py-1.5 px-2 text-sm text-brand-text focus:outline-none focus:ring-2 focus:ring-brand-cyan';
+const buttonClass = 'bg-brand-primary hover:bg-brand-accent transition-colors px-3 py-1.5 rounded-lg text-sm font-medium disabled:opacity-50';
+const iconButtonClass = 'p-1 rounded-md text-brand-light hover:text-brand-text hover:bg-brand-accent disabled:opacity-30 disabled:hover:bg-transparent';
+
+// Matches the backend's limits on step ids and retries.
+const STEP_ID_RE = /^[A-Za-z][A-Za-z0-9_]*$/;
+const MAX_STEP_RETRIES = 5;
+
+const REFERENCE_RE = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const HAS_REFERENCE_RE = /\{\{[^{}]+\}\}/;
+const WHOLE_REFERENCE_RE = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+// A webhook condition: a payload field, a comparison and a value, e.g. `value > 10000`.
+const CONDITION_RE = /^[A-Za-z_$][\w$]*(\.[\w$]+)*\s*(>=|<=|!=|=|>|<)\s*\S/;
+
+// The builder keeps every parameter as text and converts it to its declared type on save.
+// `key` stays the same while a step is renamed or moved.
+interface DraftStep extends Omit<WorkflowStep, 'params'> {
+    key: number;
+    params: Record<string, string>;
+}
+
+interface Draft {
+    title: string;
+    description: string;
+    trigger: WorkflowDefinition['trigger'];
+    webhook: WebhookDraft;
+    steps: DraftStep[];
+}
+
+type Built = Omit<WorkflowDefinition, 'id' | 'enabled'>;
+
+let nextKey = 0;
+
+const toText = (field: WorkflowField, value: unknown): string => {
+    if (value === undefined || value === null) return field.default === undefined ? '' : String(field.default);
+    if (typeof value === 'string') return value;
+    if (field.type === 'json') return JSON.stringify(value, null, 2);
+    return String(value);
+};
+
+const toDraftStep = (step: Omit<WorkflowStep, 'params'> & { params: Record<string, unknown> }, stepType?: WorkflowStepType): DraftStep => ({
+    ...step,
+    key: nextKey++,
+    params: Object.fromEntries(Object.entries(stepType?.inputs ?? {}).map(([name, field]) => [name, toText(field, step.params[name])])),
+});
+
+const toDraft = (catalog: WorkflowCatalog, workflow?: Workflow): Draft => {
+    if (!workflow) {
+        const trigger = catalog.triggers[0];
+        return { title: '', description: '', trigger: { type: trigger.type, name: '', icon: trigger.icon }, webhook: { conditions: '', schema: '' }, steps: [] };
+    }
+    return {
+        title: workflow.title,
+        description: workflow.description,
+        trigger: workflow.trigger,
+        webhook: toWebhookDraft(workflow.trigger),
+        steps: workflow.steps.map(step => toDraftStep(step, catalog.stepTypes.find(t => t.type === step.type))),
+    };
+};
+
+// A step id from the type, e.g. `query_metric` and then `query_metric_2`.
+const uniqueStepId = (type: string, steps: DraftStep[]) => {
+    let id = type;
+    for (let n = 2; steps.some(step => step.id === id); n++) id = `${type}_${n}`;
+    return id;
+};
+
+// Converts a parameter's text to its declared type. Text with references is kept as it is,
+// for the backend to resolve when the workflow runs.
+const toValue = (field: WorkflowField, text: string): unknown => {
+    const trimmed = text.trim();
+    if (!trimmed) {
+        if (field.required && field.default === undefined) throw new Error(`${field.label} is required.`);
+        return undefined;
+    }
+    if (field.type === 'json') {
+        if (WHOLE_REFERENCE_RE.test(trimmed)) return trimmed;
+        try {
+            return JSON.parse(trimmed);
+        } catch {
+            throw new Error(`${field.label} must be valid JSON or a single {{reference}}.`);
+        }
+    }
+    if (HAS_REFERENCE_RE.test(trimmed)) return text;
+    if (field.type === 'number') {
+        const number = Number(trimmed);
+        if (!Number.isFinite(number)) throw new Error(`${field.label} must be a number or a {{reference}}.`);
+        return number;
+    }
+    if (field.type === 'boolean') {
+        if (trimmed !== 'true' && trimmed !== 'false') throw new Error(`${field.label} must be true or false.`);
+        return trimmed === 'true';
+    }
+    if (field.options && !field.options.includes(trimmed)) throw new Error(`${field.label} must be one of: ${field.options.join(', ')}.`);
+    return text;
+};
+
+// The first reference in `text` that cannot resolve: steps must run earlier and have the output.
+const checkReferences = (text: string, earlier: DraftStep[], catalog: WorkflowCatalog): string | null => {
+    for (const [, path] of text.matchAll(REFERENCE_RE)) {
+        const [root, stepId, output] = path.split('.');
+        if (root === 'trigger') continue;
+        if (root !== 'steps') return `'{{${path}}}' must start with 'trigger.' or 'steps.'.`;
+        const step = earlier.find(candidate => candidate.id === stepId);
+        if (!step) return `'{{${path}}}' refers to step '${stepId}', which does not run before this one.`;
+        const outputs = catalog.stepTypes.find(t => t.type === step.type)?.outputs ?? {};
+        if (output !== undefined && !(output in outputs)) {
+            return `Step '${stepId}' has no output '${output}'; it has: ${Object.keys(outputs).join(', ')}.`;
+        }
+    }
+    return null;
+};
+
+// Only schedule triggers keep their schedule settings, and webhook triggers their webhook ones.
+const toTrigger = ({ type, name, icon, cron, timezone, catchUp, auth, schema, conditions }: WorkflowDefinition['trigger']): WorkflowDefinition['trigger'] => {
+    if (type === 'schedule') return { type, name: name.trim(), icon, cron: cron?.trim(), timezone: timezone?.trim() || 'UTC', catchUp };
+    if (type === 'webhook') return { type, name: name.trim(), icon, auth: auth ?? 'api_key', schema, conditions };
+    return { type, name: name.trim(), icon };
+};
+
+// The conditions and schema of a webhook trigger from their text.
+const toWebhook = (webhook: WebhookDraft, errors: Record<string, string>): Pick<WorkflowDefinition['trigger'], 'schema' | 'conditions'> => {
+    const conditions = webhook.conditions.split('\n').map(line => line.trim()).filter(Boolean);
+    const invalid = conditions.find(condition => !CONDITION_RE.test(condition));
+    if (invalid) errors.conditions = `'${invalid}' must be a payload field, a comparison and a value, e.g. value > 10000.`;
+    let schema: Record<string, unknown> | undefined;
+    if (webhook.schema.trim()) {
+        try {
+            schema = JSON.parse(webhook.schema);
+        } catch {
+            errors.schema = 'The schema must be valid JSON.';
+        }
+        if (schema !== undefined && (schema === null || typeof schema !== 'object' || Array.isArray(schema))) {
+            errors.schema = 'The schema must be a JSON object, e.g. { "type": "object" }.';
+        }
+    }
+    return { schema, conditions: conditions.length > 0 ? conditions : undefined };
+};
+
+/**
+ * Builds the definition to save, with an error for each field that needs fixing, keyed
+ * 'title', 'trigger', 'cron', 'conditions', 'schema', 'steps', 'steps.<index>.id' or 'steps.<index>.params.<name>'.
+ */
+const build = (draft: Draft, catalog: WorkflowCatalog): { definition: Built; errors: Record<string, string> } => {
+    const errors: Record<string, string> = {};
+    if (!draft.title.trim()) errors.title = 'A title is required.';
+    if (!draft.trigger.name.trim()) errors.trigger = 'Describe the trigger, e.g. "Every Monday at 9:00".';
+    if (draft.trigger.type === 'schedule' && !draft.trigger.cron?.trim()) errors.cron = 'A cron expression is required.';
+    const webhook = draft.trigger.type === 'webhook' ? toWebhook(draft.webhook, errors) : {};
+    if (draft.steps.length === 0) errors.steps = 'Add at least one step.';
+
+    const steps = draft.steps.map((step, index): WorkflowStep => {
+        const prefix = `steps.${index}`;
+        if (!STEP_ID_RE.test(step.id)) errors[`${prefix}.id`] = 'Use letters, digits and underscores, starting with a letter.';
+        else if (draft.steps.findIndex(other => other.id === step.id) !== index) errors[`${prefix}.id`] = `Another step has the id '${step.id}'.`;
+
+        const params: Record<string, unknown> = {};
+        const inputs = catalog.stepTypes.find(t => t.type === step.type)?.inputs ?? {};
+        for (const [name, field] of Object.entries(inputs)) {
+            const text = step.params[name] ?? '';
+            const referenceError = checkReferences(text, draft.steps.slice(0, index), catalog);
+            if (referenceError) {
+                errors[`${prefix}.params.${name}`] = referenceError;
+                continue;
+            }
+            try {
+                const value = toValue(field, text);
+                if (value !== undefined) params[name] = value;
+            } catch (err) {
+                errors[`${prefix}.params.${name}`] = err instanceof Error ? err.message : String(err);
+            }
+        }
+        const { key, ...rest } = step;
+        return { ...rest, name: step.name.trim(), description: step.description.trim(), params };
+    });
+
+    return {
+        definition: { title: draft.title.trim(), description: draft.description.trim(), trigger: toTrigger({ ...draft.trigger, ...webhook }), steps },
+        errors,
+    };
+};
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+    message ? <span className="block mt-1 text-xs text-brand-red">{message}</span> : null;
+
+interface WorkflowBuilderProps {
+    catalog: WorkflowCatalog;
+    // The workflow being edited; a new one is created without it.
+    workflow?: Workflow;
+    onSaved: (workflow: WorkflowDefinition) => void;
+    onDeleted: () => void;
+    onCancel: () => void;
+}
+
+// Edits a workflow: its trigger, and a chain of steps from the step catalog with their parameters.
+export const WorkflowBuilder: React.FC<WorkflowBuilderProps> = ({ catalog, workflow, onSaved, onDeleted, onCancel }) => {
+    const [draft, setDraft] = useState<Draft>(() => toDraft(catalog, workflow));
+    const [picking, setPicking] = useState(false);
+    // Field errors show once saving has been tried, and then update as the fields change.
+    const [attempted, setAttempted] = useState(false);
+    const [busy, setBusy] = useState<'save' | 'delete' | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const { definition, errors } = build(draft, catalog);
+    const shownErrors = attempted ? errors : {};
+
+    const updateStep = (key: number, changes: Partial<DraftStep>) =>
+        setDraft(current => ({ ...current, steps: current.steps.map(step => step.key === key ? { ...step, ...changes } : step) }));
+
+    const updateParam = (step: DraftStep, name: string, text: string) => updateStep(step.key, { params: { ...step.params, [name]: text } });
+
+    const moveStep = (index: number, offset: number) => setDraft(current => {
+        const steps = [...current.steps];
+        [steps[index], steps[index + offset]] = [steps[index + offset], steps[index]];
+        return { ...current, steps };
+    });
+
+    const removeStep = (key: number) => setDraft(current => ({ ...current, steps: current.steps.filter(step => step.key !== key) }));
+
+    const addStep = (stepType: WorkflowStepType) => {
+        setDraft(current => ({
+            ...current,
+            steps: [...current.steps, toDraftStep({
+                id: uniqueStepId(stepType.type, current.steps),
+                type: stepType.type,
+                name: stepType.label,
+                description: '',
+                icon: stepType.icon,
+                params: {},
+                onError: 'stop',
+                retries: 0,
+            }, stepType)],
+        }));
+        setPicking(false);
+    };
+
+    const changeTrigger = (type: string) => {
+        const option = catalog.triggers.find(t => t.type === type);
+        if (!option) return;
+        setDraft(current => ({
+            ...current,
+            trigger: {
+                ...current.trigger,
+                type: option.type,
+                icon: option.icon,
+                ...(option.type === 'schedule' && !current.trigger.cron ? { cron: '0 9 * * 1', timezone: browserTimeZone(), catchUp: 'once' as const } : {}),
+            },
+        }));
+    };
+
+    const run = async (key: 'save' | 'delete', action: () => Promise<void>) => {
+        setBusy(key);
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const save = (event: React.FormEvent) => {
+        event.preventDefault();
+        setAttempted(true);
+        if (Object.keys(errors).length > 0) {
+            setError('Some fields need fixing before the workflow can be saved.');
+            return;
+        }
+        run('save', async () => {
+            onSaved(workflow
+                ? await updateWorkflow({ ...definition, id: workflow.id, enabled: workflow.enabled })
+                : await createWorkflow({ ...definition, enabled: false }));
+        });
+    };
+
+    const remove = () => {
+        if (!workflow || !window.confirm(`Delete "${workflow.title}" and its run history?`)) return;
+        run('delete', async () => {
+            await deleteWorkflow(workflow.id);
+            onDeleted();
+        });
+    };
+
+    const renderParam = (step: DraftStep, name: string, field: WorkflowField, fieldError?: string) => {
+        const text = step.params[name] ?? '';
+        const onText = (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => updateParam(step, name, event.target.value);
+        let input: React.ReactNode;
+        if (field.options || field.type === 'boolean') {
+            const options = field.options ?? ['true', 'false'];
+            input = (
+                <select value={text} onChange={onText} className={inputClass}>
+                    {!field.required && field.default === undefined && <option value="">—</option>}
+                    {options.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+            );
+        } else if (field.type === 'json' || field.multiline) {
+            input = <textarea value={text} onChange={onText} rows={3} className={`${inputClass} ${field.type === 'json' ? 'font-mono' : ''}`} />;
+        } else {
+            input = <input value={text} onChange={onText} className={inputClass} />;
+        }
+        return (
+            <label key={name} className={`text-sm text-brand-light ${field.type === 'json' || field.multiline ? 'md:col-span-2' : ''}`}>
+                {field.label}{field.required && <span className="text-brand-red"> *</span>}
+                {input}
+                {field.description && <span className="block mt-1 text-xs text-brand-light/80">{field.description}</span>}
+                <FieldError message={fieldError} />
+            </label>
+        );
+    };
+
+    // The references a step can use: the outputs of the steps before it.
+    const referencesBefore = (index: number) => draft.steps.slice(0, index).flatMap(step =>
+        Object.keys(catalog.stepTypes.find(t => t.type === step.type)?.outputs ?? {}).map(output => `{{steps.${step.id}.${output}}}`));
+
+    const triggerOption = catalog.triggers.find(t => t.type === draft.trigger.type);
+
+    return (
+        <form onSubmit={save} className="bg-brand-secondary p-6 rounded-xl shadow-lg space-y-6">
+            <h3 className="text-lg font-bold text-brand-text">{workflow ? `Edit ${workflow.title}` : 'New workflow'}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <label className="text-sm text-brand-light">
+                    Title<span className="text-brand-red"> *</span>
+                    <input value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} className={inputClass} />
+                    <FieldError message={shownErrors.title} />
+                </label>
+                <label className="text-sm text-brand-light">
+                    Description
+                    <input value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} className={inputClass} />
+                </label>
+            </div>
+
+            <div>
+                <p className="text-xs text-brand-light uppercase font-semibold mb-2">Trigger</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 bg-brand-primary/50 p-4 rounded-lg">
+                    <label className="text-sm text-brand-light">
+                        Type
+                        <select value={draft.trigger.type} onChange={e => changeTrigger(e.target.value)} className={inputClass}>
+                            {catalog.triggers.map(option => <option key={option.type} value={option.type}>{option.label}</option>)}
+                        </select>
+                        {triggerOption && <span className="block mt-1 text-xs text-brand-light/80">{triggerOption.description}</span>}
+                    </label>
+                    <label className="text-sm text-brand-light">
+                        Shown as<span className="text-brand-red"> *</span>
+                        <input
+                            value={draft.trigger.name}
+                            onChange={e => setDraft({ ...draft, trigger: { ...draft.trigger, name: e.target.value } })}
+                            placeholder="e.g. Every Monday at 9:00"
+                            className={inputClass}
+                        />
+                        <FieldError message={shownErrors.trigger} />
+                    </label>
+                    {draft.trigger.type === 'schedule' && (
+                        <WorkflowScheduleFields trigger={draft.trigger} onChange={trigger => setDraft({ ...draft, trigger })} error={shownErrors.cron} />
+                    )}
+                    {draft.trigger.type === 'webhook' && (
+                        <WorkflowWebhookFields
+                            trigger={draft.trigger}
+                            onChange={trigger => setDraft({ ...draft, trigger })}
+                            webhook={draft.webhook}
+                            onWebhookChange={webhook => setDraft({ ...draft, webhook })}
+                            errors={{ conditions: shownErrors.conditions, schema: shownErrors.schema }}
+                        />
+                    )}
+                </div>
+            </div>
+
+            <div>
+                <p className="text-xs text-brand-light uppercase font-semibold mb-2">Steps</p>
+                <ol className="space-y-3">
+                    {draft.steps.map((step, index) => {
+                        const stepType = catalog.stepTypes.find(t => t.type === step.type);
+                        const StepIcon = workflowIcon(step.icon);
+                        const prefix = `steps.${index}`;
+                        const references = referencesBefore(index);
+                        return (
+                            <li key={step.key} className="bg-brand-primary/50 p-4 rounded-lg space-y-3">
+                                <div className="flex items-center justify-between">
+                                    <div className="flex items-center space-x-3">
+                                        <span className="text-xs text-brand-light">{index + 1}</span>
+                                        <div className="bg-brand-accent rounded-full p-1.5">
+                                            <StepIcon className="h-5 w-5 text-brand-text" />
+                                        </div>
+                                        <span className="text-sm font-medium text-brand-text">{stepType?.label ?? step.type}</span>
+                                    </div>
+                                    <div className="flex items-center space-x-1">
+                                        <button type="button" onClick={() => moveStep(index, -1)} disabled={index === 0} aria-label="Move up" className={iconButtonClass}>
+                                            <ArrowUpIcon className="h-4 w-4" />
+                                        </button>
+                                        <button type="button" onClick={() => moveStep(index, 1)} disabled={index === draft.steps.length - 1} aria-label="Move down" className={iconButtonClass}>
+                                            <ArrowDownIcon className="h-4 w-4" />
+                                        </button>
+                                        <button type="button" onClick={() => removeStep(step.key)} aria-label="Remove step" className={`${iconButtonClass} hover:text-brand-red`}>
+                                            <TrashIcon className="h-4 w-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                    <label className="text-sm text-brand-light">
+                                        Name
+                                        <input value={step.name} onChange={e => updateStep(step.key, { name: e.target.value })} className={inputClass} />
+                                    </label>
+                                    <label className="text-sm text-brand-light">
+                                        Id
+                                        <input value={step.id} onChange={e => updateStep(step.key, { id: e.target.value })} className={`${inputClass} font-mono`} />
+                                        <FieldError message={shownErrors[`${prefix}.id`]} />
+                                    </label>
+                                    <label className="text-sm text-brand-light md:col-span-2">
+                                        Description
+                                        <input value={step.description} onChange={e => updateStep(step.key, { description: e.target.value })} className={inputClass} />
+                                    </label>
+                                    {Object.entries<WorkflowField>(stepType?.inputs ?? {}).map(([name, field]) => renderParam(step, name, field, shownErrors[`${prefix}.params.${name}`]))}
+                                    <label className="text-sm text-brand-light">
+                                        If it still fails
+                                        <select value={step.onError} onChange={e => updateStep(step.key, { onError: e.target.value as DraftStep['onError'] })} className={inputClass}>
+                                            <option value="stop">Stop the run</option>
+                                            <option value="continue">Continue with the next step</option>
+                                        </select>
+                                    </label>
+                                    <label className="text-sm text-brand-light">
+                                        Retries
+                                        <select value={step.retries} onChange={e => updateStep(step.key, { retries: Number(e.target.value) })} className={inputClass}>
+                                            {Array.from({ length: MAX_STEP_RETRIES + 1 }, (_, n) => <option key={n} value={n}>{n}</option>)}
+                                        </select>
+                                    </label>
+                                </div>
+                                <p className="text-xs text-brand-light">
+                                    Parameters can use <code className="text-brand-cyan">{draft.trigger.type === 'schedule' ? '{{trigger.scheduledFor}}' : '{{trigger.<field>}}'}</code>
+                                    {references.length > 0 && <>, {references.map(reference => <code key={reference} className="text-brand-cyan mr-1">{reference}</code>)}</>}
+                                </p>
+                            </li>
+                        );
+                    })}
+                </ol>
+                <FieldError message={shownErrors.steps} />
+                <button type="button" onClick={() => setPicking(!picking)} className="mt-3 flex items-center space-x-2 bg-brand-primary hover:bg-brand-accent transition-colors px-3 py-1.5 rounded-lg text-sm font-medium">
+                    <PlusIcon className="h-4 w-4" />
+                    <span>Add step</span>
+                </button>
+                {picking && (
+                    <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-3">
+                        {catalog.stepTypes.map(stepType => {
+                            const TypeIcon = workflowIcon(stepType.icon);
+                            return (
+                                <button
+                                    type="button"
+                                    key={stepType.type}
+                                    onClick={() => addStep(stepType)}
+                                    className="flex items-start space-x-3 text-left bg-brand-primary hover:bg-brand-accent/50 transition-colors p-3 rounded-lg"
+                                >
+                                    <TypeIcon className="h-6 w-6 text-brand-cyan shrink-0" />
+                                    <div>
+                                        <p className="font-medium text-brand-text">{stepType.label}</p>
+                                        <p className="text-xs text-brand-light">{stepType.description}</p>
+                                    </div>
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+
+            {error && (
+                <div className="flex items-center space-x-2 text-brand-red bg-red-900/20 p-3 rounded-lg text-sm">
+                    <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+                    <span>{error}</span>
+                </div>
+            )}
+            <div className="flex items-center justify-between">
+                <div>
+                    {workflow && (
+                        <button type="button" onClick={remove} disabled={busy !== null} className={`${buttonClass} hover:text-brand-red`}>
+                            {busy === 'delete' ? 'Deleting...' : 'Delete workflow'}
+                        </button>
+                    )}
+                </div>
+                <div className="flex items-center space-x-2">
+                    <button type="button" onClick={onCancel} disabled={busy !== null} className={buttonClass}>Cancel</button>
+                    <button type="submit" disabled={busy !== null} className="bg-brand-cyan text-brand-primary px-4 py-1.5 rounded-lg text-sm font-semibold hover:bg-opacity-90 transition-colors disabled:opacity-50">
+                        {busy === 'save' ? 'Saving...' : workflow ? 'Save' : 'Create workflow'}
+                    </button>
+                </div>
+            </div>
+        </form>
+    );
+};
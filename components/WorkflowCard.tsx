@@ -1,15 +1,39 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import type { Workflow } from '../types';
 import { ChevronRightIcon } from '@heroicons/react/24/solid';
+import { ArrowPathIcon, BoltIcon, ClockIcon, PencilIcon, PlayIcon } from '@heroicons/react/24/outline';
 import { ToggleSwitch } from './ToggleSwitch';
+import { WorkflowRuns, RUN_STATUS_CLASSES } from './WorkflowRuns';
+import { WorkflowWebhook } from './WorkflowWebhook';
+import { workflowIcon } from '../services/workflowService';
+
+const buttonClass = 'flex items-center space-x-1 bg-brand-primary/50 hover:bg-brand-accent transition-colors px-2 py-1 rounded-md text-xs font-medium disabled:opacity-50';
 
 interface WorkflowCardProps {
   workflow: Workflow;
-  onToggle: (id: number, enabled: boolean) => void;
+  onToggle: (id: string, enabled: boolean) => void;
+  onEdit: (workflow: Workflow) => void;
+  // Starts a run straight away, whatever the trigger and whether or not the workflow is enabled.
+  onRun: (workflow: Workflow) => Promise<void>;
 }
 
-export const WorkflowCard: React.FC<WorkflowCardProps> = ({ workflow, onToggle }) => {
+export const WorkflowCard: React.FC<WorkflowCardProps> = ({ workflow, onToggle, onEdit, onRun }) => {
+  const [showRuns, setShowRuns] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const running = starting || workflow.lastRun?.status === 'running';
+
+  const runNow = async () => {
+    setStarting(true);
+    try {
+      await onRun(workflow);
+      setShowRuns(true);
+    } finally {
+      setStarting(false);
+    }
+  };
+  const TriggerIcon = workflowIcon(workflow.trigger.icon, BoltIcon);
+
   return (
     <div className="bg-brand-secondary p-6 rounded-xl shadow-lg flex flex-col h-full transition-transform hover:scale-105 duration-300">
       <div className="flex justify-between items-start mb-4">
@@ -22,19 +46,28 @@ export const WorkflowCard: React.FC<WorkflowCardProps> = ({ workflow, onToggle }
         <div>
             <p className="text-xs text-brand-light uppercase font-semibold mb-2">Trigger</p>
             <div className="flex items-center space-x-2 bg-brand-primary/50 p-2 rounded-lg">
-                <workflow.trigger.icon className="h-5 w-5 text-brand-cyan" />
+                <TriggerIcon className="h-5 w-5 text-brand-cyan" />
                 <span className="text-sm text-brand-text font-medium">{workflow.trigger.name}</span>
             </div>
+            {workflow.trigger.type === 'schedule' && (
+                <p className="mt-1 text-xs text-brand-light">
+                    <span className="font-mono">{workflow.trigger.cron}</span> ({workflow.trigger.timezone})
+                    {workflow.nextRunAt ? ` · next run ${new Date(workflow.nextRunAt).toLocaleString()}` : workflow.enabled ? '' : ' · off'}
+                </p>
+            )}
+            {workflow.trigger.type === 'webhook' && <WorkflowWebhook workflow={workflow} />}
         </div>
 
         <div>
             <p className="text-xs text-brand-light uppercase font-semibold mb-2">Actions</p>
             <div className="space-y-3">
-                {workflow.steps.map((step, index) => (
-                    <div key={index} className="flex items-center">
+                {workflow.steps.map((step, index) => {
+                  const StepIcon = workflowIcon(step.icon);
+                  return (
+                    <div key={step.id} className="flex items-center">
                         <div className="flex items-center space-x-3 flex-1">
                             <div className="bg-brand-accent rounded-full p-1.5">
-                               <step.icon className="h-5 w-5 text-brand-text" />
+                               <StepIcon className="h-5 w-5 text-brand-text" />
                             </div>
                             <div>
                                 <p className="text-sm font-medium text-brand-text">{step.name}</p>
@@ -45,8 +78,37 @@ export const WorkflowCard: React.FC<WorkflowCardProps> = ({ workflow, onToggle }
                             <ChevronRightIcon className="h-5 w-5 text-brand-accent shrink-0 mx-2"/>
                         )}
                     </div>
-                ))}
+                  );
+                })}
+            </div>
+        </div>
+
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <button onClick={runNow} disabled={running} className={buttonClass}>
+                        {running ? <ArrowPathIcon className="h-4 w-4 animate-spin" /> : <PlayIcon className="h-4 w-4" />}
+                        <span>Run now</span>
+                    </button>
+                    <button onClick={() => setShowRuns(!showRuns)} className={buttonClass}>
+                        <ClockIcon className="h-4 w-4" />
+                        <span>Runs</span>
+                    </button>
+                    <button onClick={() => onEdit(workflow)} className={buttonClass}>
+                        <PencilIcon className="h-4 w-4" />
+                        <span>Edit</span>
+                    </button>
+                </div>
+                {workflow.lastRun ? (
+                    <span className="text-xs text-brand-light">
+                        Last run {new Date(workflow.lastRun.startedAt).toLocaleString()}:{' '}
+                        <span className={`font-semibold ${RUN_STATUS_CLASSES[workflow.lastRun.status]}`}>{workflow.lastRun.status}</span>
+                    </span>
+                ) : (
+                    <span className="text-xs text-brand-light">Never run</span>
+                )}
             </div>
+            {showRuns && <WorkflowRuns workflow={workflow} onClose={() => setShowRuns(false)} />}
         </div>
       </div>
     </div>
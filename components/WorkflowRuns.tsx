@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { listWorkflowRuns, getWorkflowRun } from '../services/workflowService';
+import type { Workflow, WorkflowRun, WorkflowRunSummary, StepRun } from '../types';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+const formatDuration = (ms?: number) => {
+    if (ms === undefined) return '—';
+    if (ms < 1000) return `${ms} ms`;
+    const seconds = Math.round(ms / 1000);
+    return seconds < 60 ? `${seconds} s` : `${Math.floor(seconds / 60)} min ${seconds % 60} s`;
+};
+
+export const RUN_STATUS_CLASSES: Record<WorkflowRunSummary['status'], string> = {
+    running: 'text-brand-yellow',
+    ok: 'text-brand-green',
+    partial: 'text-brand-yellow',
+    error: 'text-brand-red',
+};
+
+const TRIGGER_LABELS: Record<WorkflowRunSummary['trigger'], string> = {
+    manual: 'Manual',
+    schedule: 'Scheduled',
+    webhook: 'Webhook',
+};
+
+const STEP_STATUS_CLASSES: Record<StepRun['status'], string> = {
+    pending: 'text-brand-light',
+    running: 'text-brand-yellow',
+    ok: 'text-brand-green',
+    error: 'text-brand-red',
+    skipped: 'text-brand-light',
+};
+
+interface WorkflowRunsProps {
+    workflow: Workflow;
+    onClose: () => void;
+}
+
+// A workflow's past runs; selecting one shows each step's status, data and log.
+export const WorkflowRuns: React.FC<WorkflowRunsProps> = ({ workflow, onClose }) => {
+    const [runs, setRuns] = useState<WorkflowRunSummary[] | null>(null);
+    const [selected, setSelected] = useState<string | undefined>();
+    const [detail, setDetail] = useState<WorkflowRun | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    // Refetched whenever the latest run changes, including while it runs.
+    const lastRunKey = workflow.lastRun && `${workflow.lastRun.id}-${workflow.lastRun.status}`;
+
+    useEffect(() => {
+        listWorkflowRuns(workflow.id)
+            .then(setRuns)
+            .catch(err => setError(err instanceof Error ? err.message : 'An unknown error occurred.'));
+    }, [workflow.id, lastRunKey]);
+
+    useEffect(() => {
+        setDetail(null);
+        if (!selected) return;
+        getWorkflowRun(workflow.id, selected)
+            .then(setDetail)
+            .catch(err => setError(err instanceof Error ? err.message : 'An unknown error occurred.'));
+    }, [workflow.id, selected, lastRunKey]);
+
+    return (
+        <div className="bg-brand-primary/50 p-4 rounded-lg space-y-3">
+            <div className="flex items-center justify-between">
+                <h4 className="text-sm font-semibold text-brand-text">Runs</h4>
+                <button onClick={onClose} aria-label="Close" className="text-brand-light hover:text-brand-text"><XMarkIcon className="h-4 w-4" /></button>
+            </div>
+            {error && <p className="text-sm text-brand-red">{error}</p>}
+            {runs && runs.length === 0 && <p className="text-sm text-brand-light">This workflow has not run yet.</p>}
+            {runs && runs.length > 0 && (
+                <ul className="divide-y divide-brand-accent/50 text-xs max-h-64 overflow-y-auto">
+                    {runs.map(run => (
+                        <li
+                            key={run.id}
+                            onClick={() => setSelected(run.id === selected ? undefined : run.id)}
+                            className={`p-2 cursor-pointer hover:bg-brand-accent/30 ${run.id === selected ? 'bg-brand-accent/30' : ''}`}
+                        >
+                            <div className="flex items-center justify-between">
+                                <span className="text-brand-text">
+                                    {formatDate(run.startedAt)}
+                                    <span className="ml-2 text-brand-light">{TRIGGER_LABELS[run.trigger]}</span>
+                                </span>
+                                <span className={`font-semibold ${RUN_STATUS_CLASSES[run.status]}`}>{run.status}</span>
+                            </div>
+                            <div className="flex items-center justify-between text-brand-light">
+                                <span>{run.steps.filter(step => step.status === 'ok').length} of {run.steps.length} steps succeeded</span>
+                                <span>{formatDuration(run.durationMs)}</span>
+                            </div>
+                            {run.error && <p className="text-brand-red truncate" title={run.error}>{run.error}</p>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {detail && (
+                <ol className="space-y-2">
+                    {detail.steps.map(step => (
+                        <li key={step.id} className="bg-brand-primary rounded-lg p-3 text-xs space-y-1">
+                            <div className="flex items-center justify-between">
+                                <span className="font-medium text-brand-text">{step.name}</span>
+                                <span className={`font-semibold ${STEP_STATUS_CLASSES[step.status]}`}>{step.status}</span>
+                            </div>
+                            <p className="text-brand-light">
+                                {formatDuration(step.durationMs)}
+                                {step.attempts > 1 && ` · ${step.attempts} attempts`}
+                            </p>
+                            {step.error && <p className="text-brand-red">{step.error}</p>}
+                            {step.outputs && (
+                                <pre className="font-mono text-brand-light whitespace-pre-wrap break-all max-h-32 overflow-y-auto">{JSON.stringify(step.outputs, null, 2)}</pre>
+                            )}
+                            {step.log.length > 0 && (
+                                <ol className="font-mono space-y-1">
+                                    {step.log.map((entry, index) => (
+                                        <li key={index}>
+                                            <span className="text-brand-light">{new Date(entry.at).toLocaleTimeString()}</span>{' '}
+                                            <span className="text-brand-text">{entry.message}</span>
+                                        </li>
+                                    ))}
+                                </ol>
+                            )}
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { previewSchedule } from '../services/workflowService';
+import type { CatchUpPolicy, SchedulePreview, WorkflowDefinition } from '../types';
+
+const inputClass = 'mt-1 w-full bg-brand-primary border border-brand-accent rounded-lg py-1.5 px-2 text-sm text-brand-text focus:outline-none focus:ring-2 focus:ring-brand-cyan';
+
+// How long typing has to pause before the next runs are looked up.
+const PREVIEW_DELAY_MS = 400;
+
+const PRESETS = [
+    { label: 'Every hour', value: '0 * * * *' },
+    { label: 'Every day at 09:00', value: '0 9 * * *' },
+    { label: 'Weekdays at 09:00', value: '0 9 * * 1-5' },
+    { label: 'Every Monday at 09:00', value: '0 9 * * 1' },
+    { label: '1st of the month at 09:00', value: '0 9 1 * *' },
+];
+const CUSTOM = 'custom';
+
+const CATCH_UP_OPTIONS: { value: CatchUpPolicy; label: string }[] = [
+    { value: 'once', label: 'Run once for any missed runs' },
+    { value: 'all', label: 'Run every missed run in turn' },
+    { value: 'skip', label: 'Skip missed runs' },
+];
+
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+type Trigger = WorkflowDefinition['trigger'];
+
+interface WorkflowScheduleFieldsProps {
+    trigger: Trigger;
+    onChange: (trigger: Trigger) => void;
+    error?: string;
+}
+
+// The cron expression, time zone and catch-up policy of a schedule trigger, with its next runs.
+export const WorkflowScheduleFields: React.FC<WorkflowScheduleFieldsProps> = ({ trigger, onChange, error }) => {
+    const cron = trigger.cron ?? '';
+    const timezone = trigger.timezone || 'UTC';
+    const [preset, setPreset] = useState(PRESETS.some(p => p.value === cron) ? cron : CUSTOM);
+    const [preview, setPreview] = useState<SchedulePreview | null>(null);
+    const [previewError, setPreviewError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setPreview(null);
+        setPreviewError(null);
+        if (!cron.trim()) return;
+        const controller = new AbortController();
+        const timer = window.setTimeout(() => {
+            previewSchedule(cron, timezone, controller.signal)
+                .then(setPreview)
+                .catch(err => {
+                    if (!controller.signal.aborted) setPreviewError(err instanceof Error ? err.message : 'An unknown error occurred.');
+                });
+        }, PREVIEW_DELAY_MS);
+        return () => {
+            window.clearTimeout(timer);
+            controller.abort();
+        };
+    }, [cron, timezone]);
+
+    const choose = (value: string) => {
+        setPreset(value);
+        if (value !== CUSTOM) onChange({ ...trigger, cron: value });
+    };
+
+    return (
+        <>
+            <label className="text-sm text-brand-light">
+                Schedule<span className="text-brand-red"> *</span>
+                <select value={preset} onChange={e => choose(e.target.value)} className={inputClass}>
+                    {PRESETS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                    <option value={CUSTOM}>Custom cron...</option>
+                </select>
+            </label>
+            <label className="text-sm text-brand-light">
+                Cron expression
+                <input
+                    value={cron}
+                    onChange={e => { setPreset(CUSTOM); onChange({ ...trigger, cron: e.target.value }); }}
+                    placeholder="minute hour day month weekday, e.g. 0 9 * * 1"
+                    className={`${inputClass} font-mono`}
+                />
+                {(error || previewError) && <span className="block mt-1 text-xs text-brand-red">{error ?? previewError}</span>}
+            </label>
+            <label className="text-sm text-brand-light">
+                Time zone
+                <input value={trigger.timezone ?? ''} onChange={e => onChange({ ...trigger, timezone: e.target.value })} list="workflow-time-zones" placeholder="UTC" className={inputClass} />
+                <datalist id="workflow-time-zones">
+                    {TIME_ZONES.map(zone => <option key={zone} value={zone} />)}
+                </datalist>
+            </label>
+            <label className="text-sm text-brand-light">
+                After the backend was down
+                <select value={trigger.catchUp ?? 'once'} onChange={e => onChange({ ...trigger, catchUp: e.target.value as CatchUpPolicy })} className={inputClass}>
+                    {CATCH_UP_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+            </label>
+            {preview && (
+                <div className="md:col-span-2 text-xs text-brand-light">
+                    <p className="mb-1">Next runs ({preview.timezone}):</p>
+                    {preview.nextRuns.length === 0 && <p>This schedule does not run again.</p>}
+                    <ul className="grid grid-cols-1 md:grid-cols-2 gap-x-4">
+                        {preview.nextRuns.map(run => (
+                            <li key={run} className="text-brand-text">
+                                {new Date(run).toLocaleString(undefined, { timeZone: preview.timezone, weekday: 'short', year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { ArrowPathIcon, ClipboardDocumentIcon, KeyIcon } from '@heroicons/react/24/outline';
+import { rotateWebhookSecret, webhookUrl } from '../services/workflowService';
+import type { Workflow } from '../types';
+
+const buttonClass = 'flex items-center space-x-1 bg-brand-primary/50 hover:bg-brand-accent transition-colors px-2 py-1 rounded-md text-xs font-medium disabled:opacity-50';
+
+const copy = (text: string) => navigator.clipboard?.writeText(text).catch(() => undefined);
+
+interface WorkflowWebhookProps {
+    workflow: Workflow;
+}
+
+// A webhook trigger's URL and secret. A new secret is shown once, with how to send it.
+export const WorkflowWebhook: React.FC<WorkflowWebhookProps> = ({ workflow }) => {
+    const [secret, setSecret] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const url = webhookUrl(workflow.id);
+    const hmac = workflow.trigger.auth === 'hmac';
+    const hasSecret = workflow.hasWebhookSecret || secret !== null;
+
+    const generate = async () => {
+        if (hasSecret && !window.confirm('Generate a new secret? Tools using the current one will be refused until they are updated.')) return;
+        setBusy(true);
+        setError(null);
+        try {
+            setSecret(await rotateWebhookSecret(workflow.id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="mt-2 space-y-2 text-xs text-brand-light">
+            <div className="flex items-center space-x-2">
+                <span className="font-mono text-brand-text truncate" title={url}>POST {url}</span>
+                <button onClick={() => copy(url)} aria-label="Copy URL" className="text-brand-light hover:text-brand-text shrink-0">
+                    <ClipboardDocumentIcon className="h-4 w-4" />
+                </button>
+            </div>
+            <p>
+                {hmac ? 'Signed with HMAC-SHA256' : 'Authenticated by API key'}
+                {workflow.trigger.conditions?.length ? ` · runs when ${workflow.trigger.conditions.join(' and ')}` : ''}
+                {workflow.enabled ? '' : ' · off, so requests are refused'}
+            </p>
+            <div className="flex items-center justify-between">
+                <span>{hasSecret ? 'A secret has been generated.' : 'No secret yet; requests are refused until one is generated.'}</span>
+                <button onClick={generate} disabled={busy} className={buttonClass}>
+                    {busy ? <ArrowPathIcon className="h-4 w-4 animate-spin" /> : <KeyIcon className="h-4 w-4" />}
+                    <span>{hasSecret ? 'New secret' : 'Generate secret'}</span>
+                </button>
+            </div>
+            {error && <p className="text-brand-red">{error}</p>}
+            {secret && (
+                <div className="bg-brand-primary/50 p-2 rounded-lg space-y-1">
+                    <p className="text-brand-yellow">Copy the secret now; it will not be shown again.</p>
+                    <div className="flex items-center space-x-2">
+                        <code className="font-mono text-brand-text break-all">{secret}</code>
+                        <button onClick={() => copy(secret)} aria-label="Copy secret" className="text-brand-light hover:text-brand-text shrink-0">
+                            <ClipboardDocumentIcon className="h-4 w-4" />
+                        </button>
+                    </div>
+                    <p>
+                        {hmac
+                            ? <>Send <code className="text-brand-cyan">X-Webhook-Signature: sha256=&lt;hex HMAC-SHA256 of the body&gt;</code> with a JSON body.</>
+                            : <>Send <code className="text-brand-cyan">X-API-Key: &lt;secret&gt;</code> with a JSON body.</>}
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import type { WebhookAuth, WorkflowDefinition } from '../types';
+
+const inputClass = 'mt-1 w-full bg-brand-primary border border-brand-accent rounded-lg py-1.5 px-2 text-sm text-brand-text focus:outline-none focus:ring-2 focus:ring-brand-cyan';
+
+const AUTH_OPTIONS: { value: WebhookAuth; label: string; description: string }[] = [
+    { value: 'api_key', label: 'API key', description: 'Callers send the secret in an X-API-Key header.' },
+    { value: 'hmac', label: 'HMAC signature', description: 'Callers sign the body with the secret and send X-Webhook-Signature: sha256=<hex>.' },
+];
+
+const SCHEMA_PLACEHOLDER = `{
+  "type": "object",
+  "required": ["email", "value"],
+  "properties": { "email": { "type": "string", "format": "email" }, "value": { "type": "number" } }
+}`;
+
+type Trigger = WorkflowDefinition['trigger'];
+
+// The builder keeps the conditions one per line and the schema as JSON text until saving.
+export interface WebhookDraft {
+    conditions: string;
+    schema: string;
+}
+
+export const toWebhookDraft = (trigger: Trigger): WebhookDraft => ({
+    conditions: (trigger.conditions ?? []).join('\n'),
+    schema: trigger.schema ? JSON.stringify(trigger.schema, null, 2) : '',
+});
+
+interface WorkflowWebhookFieldsProps {
+    trigger: Trigger;
+    onChange: (trigger: Trigger) => void;
+    webhook: WebhookDraft;
+    onWebhookChange: (webhook: WebhookDraft) => void;
+    errors: { conditions?: string; schema?: string };
+}
+
+// How a webhook trigger authenticates callers, the conditions that start a run and the payload's JSON Schema.
+export const WorkflowWebhookFields: React.FC<WorkflowWebhookFieldsProps> = ({ trigger, onChange, webhook, onWebhookChange, errors }) => {
+    const auth = AUTH_OPTIONS.find(option => option.value === (trigger.auth ?? 'api_key'));
+
+    return (
+        <>
+            <label className="text-sm text-brand-light">
+                Authentication
+                <select value={trigger.auth ?? 'api_key'} onChange={e => onChange({ ...trigger, auth: e.target.value as WebhookAuth })} className={inputClass}>
+                    {AUTH_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+                {auth && <span className="block mt-1 text-xs text-brand-light/80">{auth.description} The secret is generated from the workflow's card.</span>}
+            </label>
+            <label className="text-sm text-brand-light">
+                Run only when
+                <textarea
+                    value={webhook.conditions}
+                    onChange={e => onWebhookChange({ ...webhook, conditions: e.target.value })}
+                    rows={3}
+                    placeholder={'value > 10000\nstatus = "new"'}
+                    className={`${inputClass} font-mono`}
+                />
+                <span className="block mt-1 text-xs text-brand-light/80">One condition per line, all of which must hold; leave empty to run for every request.</span>
+                {errors.conditions && <span className="block mt-1 text-xs text-brand-red">{errors.conditions}</span>}
+            </label>
+            <label className="text-sm text-brand-light md:col-span-2">
+                Payload schema
+                <textarea
+                    value={webhook.schema}
+                    onChange={e => onWebhookChange({ ...webhook, schema: e.target.value })}
+                    rows={5}
+                    placeholder={SCHEMA_PLACEHOLDER}
+                    className={`${inputClass} font-mono`}
+                />
+                <span className="block mt-1 text-xs text-brand-light/80">A JSON Schema; requests whose payload does not match it are refused. Leave empty to accept any JSON.</span>
+                {errors.schema && <span className="block mt-1 text-xs text-brand-red">{errors.schema}</span>}
+            </label>
+        </>
+    );
+};
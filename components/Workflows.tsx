@@ -1,23 +1,123 @@
-
-import React, { useState } from 'react';
-import { WORKFLOWS_DATA } from '../constants';
+import React, { useState, useEffect, useCallback } from 'react';
+import { CheckCircleIcon, ExclamationTriangleIcon, PlusIcon } from '@heroicons/react/24/outline';
 import { WorkflowCard } from './WorkflowCard';
-import type { Workflow as WorkflowType } from '../types';
+import { WorkflowBuilder } from './WorkflowBuilder';
+import { getWorkflowCatalog, listWorkflows, runWorkflow, setWorkflowEnabled } from '../services/workflowService';
+import type { Workflow as WorkflowType, WorkflowCatalog } from '../types';
+
+// How often the list is refreshed while a workflow is running.
+const RUNNING_REFRESH_MS = 3000;
 
 export const Workflows: React.FC = () => {
-    const [workflows, setWorkflows] = useState<WorkflowType[]>(WORKFLOWS_DATA);
+    const [workflows, setWorkflows] = useState<WorkflowType[] | null>(null);
+    const [catalog, setCatalog] = useState<WorkflowCatalog | null>(null);
+    // The builder being shown: for a new workflow, or for the one being edited.
+    const [builder, setBuilder] = useState<{ workflow?: WorkflowType } | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const reload = useCallback(async () => {
+        try {
+            setWorkflows(await listWorkflows());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        }
+    }, []);
+
+    useEffect(() => {
+        reload();
+        getWorkflowCatalog()
+            .then(setCatalog)
+            .catch(err => setError(err instanceof Error ? err.message : 'An unknown error occurred.'));
+    }, [reload]);
+
+    const running = workflows?.some(wf => wf.lastRun?.status === 'running') ?? false;
+    useEffect(() => {
+        if (!running) return;
+        const timer = window.setInterval(reload, RUNNING_REFRESH_MS);
+        return () => window.clearInterval(timer);
+    }, [running, reload]);
+
+    // Flips the switch at once and puts it back if the backend refuses.
+    const handleToggle = async (id: string, enabled: boolean) => {
+        const update = (value: boolean) => setWorkflows(current => current && current.map(wf => wf.id === id ? { ...wf, enabled: value } : wf));
+        update(enabled);
+        setError(null);
+        try {
+            await setWorkflowEnabled(id, enabled);
+        } catch (err) {
+            update(!enabled);
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        }
+    };
+
+    const handleRun = async (workflow: WorkflowType) => {
+        setError(null);
+        setNotice(null);
+        try {
+            await runWorkflow(workflow.id);
+            setNotice(`Started a run of ${workflow.title}.`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        }
+        await reload();
+    };
 
-    const handleToggle = (id: number, enabled: boolean) => {
-        setWorkflows(workflows.map(wf => wf.id === id ? { ...wf, enabled } : wf));
+    const openBuilder = (workflow?: WorkflowType) => {
+        setBuilder({ workflow });
+        setNotice(null);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+    };
+
+    const closeBuilder = (message?: string) => {
+        setBuilder(null);
+        setNotice(message ?? null);
+        reload();
     };
 
     return (
         <div className="container mx-auto">
-             <h1 className="text-2xl md:text-3xl font-bold text-brand-text mb-6">Automation Workflows</h1>
+             <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+                 <h1 className="text-2xl md:text-3xl font-bold text-brand-text">Automation Workflows</h1>
+                 <button
+                     onClick={() => openBuilder()}
+                     disabled={!catalog}
+                     className="flex items-center space-x-2 bg-brand-cyan text-brand-primary px-4 py-2 rounded-lg text-sm font-semibold hover:bg-opacity-90 transition-colors disabled:opacity-50"
+                 >
+                     <PlusIcon className="h-5 w-5" />
+                     <span>New Workflow</span>
+                 </button>
+             </div>
              <p className="text-brand-light mb-8 max-w-3xl">Automate your business processes by connecting triggers to actions across your integrated tools. Enable a workflow to have it run automatically based on its trigger.</p>
+             {builder && catalog && (
+                 <div className="mb-8">
+                     <WorkflowBuilder
+                         key={builder.workflow?.id ?? 'new'}
+                         catalog={catalog}
+                         workflow={builder.workflow}
+                         onSaved={workflow => closeBuilder(`Saved ${workflow.title}.`)}
+                         onDeleted={() => closeBuilder(`Deleted ${builder.workflow?.title}.`)}
+                         onCancel={() => setBuilder(null)}
+                     />
+                 </div>
+             )}
+             {notice && (
+                 <div className="flex items-center space-x-2 text-sm text-brand-green mb-6">
+                     <CheckCircleIcon className="h-5 w-5 shrink-0" />
+                     <span>{notice}</span>
+                 </div>
+             )}
+             {error && (
+                 <div className="flex items-center space-x-2 text-brand-red bg-red-900/20 p-3 rounded-lg text-sm mb-6">
+                     <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+                     <span>{error}</span>
+                 </div>
+             )}
+             {!workflows && !error && <p className="text-brand-light">Loading workflows...</p>}
+             {workflows && workflows.length === 0 && <p className="text-brand-light">There are no workflows yet. Use "New Workflow" to build one.</p>}
              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
-                 {workflows.map(wf => (
-                     <WorkflowCard key={wf.id} workflow={wf} onToggle={handleToggle} />
+                 {workflows?.map(wf => (
+                     <WorkflowCard key={wf.id} workflow={wf} onToggle={handleToggle} onEdit={openBuilder} onRun={handleRun} />
                  ))}
              </div>
         </div>
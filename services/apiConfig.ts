@@ -0,0 +1 @@
+export const BACKEND_URL = 'http://localhost:8000';
@@ -0,0 +1,84 @@
+/**
+ * agent.ts - answers a question by letting the model call the analyst tools until it has
+ * what it needs. Each round streams the model's reply; when the reply asks for tools, they
+ * are run and their results sent back in the next round.
+ */
+import { ANALYST_MAX_TOOL_STEPS } from '../config.js';
+import { getLlm } from '../llm/orchestrator.js';
+import { LlmRequest, LlmToolCall, LlmToolStep } from '../llm/provider.js';
+import { ChatToolCall } from '../chat/sessions.js';
+import { ANALYST_TOOLS, runAnalystTool } from './tools.js';
+
+export interface AnalystAnswer {
+  text: string;
+  toolCalls: ChatToolCall[];
+}
+
+export interface AnalystOptions {
+  // Called with each piece of the answer as it is generated.
+  onText?: (text: string) => void;
+  // Called after each tool call has run.
+  onToolCall?: (call: ChatToolCall) => void;
+  /**
+   * Asks for the answer as JSON matching this schema. Models cannot call tools and follow a
+   * schema at once, so once the model stops calling tools it is asked again for the answer
+   * in this form, without tools. Nothing is passed to `onText`.
+   */
+  responseSchema?: Record<string, unknown>;
+}
+
+export async function answerQuestion(
+  request: Omit<LlmRequest, 'model' | 'tools' | 'toolSteps' | 'responseSchema'>,
+  { onText, onToolCall, responseSchema }: AnalystOptions = {},
+): Promise<AnalystAnswer> {
+  const answer: AnalystAnswer = { text: '', toolCalls: [] };
+  const toolSteps: LlmToolStep[] = [];
+  let offerTools = true;
+
+  // The last round offers no tools, so the model has to answer.
+  for (let step = 0; ; step++) {
+    offerTools &&= step < ANALYST_MAX_TOOL_STEPS;
+    const structured = !!responseSchema && !offerTools;
+    let text = '';
+    const calls: LlmToolCall[] = [];
+    for await (const delta of getLlm().stream('qa', {
+      ...request,
+      tools: offerTools ? ANALYST_TOOLS : undefined,
+      toolSteps,
+      responseSchema: structured ? responseSchema : undefined,
+    })) {
+      if ('toolCall' in delta) {
+        calls.push(delta.toolCall);
+        continue;
+      }
+      const first = !text;
+      text += delta.text;
+      if (responseSchema) continue;
+      // Text from separate rounds is kept as separate paragraphs.
+      const piece = first && answer.text ? `\n\n${delta.text}` : delta.text;
+      answer.text += piece;
+      onText?.(piece);
+    }
+
+    // Calls made when no tools were offered are ignored.
+    if (calls.length === 0 || !offerTools) {
+      if (!responseSchema || structured) {
+        if (structured) answer.text = text;
+        return answer;
+      }
+      offerTools = false;
+      continue;
+    }
+
+    const results: LlmToolStep['calls'] = [];
+    for (const call of calls) {
+      request.signal?.throwIfAborted();
+      const outcome = await runAnalystTool(call.name, call.args);
+      const record: ChatToolCall = { name: call.name, args: call.args, ...outcome };
+      answer.toolCalls.push(record);
+      onToolCall?.(record);
+      results.push({ call, result: outcome.error === undefined ? outcome.result : { error: outcome.error } });
+    }
+    toolSteps.push({ text, calls: results });
+  }
+}
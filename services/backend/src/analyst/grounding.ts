@@ -0,0 +1,255 @@
+/**
+ * grounding.ts - ties the figures in an answer to the data they came from. The evidence is
+ * what the model was shown: the results of its tool calls and the dataset rows retrieved for
+ * the question. The answer is split into sentences; each sentence cites the evidence its
+ * numbers match, and numbers that no evidence contains are flagged as unsupported.
+ */
+import { ChatToolCall } from '../chat/sessions.js';
+import { DatasetChunk } from '../rag/chunks.js';
+import { listDatasets } from '../datasets/catalog.js';
+import { AggregateResult, ComputeMetricResult, DescribeDatasetResult, ListDatasetsResult } from './tools.js';
+
+export type AnswerCitation =
+  // A saved metric's KPI value, as on its dashboard card.
+  | { kind: 'kpi'; metricId: string; title: string; period?: string }
+  // One period of a saved series or one group of a saved breakdown, as on its chart.
+  | { kind: 'chart'; metricId: string; title: string; point: string }
+  // A dataset, optionally narrowed to a 1-based row range; `detail` says what was computed.
+  | { kind: 'dataset'; datasetId: string; title: string; detail?: string; firstRow?: number; lastRow?: number };
+
+export interface AnswerSegment {
+  text: string;
+  // Indexes into the answer's citations.
+  citations: number[];
+  // Numbers in `text` not found in the evidence, as [start, end) offsets into `text`.
+  unsupported: { start: number; end: number }[];
+}
+
+export interface GroundedAnswer {
+  citations: AnswerCitation[];
+  segments: AnswerSegment[];
+}
+
+interface Evidence {
+  citation: AnswerCitation;
+  values: number[];
+}
+
+// Whole numbers up to this are usually counts ("3 regions") or ordinals rather than figures
+// taken from the data, so they are neither cited nor flagged.
+const SMALL_COUNT = 10;
+
+// A figure found in many rows is cited from the first few only.
+const MAX_CITATIONS_PER_NUMBER = 3;
+
+const SCALES: Record<string, number> = { k: 1e3, m: 1e6, bn: 1e9, b: 1e9 };
+
+// Dates come first so their parts are not read as numbers.
+const NUMBER_RE = /\d{4}-\d{2}(?:-\d{2})?|\d{1,2}\/\d{1,2}\/\d{2,4}|(?<![\p{L}\d.,])([$€£]?)(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(?:\s?(k|m|bn|b)\b)?(%?)/giu;
+
+interface NumberToken {
+  start: number;
+  end: number;
+  value: number;
+  // Half a unit in the last place shown, e.g. 0.05 for "1.8".
+  tolerance: number;
+  percent: boolean;
+}
+
+/**
+ * The numbers in `text`, read the same way in answers and in the rows they are checked
+ * against, e.g. "$12,000" as 12000. In an answer (`answer` set), small counts, years and
+ * list markers are skipped, as they are not figures from the data.
+ */
+function numbersIn(text: string, answer = true): NumberToken[] {
+  const tokens: NumberToken[] = [];
+  for (const match of text.matchAll(NUMBER_RE)) {
+    const [whole, currency, integer, fraction = '', suffix = '', percent] = match;
+    if (integer === undefined) continue;
+    const start = match.index!;
+    // A list marker such as "1." or "2)" at the start of a line.
+    if (answer && !fraction && /^\s*$/.test(text.slice(text.lastIndexOf('\n', start - 1) + 1, start)) && /^[.)]\s/.test(text.slice(start + whole.length))) continue;
+    const scale = SCALES[suffix.toLowerCase()] ?? 1;
+    const value = Number(`${integer.replace(/,/g, '')}${fraction}`) * scale;
+    const plain = !currency && !fraction && !suffix && !percent && !integer.includes(',');
+    if (answer && plain && (value <= SMALL_COUNT || (value >= 1900 && value <= 2100))) continue;
+    tokens.push({
+      start,
+      end: start + whole.length,
+      value,
+      tolerance: (fraction ? 0.5 * 10 ** -(fraction.length - 1) : 0.5) * scale,
+      percent: !!percent,
+    });
+  }
+  return tokens;
+}
+
+function supports(token: NumberToken, value: number): boolean {
+  const candidates = token.percent ? [value, value * 100] : [value];
+  return candidates.some((candidate) => Math.abs(Math.abs(candidate) - token.value) <= token.tolerance + 1e-9);
+}
+
+function numeric(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && /^-?\d+(?:\.\d+)?$/.test(value.trim())) return Number(value);
+  return undefined;
+}
+
+function values(...items: unknown[]): number[] {
+  return items.map(numeric).filter((value): value is number => value !== undefined);
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function rangeLabel(range: { from?: unknown; to?: unknown }): string | undefined {
+  const from = text(range.from);
+  const to = text(range.to);
+  return from || to ? `${from ?? '…'} – ${to ?? '…'}` : undefined;
+}
+
+// The periods of a series or the groups of a breakdown, with the label each is shown with.
+function pointsOf(data: AggregateResult | ComputeMetricResult): { label: string; value: number | null }[] | undefined {
+  if ('periods' in data && Array.isArray(data.periods)) return data.periods.map((point) => ({ label: point.label, value: point.value }));
+  if ('groups' in data && Array.isArray(data.groups)) return data.groups.map((point) => ({ label: point.group, value: point.value }));
+  return undefined;
+}
+
+function toolEvidence({ name, args, result }: ChatToolCall, datasetNames: Map<string, string>): Evidence[] {
+  if (result === null || typeof result !== 'object') return [];
+  const dataset = (id: unknown, extra: Omit<Extract<AnswerCitation, { kind: 'dataset' }>, 'kind' | 'datasetId' | 'title'> = {}): AnswerCitation => ({
+    kind: 'dataset',
+    datasetId: String(id),
+    title: datasetNames.get(String(id)) ?? String(id),
+    ...extra,
+  });
+
+  switch (name) {
+    case 'compute_metric': {
+      const data = result as ComputeMetricResult;
+      const metricId = String(data.metric);
+      const title = String(data.name ?? metricId);
+      const points = pointsOf(data);
+      if (points) {
+        return points.map((point) => ({
+          citation: { kind: 'chart', metricId, title, point: String(point.label) },
+          values: values(point.value),
+        }));
+      }
+      if (!('value' in data)) return [];
+      const value = numeric(data.value);
+      const previous = numeric(data.previousValue);
+      const change = value !== undefined && previous !== undefined ? value - previous : undefined;
+      return [{
+        citation: { kind: 'kpi', metricId, title, period: data.period ?? rangeLabel(data) },
+        values: values(data.value, data.previousValue, data.changePercent, change),
+      }];
+    }
+    case 'aggregate': {
+      const data = result as AggregateResult;
+      const range = rangeLabel(args);
+      const what = `${args.aggregation}${text(args.column) ? ` of ${args.column}` : ''}${range ? `, ${range}` : ''}`;
+      const points = pointsOf(data);
+      if (points) {
+        return points.map((point) => ({
+          citation: dataset(args.dataset, { detail: `${what}, ${point.label}` }),
+          values: values(point.value),
+        }));
+      }
+      return 'value' in data ? [{ citation: dataset(args.dataset, { detail: what }), values: values(data.value) }] : [];
+    }
+    case 'describe_dataset': {
+      const data = result as DescribeDatasetResult;
+      return [
+        { citation: dataset(data.id), values: values(data.rowCount) },
+        ...(Array.isArray(data.sampleRows) ? data.sampleRows : []).map((row, index) => ({
+          citation: dataset(data.id, { firstRow: index + 1, lastRow: index + 1 }),
+          values: values(...Object.values(row)),
+        })),
+      ];
+    }
+    case 'list_datasets': {
+      const data = result as ListDatasetsResult;
+      return (Array.isArray(data.datasets) ? data.datasets : []).map((item) => ({
+        citation: dataset(item.id),
+        values: values(item.rowCount, item.columnCount),
+      }));
+    }
+    default:
+      return [];
+  }
+}
+
+// Retrieved chunks list one "Row N: column: value; ..." line per row; each row is cited on
+// its own. The overview chunk (no rows) only gives the row count.
+function excerptEvidence({ datasetId, title, content, firstRow }: DatasetChunk): Evidence[] {
+  if (firstRow === null) {
+    return [{ citation: { kind: 'dataset', datasetId, title }, values: values(content.match(/Dataset with (\d+) rows/)?.[1]) }];
+  }
+  return content.split('\n').flatMap((line) => {
+    const row = line.match(/^Row (\d+): (.*)$/);
+    if (!row) return [];
+    return [{
+      citation: { kind: 'dataset' as const, datasetId, title, firstRow: Number(row[1]), lastRow: Number(row[1]) },
+      values: numbersIn(row[2], false).map((token) => token.value),
+    }];
+  });
+}
+
+// Sentences end at ., ! or ? followed by whitespace, or at a line break; the dot of a list
+// marker such as "1." does not end one. Each segment keeps the whitespace after it, so the
+// segments join back into the answer.
+function sentences(text: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const end = text[i] === '\n'
+      || (/[.!?]/.test(text[i]) && (i + 1 === text.length || /\s/.test(text[i + 1])) && !/^\s*\d+$/.test(text.slice(start, i)));
+    if (!end) continue;
+    while (i + 1 < text.length && /\s/.test(text[i + 1])) i++;
+    parts.push(text.slice(start, i + 1));
+    start = i + 1;
+  }
+  if (start < text.length) parts.push(text.slice(start));
+  return parts;
+}
+
+/**
+ * Splits an answer into segments citing the evidence behind their numbers. A number found in
+ * a saved metric cites the metric rather than dataset rows that happen to hold it too.
+ */
+export async function groundAnswer(text: string, toolCalls: ChatToolCall[], excerpts: DatasetChunk[]): Promise<GroundedAnswer> {
+  const datasetNames = new Map((await listDatasets()).map(({ id, name }) => [id, name]));
+  const evidence = [
+    ...toolCalls.filter(({ error }) => error === undefined).flatMap((call) => toolEvidence(call, datasetNames)),
+    ...excerpts.flatMap(excerptEvidence),
+  ];
+
+  const citations: AnswerCitation[] = [];
+  const cited = new Map<string, number>();
+  const cite = (citation: AnswerCitation) => {
+    const key = JSON.stringify(citation);
+    if (!cited.has(key)) cited.set(key, citations.push(citation) - 1);
+    return cited.get(key)!;
+  };
+
+  const segments = sentences(text).map((sentence): AnswerSegment => {
+    const segment: AnswerSegment = { text: sentence, citations: [], unsupported: [] };
+    for (const token of numbersIn(sentence)) {
+      const matches = evidence.filter((item) => item.values.some((value) => supports(token, value)));
+      const fromMetrics = matches.filter(({ citation }) => citation.kind !== 'dataset');
+      if (matches.length === 0) {
+        segment.unsupported.push({ start: token.start, end: token.end });
+        continue;
+      }
+      for (const { citation } of (fromMetrics.length > 0 ? fromMetrics : matches).slice(0, MAX_CITATIONS_PER_NUMBER)) {
+        const index = cite(citation);
+        if (!segment.citations.includes(index)) segment.citations.push(index);
+      }
+    }
+    return segment;
+  });
+
+  return { citations, segments };
+}
@@ -0,0 +1,141 @@
+/**
+ * insight.ts - the structured answer format for analyses: a summary, highlights, concerns
+ * with a severity, recommended actions and the metrics referred to. The model is asked for
+ * JSON matching INSIGHT_SCHEMA; parseInsight checks and tidies what comes back.
+ */
+export type ConcernSeverity = 'low' | 'medium' | 'high';
+
+export const CONCERN_SEVERITIES: ConcernSeverity[] = ['low', 'medium', 'high'];
+
+export interface InsightPoint {
+  title: string;
+  detail: string;
+  // Id of the saved metric the point is about, when there is one.
+  metric?: string;
+}
+
+export interface InsightConcern extends InsightPoint {
+  severity: ConcernSeverity;
+}
+
+export interface Insight {
+  summary: string;
+  highlights: InsightPoint[];
+  concerns: InsightConcern[];
+  actions: { title: string; detail: string }[];
+  metrics: { id: string; name: string; value?: string }[];
+}
+
+const point = (extra: Record<string, unknown> = {}, required: string[] = []) => ({
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: 'A few words.' },
+    detail: { type: 'string', description: 'One or two sentences with the figures behind it.' },
+    metric: { type: 'string', description: 'Id of the metric from list_metrics this is about, if any.' },
+    ...extra,
+  },
+  required: ['title', 'detail', ...required],
+});
+
+export const INSIGHT_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'A brief, high-level summary of business performance.' },
+    highlights: { type: 'array', description: 'Positive trends to capitalise on.', items: point() },
+    concerns: {
+      type: 'array',
+      description: 'Areas of concern, most severe first.',
+      items: point({ severity: { type: 'string', enum: CONCERN_SEVERITIES } }, ['severity']),
+    },
+    actions: {
+      type: 'array',
+      description: 'Specific, actionable recommendations.',
+      items: {
+        type: 'object',
+        properties: { title: { type: 'string' }, detail: { type: 'string' } },
+        required: ['title', 'detail'],
+      },
+    },
+    metrics: {
+      type: 'array',
+      description: 'Saved metrics the insight refers to.',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'Metric id from list_metrics.' },
+          name: { type: 'string' },
+          value: { type: 'string', description: 'The value quoted, formatted.' },
+        },
+        required: ['id', 'name'],
+      },
+    },
+  },
+  required: ['summary', 'highlights', 'concerns', 'actions', 'metrics'],
+};
+
+export const INSIGHT_INSTRUCTION = `Answer with an insight as JSON: a brief summary of business performance, the positive trends to capitalise on, the areas of concern with their severity, specific actions to take, and the metrics your insight refers to. Where a point is about a saved metric, give its id from list_metrics.`;
+
+function isObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function list<T>(value: unknown, parse: (item: Record<string, any>) => T | undefined): T[] {
+  return Array.isArray(value) ? value.filter(isObject).map(parse).filter((item): item is T => item !== undefined) : [];
+}
+
+function parsePoint(item: Record<string, any>): InsightPoint | undefined {
+  const title = text(item.title);
+  if (!title) return undefined;
+  const metric = text(item.metric);
+  return { title, detail: text(item.detail) ?? '', ...(metric ? { metric } : {}) };
+}
+
+/**
+ * Reads the model's JSON answer. Models without schema support sometimes wrap it in a code
+ * fence or drop fields, so items without a title are skipped and an unknown severity reads as
+ * medium; only an answer without a summary is rejected.
+ */
+export function parseInsight(answer: string): Insight {
+  let data: unknown;
+  try {
+    data = JSON.parse(answer.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+  } catch {
+    throw new Error('The model did not answer with valid JSON.');
+  }
+  const summary = isObject(data) ? text(data.summary) : undefined;
+  if (!isObject(data) || !summary) {
+    throw new Error('The model answered without an insight summary.');
+  }
+  return {
+    summary,
+    highlights: list(data.highlights, parsePoint),
+    concerns: list(data.concerns, (item) => {
+      const parsed = parsePoint(item);
+      return parsed ? { ...parsed, severity: CONCERN_SEVERITIES.includes(item.severity) ? item.severity : 'medium' } : undefined;
+    }),
+    actions: list(data.actions, (item) => {
+      const title = text(item.title);
+      return title ? { title, detail: text(item.detail) ?? '' } : undefined;
+    }),
+    metrics: list(data.metrics, (item) => {
+      const id = text(item.id);
+      const value = text(item.value);
+      return id ? { id, name: text(item.name) ?? id, ...(value ? { value } : {}) } : undefined;
+    }),
+  };
+}
+
+// The insight as plain text, which is what the chat session keeps for follow-up questions.
+export function insightToText({ summary, highlights, concerns, actions }: Insight): string {
+  const section = (heading: string, lines: string[]) => (lines.length ? [`${heading}:`, ...lines.map((line) => `- ${line}`)].join('\n') : '');
+  return [
+    summary,
+    section('Highlights', highlights.map(({ title, detail }) => `${title}: ${detail}`)),
+    section('Concerns', concerns.map(({ title, detail, severity }) => `${title} (${severity}): ${detail}`)),
+    section('Recommended actions', actions.map(({ title, detail }) => `${title}: ${detail}`)),
+  ].filter(Boolean).join('\n\n');
+}
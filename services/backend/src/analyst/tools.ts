@@ -0,0 +1,269 @@
+/**
+ * tools.ts - the functions the analyst model can call to look at the data instead of being
+ * handed a snapshot of it: what datasets and metrics exist, a dataset's columns, aggregates
+ * of a dataset, and saved metrics over a date range. Aggregates go through the metric
+ * evaluator, so they get the same column checks and SQL as dashboard metrics.
+ */
+import { HttpError } from '../errors.js';
+import { LlmTool } from '../llm/provider.js';
+import { listDatasets, getDatasetMeta, getDatasetSchema } from '../datasets/catalog.js';
+import { readDatasetRows } from '../datasets/storage.js';
+import { listMetrics, getMetric, parseMetricDefinition, MetricDefinition, MetricFilter, AGGREGATIONS, FILTER_OPERATORS } from '../metrics/definitions.js';
+import { evaluateMetric } from '../metrics/evaluate.js';
+import { TIME_GRAINS } from '../metrics/periods.js';
+
+export interface AnalystTool extends LlmTool {
+  run(args: Record<string, unknown>): Promise<unknown>;
+}
+
+// What the tools return. grounding.ts reads these results as the evidence behind an answer.
+export interface ListDatasetsResult {
+  datasets: { id: string; name: string; tags: string[]; rowCount: number; columnCount: number; updatedAt: string }[];
+}
+
+export interface DescribeDatasetResult {
+  id: string;
+  name: string;
+  rowCount: number;
+  columns: { name: string; type: string; nullable: boolean; values?: string[] }[];
+  sampleRows: Record<string, unknown>[];
+}
+
+export interface PeriodValue {
+  period: string;
+  label: string;
+  value: number | null;
+}
+
+export interface GroupValue {
+  group: string;
+  value: number;
+}
+
+export type AggregateResult = { value: number | null } | { periods: PeriodValue[] } | { groups: GroupValue[] };
+
+export type ComputeMetricResult = { metric: string; name: string; from?: string; to?: string } & (
+  | {
+      value: number | null;
+      formatted: string;
+      period?: string;
+      previousValue?: number | null;
+      comparisonPeriod?: string;
+      changePercent?: number | null;
+      change?: string;
+    }
+  | { periods: PeriodValue[] }
+  | { groups: GroupValue[] }
+);
+
+const SAMPLE_ROWS = 5;
+const DEFAULT_GROUPS = 10;
+// Most groups or periods an aggregate returns.
+const MAX_VALUES = 50;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function fail(message: string): never {
+  throw new HttpError(400, message);
+}
+
+function requiredString(args: Record<string, unknown>, field: string): string {
+  if (typeof args[field] !== 'string' || !args[field]) fail(`\`${field}\` is required.`);
+  return args[field] as string;
+}
+
+function optionalDate(args: Record<string, unknown>, field: string): string | undefined {
+  if (args[field] === undefined || args[field] === null || args[field] === '') return undefined;
+  if (typeof args[field] !== 'string' || !DATE_RE.test(args[field] as string)) fail(`\`${field}\` must be a date like 2024-01-31.`);
+  return args[field] as string;
+}
+
+function nextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+// Filters keeping `from` through `to`, both inclusive. Dates are stored as ISO strings, so
+// comparing them as text works for plain dates and timestamps alike.
+function rangeFilters(column: string, from?: string, to?: string): MetricFilter[] {
+  return [
+    ...(from ? [{ column, op: '>=' as const, value: from }] : []),
+    ...(to ? [{ column, op: '<' as const, value: nextDay(to) }] : []),
+  ];
+}
+
+const filtersSchema = {
+  type: 'array',
+  description: 'Row filters, all of which must hold.',
+  items: {
+    type: 'object',
+    properties: {
+      column: { type: 'string' },
+      op: { type: 'string', enum: FILTER_OPERATORS },
+      value: { description: 'A string, number or boolean; a list for in/not_in; omitted for is_null/not_null.' },
+    },
+    required: ['column', 'op'],
+  },
+};
+
+const dateRangeSchema = {
+  from: { type: 'string', description: 'First day to include, as YYYY-MM-DD.' },
+  to: { type: 'string', description: 'Last day to include, as YYYY-MM-DD.' },
+};
+
+const listDatasetsTool: AnalystTool = {
+  name: 'list_datasets',
+  description: 'Lists the ingested datasets with their ids, names, row and column counts and when they were last updated.',
+  parameters: { type: 'object', properties: {} },
+  async run(): Promise<ListDatasetsResult> {
+    return {
+      datasets: (await listDatasets()).map(({ id, name, tags, rowCount, columnCount, updatedAt }) => ({ id, name, tags, rowCount, columnCount, updatedAt })),
+    };
+  },
+};
+
+const describeDatasetTool: AnalystTool = {
+  name: 'describe_dataset',
+  description: 'Describes a dataset: its columns with their types (and the values of enum columns) and a few sample rows.',
+  parameters: {
+    type: 'object',
+    properties: { dataset: { type: 'string', description: 'Dataset id from list_datasets.' } },
+    required: ['dataset'],
+  },
+  async run(args): Promise<DescribeDatasetResult> {
+    const id = requiredString(args, 'dataset');
+    const meta = await getDatasetMeta(id);
+    const { columns } = await getDatasetSchema(id);
+    const { rows } = await readDatasetRows(id, 0, SAMPLE_ROWS);
+    return {
+      id,
+      name: meta.name,
+      rowCount: meta.rowCount,
+      columns: columns.map(({ name, type, nullable, values }) => ({ name, type, nullable, ...(values ? { values } : {}) })),
+      sampleRows: rows,
+    };
+  },
+};
+
+const listMetricsTool: AnalystTool = {
+  name: 'list_metrics',
+  description: 'Lists the saved metrics shown on the dashboard, with the dataset and column each one aggregates.',
+  parameters: { type: 'object', properties: {} },
+  async run() {
+    return {
+      metrics: (await listMetrics()).map(({ id, name, kind, dataset, aggregation, column, timeColumn, grain, groupBy, format }) =>
+        ({ id, name, kind, dataset, aggregation, column, timeColumn, grain, groupBy, format })),
+    };
+  },
+};
+
+const aggregateTool: AnalystTool = {
+  name: 'aggregate',
+  description: 'Aggregates a column of a dataset: one total, one value per group of `groupBy`, or one value per period when `grain` is given. Use describe_dataset first to find the column names.',
+  parameters: {
+    type: 'object',
+    properties: {
+      dataset: { type: 'string', description: 'Dataset id from list_datasets.' },
+      aggregation: { type: 'string', enum: AGGREGATIONS },
+      column: { type: 'string', description: 'Column to aggregate; omit with count to count rows.' },
+      groupBy: { type: 'string', description: 'Column to group by; the largest groups come first.' },
+      dateColumn: { type: 'string', description: 'Date column for `grain`, `from` and `to`.' },
+      grain: { type: 'string', enum: TIME_GRAINS, description: 'Period size for a value per period.' },
+      ...dateRangeSchema,
+      filters: filtersSchema,
+      limit: { type: 'integer', description: `Most groups or periods to return (at most ${MAX_VALUES}).` },
+    },
+    required: ['dataset', 'aggregation'],
+  },
+  async run(args): Promise<AggregateResult> {
+    const from = optionalDate(args, 'from');
+    const to = optionalDate(args, 'to');
+    const dateColumn = typeof args.dateColumn === 'string' && args.dateColumn ? args.dateColumn : undefined;
+    if ((from || to || args.grain) && !dateColumn) fail('`dateColumn` is required with `grain`, `from` or `to`.');
+    if (args.filters !== undefined && !Array.isArray(args.filters)) fail('`filters` must be a list.');
+    if (args.groupBy && args.grain) fail('Use either `groupBy` or `grain`, not both.');
+
+    const kind = args.groupBy ? 'breakdown' : args.grain ? 'series' : 'kpi';
+    const definition = parseMetricDefinition({
+      id: 'aggregate',
+      name: 'Aggregate',
+      kind,
+      dataset: args.dataset,
+      aggregation: args.aggregation,
+      column: args.column,
+      filters: [...((args.filters as unknown[]) ?? []), ...rangeFilters(dateColumn!, from, to)],
+      groupBy: args.groupBy,
+      timeColumn: kind === 'series' ? dateColumn : undefined,
+      grain: kind === 'series' ? args.grain : undefined,
+      limit: Math.min(Number.isInteger(args.limit) ? args.limit as number : kind === 'series' ? MAX_VALUES : DEFAULT_GROUPS, MAX_VALUES),
+    });
+    const result = await evaluateMetric(definition);
+    switch (result.kind) {
+      case 'kpi':
+        return { value: result.kpi.rawValue };
+      case 'series':
+        return { periods: result.series.map(({ period, name, value }) => ({ period, label: name, value })) };
+      case 'breakdown':
+        return { groups: result.breakdown.map(({ name, value }) => ({ group: name, value })) };
+    }
+  },
+};
+
+const computeMetricTool: AnalystTool = {
+  name: 'compute_metric',
+  description: 'Computes a saved metric from list_metrics. With `from` and/or `to`, a KPI is totalled over that range and a series or breakdown only counts rows within it; without them, a KPI gives the latest period compared with the one before.',
+  parameters: {
+    type: 'object',
+    properties: {
+      metric: { type: 'string', description: 'Metric id from list_metrics.' },
+      ...dateRangeSchema,
+    },
+    required: ['metric'],
+  },
+  async run(args): Promise<ComputeMetricResult> {
+    const saved = await getMetric(requiredString(args, 'metric'));
+    const from = optionalDate(args, 'from');
+    const to = optionalDate(args, 'to');
+
+    let definition: MetricDefinition = saved;
+    if (from || to) {
+      if (!saved.timeColumn) fail(`Metric '${saved.id}' has no time column, so it cannot be limited to dates.`);
+      definition = { ...saved, filters: [...saved.filters, ...rangeFilters(saved.timeColumn, from, to)] };
+      if (saved.kind === 'kpi') {
+        definition = { ...definition, timeColumn: undefined, grain: undefined, comparison: undefined };
+      }
+    }
+    const result = await evaluateMetric(definition);
+    const range = from || to ? { from, to } : {};
+    switch (result.kind) {
+      case 'kpi': {
+        const { value, rawValue, change, previousValue, changePercent, period, comparisonPeriod } = result.kpi;
+        return from || to
+          ? { metric: saved.id, name: saved.name, ...range, value: rawValue, formatted: value }
+          : { metric: saved.id, name: saved.name, value: rawValue, formatted: value, period, previousValue, comparisonPeriod, changePercent, change };
+      }
+      case 'series':
+        return { metric: saved.id, name: saved.name, ...range, periods: result.series.map(({ period, name, value }) => ({ period, label: name, value })) };
+      case 'breakdown':
+        return { metric: saved.id, name: saved.name, ...range, groups: result.breakdown.map(({ name, value }) => ({ group: name, value })) };
+    }
+  },
+};
+
+export const ANALYST_TOOLS: AnalystTool[] = [listDatasetsTool, describeDatasetTool, listMetricsTool, aggregateTool, computeMetricTool];
+
+/**
+ * Runs one call from the model. Failures are returned rather than thrown, so the model can
+ * read what went wrong (e.g. a misspelt column) and try again.
+ */
+export async function runAnalystTool(name: string, args: Record<string, unknown>): Promise<{ result?: unknown; error?: string }> {
+  const tool = ANALYST_TOOLS.find((t) => t.name === name);
+  if (!tool) return { error: `Unknown tool '${name}'.` };
+  try {
+    return { result: await tool.run(args) };
+  } catch (error) {
+    if (error instanceof HttpError) return { error: error.message };
+    throw error;
+  }
+}
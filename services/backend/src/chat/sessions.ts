@@ -0,0 +1,192 @@
+/**
+ * sessions.ts - server-side chat sessions for /api/qa. Each session keeps its messages, so
+ * follow-up questions are answered with the earlier conversation. What is sent back to the
+ * model is kept within CHAT_HISTORY_TOKEN_BUDGET: the newest messages verbatim, and a running
+ * summary of the older ones.
+ */
+import { randomUUID } from 'crypto';
+import { getStore } from '../store.js';
+import { HttpError } from '../errors.js';
+import { CHAT_HISTORY_TOKEN_BUDGET, CHAT_SESSION_TTL_MS } from '../config.js';
+
+export type ChatRole = 'user' | 'model';
+
+export interface ChatTurn {
+  role: ChatRole;
+  text: string;
+}
+
+// A tool the analyst called while answering (see analyst/tools.ts), with its outcome.
+export interface ChatToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+}
+
+export interface StoredChatMessage extends ChatTurn {
+  id: number;
+  // Set on answers that called tools.
+  toolCalls?: ChatToolCall[];
+  createdAt: string;
+}
+
+export interface ChatSession {
+  id: string;
+  // Summary of the messages that no longer fit the token budget.
+  summary?: string;
+  messages: StoredChatMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What to send the model for the next question.
+export interface ChatContext {
+  summary?: string;
+  history: ChatTurn[];
+}
+
+// Folds `turns` into `previous` (the summary so far) and resolves to the new summary.
+export type ChatSummarizer = (previous: string | undefined, turns: ChatTurn[]) => Promise<string>;
+
+interface SessionRecord {
+  id: string;
+  summary: string | null;
+  summarized_through: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface MessageRecord {
+  id: number;
+  role: ChatRole;
+  text: string;
+  tool_calls: string | null;
+  created_at: string;
+}
+
+// A rough count that errs high for English text: about four characters per token.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function getSessionRecord(id: string): SessionRecord {
+  const record = getStore().prepare('SELECT * FROM chat_sessions WHERE id = ?').get(id) as SessionRecord | undefined;
+  if (!record) {
+    throw new HttpError(404, `Chat session '${id}' not found.`);
+  }
+  return record;
+}
+
+// Removes sessions nobody has used within CHAT_SESSION_TTL_MS.
+function deleteExpiredSessions(): void {
+  const cutoff = new Date(Date.now() - CHAT_SESSION_TTL_MS).toISOString();
+  const db = getStore();
+  db.transaction(() => {
+    db.prepare('DELETE FROM chat_messages WHERE session_id IN (SELECT id FROM chat_sessions WHERE updated_at < ?)').run(cutoff);
+    db.prepare('DELETE FROM chat_sessions WHERE updated_at < ?').run(cutoff);
+  })();
+}
+
+export function createChatSession(): ChatSession {
+  deleteExpiredSessions();
+  const id = randomUUID();
+  const now = new Date().toISOString();
+  getStore().prepare('INSERT INTO chat_sessions (id, created_at, updated_at) VALUES (?, ?, ?)').run(id, now, now);
+  return getChatSession(id);
+}
+
+export function getChatSession(id: string): ChatSession {
+  const record = getSessionRecord(id);
+  const messages = getStore().prepare('SELECT id, role, text, tool_calls, created_at FROM chat_messages WHERE session_id = ? ORDER BY id')
+    .all(id) as MessageRecord[];
+  return {
+    id: record.id,
+    summary: record.summary ?? undefined,
+    messages: messages.map(({ id, role, text, tool_calls, created_at }) => ({
+      id,
+      role,
+      text,
+      ...(tool_calls ? { toolCalls: JSON.parse(tool_calls) } : {}),
+      createdAt: created_at,
+    })),
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+  };
+}
+
+export function deleteChatSession(id: string): void {
+  getSessionRecord(id);
+  const db = getStore();
+  db.transaction(() => {
+    db.prepare('DELETE FROM chat_messages WHERE session_id = ?').run(id);
+    db.prepare('DELETE FROM chat_sessions WHERE id = ?').run(id);
+  })();
+}
+
+// Stores one question and its answer, with the tools called for it.
+export function appendChatExchange(id: string, question: string, answer: string, toolCalls: ChatToolCall[] = []): void {
+  const db = getStore();
+  const now = new Date().toISOString();
+  const insert = db.prepare('INSERT INTO chat_messages (session_id, role, text, tool_calls, created_at) VALUES (?, ?, ?, ?, ?)');
+  db.transaction(() => {
+    insert.run(id, 'user', question, null, now);
+    insert.run(id, 'model', answer, toolCalls.length > 0 ? JSON.stringify(toolCalls) : null, now);
+    db.prepare('UPDATE chat_sessions SET updated_at = ? WHERE id = ?').run(now, id);
+  })();
+}
+
+/**
+ * The conversation to send with the next question. The newest messages that fit the budget
+ * (after the summary) are sent as they are; older ones not yet summarised are folded into
+ * the summary first. If summarising fails they are simply left out, and summarising is tried
+ * again with the next question.
+ */
+export async function buildChatContext(
+  id: string,
+  summarize: ChatSummarizer,
+  budget = CHAT_HISTORY_TOKEN_BUDGET,
+): Promise<ChatContext> {
+  const record = getSessionRecord(id);
+  const messages = getStore().prepare('SELECT id, role, text, created_at FROM chat_messages WHERE session_id = ? AND id > ? ORDER BY id')
+    .all(id, record.summarized_through) as MessageRecord[];
+  let summary = record.summary ?? undefined;
+
+  let used = summary ? estimateTokens(summary) : 0;
+  let keepFrom = messages.length;
+  while (keepFrom > 0 && used + estimateTokens(messages[keepFrom - 1].text) <= budget) {
+    keepFrom--;
+    used += estimateTokens(messages[keepFrom].text);
+  }
+  // The history sent to the model has to start with a question.
+  while (keepFrom < messages.length && messages[keepFrom].role !== 'user') keepFrom++;
+
+  const dropped = messages.slice(0, keepFrom);
+  if (dropped.length > 0) {
+    try {
+      summary = await summarize(summary, dropped.map(({ role, text }) => ({ role, text })));
+      getStore().prepare('UPDATE chat_sessions SET summary = ?, summarized_through = ? WHERE id = ?')
+        .run(summary, dropped[dropped.length - 1].id, id);
+    } catch {
+      // Truncation alone still keeps the request within the budget.
+    }
+  }
+  return { summary, history: messages.slice(keepFrom).map(({ role, text }) => ({ role, text })) };
+}
+
+const locks = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs `task` once earlier tasks for the same session have finished, so two questions sent
+ * at once are answered in order and neither loses the other's exchange.
+ */
+export function withChatSession<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const previous = locks.get(id) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  locks.set(id, next);
+  const release = () => {
+    if (locks.get(id) === next) locks.delete(id);
+  };
+  next.then(release, release);
+  return next;
+}
@@ -0,0 +1,36 @@
+import { FastifyInstance } from 'fastify';
+import { createChatSession, getChatSession, deleteChatSession } from './chat/sessions.js';
+import { sendError } from './errors.js';
+
+/**
+ * Chat sessions for /api/qa: create one, pass its id with each question, and read back the
+ * stored conversation.
+ */
+export default async function routes(server: FastifyInstance) {
+  server.post('/api/chat/sessions', async (request, reply) => {
+    try {
+      return reply.status(201).send(createChatSession());
+    } catch (error) {
+      return sendError(reply, error, 'Failed to create the chat session');
+    }
+  });
+
+  server.get('/api/chat/sessions/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      return getChatSession(id);
+    } catch (error) {
+      return sendError(reply, error, 'Failed to load the chat session');
+    }
+  });
+
+  server.delete('/api/chat/sessions/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      deleteChatSession(id);
+      return { status: 'ok' };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to delete the chat session');
+    }
+  });
+}
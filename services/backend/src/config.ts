@@ -0,0 +1,78 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+// Load environment variables from .env file
+dotenv.config();
+
+export const DATA_DIR = process.env.DATA_DIR || './data';
+
+// Uploaded files are staged here while they are parsed, then removed.
+export const UPLOAD_DIR = path.join(DATA_DIR, 'uploads');
+
+export const MAX_UPLOAD_BYTES = (Number(process.env.MAX_UPLOAD_MB) || 50) * 1024 * 1024;
+
+// How long a remote API (Google Drive, REST sources, workflow HTTP steps) may stay silent
+// before the request is abandoned, so a server that never answers cannot hang a sync.
+export const HTTP_TIMEOUT_MS = (Number(process.env.HTTP_TIMEOUT_SECONDS) || 30) * 1000;
+
+// Number of dataset chunks retrieved into the /api/qa prompt.
+export const RAG_TOP_K = Number(process.env.RAG_TOP_K) || 8;
+
+// OAuth2 client for the Google Drive connector, created in the Google Cloud console with
+// GOOGLE_REDIRECT_URI as an authorised redirect URI.
+export const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID || '';
+export const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET || '';
+export const GOOGLE_REDIRECT_URI = process.env.GOOGLE_REDIRECT_URI || 'http://localhost:8000/api/connectors/google-drive/callback';
+
+// Google endpoints, overridable to point the connector at a local fake Drive server.
+export const GOOGLE_AUTH_URL = process.env.GOOGLE_AUTH_URL || 'https://accounts.google.com/o/oauth2/v2/auth';
+export const GOOGLE_TOKEN_URL = process.env.GOOGLE_TOKEN_URL || 'https://oauth2.googleapis.com/token';
+export const GOOGLE_DRIVE_API_URL = process.env.GOOGLE_DRIVE_API_URL || 'https://www.googleapis.com';
+
+// Scheduled connector syncs: how often the scheduler looks for due syncs, how many times a
+// failing sync is attempted, the first retry delay (doubled on each retry) and how many past
+// runs are kept per connector.
+export const SYNC_SCHEDULER_INTERVAL_MS = (Number(process.env.SYNC_SCHEDULER_INTERVAL_SECONDS) || 30) * 1000;
+export const SYNC_MAX_ATTEMPTS = Number(process.env.SYNC_MAX_ATTEMPTS) || 3;
+export const SYNC_RETRY_BASE_MS = (Number(process.env.SYNC_RETRY_BASE_SECONDS) || 30) * 1000;
+export const SYNC_HISTORY_LIMIT = Number(process.env.SYNC_HISTORY_LIMIT) || 50;
+
+// Approximate number of tokens of earlier conversation sent with each chat question. Older
+// messages are summarised to fit, and chat sessions idle for longer than the TTL are removed.
+export const CHAT_HISTORY_TOKEN_BUDGET = Number(process.env.CHAT_HISTORY_TOKEN_BUDGET) || 6000;
+export const CHAT_SESSION_TTL_MS = (Number(process.env.CHAT_SESSION_TTL_HOURS) || 24 * 7) * 60 * 60 * 1000;
+
+// Language models. LLM_PROVIDER lists the providers to try in order, falling back to the next
+// when one fails: 'gemini' (needs API_KEY), 'openai' (any OpenAI-compatible server, such as a
+// local Ollama or llama.cpp) and 'mock' (scripted answers, for offline development and CI).
+// LLM_ROUTE_QA and LLM_ROUTE_SUMMARY override the list per route, as `provider[:model]` entries.
+export const API_KEY = process.env.API_KEY || '';
+export const LLM_PROVIDER = process.env.LLM_PROVIDER || (API_KEY ? 'gemini' : 'mock');
+export const LLM_ROUTE_QA = process.env.LLM_ROUTE_QA || '';
+export const LLM_ROUTE_SUMMARY = process.env.LLM_ROUTE_SUMMARY || '';
+export const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+export const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1';
+export const OPENAI_API_KEY = process.env.OPENAI_API_KEY || '';
+export const OPENAI_MODEL = process.env.OPENAI_MODEL || 'llama3.1';
+
+// The mock provider answers from MOCK_LLM_SCRIPT, a JSON file of { match, reply } or
+// { match, error } entries (match is a regular expression tested against the question), and
+// streams its answers word by word, MOCK_LLM_DELAY_MS apart.
+export const MOCK_LLM_SCRIPT = process.env.MOCK_LLM_SCRIPT || '';
+export const MOCK_LLM_DELAY_MS = Number(process.env.MOCK_LLM_DELAY_MS) || 0;
+
+// Rounds of tool calls the analyst may make for one answer before it has to answer with what
+// it has found.
+export const ANALYST_MAX_TOOL_STEPS = Number(process.env.ANALYST_MAX_TOOL_STEPS) || 6;
+
+// Workflow runs: the first delay before retrying a failing step (doubled on each retry), how
+// many past runs are kept per workflow, how often the scheduler looks for due workflows, and
+// how many missed runs a workflow that catches up on 'all' of them makes up at most.
+export const WORKFLOW_RETRY_BASE_MS = (Number(process.env.WORKFLOW_RETRY_BASE_SECONDS) || 10) * 1000;
+export const WORKFLOW_HISTORY_LIMIT = Number(process.env.WORKFLOW_HISTORY_LIMIT) || 50;
+export const WORKFLOW_SCHEDULER_INTERVAL_MS = (Number(process.env.WORKFLOW_SCHEDULER_INTERVAL_SECONDS) || 30) * 1000;
+export const WORKFLOW_MAX_CATCH_UP_RUNS = Number(process.env.WORKFLOW_MAX_CATCH_UP_RUNS) || 10;
+
+// Webhook secrets are derived from the key in this file (created on first use), which is kept
+// outside the store so that a copy of the database is not enough to sign webhook requests.
+export const WEBHOOK_KEY_FILE = process.env.WEBHOOK_KEY_FILE || path.join(DATA_DIR, 'webhook.key');
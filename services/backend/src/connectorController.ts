@@ -0,0 +1,167 @@
+import { FastifyInstance } from 'fastify';
+import {
+  listConnectorTypes,
+  listConnectorPlugins,
+  listConnectorInstances,
+  getConnectorInstance,
+  createConnectorInstance,
+  updateConnectorInstance,
+  deleteConnectorInstance,
+  testConnectorSettings,
+  testConnectorInstance,
+  discoverConnectorInstance,
+  syncConnectorInstance,
+  setConnectorSchedule,
+  toConnectorView,
+} from './connectors/registry.js';
+import { listSyncRuns, getSyncRun } from './connectors/syncRuns.js';
+import { HttpError, sendError } from './errors.js';
+
+/**
+ * Generic connector routes: the registered connector types and the lifecycle of their
+ * instances. Each plugin's own extra routes are registered here too.
+ */
+export default async function routes(server: FastifyInstance) {
+  for (const plugin of listConnectorPlugins()) {
+    if (plugin.routes) await server.register(plugin.routes);
+  }
+
+  // Connector types with their settings forms, for "Add New Connector".
+  server.get('/api/connectors/types', async () => {
+    return { types: listConnectorTypes() };
+  });
+
+  server.get('/api/connectors', async (request, reply) => {
+    try {
+      return { connectors: listConnectorInstances().map(toConnectorView) };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to list connectors');
+    }
+  });
+
+  // Adds a connector: { type, name?, settings }.
+  server.post('/api/connectors', async (request, reply) => {
+    const body = request.body as any;
+    try {
+      if (typeof body?.type !== 'string') {
+        throw new HttpError(400, '`type` is required.');
+      }
+      const instance = createConnectorInstance(body.type, body.name, body.settings);
+      server.log.info(`Added ${instance.type} connector ${instance.id}`);
+      return reply.status(201).send(toConnectorView(instance));
+    } catch (error) {
+      return sendError(reply, error, 'Failed to add the connector');
+    }
+  });
+
+  // Tests settings before they are saved: { type, settings, id? }. With `id`, omitted
+  // secrets come from that connector.
+  server.post('/api/connectors/test', async (request, reply) => {
+    const body = request.body as any;
+    try {
+      if (typeof body?.type !== 'string') {
+        throw new HttpError(400, '`type` is required.');
+      }
+      return { status: 'ok', message: await testConnectorSettings(body.type, body.settings, typeof body.id === 'string' ? body.id : undefined) };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to test the connector');
+    }
+  });
+
+  server.get('/api/connectors/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      return toConnectorView(getConnectorInstance(id));
+    } catch (error) {
+      return sendError(reply, error, 'Failed to load the connector');
+    }
+  });
+
+  // Renames a connector or changes its settings: { name?, settings? }. Omitted secrets are kept.
+  server.put('/api/connectors/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = request.body as any;
+    try {
+      return toConnectorView(updateConnectorInstance(id, body?.name, body?.settings));
+    } catch (error) {
+      return sendError(reply, error, 'Failed to update the connector');
+    }
+  });
+
+  // Disconnects and removes a connector. Datasets it filled are kept.
+  server.delete('/api/connectors/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      await deleteConnectorInstance(id);
+      server.log.info(`Removed connector ${id}`);
+      return { status: 'ok' };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to remove the connector');
+    }
+  });
+
+  server.post('/api/connectors/:id/test', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      return { status: 'ok', message: await testConnectorInstance(id) };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to test the connector');
+    }
+  });
+
+  // Tables, endpoints or files the connector can read, with their columns.
+  server.get('/api/connectors/:id/discover', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      return { streams: await discoverConnectorInstance(id) };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to discover the connector\'s data');
+    }
+  });
+
+  server.post('/api/connectors/:id/sync', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      const result = await syncConnectorInstance(id);
+      server.log.info(`Synced connector ${id}: ${result.rowCount} rows`);
+      return { ...result, connector: toConnectorView(getConnectorInstance(id)) };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to sync the connector');
+    }
+  });
+
+  // Sets or clears the cron schedule the connector syncs on: { schedule: '0 * * * *' | null }.
+  server.put('/api/connectors/:id/schedule', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = request.body as any;
+    try {
+      const instance = setConnectorSchedule(id, body?.schedule);
+      server.log.info(`Connector ${id} schedule: ${instance.schedule ?? 'none'}`);
+      return toConnectorView(instance);
+    } catch (error) {
+      return sendError(reply, error, 'Failed to set the schedule');
+    }
+  });
+
+  // Past syncs, newest first: ?limit=20.
+  server.get('/api/connectors/:id/runs', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { limit } = request.query as { limit?: string };
+    try {
+      getConnectorInstance(id);
+      return { runs: listSyncRuns(id, Number(limit) > 0 ? Number(limit) : undefined) };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to list the sync history');
+    }
+  });
+
+  // One run with its log.
+  server.get('/api/connectors/:id/runs/:runId', async (request, reply) => {
+    const { id, runId } = request.params as { id: string; runId: string };
+    try {
+      return getSyncRun(id, runId);
+    } catch (error) {
+      return sendError(reply, error, 'Failed to load the sync run');
+    }
+  });
+}
@@ -0,0 +1,13 @@
+import { registerConnector } from './registry.js';
+import { googleDriveConnector } from './driveSync.js';
+import { postgresConnector } from './postgresSync.js';
+import { restApiConnector } from './restSync.js';
+import googleDriveRoutes from '../googleDriveController.js';
+import postgresRoutes from '../postgresController.js';
+
+// Registers the connectors that ship with the backend. Called once at startup.
+export function registerBuiltInConnectors(): void {
+  registerConnector({ ...googleDriveConnector, routes: googleDriveRoutes });
+  registerConnector({ ...postgresConnector, routes: postgresRoutes });
+  registerConnector(restApiConnector);
+}
@@ -1,16 +1,25 @@
 import fs from 'fs';
 import csvParser from 'csv-parser';
+import { MalformedFileError } from '../errors.js';
 
 export function ingestCsvFile(filePath: string): Promise<any[]> {
   return new Promise((resolve, reject) => {
     const rows: any[] = [];
-    fs.createReadStream(filePath)
-      .pipe(csvParser())
+    const input = fs.createReadStream(filePath);
+    input
+      .on('error', (err) => reject(err))
+      .pipe(csvParser({ strict: true }))
       .on('data', (row) => rows.push(row))
       .on('end', () => {
         resolve(rows);
       })
       .on('error', (err) => {
+        input.destroy();
+        // csv-parser reports rows that don't match the header as a RangeError in strict mode.
+        if (err instanceof RangeError) {
+          reject(new MalformedFileError(`Malformed CSV at data row ${rows.length + 1}: ${err.message}.`));
+          return;
+        }
         reject(err);
       });
   });
@@ -0,0 +1,377 @@
+import { mkdir, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { getStore } from '../store.js';
+import { HttpError } from '../errors.js';
+import { UPLOAD_DIR } from '../config.js';
+import { ingestFile, formatFromFileName, FileFormat } from './fileIngest.js';
+import { getGoogleDrive, DriveFile, FOLDER_MIME_TYPE } from './googleDrive.js';
+import { saveDataset, upsertDataset, replaceDataset, readDatasetSchema, SavedDataset } from '../datasets/storage.js';
+import { getDatasetMeta, DatasetMeta, DatasetSource } from '../datasets/catalog.js';
+import { ConnectorPlugin, DiscoveredStream } from './plugin.js';
+
+/**
+ * Imports Google Drive files through the ingest pipeline and keeps them in sync. Every
+ * imported file is tracked in `drive_files` with the dataset it feeds and a revision
+ * fingerprint; a sync re-downloads files whose fingerprint changed and imports new files
+ * from the folders listed in `drive_folders`.
+ */
+const GOOGLE_SHEET_MIME_TYPE = 'application/vnd.google-apps.spreadsheet';
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const MIME_TYPE_FORMATS: Record<string, FileFormat> = {
+  'text/csv': 'csv',
+  [XLSX_MIME_TYPE]: 'xlsx',
+  'application/vnd.ms-excel': 'xls',
+  'application/json': 'json',
+  'application/x-ndjson': 'ndjson',
+  // Google Sheets are exported as xlsx.
+  [GOOGLE_SHEET_MIME_TYPE]: 'xlsx',
+};
+
+export interface DriveEntry extends DriveFile {
+  isFolder: boolean;
+  importable: boolean;
+  // Dataset fed by the file, when it has been imported.
+  datasetId?: string;
+}
+
+export interface TrackedDriveFile {
+  fileId: string;
+  name: string;
+  mimeType: string;
+  // Watched folder the file was imported from, if any.
+  folderId?: string;
+  datasetId: string;
+  sheet?: string;
+  syncedAt: string;
+}
+
+export interface WatchedDriveFolder {
+  folderId: string;
+  name: string;
+  watchedAt: string;
+  syncedAt?: string;
+}
+
+export interface DriveImportOptions {
+  sheet?: string;
+  primaryKey?: string[];
+  // Existing dataset to upsert into instead of the file's own dataset.
+  dataset?: string;
+}
+
+export interface DriveImport extends SavedDataset {
+  file: DriveFile;
+  format: FileFormat;
+  sheet?: string;
+  ingested: number;
+}
+
+export type DriveSyncStatus = 'imported' | 'updated' | 'unchanged' | 'missing' | 'failed';
+
+export interface DriveSyncReport {
+  startedAt: string;
+  finishedAt: string;
+  files: { fileId: string; name: string; datasetId?: string; status: DriveSyncStatus; error?: string }[];
+}
+
+interface TrackedRecord {
+  file_id: string;
+  name: string;
+  mime_type: string;
+  folder_id: string | null;
+  dataset_id: string;
+  sheet: string | null;
+  revision: string;
+  synced_at: string;
+}
+
+function importFormat(file: DriveFile): FileFormat | undefined {
+  return MIME_TYPE_FORMATS[file.mimeType] ?? formatFromFileName(file.name);
+}
+
+// Binary files change checksum with their content; Google Sheets only have a modified time.
+function revisionOf(file: DriveFile): string {
+  return file.md5Checksum ?? file.modifiedTime ?? '';
+}
+
+function toTracked(record: TrackedRecord): TrackedDriveFile {
+  return {
+    fileId: record.file_id,
+    name: record.name,
+    mimeType: record.mime_type,
+    folderId: record.folder_id ?? undefined,
+    datasetId: record.dataset_id,
+    sheet: record.sheet ?? undefined,
+    syncedAt: record.synced_at,
+  };
+}
+
+function getTrackedRecord(fileId: string): TrackedRecord | undefined {
+  return getStore().prepare('SELECT * FROM drive_files WHERE file_id = ?').get(fileId) as TrackedRecord | undefined;
+}
+
+async function datasetExists(id: string): Promise<boolean> {
+  try {
+    await getDatasetMeta(id);
+    return true;
+  } catch (error) {
+    if (error instanceof HttpError && error.statusCode === 404) return false;
+    throw error;
+  }
+}
+
+async function downloadRows(file: DriveFile, format: FileFormat, sheet?: string): Promise<{ rows: any[]; sheet?: string }> {
+  const data = await getGoogleDrive().download(file, file.mimeType === GOOGLE_SHEET_MIME_TYPE ? XLSX_MIME_TYPE : undefined);
+  await mkdir(UPLOAD_DIR, { recursive: true });
+  const filePath = path.join(UPLOAD_DIR, `${Date.now()}-drive-${file.id}.${format}`);
+  await writeFile(filePath, data);
+  try {
+    const result = await ingestFile(filePath, { format, sheet });
+    if (result.rows.length === 0) {
+      throw new HttpError(422, `'${file.name}' contains no data rows.`);
+    }
+    return result;
+  } finally {
+    await unlink(filePath).catch(() => {});
+  }
+}
+
+/**
+ * Downloads a Drive file and stores its rows. A file that was imported before goes back
+ * into its dataset: upserted on the primary key when there is one, replaced otherwise,
+ * since each download is a full copy of the file.
+ */
+async function importFile(file: DriveFile, options: DriveImportOptions, folderId?: string): Promise<DriveImport> {
+  const format = importFormat(file);
+  if (!format || file.mimeType === FOLDER_MIME_TYPE) {
+    throw new HttpError(415, `'${file.name}' is not a CSV, Excel, JSON or Google Sheets file.`);
+  }
+
+  const tracked = getTrackedRecord(file.id);
+  const sheet = options.sheet ?? tracked?.sheet ?? undefined;
+  const result = await downloadRows(file, format, sheet);
+  const source: DatasetSource = { connector: 'google-drive', format, fileName: file.name, fileId: file.id, sheet: result.sheet };
+
+  let saved: SavedDataset;
+  if (options.dataset) {
+    saved = await upsertDataset(options.dataset, result.rows, { primaryKey: options.primaryKey, source });
+  } else if (tracked && await datasetExists(tracked.dataset_id)) {
+    const meta = await getDatasetMeta(tracked.dataset_id);
+    const primaryKey = options.primaryKey ?? meta.primaryKey;
+    saved = primaryKey
+      ? await upsertDataset(meta.id, result.rows, { primaryKey, deleteMissing: true, source })
+      : await replaceDataset(meta.id, result.rows, source);
+  } else {
+    saved = await saveDataset(result.rows, source, { primaryKey: options.primaryKey });
+  }
+
+  getStore().prepare(`
+    INSERT OR REPLACE INTO drive_files (file_id, name, mime_type, folder_id, dataset_id, sheet, revision, synced_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(file.id, file.name, file.mimeType, folderId ?? tracked?.folder_id ?? null, saved.id, result.sheet ?? null, revisionOf(file), new Date().toISOString());
+
+  return { ...saved, file, format, sheet: result.sheet, ingested: result.rows.length };
+}
+
+export async function importDriveFile(fileId: string, options: DriveImportOptions = {}): Promise<DriveImport> {
+  return importFile(await getGoogleDrive().getFile(fileId), options);
+}
+
+async function listAllFiles(folderId: string): Promise<DriveFile[]> {
+  const files: DriveFile[] = [];
+  let pageToken: string | undefined;
+  do {
+    const page = await getGoogleDrive().listFolder(folderId, pageToken);
+    files.push(...page.files);
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+  return files;
+}
+
+export async function browseDriveFolder(folderId: string, pageToken?: string): Promise<{ folder: DriveFile; entries: DriveEntry[]; nextPageToken?: string }> {
+  const drive = getGoogleDrive();
+  const [folder, page] = await Promise.all([drive.getFile(folderId), drive.listFolder(folderId, pageToken)]);
+  const datasets = new Map(listTrackedDriveFiles().map((file) => [file.fileId, file.datasetId]));
+  const entries = page.files.map((file) => ({
+    ...file,
+    isFolder: file.mimeType === FOLDER_MIME_TYPE,
+    importable: file.mimeType !== FOLDER_MIME_TYPE && importFormat(file) !== undefined,
+    datasetId: datasets.get(file.id),
+  }));
+  return { folder, entries, nextPageToken: page.nextPageToken };
+}
+
+export function listTrackedDriveFiles(): TrackedDriveFile[] {
+  const records = getStore().prepare('SELECT * FROM drive_files ORDER BY name').all() as TrackedRecord[];
+  return records.map(toTracked);
+}
+
+// Stops syncing a file; its dataset is kept.
+export function untrackDriveFile(fileId: string): void {
+  const result = getStore().prepare('DELETE FROM drive_files WHERE file_id = ?').run(fileId);
+  if (result.changes === 0) {
+    throw new HttpError(404, `Drive file '${fileId}' is not being synced.`);
+  }
+}
+
+export function listWatchedDriveFolders(): WatchedDriveFolder[] {
+  const records = getStore().prepare('SELECT * FROM drive_folders ORDER BY name').all() as
+    { folder_id: string; name: string; watched_at: string; synced_at: string | null }[];
+  return records.map((record) => ({
+    folderId: record.folder_id,
+    name: record.name,
+    watchedAt: record.watched_at,
+    syncedAt: record.synced_at ?? undefined,
+  }));
+}
+
+export async function watchDriveFolder(folderId: string): Promise<WatchedDriveFolder> {
+  const folder = await getGoogleDrive().getFile(folderId);
+  if (folder.mimeType !== FOLDER_MIME_TYPE) {
+    throw new HttpError(400, `'${folder.name}' is not a folder.`);
+  }
+  const watchedAt = new Date().toISOString();
+  getStore().prepare('INSERT INTO drive_folders (folder_id, name, watched_at) VALUES (?, ?, ?) ON CONFLICT (folder_id) DO UPDATE SET name = excluded.name')
+    .run(folder.id, folder.name, watchedAt);
+  return listWatchedDriveFolders().find((watched) => watched.folderId === folder.id)!;
+}
+
+// Stops importing new files from a folder. Files already imported from it keep syncing.
+export function unwatchDriveFolder(folderId: string): void {
+  const result = getStore().prepare('DELETE FROM drive_folders WHERE folder_id = ?').run(folderId);
+  if (result.changes === 0) {
+    throw new HttpError(404, `Drive folder '${folderId}' is not being watched.`);
+  }
+}
+
+function failure(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function runSync(): Promise<DriveSyncReport> {
+  const startedAt = new Date().toISOString();
+  const files: DriveSyncReport['files'] = [];
+  const db = getStore();
+
+  // Tracked files first, so files new to a watched folder are not also counted as unchanged.
+  for (const tracked of db.prepare('SELECT * FROM drive_files').all() as TrackedRecord[]) {
+    const entry = { fileId: tracked.file_id, name: tracked.name, datasetId: tracked.dataset_id };
+    try {
+      const file = await getGoogleDrive().getFile(tracked.file_id);
+      if (file.trashed) {
+        files.push({ ...entry, status: 'missing', error: 'The file is in the Drive trash.' });
+      } else if (!await datasetExists(tracked.dataset_id)) {
+        // The dataset was deleted, so the file stops syncing; a watched folder imports it afresh.
+        db.prepare('DELETE FROM drive_files WHERE file_id = ?').run(tracked.file_id);
+        files.push({ ...entry, status: 'missing', error: 'The dataset was deleted.' });
+      } else if (revisionOf(file) === tracked.revision) {
+        files.push({ ...entry, status: 'unchanged' });
+      } else {
+        const imported = await importFile(file, {});
+        files.push({ ...entry, name: file.name, datasetId: imported.id, status: 'updated' });
+      }
+    } catch (error) {
+      const missing = error instanceof HttpError && error.statusCode === 404;
+      files.push({ ...entry, status: missing ? 'missing' : 'failed', error: failure(error) });
+    }
+  }
+
+  for (const folder of listWatchedDriveFolders()) {
+    try {
+      for (const file of await listAllFiles(folder.folderId)) {
+        if (file.mimeType === FOLDER_MIME_TYPE || !importFormat(file) || getTrackedRecord(file.id)) continue;
+        try {
+          const imported = await importFile(file, {}, folder.folderId);
+          files.push({ fileId: file.id, name: file.name, datasetId: imported.id, status: 'imported' });
+        } catch (error) {
+          files.push({ fileId: file.id, name: file.name, status: 'failed', error: failure(error) });
+        }
+      }
+      db.prepare('UPDATE drive_folders SET synced_at = ? WHERE folder_id = ?').run(new Date().toISOString(), folder.folderId);
+    } catch (error) {
+      files.push({ fileId: folder.folderId, name: folder.name, status: 'failed', error: failure(error) });
+    }
+  }
+
+  return { startedAt, finishedAt: new Date().toISOString(), files };
+}
+
+let runningSync: Promise<DriveSyncReport> | null = null;
+
+/**
+ * Re-imports tracked files whose Drive revision changed and imports new files from watched
+ * folders. Failures are reported per file rather than aborting the sync.
+ */
+export async function syncDrive(): Promise<DriveSyncReport> {
+  if (!getGoogleDrive().connection().connected) {
+    throw new HttpError(409, 'Google Drive is not connected.');
+  }
+  if (runningSync) {
+    throw new HttpError(409, 'A Google Drive sync is already running.');
+  }
+  runningSync = runSync();
+  try {
+    return await runningSync;
+  } finally {
+    runningSync = null;
+  }
+}
+
+async function discoverDrive(): Promise<DiscoveredStream[]> {
+  const tracked = listTrackedDriveFiles();
+  const streams: DiscoveredStream[] = [];
+  for (const file of tracked) {
+    const schema = await readDatasetSchema(file.datasetId).catch(() => undefined);
+    streams.push({ name: file.name, kind: 'synced file', columns: schema?.columns.map(({ name, type }) => ({ name, type })) ?? [] });
+  }
+  const trackedIds = new Set(tracked.map((file) => file.fileId));
+  const { entries } = await browseDriveFolder('root');
+  for (const entry of entries) {
+    if (entry.importable && !trackedIds.has(entry.id)) streams.push({ name: entry.name, kind: 'file', columns: [] });
+  }
+  return streams;
+}
+
+/**
+ * The Google Drive connector. There is one instance, for the linked account; connecting,
+ * browsing and importing go through the routes in googleDriveController.ts.
+ */
+export const googleDriveConnector: ConnectorPlugin<Record<string, never>> = {
+  type: 'google-drive',
+  name: 'Google Drive',
+  description: 'Import spreadsheets, CSV and JSON files from Google Drive and re-import them when they change.',
+  iconUrl: 'https://cdn.worldvectorlogo.com/logos/google-drive-2.svg',
+  idPrefix: 'drive',
+  singleton: true,
+  fields: [],
+  configure: () => ({}),
+  redact: () => ({}),
+  isConnected: () => getGoogleDrive().connection().connected,
+  test: async () => {
+    const connection = getGoogleDrive().connection();
+    if (!connection.connected) {
+      throw new HttpError(409, 'Google Drive is not connected.');
+    }
+    await getGoogleDrive().getFile('root');
+    return `Connected as ${connection.account ?? 'an unknown account'}.`;
+  },
+  discover: () => discoverDrive(),
+  sync: async (_instance, { log }) => {
+    const report = await syncDrive();
+    report.files.forEach((file) => log(`${file.name}: ${file.status}${file.error ? ` (${file.error})` : ''}.`));
+    const changed = report.files.filter((file) => (file.status === 'imported' || file.status === 'updated') && file.datasetId);
+    const datasets: DatasetMeta[] = await Promise.all(changed.map((file) => getDatasetMeta(file.datasetId!)));
+    const failed = report.files.filter((file) => file.status === 'failed');
+    if (failed.length > 0) {
+      throw new HttpError(502, `${failed.length} of ${report.files.length} files failed. ${failed.map((file) => `${file.name}: ${file.error}`).join(' ')}`);
+    }
+    const missing = report.files.filter((file) => file.status === 'missing').length;
+    return {
+      rowCount: datasets.reduce((sum, dataset) => sum + dataset.rowCount, 0),
+      datasets,
+      message: `Checked ${report.files.length} files: ${changed.length} new or changed, ${missing} no longer in Drive.`,
+    };
+  },
+  disconnect: () => getGoogleDrive().disconnect(),
+};
@@ -0,0 +1,42 @@
+import { readFile } from 'fs/promises';
+import XLSX from 'xlsx';
+import { MalformedFileError } from '../errors.js';
+
+async function readWorkbook(filePath: string): Promise<XLSX.WorkBook> {
+  const buffer = await readFile(filePath);
+  try {
+    return XLSX.read(buffer, { type: 'buffer', cellDates: true });
+  } catch (err: any) {
+    throw new MalformedFileError(`Unreadable Excel workbook: ${err.message}`);
+  }
+}
+
+export async function listExcelSheets(filePath: string): Promise<string[]> {
+  const workbook = await readWorkbook(filePath);
+  return workbook.SheetNames;
+}
+
+/**
+ * Reads one sheet of an .xlsx/.xls workbook (the first one unless `sheetName` is given).
+ * Cells are returned as their formatted text so rows match the output of `ingestCsvFile`.
+ */
+export async function ingestExcelFile(filePath: string, sheetName?: string): Promise<{ rows: any[]; sheet: string }> {
+  const workbook = await readWorkbook(filePath);
+  const sheet = sheetName ?? workbook.SheetNames[0];
+  const worksheet = sheet !== undefined ? workbook.Sheets[sheet] : undefined;
+  if (!worksheet) {
+    throw new MalformedFileError(
+      sheetName ? `Sheet '${sheetName}' not found. Available sheets: ${workbook.SheetNames.join(', ')}.` : 'Workbook contains no sheets.'
+    );
+  }
+
+  // Date cells keep their workbook display format (often locale-specific like 3/1/24), so normalise them to ISO.
+  for (const [address, cell] of Object.entries(worksheet)) {
+    if (!address.startsWith('!') && (cell as XLSX.CellObject).t === 'd') {
+      (cell as XLSX.CellObject).w = XLSX.SSF.format('yyyy-mm-dd', (cell as XLSX.CellObject).v);
+    }
+  }
+
+  const rows = XLSX.utils.sheet_to_json(worksheet, { raw: false, defval: '' });
+  return { rows, sheet };
+}
@@ -0,0 +1,80 @@
+import { open } from 'fs/promises';
+import path from 'path';
+import { ingestCsvFile } from './csvIngest.js';
+import { ingestExcelFile } from './excelIngest.js';
+import { ingestJsonFile, ingestNdjsonFile } from './jsonIngest.js';
+
+export type FileFormat = 'csv' | 'xlsx' | 'xls' | 'json' | 'ndjson';
+
+export const FILE_FORMATS: FileFormat[] = ['csv', 'xlsx', 'xls', 'json', 'ndjson'];
+
+// Browsers and HTTP clients are inconsistent here, so each list is deliberately permissive.
+export const FORMAT_MIME_TYPES: Record<FileFormat, string[]> = {
+  csv: ['text/csv', 'application/csv', 'text/plain', 'application/vnd.ms-excel', 'application/octet-stream'],
+  xlsx: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/zip', 'application/octet-stream'],
+  xls: ['application/vnd.ms-excel', 'application/octet-stream'],
+  json: ['application/json', 'text/plain', 'application/octet-stream'],
+  ndjson: ['application/x-ndjson', 'application/ndjson', 'application/jsonl', 'application/json', 'text/plain', 'application/octet-stream'],
+};
+
+const EXTENSION_FORMATS: Record<string, FileFormat> = {
+  '.csv': 'csv',
+  '.xlsx': 'xlsx',
+  '.xlsm': 'xlsx',
+  '.xls': 'xls',
+  '.json': 'json',
+  '.ndjson': 'ndjson',
+  '.jsonl': 'ndjson',
+};
+
+export function isFileFormat(value: unknown): value is FileFormat {
+  return FILE_FORMATS.includes(value as FileFormat);
+}
+
+export function formatFromFileName(fileName: string): FileFormat | undefined {
+  return EXTENSION_FORMATS[path.extname(fileName).toLowerCase()];
+}
+
+/**
+ * Picks a format from the file extension, falling back to sniffing the first bytes
+ * (zip and OLE signatures for Excel, a leading `[` or `{` for JSON/NDJSON).
+ */
+export async function detectFileFormat(filePath: string, fileName: string = filePath): Promise<FileFormat> {
+  const byExtension = formatFromFileName(fileName);
+  if (byExtension) return byExtension;
+
+  const handle = await open(filePath, 'r');
+  const head = Buffer.alloc(512);
+  try {
+    await handle.read(head, 0, head.length, 0);
+  } finally {
+    await handle.close();
+  }
+
+  if (head.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) return 'xlsx';
+  if (head.subarray(0, 4).equals(Buffer.from([0xd0, 0xcf, 0x11, 0xe0]))) return 'xls';
+  const firstChar = head.toString('utf8').trimStart()[0];
+  if (firstChar === '[') return 'json';
+  if (firstChar === '{') return 'ndjson';
+  return 'csv';
+}
+
+export interface IngestFileOptions {
+  format?: FileFormat;
+  sheet?: string;
+}
+
+export async function ingestFile(filePath: string, options: IngestFileOptions = {}): Promise<{ format: FileFormat; rows: any[]; sheet?: string }> {
+  const format = options.format ?? await detectFileFormat(filePath);
+  switch (format) {
+    case 'csv':
+      return { format, rows: await ingestCsvFile(filePath) };
+    case 'xlsx':
+    case 'xls':
+      return { format, ...await ingestExcelFile(filePath, options.sheet) };
+    case 'json':
+      return { format, rows: await ingestJsonFile(filePath) };
+    case 'ndjson':
+      return { format, rows: await ingestNdjsonFile(filePath) };
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * The Google Drive connector against a fake Drive server: an `HttpClient` that answers like
+ * Google's token endpoint and Drive API, and records every request it is sent.
+ */
+import { test, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { HttpClient, HttpRequest, HttpResponse } from './http.js';
+
+// The store opens under DATA_DIR, so it is pointed at a fresh directory before it loads.
+const dataDir = await mkdtemp(path.join(tmpdir(), 'google-drive-test-'));
+process.env.DATA_DIR = dataDir;
+const { createGoogleDrive } = await import('./googleDrive.js');
+const { getStore } = await import('../store.js');
+
+const CONFIG = {
+  clientId: 'client-id',
+  clientSecret: 'client-secret',
+  redirectUri: 'http://localhost:8000/api/connectors/google-drive/callback',
+  authUrl: 'https://fake-google.test/auth',
+  tokenUrl: 'https://fake-google.test/token',
+  apiUrl: 'https://fake-google.test',
+};
+
+const FILES = [
+  { id: 'f1', name: 'sales.csv', mimeType: 'text/csv', size: '11', md5Checksum: 'abc' },
+  { id: 'f2', name: 'Leads', mimeType: 'application/vnd.google-apps.spreadsheet' },
+];
+
+// A fake Drive server: issues access tokens `token-1`, `token-2`, ... and accepts only the
+// latest one, so a test can expire it by issuing a new one.
+function fakeDrive() {
+  const requests: HttpRequest[] = [];
+  let issued = 0;
+  let refreshToken = 'refresh-1';
+  let revoked = false;
+
+  const http: HttpClient = async (request) => {
+    requests.push(request);
+    const reply = (status: number, data: unknown): HttpResponse => ({ status, data });
+
+    if (request.url === CONFIG.tokenUrl) {
+      const form = request.form ?? {};
+      if (form.client_id !== CONFIG.clientId || form.client_secret !== CONFIG.clientSecret) return reply(401, { error: 'invalid_client' });
+      const valid = form.grant_type === 'authorization_code' ? form.code === 'auth-code' : form.refresh_token === refreshToken && !revoked;
+      if (!valid) return reply(400, { error: 'invalid_grant', error_description: 'Token has been expired or revoked.' });
+      issued++;
+      // Google may rotate the refresh token when it is used.
+      if (form.grant_type === 'refresh_token') refreshToken = 'refresh-2';
+      return reply(200, { access_token: `token-${issued}`, expires_in: 3600, refresh_token: refreshToken });
+    }
+
+    if (request.headers?.Authorization !== `Bearer token-${issued}`) return reply(401, { error: { message: 'Invalid Credentials' } });
+    const url = new URL(request.url);
+    if (url.pathname === '/drive/v3/about') return reply(200, { user: { emailAddress: 'analyst@43v3r.tech' } });
+    if (url.pathname === '/drive/v3/files') {
+      return request.params?.pageToken === 'page-2'
+        ? reply(200, { files: [FILES[1]] })
+        : reply(200, { files: [FILES[0]], nextPageToken: 'page-2' });
+    }
+    if (url.pathname === '/drive/v3/files/f1' && request.params?.alt === 'media') return { status: 200, data: Buffer.from('region,n\nEU,1\n') };
+    if (url.pathname === '/drive/v3/files/f2/export') return { status: 200, data: Buffer.from(`exported as ${request.params?.mimeType}`) };
+    return reply(404, { error: { message: 'File not found' } });
+  };
+
+  return {
+    http,
+    requests,
+    // Makes the access token the connector holds stale, as if it had expired early.
+    expireAccessToken: () => { issued++; },
+    revoke: () => { revoked = true; issued++; },
+  };
+}
+
+async function connect(server: ReturnType<typeof fakeDrive>) {
+  const drive = createGoogleDrive({ http: server.http, config: CONFIG });
+  const state = new URL(drive.authorizationUrl()).searchParams.get('state')!;
+  await drive.completeAuthorization('auth-code', state);
+  return drive;
+}
+
+beforeEach(() => {
+  getStore().prepare('DELETE FROM oauth_tokens').run();
+});
+
+after(() => rm(dataDir, { recursive: true, force: true }));
+
+test('connects with the authorization code and records the account', async () => {
+  const server = fakeDrive();
+  const drive = createGoogleDrive({ http: server.http, config: CONFIG });
+
+  const url = new URL(drive.authorizationUrl());
+  assert.equal(url.origin + url.pathname, CONFIG.authUrl);
+  assert.equal(url.searchParams.get('access_type'), 'offline');
+  assert.equal(url.searchParams.get('redirect_uri'), CONFIG.redirectUri);
+  await assert.rejects(drive.completeAuthorization('auth-code', 'unknown-state'), { statusCode: 400 });
+
+  const connection = await drive.completeAuthorization('auth-code', url.searchParams.get('state')!);
+  assert.equal(connection.connected, true);
+  assert.equal(connection.account, 'analyst@43v3r.tech');
+  assert.deepEqual(server.requests[0].form, {
+    grant_type: 'authorization_code',
+    code: 'auth-code',
+    redirect_uri: CONFIG.redirectUri,
+    client_id: CONFIG.clientId,
+    client_secret: CONFIG.clientSecret,
+  });
+});
+
+test('lists a folder page by page and downloads and exports files', async () => {
+  const server = fakeDrive();
+  const drive = await connect(server);
+
+  const first = await drive.listFolder("Team's folder");
+  assert.deepEqual(first.files.map((file) => [file.name, file.size]), [['sales.csv', 11]]);
+  assert.equal(first.nextPageToken, 'page-2');
+  assert.equal(server.requests.at(-1)!.params?.q, "'Team\\'s folder' in parents and trashed = false");
+  const second = await drive.listFolder("Team's folder", first.nextPageToken);
+  assert.deepEqual(second.files.map((file) => file.name), ['Leads']);
+  assert.equal(second.nextPageToken, undefined);
+
+  assert.equal((await drive.download(first.files[0])).toString(), 'region,n\nEU,1\n');
+  assert.equal((await drive.download(second.files[0], 'text/csv')).toString(), 'exported as text/csv');
+  await assert.rejects(drive.getFile('missing'), { statusCode: 404 });
+});
+
+test('refreshes a rejected access token once and keeps the rotated refresh token', async () => {
+  const server = fakeDrive();
+  const drive = await connect(server);
+  server.expireAccessToken();
+
+  const { files } = await drive.listFolder('root');
+  assert.equal(files.length, 1);
+  const refresh = server.requests.find((request) => request.form?.grant_type === 'refresh_token');
+  assert.equal(refresh?.form?.refresh_token, 'refresh-1');
+  const stored = getStore().prepare('SELECT refresh_token FROM oauth_tokens').get() as { refresh_token: string };
+  assert.equal(stored.refresh_token, 'refresh-2');
+});
+
+test('disconnects when Google revokes the refresh token', async () => {
+  const server = fakeDrive();
+  const drive = await connect(server);
+  server.revoke();
+
+  await assert.rejects(drive.listFolder('root'), { statusCode: 409, message: /revoked; connect Google Drive again/ });
+  assert.equal(drive.connection().connected, false);
+});
@@ -1,10 +1,314 @@
 /**
- * googleDrive.ts - simple helper to list files using an API key / OAuth token
- * NOTE: Use OAuth2 if real Drive access is needed. For prototype use, allow pulling files from a 'shareable link' or local upload.
+ * googleDrive.ts - Google Drive access through OAuth2 (authorization-code flow with refresh
+ * tokens) and the Drive v3 API. Tokens are kept in the `oauth_tokens` table. All HTTP goes
+ * through an injectable `HttpClient` and every endpoint is configurable, so the connector
+ * can be exercised against a local fake Drive server (see `createGoogleDrive`).
  */
-import axios from 'axios';
+import crypto from 'crypto';
+import { getStore } from '../store.js';
+import { HttpError } from '../errors.js';
+import { HttpClient, HttpResponse, axiosHttpClient } from './http.js';
+import {
+  GOOGLE_CLIENT_ID,
+  GOOGLE_CLIENT_SECRET,
+  GOOGLE_REDIRECT_URI,
+  GOOGLE_AUTH_URL,
+  GOOGLE_TOKEN_URL,
+  GOOGLE_DRIVE_API_URL,
+  MAX_UPLOAD_BYTES,
+} from '../config.js';
 
-export async function listFiles(apiKeyOrToken: string) {
-  // placeholder — for prototyping, return mock data
-  return [{ id: '1', name: 'sample_financials.csv', mimeType: 'text/csv' }];
+export interface GoogleDriveConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  authUrl: string;
+  tokenUrl: string;
+  // Base URL of the Drive API, without the /drive/v3 path.
+  apiUrl: string;
+}
+
+export const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+// A file or folder as returned by Drive's files resource, with `size` parsed.
+export interface DriveFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  modifiedTime?: string;
+  // Only set for files with binary content, not for Google Docs formats.
+  md5Checksum?: string;
+  size?: number;
+  parents?: string[];
+  trashed?: boolean;
+}
+
+export interface DriveConnection {
+  connected: boolean;
+  // Email address of the authorising Google account.
+  account?: string;
+  connectedAt?: string;
+}
+
+export interface GoogleDrive {
+  isConfigured(): boolean;
+  // URL of Google's consent screen; the user is sent back to the redirect URI with a code.
+  authorizationUrl(): string;
+  completeAuthorization(code: string, state: string): Promise<DriveConnection>;
+  connection(): DriveConnection;
+  disconnect(): void;
+  getFile(fileId: string): Promise<DriveFile>;
+  listFolder(folderId: string, pageToken?: string): Promise<{ files: DriveFile[]; nextPageToken?: string }>;
+  // Downloads a file's content, or an export of a Google Docs file in `exportMimeType`.
+  download(file: DriveFile, exportMimeType?: string): Promise<Buffer>;
+}
+
+const PROVIDER = 'google-drive';
+const SCOPE = 'https://www.googleapis.com/auth/drive.readonly';
+const FILE_FIELDS = 'id, name, mimeType, modifiedTime, md5Checksum, size, parents, trashed';
+const PAGE_SIZE = 200;
+
+// Access tokens are refreshed this long before Google says they expire.
+const EXPIRY_MARGIN_MS = 60_000;
+// How long an authorization URL stays usable.
+const STATE_TTL_MS = 10 * 60_000;
+
+interface TokenRecord {
+  access_token: string;
+  refresh_token: string | null;
+  expires_at: string;
+  account: string | null;
+  connected_at: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+}
+
+function defaultConfig(): GoogleDriveConfig {
+  return {
+    clientId: GOOGLE_CLIENT_ID,
+    clientSecret: GOOGLE_CLIENT_SECRET,
+    redirectUri: GOOGLE_REDIRECT_URI,
+    authUrl: GOOGLE_AUTH_URL,
+    tokenUrl: GOOGLE_TOKEN_URL,
+    apiUrl: GOOGLE_DRIVE_API_URL,
+  };
+}
+
+// Google reports errors as { error: { message } } from the API and { error, error_description } from OAuth.
+function errorMessage(response: HttpResponse): string {
+  let data = response.data;
+  if (Buffer.isBuffer(data)) {
+    try {
+      data = JSON.parse(data.toString('utf8'));
+    } catch {
+      data = undefined;
+    }
+  }
+  return data?.error?.message ?? data?.error_description ?? (typeof data?.error === 'string' ? data.error : `HTTP ${response.status}`);
+}
+
+function toDriveFile(data: any): DriveFile {
+  return {
+    id: data.id,
+    name: data.name,
+    mimeType: data.mimeType,
+    modifiedTime: data.modifiedTime,
+    md5Checksum: data.md5Checksum,
+    size: data.size === undefined ? undefined : Number(data.size),
+    parents: data.parents,
+    trashed: data.trashed,
+  };
+}
+
+export function createGoogleDrive(options: { http?: HttpClient; config?: Partial<GoogleDriveConfig> } = {}): GoogleDrive {
+  const http = options.http ?? axiosHttpClient;
+  const config = { ...defaultConfig(), ...options.config };
+  const pendingStates = new Map<string, number>();
+
+  function readTokens(): TokenRecord | undefined {
+    return getStore().prepare('SELECT * FROM oauth_tokens WHERE provider = ?').get(PROVIDER) as TokenRecord | undefined;
+  }
+
+  function clearTokens(): void {
+    getStore().prepare('DELETE FROM oauth_tokens WHERE provider = ?').run(PROVIDER);
+  }
+
+  function expiresAt(tokens: TokenResponse): string {
+    return new Date(Date.now() + (tokens.expires_in ?? 3600) * 1000).toISOString();
+  }
+
+  async function requestToken(form: Record<string, string>): Promise<TokenResponse> {
+    const response = await http({
+      method: 'POST',
+      url: config.tokenUrl,
+      form: { ...form, client_id: config.clientId, client_secret: config.clientSecret },
+    });
+    if (response.status !== 200 || !response.data?.access_token) {
+      // invalid_grant means the code or refresh token is no longer valid, e.g. access was revoked.
+      const status = response.data?.error === 'invalid_grant' ? 401 : 502;
+      throw new HttpError(status, `Google token request failed: ${errorMessage(response)}`);
+    }
+    return response.data;
+  }
+
+  async function accessToken(forceRefresh = false): Promise<string> {
+    const record = readTokens();
+    if (!record) {
+      throw new HttpError(409, 'Google Drive is not connected.');
+    }
+    if (!forceRefresh && Date.parse(record.expires_at) - EXPIRY_MARGIN_MS > Date.now()) {
+      return record.access_token;
+    }
+    if (!record.refresh_token) {
+      clearTokens();
+      throw new HttpError(409, 'The Google Drive authorization has expired; connect Google Drive again.');
+    }
+
+    let tokens: TokenResponse;
+    try {
+      tokens = await requestToken({ grant_type: 'refresh_token', refresh_token: record.refresh_token });
+    } catch (error) {
+      if (error instanceof HttpError && error.statusCode === 401) {
+        clearTokens();
+        throw new HttpError(409, 'Google Drive access was revoked; connect Google Drive again.');
+      }
+      throw error;
+    }
+    // Google may rotate the refresh token.
+    getStore()
+      .prepare('UPDATE oauth_tokens SET access_token = ?, refresh_token = ?, expires_at = ? WHERE provider = ?')
+      .run(tokens.access_token, tokens.refresh_token ?? record.refresh_token, expiresAt(tokens), PROVIDER);
+    return tokens.access_token;
+  }
+
+  // GET on the Drive API, refreshing the access token once if Google rejects it.
+  async function api(path: string, params: Record<string, string | number | boolean>, responseType: 'json' | 'buffer' = 'json'): Promise<any> {
+    const send = async (token: string) => http({
+      method: 'GET',
+      url: `${config.apiUrl}${path}`,
+      headers: { Authorization: `Bearer ${token}` },
+      params,
+      responseType,
+    });
+
+    let response = await send(await accessToken());
+    if (response.status === 401) {
+      response = await send(await accessToken(true));
+    }
+    if (response.status === 404) {
+      throw new HttpError(404, 'Google Drive file not found.');
+    }
+    if (response.status >= 400) {
+      throw new HttpError(502, `Google Drive request failed: ${errorMessage(response)}`);
+    }
+    return response.data;
+  }
+
+  return {
+    isConfigured() {
+      return Boolean(config.clientId && config.clientSecret);
+    },
+
+    authorizationUrl() {
+      if (!this.isConfigured()) {
+        throw new HttpError(400, 'Google Drive is not configured. Set GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET on the backend.');
+      }
+      const now = Date.now();
+      pendingStates.forEach((expiry, state) => { if (expiry < now) pendingStates.delete(state); });
+      const state = crypto.randomBytes(16).toString('hex');
+      pendingStates.set(state, now + STATE_TTL_MS);
+
+      const url = new URL(config.authUrl);
+      url.search = new URLSearchParams({
+        client_id: config.clientId,
+        redirect_uri: config.redirectUri,
+        response_type: 'code',
+        scope: SCOPE,
+        // Offline access with a forced consent screen makes Google return a refresh token.
+        access_type: 'offline',
+        prompt: 'consent',
+        include_granted_scopes: 'true',
+        state,
+      }).toString();
+      return url.toString();
+    },
+
+    async completeAuthorization(code, state) {
+      const expiry = pendingStates.get(state);
+      pendingStates.delete(state);
+      if (!expiry || expiry < Date.now()) {
+        throw new HttpError(400, 'The Google authorization request is unknown or has expired. Start connecting again.');
+      }
+
+      const tokens = await requestToken({ grant_type: 'authorization_code', code, redirect_uri: config.redirectUri });
+      const previous = readTokens();
+      getStore().prepare(`
+        INSERT OR REPLACE INTO oauth_tokens (provider, access_token, refresh_token, expires_at, scope, account, connected_at)
+        VALUES (?, ?, ?, ?, ?, NULL, ?)
+      `).run(PROVIDER, tokens.access_token, tokens.refresh_token ?? previous?.refresh_token ?? null, expiresAt(tokens), tokens.scope ?? null, new Date().toISOString());
+
+      // The account is informational, so a failure to read it does not fail the connection.
+      try {
+        const about = await api('/drive/v3/about', { fields: 'user(emailAddress)' });
+        getStore().prepare('UPDATE oauth_tokens SET account = ? WHERE provider = ?').run(about?.user?.emailAddress ?? null, PROVIDER);
+      } catch {
+        // Left without an account.
+      }
+      return this.connection();
+    },
+
+    connection() {
+      const record = readTokens();
+      if (!record) return { connected: false };
+      return { connected: true, account: record.account ?? undefined, connectedAt: record.connected_at };
+    },
+
+    disconnect() {
+      clearTokens();
+    },
+
+    async getFile(fileId) {
+      return toDriveFile(await api(`/drive/v3/files/${encodeURIComponent(fileId)}`, { fields: FILE_FIELDS, supportsAllDrives: true }));
+    },
+
+    async listFolder(folderId, pageToken) {
+      const params: Record<string, string | number | boolean> = {
+        q: `'${folderId.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}' in parents and trashed = false`,
+        fields: `nextPageToken, files(${FILE_FIELDS})`,
+        orderBy: 'folder, name',
+        pageSize: PAGE_SIZE,
+        supportsAllDrives: true,
+        includeItemsFromAllDrives: true,
+      };
+      if (pageToken) params.pageToken = pageToken;
+      const data = await api('/drive/v3/files', params);
+      return { files: (data.files ?? []).map(toDriveFile), nextPageToken: data.nextPageToken };
+    },
+
+    async download(file, exportMimeType) {
+      if (file.size !== undefined && file.size > MAX_UPLOAD_BYTES) {
+        throw new HttpError(413, `'${file.name}' exceeds the ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB import limit.`);
+      }
+      const path = `/drive/v3/files/${encodeURIComponent(file.id)}`;
+      return exportMimeType
+        ? api(`${path}/export`, { mimeType: exportMimeType }, 'buffer')
+        : api(path, { alt: 'media', supportsAllDrives: true }, 'buffer');
+    },
+  };
+}
+
+let drive: GoogleDrive = createGoogleDrive();
+
+export function getGoogleDrive(): GoogleDrive {
+  return drive;
+}
+
+// Swaps the connector, e.g. for one pointed at a fake Drive server with a custom `HttpClient`.
+export function setGoogleDrive(next: GoogleDrive): void {
+  drive = next;
 }
@@ -0,0 +1,69 @@
+/**
+ * http.ts - the HTTP seam shared by connectors that call remote APIs. Connectors take an
+ * `HttpClient` instead of calling axios directly, so they can be pointed at a fake server.
+ */
+import axios from 'axios';
+import { HTTP_TIMEOUT_MS, MAX_UPLOAD_BYTES } from '../config.js';
+import { HttpError } from '../errors.js';
+
+export interface HttpRequest {
+  method: 'GET' | 'POST';
+  url: string;
+  headers?: Record<string, string>;
+  params?: Record<string, string | number | boolean>;
+  // Sent as an application/x-www-form-urlencoded body.
+  form?: Record<string, string>;
+  // Sent as a JSON body.
+  json?: unknown;
+  // 'buffer' returns the body as a Buffer, e.g. for file downloads.
+  responseType?: 'json' | 'buffer';
+}
+
+export interface HttpResponse {
+  status: number;
+  data: any;
+  // Response headers, with lower-case names.
+  headers?: Record<string, string>;
+}
+
+/**
+ * Performs one HTTP request. Must resolve for any status code; only network failures and
+ * timeouts reject.
+ */
+export type HttpClient = (request: HttpRequest) => Promise<HttpResponse>;
+
+function requestBody(request: HttpRequest): { contentType?: string; data?: string } {
+  if (request.form) return { contentType: 'application/x-www-form-urlencoded', data: new URLSearchParams(request.form).toString() };
+  if (request.json !== undefined) return { contentType: 'application/json', data: JSON.stringify(request.json) };
+  return {};
+}
+
+// A request the server did not answer in time fails as a gateway timeout, which syncs retry.
+function isTimeout(error: unknown): boolean {
+  return axios.isAxiosError(error) && (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT');
+}
+
+export const axiosHttpClient: HttpClient = async (request) => {
+  const { contentType, data } = requestBody(request);
+  const response = await axios.request({
+    method: request.method,
+    url: request.url,
+    headers: contentType ? { ...request.headers, 'Content-Type': contentType } : request.headers,
+    params: request.params,
+    data,
+    responseType: request.responseType === 'buffer' ? 'arraybuffer' : 'json',
+    maxContentLength: MAX_UPLOAD_BYTES,
+    timeout: HTTP_TIMEOUT_MS,
+    validateStatus: () => true,
+  }).catch((error) => {
+    if (isTimeout(error)) {
+      throw new HttpError(504, `${request.method} ${new URL(request.url).host} did not answer within ${HTTP_TIMEOUT_MS / 1000} s.`);
+    }
+    throw error;
+  });
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(response.headers)) {
+    if (value !== undefined && value !== null) headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return { status: response.status, data: request.responseType === 'buffer' ? Buffer.from(response.data) : response.data, headers };
+};
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import { readFile } from 'fs/promises';
+import readline from 'readline';
+import { MalformedFileError } from '../errors.js';
+
+function toCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Flattens parsed JSON records into string-valued rows with a shared set of columns,
+ * the same shape `ingestCsvFile` produces.
+ */
+function toRows(records: unknown[], describe: (index: number) => string): any[] {
+  const columns = new Set<string>();
+  records.forEach((record, index) => {
+    if (record === null || typeof record !== 'object' || Array.isArray(record)) {
+      throw new MalformedFileError(`${describe(index)} is not a JSON object.`);
+    }
+    Object.keys(record).forEach((key) => columns.add(key));
+  });
+
+  return records.map((record) => {
+    const row: Record<string, string> = {};
+    for (const column of columns) {
+      row[column] = toCell((record as Record<string, unknown>)[column]);
+    }
+    return row;
+  });
+}
+
+export async function ingestJsonFile(filePath: string): Promise<any[]> {
+  const text = await readFile(filePath, 'utf8');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err: any) {
+    throw new MalformedFileError(`Malformed JSON: ${err.message}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new MalformedFileError('JSON file must contain an array of objects.');
+  }
+  return toRows(parsed, (index) => `Array element ${index}`);
+}
+
+export async function ingestNdjsonFile(filePath: string): Promise<any[]> {
+  const records: unknown[] = [];
+  const lines = readline.createInterface({ input: fs.createReadStream(filePath), crlfDelay: Infinity });
+
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch (err: any) {
+      lines.close();
+      throw new MalformedFileError(`Malformed NDJSON at line ${lineNumber}: ${err.message}`);
+    }
+  }
+  return toRows(records, (index) => `NDJSON record ${index + 1}`);
+}
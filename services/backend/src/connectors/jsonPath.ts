@@ -0,0 +1,69 @@
+/**
+ * jsonPath.ts - the subset of JSONPath used to map API responses to rows:
+ * `$` (the root, optional), `.name`, `['name']`, `[0]`, `[-1]`, `[*]` and `.*`.
+ * e.g. `$.data.items[*].id` or `customer['first name']`.
+ */
+import { HttpError } from '../errors.js';
+
+type Step = { kind: 'key'; key: string } | { kind: 'index'; index: number } | { kind: 'wildcard' };
+
+const cache = new Map<string, Step[]>();
+
+function parsePath(path: string): Step[] {
+  const cached = cache.get(path);
+  if (cached) return cached;
+
+  const steps: Step[] = [];
+  let rest = path.trim();
+  if (rest.startsWith('$')) {
+    rest = rest.slice(1);
+    if (rest && !/^[.[]/.test(rest)) throw new HttpError(400, `Invalid path '${path}'.`);
+  }
+  while (rest.length > 0) {
+    let match: RegExpMatchArray | null;
+    if ((match = rest.match(/^\.?\*/)) || (match = rest.match(/^\[\*\]/))) {
+      steps.push({ kind: 'wildcard' });
+    } else if ((match = rest.match(/^\[(-?\d+)\]/))) {
+      steps.push({ kind: 'index', index: Number(match[1]) });
+    } else if ((match = rest.match(/^\[(['"])(.*?)\1\]/))) {
+      steps.push({ kind: 'key', key: match[2] });
+    } else if ((match = rest.match(/^\.?([^.[\]]+)/))) {
+      steps.push({ kind: 'key', key: match[1] });
+    } else {
+      throw new HttpError(400, `Invalid path '${path}' near '${rest}'.`);
+    }
+    rest = rest.slice(match[0].length);
+  }
+  cache.set(path, steps);
+  return steps;
+}
+
+// Checks that `path` is one this module understands; throws a 400 naming the problem otherwise.
+export function validatePath(path: string): void {
+  parsePath(path);
+}
+
+/**
+ * Every value `path` selects from `value`, in document order. A path without wildcards
+ * selects at most one value; missing keys select nothing.
+ */
+export function selectPath(value: unknown, path: string): unknown[] {
+  let current: unknown[] = [value];
+  for (const step of parsePath(path)) {
+    const next: unknown[] = [];
+    for (const item of current) {
+      if (item === null || typeof item !== 'object') continue;
+      if (step.kind === 'wildcard') {
+        next.push(...(Array.isArray(item) ? item : Object.values(item)));
+      } else if (step.kind === 'index') {
+        if (!Array.isArray(item)) continue;
+        const index = step.index < 0 ? item.length + step.index : step.index;
+        if (index >= 0 && index < item.length) next.push(item[index]);
+      } else if (!Array.isArray(item) && Object.prototype.hasOwnProperty.call(item, step.key)) {
+        next.push((item as Record<string, unknown>)[step.key]);
+      }
+    }
+    current = next;
+  }
+  return current;
+}
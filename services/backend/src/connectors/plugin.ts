@@ -0,0 +1,94 @@
+/**
+ * plugin.ts - the contract every data source implements to appear under /api/connectors.
+ * A plugin describes its settings form and handles the lifecycle of its instances:
+ * configure, test, discover, sync and disconnect. The registry (registry.ts) persists
+ * instances and records how their syncs went.
+ */
+import { FastifyInstance } from 'fastify';
+import { DatasetMeta } from '../datasets/catalog.js';
+
+/**
+ * One input of a plugin's settings form. `key` may be dotted ('auth.token') to build nested
+ * settings. 'map' is a textarea of `key<separator>value` lines, 'list' a comma-separated list.
+ */
+export interface ConnectorField {
+  key: string;
+  label: string;
+  type: 'text' | 'password' | 'number' | 'boolean' | 'select' | 'textarea' | 'json' | 'map' | 'list';
+  required?: boolean;
+  placeholder?: string;
+  help?: string;
+  default?: string | number | boolean;
+  options?: { value: string; label: string }[];
+  // For 'map' fields; defaults to '='.
+  separator?: string;
+  // Only shown (and sent) while another field has one of these values.
+  visibleWhen?: { key: string; equals: string[] };
+}
+
+export interface ConnectorInstance<Config = any, State = any> {
+  id: string;
+  type: string;
+  name: string;
+  config: Config;
+  // Plugin-owned bookkeeping, e.g. the dataset a source writes to.
+  state?: State;
+  lastSyncAt?: string;
+  lastStatus?: 'ok' | 'error';
+  lastError?: string;
+  lastRowCount?: number;
+  // The run that recorded the last outcome; see syncRuns.ts.
+  lastRunId?: string;
+  // Cron expression for scheduled syncs (see scheduling/cron.ts) and when the next one is due.
+  schedule?: string;
+  nextSyncAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A table, endpoint or file a connector can read, with the columns it found.
+export interface DiscoveredStream {
+  name: string;
+  kind?: string;
+  columns: { name: string; type?: string }[];
+  // A few rows, when reading them is cheap.
+  sampleRows?: Record<string, string>[];
+}
+
+export interface ConnectorSyncResult {
+  // Rows read from the source in this sync.
+  rowCount: number;
+  datasets: DatasetMeta[];
+  message: string;
+}
+
+// Handed to a sync so it can note progress in the run's log, e.g. one line per table.
+export interface ConnectorSyncContext {
+  log(message: string): void;
+}
+
+export interface ConnectorPlugin<Config = any, State = any> {
+  type: string;
+  name: string;
+  description: string;
+  iconUrl: string;
+  // Prefix of instance ids, e.g. 'pg' for 'pg-1700000000000'.
+  idPrefix: string;
+  // At most one instance, e.g. the single linked Google account.
+  singleton?: boolean;
+  fields: ConnectorField[];
+  // Checks settings from an API request into the stored config. Omitted secrets keep `previous`'s.
+  configure(settings: any, previous?: Config): Config;
+  // The config as sent to clients, without secrets.
+  redact(config: Config): Record<string, unknown>;
+  // Instances count as connected unless this says otherwise, e.g. Drive before OAuth.
+  isConnected?(instance: ConnectorInstance<Config, State>): boolean;
+  // Checks that the source is reachable with `config`; resolves to a short description.
+  test(config: Config): Promise<string>;
+  discover(instance: ConnectorInstance<Config, State>): Promise<DiscoveredStream[]>;
+  sync(instance: ConnectorInstance<Config, State>, context: ConnectorSyncContext): Promise<ConnectorSyncResult>;
+  // Releases what the instance holds before it is deleted. Datasets it filled are kept.
+  disconnect?(instance: ConnectorInstance<Config, State>): Promise<void> | void;
+  // Extra endpoints the plugin's UI needs, e.g. the OAuth callback.
+  routes?: (server: FastifyInstance) => Promise<void>;
+}
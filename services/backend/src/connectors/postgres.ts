@@ -0,0 +1,178 @@
+/**
+ * postgres.ts - reads tables and saved queries from a PostgreSQL database. Values are
+ * fetched as Postgres' text output so rows enter the ingest pipeline as raw strings, just
+ * like a CSV export of the same table, and get their types from schema inference.
+ */
+import pg from 'pg';
+import { HttpError } from '../errors.js';
+import { quoteIdentifier } from '../store.js';
+import { RawRow } from '../datasets/merge.js';
+
+export interface PostgresConfig {
+  host: string;
+  port: number;
+  database: string;
+  user: string;
+  password?: string;
+  ssl: boolean;
+}
+
+// A table (or view) to copy, or a saved SELECT query.
+export type PostgresSource =
+  | { kind: 'table'; schema: string; table: string }
+  | { kind: 'query'; query: string };
+
+export interface PostgresColumn {
+  name: string;
+  type: string;
+}
+
+export interface PostgresTable {
+  schema: string;
+  table: string;
+  kind: 'table' | 'view';
+  columns: PostgresColumn[];
+}
+
+const CONNECT_TIMEOUT_MS = 10_000;
+const STATEMENT_TIMEOUT_MS = 5 * 60_000;
+
+// Type OIDs whose text output needs adjusting for schema inference.
+const BOOL_OID = 16;
+const TIMESTAMPTZ_OID = 1184;
+
+const PG_ERROR_STATUS: Record<string, number> = {
+  '08': 502, // connection exception
+  '28': 401, // invalid authorization
+  '3D': 502, // invalid catalog (database) name
+  '42': 422, // syntax error or access rule violation, e.g. an unknown table or column
+  '22': 422, // data exception
+  '57': 504, // operator intervention, e.g. statement timeout
+};
+
+// Returns every value as the server's text output, except that booleans become 'true'/'false'
+// and time zone offsets get the minutes part ISO dates need ('+02' → '+02:00').
+function textParser(oid: number): (value: string) => string {
+  if (oid === BOOL_OID) return (value) => (value === 't' ? 'true' : 'false');
+  if (oid === TIMESTAMPTZ_OID) return (value) => value.replace(/([+-]\d{2})$/, '$1:00');
+  return (value) => value;
+}
+
+export function toPostgresError(error: any, config: PostgresConfig): HttpError {
+  if (error instanceof HttpError) return error;
+  const code: string | undefined = error?.code;
+  if (code && /^[0-9A-Z]{5}$/.test(code)) {
+    return new HttpError(PG_ERROR_STATUS[code.slice(0, 2)] ?? 502, `PostgreSQL error: ${error.message}`);
+  }
+  if (code === 'ECONNREFUSED' || code === 'ENOTFOUND' || code === 'ETIMEDOUT' || code === 'EHOSTUNREACH' || /timeout/i.test(error?.message ?? '')) {
+    return new HttpError(502, `Cannot reach PostgreSQL at ${config.host}:${config.port}: ${error.message}`);
+  }
+  return new HttpError(502, `PostgreSQL request failed: ${error?.message ?? String(error)}`);
+}
+
+/**
+ * Runs `work` in a read-only transaction on a fresh connection, so neither a saved query
+ * nor a mistake in one can modify the source database.
+ */
+async function withReadOnlyClient<T>(config: PostgresConfig, work: (client: pg.Client) => Promise<T>): Promise<T> {
+  const client = new pg.Client({
+    host: config.host,
+    port: config.port,
+    database: config.database,
+    user: config.user,
+    password: config.password,
+    ssl: config.ssl ? { rejectUnauthorized: false } : false,
+    connectionTimeoutMillis: CONNECT_TIMEOUT_MS,
+    statement_timeout: STATEMENT_TIMEOUT_MS,
+    types: { getTypeParser: textParser as unknown as pg.CustomTypesConfig['getTypeParser'] },
+  });
+  // Errors on an idle client would otherwise crash the process.
+  client.on('error', () => {});
+  try {
+    await client.connect();
+    await client.query('BEGIN READ ONLY');
+    return await work(client);
+  } catch (error) {
+    throw toPostgresError(error, config);
+  } finally {
+    await client.query('ROLLBACK').catch(() => {});
+    await client.end().catch(() => {});
+  }
+}
+
+export async function testPostgresConnection(config: PostgresConfig): Promise<{ serverVersion: string }> {
+  return withReadOnlyClient(config, async (client) => {
+    const result = await client.query('SHOW server_version');
+    return { serverVersion: result.rows[0].server_version };
+  });
+}
+
+// Tables and views visible to the configured user, outside the system schemas.
+export async function listPostgresTables(config: PostgresConfig): Promise<PostgresTable[]> {
+  return withReadOnlyClient(config, async (client) => {
+    const result = await client.query(`
+      SELECT c.table_schema, c.table_name, t.table_type, c.column_name, c.data_type
+      FROM information_schema.columns c
+      JOIN information_schema.tables t ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+      WHERE c.table_schema NOT IN ('pg_catalog', 'information_schema') AND c.table_schema NOT LIKE 'pg_toast%'
+      ORDER BY c.table_schema, c.table_name, c.ordinal_position
+    `);
+    const tables = new Map<string, PostgresTable>();
+    for (const row of result.rows) {
+      const key = `${row.table_schema}.${row.table_name}`;
+      if (!tables.has(key)) {
+        tables.set(key, { schema: row.table_schema, table: row.table_name, kind: row.table_type === 'VIEW' ? 'view' : 'table', columns: [] });
+      }
+      tables.get(key)!.columns.push({ name: row.column_name, type: row.data_type });
+    }
+    return [...tables.values()];
+  });
+}
+
+function sourceSql(source: PostgresSource): string {
+  if (source.kind === 'table') {
+    return `SELECT * FROM ${quoteIdentifier(source.schema)}.${quoteIdentifier(source.table)}`;
+  }
+  return source.query.trim().replace(/;+\s*$/, '');
+}
+
+function toRawRows(result: pg.QueryResult): { columns: string[]; rows: RawRow[] } {
+  const columns = result.fields.map((field) => field.name);
+  const rows = result.rows.map((record) => {
+    const row: RawRow = {};
+    for (const column of columns) row[column] = record[column] ?? '';
+    return row;
+  });
+  return { columns, rows };
+}
+
+export interface FetchOptions {
+  // Column rows are ordered by; with `after`, only rows at or past that value are read.
+  cursorColumn?: string;
+  after?: string;
+  limit?: number;
+}
+
+/**
+ * Reads a table or query as raw rows. With a cursor column the rows come back in cursor
+ * order (rows without a cursor value first), so the last row holds the highest cursor.
+ * Rows equal to `after` are read again: cursors such as `updated_at` need not be unique,
+ * and callers upsert on a primary key, so the overlap is harmless.
+ */
+export async function fetchPostgresRows(config: PostgresConfig, source: PostgresSource, options: FetchOptions = {}): Promise<{ columns: string[]; rows: RawRow[] }> {
+  const params: (string | number)[] = [];
+  let sql = `SELECT * FROM (${sourceSql(source)}) AS source`;
+  if (options.cursorColumn) {
+    const cursor = `source.${quoteIdentifier(options.cursorColumn)}`;
+    if (options.after !== undefined) {
+      params.push(options.after);
+      sql += ` WHERE ${cursor} >= $${params.length}`;
+    }
+    sql += ` ORDER BY ${cursor} ASC NULLS FIRST`;
+  }
+  if (options.limit !== undefined) {
+    params.push(options.limit);
+    sql += ` LIMIT $${params.length}`;
+  }
+  return withReadOnlyClient(config, async (client) => toRawRows(await client.query(sql, params)));
+}
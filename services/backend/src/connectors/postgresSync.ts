@@ -0,0 +1,335 @@
+import { getStore } from '../store.js';
+import { HttpError } from '../errors.js';
+import { timestampId } from '../ids.js';
+import { PostgresConfig, PostgresSource, fetchPostgresRows, testPostgresConnection, listPostgresTables } from './postgres.js';
+import { ConnectorPlugin, ConnectorField } from './plugin.js';
+import { getConnectorInstance } from './registry.js';
+import { saveDataset, upsertDataset, replaceDataset, SavedDataset } from '../datasets/storage.js';
+import { getDatasetMeta, DatasetMeta, DatasetSource } from '../datasets/catalog.js';
+import { UpsertReport } from '../datasets/merge.js';
+
+/**
+ * The PostgreSQL connector: each instance is a connection, and its syncs (`postgres_syncs`)
+ * copy a table or query from it into a dataset.
+ *
+ * A sync with a cursor column is incremental: it remembers the highest cursor value it has
+ * seen and next time only reads rows at or past it, upserting them on the primary key.
+ * Without a cursor every run reads the whole result and replaces the dataset's rows.
+ */
+export interface PostgresSync {
+  id: string;
+  connectionId: string;
+  name: string;
+  source: PostgresSource;
+  cursorColumn?: string;
+  primaryKey?: string[];
+  // Dataset the rows go to; set by the first run.
+  datasetId?: string;
+  // Highest cursor value read so far, as Postgres prints it.
+  cursorValue?: string;
+  lastRunAt?: string;
+  lastStatus?: 'ok' | 'error';
+  lastError?: string;
+  lastRowCount?: number;
+  createdAt: string;
+}
+
+export interface PostgresSyncRun {
+  sync: PostgresSync;
+  // Rows read from Postgres in this run.
+  fetched: number;
+  status: 'created' | 'updated' | 'unchanged';
+  dataset?: DatasetMeta;
+  report?: UpsertReport;
+}
+
+interface SyncRecord {
+  id: string;
+  connection_id: string;
+  name: string;
+  source: string;
+  cursor_column: string | null;
+  primary_key: string | null;
+  dataset_id: string | null;
+  cursor_value: string | null;
+  last_run_at: string | null;
+  last_status: 'ok' | 'error' | null;
+  last_error: string | null;
+  last_row_count: number | null;
+  created_at: string;
+}
+
+const DEFAULT_PORT = 5432;
+
+function fail(message: string): never {
+  throw new HttpError(400, message);
+}
+
+function requiredString(input: any, field: string): string {
+  if (typeof input[field] !== 'string' || !input[field].trim()) fail(`\`${field}\` is required.`);
+  return input[field].trim();
+}
+
+function toSync(record: SyncRecord): PostgresSync {
+  return {
+    id: record.id,
+    connectionId: record.connection_id,
+    name: record.name,
+    source: JSON.parse(record.source),
+    cursorColumn: record.cursor_column ?? undefined,
+    primaryKey: record.primary_key ? JSON.parse(record.primary_key) : undefined,
+    datasetId: record.dataset_id ?? undefined,
+    cursorValue: record.cursor_value ?? undefined,
+    lastRunAt: record.last_run_at ?? undefined,
+    lastStatus: record.last_status ?? undefined,
+    lastError: record.last_error ?? undefined,
+    lastRowCount: record.last_row_count ?? undefined,
+    createdAt: record.created_at,
+  };
+}
+
+/**
+ * Checks connection settings from an API request. An omitted password keeps `previous`'s,
+ * so the UI can edit a connection without asking for the password again.
+ */
+export function parsePostgresConfig(input: any, previous?: PostgresConfig): PostgresConfig {
+  if (!input || typeof input !== 'object') fail('Connection settings are required.');
+  const port = input.port === undefined || input.port === '' ? DEFAULT_PORT : Number(input.port);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) fail('`port` must be a port number.');
+  if (input.password !== undefined && typeof input.password !== 'string') fail('`password` must be a string.');
+  return {
+    host: requiredString(input, 'host'),
+    port,
+    database: requiredString(input, 'database'),
+    user: requiredString(input, 'user'),
+    password: input.password !== undefined ? input.password : previous?.password,
+    ssl: input.ssl === true || input.ssl === 'true',
+  };
+}
+
+const POSTGRES = 'postgres';
+
+export function getPostgresConfig(connectionId: string): PostgresConfig {
+  return getConnectorInstance<PostgresConfig>(connectionId, POSTGRES).config;
+}
+
+function parseKey(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const columns = typeof value === 'string' ? value.split(',')
+    : Array.isArray(value) && value.every((c) => typeof c === 'string') ? value as string[]
+    : fail('`primaryKey` must be a column name or a list of column names.');
+  const trimmed = columns.map((c) => c.trim()).filter(Boolean);
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+/**
+ * Reads the source of a sync from `table` ('schema.table', or a table in `public`) or a
+ * saved SELECT `query`.
+ */
+export function parsePostgresSource(input: any): PostgresSource {
+  const hasTable = typeof input?.table === 'string' && input.table.trim() !== '';
+  const hasQuery = typeof input?.query === 'string' && input.query.trim() !== '';
+  if (hasTable === hasQuery) fail('Give either a `table` or a `query`.');
+  if (hasQuery) {
+    // Queries run in a read-only transaction anyway; this just gives a clearer message.
+    if (!/^\s*(select|with)\b/i.test(input.query)) fail('`query` must be a SELECT statement.');
+    return { kind: 'query', query: input.query.trim() };
+  }
+  const parts = input.table.trim().split('.');
+  if (parts.length > 2) fail('`table` must be a table name or schema.table.');
+  return parts.length === 2 ? { kind: 'table', schema: parts[0], table: parts[1] } : { kind: 'table', schema: 'public', table: parts[0] };
+}
+
+function getSyncRecord(id: string): SyncRecord {
+  const record = getStore().prepare('SELECT * FROM postgres_syncs WHERE id = ?').get(id) as SyncRecord | undefined;
+  if (!record) {
+    throw new HttpError(404, `PostgreSQL sync '${id}' not found.`);
+  }
+  return record;
+}
+
+export function listPostgresSyncs(connectionId?: string): PostgresSync[] {
+  const records = (connectionId
+    ? getStore().prepare('SELECT * FROM postgres_syncs WHERE connection_id = ? ORDER BY name').all(connectionId)
+    : getStore().prepare('SELECT * FROM postgres_syncs ORDER BY name').all()) as SyncRecord[];
+  return records.map(toSync);
+}
+
+export function getPostgresSync(id: string): PostgresSync {
+  return toSync(getSyncRecord(id));
+}
+
+export function createPostgresSync(input: any): PostgresSync {
+  if (!input || typeof input !== 'object') fail('A sync definition is required.');
+  const connectionId = requiredString(input, 'connectionId');
+  getConnectorInstance(connectionId, POSTGRES);
+  const source = parsePostgresSource(input);
+  const cursorColumn = typeof input.cursorColumn === 'string' && input.cursorColumn.trim() ? input.cursorColumn.trim() : undefined;
+  const primaryKey = parseKey(input.primaryKey);
+  if (cursorColumn && !primaryKey) {
+    fail('An incremental sync needs a `primaryKey` so re-read rows update instead of duplicating.');
+  }
+  const name = typeof input.name === 'string' && input.name.trim()
+    ? input.name.trim()
+    : source.kind === 'table' ? source.table : 'Query';
+
+  const id = timestampId('pg-sync');
+  getStore().prepare(`
+    INSERT INTO postgres_syncs (id, connection_id, name, source, cursor_column, primary_key, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(id, connectionId, name, JSON.stringify(source), cursorColumn ?? null, primaryKey ? JSON.stringify(primaryKey) : null, new Date().toISOString());
+  return getPostgresSync(id);
+}
+
+export function deletePostgresSync(id: string): void {
+  getSyncRecord(id);
+  getStore().prepare('DELETE FROM postgres_syncs WHERE id = ?').run(id);
+}
+
+// Forgets the cursor, so the next run reads the whole source again.
+export function resetPostgresSync(id: string): PostgresSync {
+  getSyncRecord(id);
+  getStore().prepare('UPDATE postgres_syncs SET cursor_value = NULL WHERE id = ?').run(id);
+  return getPostgresSync(id);
+}
+
+async function datasetExists(id: string | undefined): Promise<boolean> {
+  if (!id) return false;
+  try {
+    await getDatasetMeta(id);
+    return true;
+  } catch (error) {
+    if (error instanceof HttpError && error.statusCode === 404) return false;
+    throw error;
+  }
+}
+
+const runningSyncs = new Set<string>();
+
+async function executeSync(sync: PostgresSync): Promise<Omit<PostgresSyncRun, 'sync'> & { cursorValue?: string }> {
+  const config = getPostgresConfig(sync.connectionId);
+  const exists = await datasetExists(sync.datasetId);
+  // A deleted dataset is rebuilt from scratch.
+  const after = exists ? sync.cursorValue : undefined;
+  const { columns, rows } = await fetchPostgresRows(config, sync.source, { cursorColumn: sync.cursorColumn, after });
+  if (sync.cursorColumn && !columns.includes(sync.cursorColumn)) {
+    throw new HttpError(422, `Cursor column '${sync.cursorColumn}' is not in the result.`);
+  }
+
+  // Rows come back in cursor order, so the last one holds the highest value.
+  const lastCursor = sync.cursorColumn && rows.length > 0 ? rows[rows.length - 1][sync.cursorColumn] : '';
+  const cursorValue = lastCursor !== '' ? lastCursor : after;
+  const source: DatasetSource = {
+    connector: 'postgres',
+    format: 'sql',
+    connectionId: sync.connectionId,
+    table: sync.source.kind === 'table' ? `${sync.source.schema}.${sync.source.table}` : undefined,
+  };
+
+  let saved: SavedDataset;
+  if (!exists) {
+    if (rows.length === 0) {
+      throw new HttpError(422, `'${sync.name}' returned no rows.`);
+    }
+    saved = await saveDataset(rows, source, { primaryKey: sync.primaryKey, name: sync.name });
+    return { fetched: rows.length, status: 'created', dataset: saved.dataset, report: saved.report, cursorValue };
+  }
+  if (rows.length === 0) {
+    return { fetched: 0, status: 'unchanged', cursorValue };
+  }
+  if (sync.cursorColumn) {
+    saved = await upsertDataset(sync.datasetId!, rows, { primaryKey: sync.primaryKey, source });
+  } else if (sync.primaryKey) {
+    saved = await upsertDataset(sync.datasetId!, rows, { primaryKey: sync.primaryKey, deleteMissing: true, source });
+  } else {
+    saved = await replaceDataset(sync.datasetId!, rows, source);
+  }
+  return { fetched: rows.length, status: 'updated', dataset: saved.dataset, report: saved.report, cursorValue };
+}
+
+/**
+ * Runs a sync once and records the outcome on it. A failed run keeps the previous cursor,
+ * so the next run retries the same rows.
+ */
+export async function runPostgresSync(id: string): Promise<PostgresSyncRun> {
+  const sync = getPostgresSync(id);
+  if (runningSyncs.has(id)) {
+    throw new HttpError(409, `Sync '${sync.name}' is already running.`);
+  }
+  runningSyncs.add(id);
+  const db = getStore();
+  const ranAt = new Date().toISOString();
+  try {
+    const { cursorValue, ...run } = await executeSync(sync);
+    db.prepare(`
+      UPDATE postgres_syncs SET dataset_id = ?, cursor_value = ?, last_run_at = ?, last_status = 'ok', last_error = NULL, last_row_count = ?
+      WHERE id = ?
+    `).run(run.dataset?.id ?? sync.datasetId ?? null, cursorValue ?? null, ranAt, run.fetched, id);
+    return { sync: getPostgresSync(id), ...run };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    db.prepare(`UPDATE postgres_syncs SET last_run_at = ?, last_status = 'error', last_error = ? WHERE id = ?`).run(ranAt, message, id);
+    throw error;
+  } finally {
+    runningSyncs.delete(id);
+  }
+}
+
+const PG_FIELDS: ConnectorField[] = [
+  { key: 'host', label: 'Host', type: 'text', required: true, placeholder: 'db.example.com' },
+  { key: 'port', label: 'Port', type: 'number', default: DEFAULT_PORT },
+  { key: 'database', label: 'Database', type: 'text', required: true },
+  { key: 'user', label: 'User', type: 'text', required: true },
+  { key: 'password', label: 'Password', type: 'password' },
+  { key: 'ssl', label: 'Use SSL', type: 'boolean', default: false },
+];
+
+/**
+ * Syncing the connector runs each of its syncs in turn. A failed sync does not stop the
+ * others; the connector sync fails afterwards, naming them.
+ */
+export const postgresConnector: ConnectorPlugin<PostgresConfig> = {
+  type: POSTGRES,
+  name: 'PostgreSQL',
+  description: 'Copy tables, views or saved queries from a PostgreSQL database, incrementally on a cursor column.',
+  iconUrl: 'https://cdn.worldvectorlogo.com/logos/postgresql.svg',
+  idPrefix: 'pg',
+  fields: PG_FIELDS,
+  configure: (settings, previous) => parsePostgresConfig(settings, previous),
+  redact: ({ password, ...config }) => ({ ...config, hasPassword: Boolean(password) }),
+  test: async (config) => `Connected to PostgreSQL ${(await testPostgresConnection(config)).serverVersion}.`,
+  discover: async (instance) => (await listPostgresTables(instance.config)).map((table) => ({
+    name: `${table.schema}.${table.table}`,
+    kind: table.kind,
+    columns: table.columns,
+  })),
+  sync: async (instance, { log }) => {
+    const syncs = listPostgresSyncs(instance.id);
+    if (syncs.length === 0) {
+      throw new HttpError(422, `'${instance.name}' has no syncs yet; add a table or query to sync.`);
+    }
+    const runs: PostgresSyncRun[] = [];
+    const failures: string[] = [];
+    for (const sync of syncs) {
+      try {
+        const run = await runPostgresSync(sync.id);
+        runs.push(run);
+        log(`${sync.name}: ${run.fetched} rows read, ${run.status}.`);
+      } catch (error) {
+        failures.push(`${sync.name}: ${error instanceof Error ? error.message : String(error)}`);
+        log(failures[failures.length - 1]);
+      }
+    }
+    if (failures.length > 0) {
+      throw new HttpError(502, `${failures.length} of ${syncs.length} syncs failed. ${failures.join(' ')}`);
+    }
+    return {
+      rowCount: runs.reduce((sum, run) => sum + run.fetched, 0),
+      datasets: runs.flatMap((run) => (run.dataset ? [run.dataset] : [])),
+      message: `Ran ${runs.length} syncs; ${runs.filter((run) => run.status !== 'unchanged').length} had new rows.`,
+    };
+  },
+  disconnect: (instance) => {
+    getStore().prepare('DELETE FROM postgres_syncs WHERE connection_id = ?').run(instance.id);
+  },
+};
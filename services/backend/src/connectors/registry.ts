@@ -0,0 +1,297 @@
+import { getStore } from '../store.js';
+import { HttpError } from '../errors.js';
+import { timestampId } from '../ids.js';
+import { SYNC_RETRY_BASE_MS } from '../config.js';
+import { parseCron, nextCronRun } from '../scheduling/cron.js';
+import { ConnectorPlugin, ConnectorInstance, ConnectorField, DiscoveredStream, ConnectorSyncResult } from './plugin.js';
+import { SyncTrigger, startSyncRun, appendSyncLog, finishSyncRun, deleteSyncRuns } from './syncRuns.js';
+
+/**
+ * The connector registry: the plugins this backend knows and the instances configured from
+ * them (`connector_instances`). Syncs go through here so an instance never syncs twice at
+ * once, each sync is recorded as a run and its outcome is kept on the instance.
+ */
+export type ConnectorStatus = 'Connected' | 'Syncing' | 'Error' | 'Not connected';
+
+// A plugin as listed for the "Add New Connector" picker.
+export interface ConnectorType {
+  type: string;
+  name: string;
+  description: string;
+  iconUrl: string;
+  singleton: boolean;
+  fields: ConnectorField[];
+}
+
+// An instance as sent to clients: redacted settings and a live status.
+export interface ConnectorView extends Omit<ConnectorInstance, 'config' | 'state'> {
+  typeName: string;
+  iconUrl: string;
+  settings: Record<string, unknown>;
+  status: ConnectorStatus;
+}
+
+interface InstanceRecord {
+  id: string;
+  type: string;
+  name: string;
+  config: string;
+  state: string | null;
+  last_sync_at: string | null;
+  last_status: 'ok' | 'error' | null;
+  last_error: string | null;
+  last_row_count: number | null;
+  last_run_id: string | null;
+  schedule: string | null;
+  next_sync_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SyncOptions {
+  trigger?: SyncTrigger;
+  // Attempts before the sync is given up on; failures that retrying cannot fix are not retried.
+  maxAttempts?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+// Longest wait between two attempts of a sync.
+const MAX_RETRY_DELAY_MS = 15 * 60 * 1000;
+
+const plugins = new Map<string, ConnectorPlugin>();
+const runningSyncs = new Set<string>();
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export function registerConnector(plugin: ConnectorPlugin): void {
+  if (plugins.has(plugin.type)) {
+    throw new Error(`Connector type '${plugin.type}' is already registered.`);
+  }
+  plugins.set(plugin.type, plugin);
+}
+
+export function getConnectorPlugin(type: string): ConnectorPlugin {
+  const plugin = plugins.get(type);
+  if (!plugin) {
+    throw new HttpError(400, `Unknown connector type '${type}'.`);
+  }
+  return plugin;
+}
+
+export function listConnectorPlugins(): ConnectorPlugin[] {
+  return [...plugins.values()];
+}
+
+export function listConnectorTypes(): ConnectorType[] {
+  return listConnectorPlugins().map(({ type, name, description, iconUrl, singleton, fields }) => ({
+    type, name, description, iconUrl, singleton: singleton ?? false, fields,
+  }));
+}
+
+function toInstance(record: InstanceRecord): ConnectorInstance {
+  return {
+    id: record.id,
+    type: record.type,
+    name: record.name,
+    config: JSON.parse(record.config),
+    state: record.state ? JSON.parse(record.state) : undefined,
+    lastSyncAt: record.last_sync_at ?? undefined,
+    lastStatus: record.last_status ?? undefined,
+    lastError: record.last_error ?? undefined,
+    lastRowCount: record.last_row_count ?? undefined,
+    lastRunId: record.last_run_id ?? undefined,
+    schedule: record.schedule ?? undefined,
+    nextSyncAt: record.next_sync_at ?? undefined,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+  };
+}
+
+export function connectorStatus(instance: ConnectorInstance): ConnectorStatus {
+  if (runningSyncs.has(instance.id)) return 'Syncing';
+  const plugin = plugins.get(instance.type);
+  if (plugin?.isConnected && !plugin.isConnected(instance)) return 'Not connected';
+  return instance.lastStatus === 'error' ? 'Error' : 'Connected';
+}
+
+export function toConnectorView(instance: ConnectorInstance): ConnectorView {
+  const plugin = getConnectorPlugin(instance.type);
+  const { config, state, ...rest } = instance;
+  return { ...rest, typeName: plugin.name, iconUrl: plugin.iconUrl, settings: plugin.redact(config), status: connectorStatus(instance) };
+}
+
+/**
+ * Looks up an instance; with `type`, a 404 is also returned for an instance of another type,
+ * so plugin routes cannot be pointed at a different connector.
+ */
+export function getConnectorInstance<Config = any, State = any>(id: string, type?: string): ConnectorInstance<Config, State> {
+  const record = getStore().prepare('SELECT * FROM connector_instances WHERE id = ?').get(id) as InstanceRecord | undefined;
+  if (!record || (type && record.type !== type)) {
+    throw new HttpError(404, `Connector '${id}' not found.`);
+  }
+  return toInstance(record);
+}
+
+export function listConnectorInstances(type?: string): ConnectorInstance[] {
+  const records = (type
+    ? getStore().prepare('SELECT * FROM connector_instances WHERE type = ? ORDER BY name').all(type)
+    : getStore().prepare('SELECT * FROM connector_instances ORDER BY name').all()) as InstanceRecord[];
+  // Instances of a plugin that is no longer registered are kept but not listed.
+  return records.filter((record) => plugins.has(record.type)).map(toInstance);
+}
+
+function instanceName(name: unknown, fallback: string): string {
+  if (name === undefined || name === null || name === '') return fallback;
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new HttpError(400, '`name` must be a non-empty string.');
+  }
+  return name.trim();
+}
+
+export function createConnectorInstance(type: string, name: unknown, settings: unknown): ConnectorInstance {
+  const plugin = getConnectorPlugin(type);
+  if (plugin.singleton && listConnectorInstances(type).length > 0) {
+    throw new HttpError(409, `Only one ${plugin.name} connector can be added.`);
+  }
+  const config = plugin.configure(settings ?? {});
+  const now = new Date().toISOString();
+  const id = timestampId(plugin.idPrefix);
+  getStore().prepare('INSERT INTO connector_instances (id, type, name, config, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)')
+    .run(id, type, instanceName(name, plugin.name), JSON.stringify(config), now, now);
+  return getConnectorInstance(id);
+}
+
+export function updateConnectorInstance(id: string, name: unknown, settings: unknown): ConnectorInstance {
+  const instance = getConnectorInstance(id);
+  const config = settings === undefined ? instance.config : getConnectorPlugin(instance.type).configure(settings, instance.config);
+  getStore().prepare('UPDATE connector_instances SET name = ?, config = ?, updated_at = ? WHERE id = ?')
+    .run(instanceName(name, instance.name), JSON.stringify(config), new Date().toISOString(), id);
+  return getConnectorInstance(id);
+}
+
+// Stores plugin-owned state on an instance, e.g. the dataset a sync created.
+export function setConnectorState(id: string, state: unknown): void {
+  getStore().prepare('UPDATE connector_instances SET state = ? WHERE id = ?').run(JSON.stringify(state), id);
+}
+
+export async function deleteConnectorInstance(id: string): Promise<void> {
+  const instance = getConnectorInstance(id);
+  if (runningSyncs.has(id)) {
+    throw new HttpError(409, `'${instance.name}' is syncing; try again when it has finished.`);
+  }
+  await getConnectorPlugin(instance.type).disconnect?.(instance);
+  getStore().prepare('DELETE FROM connector_instances WHERE id = ?').run(id);
+  deleteSyncRuns(id);
+}
+
+/**
+ * Sets the cron schedule an instance syncs on, or clears it with null or ''. The next sync
+ * is due at the schedule's next run from now.
+ */
+export function setConnectorSchedule(id: string, schedule: unknown): ConnectorInstance {
+  getConnectorInstance(id);
+  if (schedule !== null && schedule !== undefined && typeof schedule !== 'string') {
+    throw new HttpError(400, '`schedule` must be a cron expression or null.');
+  }
+  const expression = typeof schedule === 'string' && schedule.trim() ? schedule.trim() : null;
+  const nextSyncAt = expression ? nextCronRun(parseCron(expression), new Date())!.toISOString() : null;
+  getStore().prepare('UPDATE connector_instances SET schedule = ?, next_sync_at = ?, updated_at = ? WHERE id = ?')
+    .run(expression, nextSyncAt, new Date().toISOString(), id);
+  return getConnectorInstance(id);
+}
+
+// Scheduled instances whose next sync is due at `now`.
+export function listDueConnectorInstances(now: Date): ConnectorInstance[] {
+  const records = getStore().prepare(`
+    SELECT * FROM connector_instances WHERE schedule IS NOT NULL AND next_sync_at <= ? ORDER BY next_sync_at
+  `).all(now.toISOString()) as InstanceRecord[];
+  return records.filter((record) => plugins.has(record.type)).map(toInstance);
+}
+
+/**
+ * Moves an instance's next sync to its schedule's first run after `after`. Runs missed while
+ * the backend was down are not made up one by one.
+ */
+export function advanceConnectorSchedule(instance: ConnectorInstance, after: Date): void {
+  if (!instance.schedule) return;
+  const next = nextCronRun(parseCron(instance.schedule), after);
+  getStore().prepare('UPDATE connector_instances SET next_sync_at = ? WHERE id = ?').run(next?.toISOString() ?? null, instance.id);
+}
+
+export function isConnectorSyncing(id: string): boolean {
+  return runningSyncs.has(id);
+}
+
+/**
+ * Tests settings before they are saved. With `id`, omitted secrets come from that instance.
+ */
+export async function testConnectorSettings(type: string, settings: unknown, id?: string): Promise<string> {
+  const plugin = getConnectorPlugin(type);
+  const previous = id ? getConnectorInstance(id, type).config : undefined;
+  return plugin.test(plugin.configure(settings ?? {}, previous));
+}
+
+export async function testConnectorInstance(id: string): Promise<string> {
+  const instance = getConnectorInstance(id);
+  return getConnectorPlugin(instance.type).test(instance.config);
+}
+
+export async function discoverConnectorInstance(id: string): Promise<DiscoveredStream[]> {
+  const instance = getConnectorInstance(id);
+  return getConnectorPlugin(instance.type).discover(instance);
+}
+
+// Client errors such as bad settings or an empty source fail the same way on every attempt.
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof HttpError)) return true;
+  return error.statusCode >= 500 || error.statusCode === 429;
+}
+
+/**
+ * Syncs an instance, recording the run and its outcome. A failing sync is retried up to
+ * `maxAttempts` times with exponential backoff; the instance counts as syncing until the
+ * last attempt, so nothing else starts a sync of it meanwhile. A second request while one is
+ * running is refused rather than queued.
+ */
+export async function syncConnectorInstance(id: string, options: SyncOptions = {}): Promise<ConnectorSyncResult & { runId: string }> {
+  const instance = getConnectorInstance(id);
+  if (runningSyncs.has(id)) {
+    throw new HttpError(409, `'${instance.name}' is already syncing.`);
+  }
+  const plugin = getConnectorPlugin(instance.type);
+  const maxAttempts = Math.max(1, options.maxAttempts ?? 1);
+  const sleep = options.sleep ?? defaultSleep;
+  const db = getStore();
+  const run = startSyncRun(id, options.trigger ?? 'manual');
+  db.prepare('UPDATE connector_instances SET last_run_id = ? WHERE id = ?').run(run.id, id);
+  runningSyncs.add(id);
+  const context = { log: (message: string) => appendSyncLog(run.id, message) };
+  try {
+    for (let attempt = 1; ; attempt++) {
+      appendSyncLog(run.id, maxAttempts > 1 ? `Attempt ${attempt} of ${maxAttempts} started.` : 'Sync started.', attempt);
+      try {
+        // Read again on each attempt, since a failed attempt may have updated the state.
+        const result = await plugin.sync(getConnectorInstance(id), context);
+        appendSyncLog(run.id, result.message);
+        finishSyncRun(run, { rowCount: result.rowCount });
+        db.prepare(`
+          UPDATE connector_instances SET last_sync_at = ?, last_status = 'ok', last_error = NULL, last_row_count = ? WHERE id = ?
+        `).run(run.startedAt, result.rowCount, id);
+        return { ...result, runId: run.id };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        appendSyncLog(run.id, `Failed: ${message}`);
+        if (attempt >= maxAttempts || !isRetryable(error)) {
+          finishSyncRun(run, { error: message });
+          db.prepare(`UPDATE connector_instances SET last_sync_at = ?, last_status = 'error', last_error = ? WHERE id = ?`).run(run.startedAt, message, id);
+          throw error;
+        }
+        const delay = Math.min(SYNC_RETRY_BASE_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+        appendSyncLog(run.id, `Retrying in ${Math.round(delay / 1000)}s.`);
+        await sleep(delay);
+      }
+    }
+  } finally {
+    runningSyncs.delete(id);
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * restApi.ts - reads records from any JSON REST endpoint, following its pagination and
+ * backing off when it rate-limits, and maps each record to a raw row with JSONPath-style
+ * field paths (see jsonPath.ts).
+ */
+import { HttpError } from '../errors.js';
+import { RawRow } from '../datasets/merge.js';
+import { HttpClient, HttpResponse, axiosHttpClient } from './http.js';
+import { selectPath } from './jsonPath.js';
+
+export type RestAuth =
+  | { kind: 'none' }
+  | { kind: 'bearer'; token: string }
+  | { kind: 'basic'; username: string; password: string }
+  // Sent as a header or a query parameter named `name`, e.g. X-API-Key.
+  | { kind: 'api-key'; name: string; value: string; in: 'header' | 'query' };
+
+export type RestPagination =
+  | { kind: 'none' }
+  // The next page's cursor is read from the response at `cursorPath` and sent as `cursorParam`.
+  | { kind: 'cursor'; cursorPath: string; cursorParam: string }
+  // Pages of `pageSize` records, requested with `offsetParam` and `limitParam`.
+  | { kind: 'offset'; offsetParam: string; limitParam: string; pageSize: number }
+  // The next page's URL comes from a `Link: <...>; rel="next"` header (RFC 8288).
+  | { kind: 'link' };
+
+export interface RestApiConfig {
+  url: string;
+  method: 'GET' | 'POST';
+  headers: Record<string, string>;
+  // JSON body for POST requests.
+  body?: unknown;
+  auth: RestAuth;
+  pagination: RestPagination;
+  // Path to the array of records in each response; '$' when the body is the array itself.
+  recordsPath: string;
+  // Column name to path within a record. Empty: every field, with nested objects flattened
+  // into dotted column names.
+  fields: Record<string, string>;
+  maxPages: number;
+}
+
+export interface RestFetchResult {
+  columns: string[];
+  rows: RawRow[];
+  pages: number;
+  // True when `maxPages` stopped the fetch before the last page.
+  truncated: boolean;
+}
+
+export interface RestFetchOptions {
+  http?: HttpClient;
+  // Stops after this many pages, overriding `maxPages`; used for previews.
+  maxPages?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const MAX_RETRIES = 5;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60_000;
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Milliseconds to wait from a Retry-After header, which is either seconds or an HTTP date.
+function retryAfterMs(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Milliseconds until the rate-limit window resets, when the response says none are left.
+// X-RateLimit-Reset is an epoch timestamp in seconds on most APIs and a delay on some.
+function rateLimitResetMs(headers: Record<string, string>): number | undefined {
+  if (headers['x-ratelimit-remaining'] !== '0') return undefined;
+  const reset = Number(headers['x-ratelimit-reset']);
+  if (!Number.isFinite(reset)) return undefined;
+  return Math.max(0, reset > 1e9 ? reset * 1000 - Date.now() : reset * 1000);
+}
+
+// The `rel="next"` target of a Link header, resolved against the request URL.
+function nextLink(header: string | undefined, base: string): string | undefined {
+  for (const part of header?.split(',') ?? []) {
+    const match = part.match(/<([^>]*)>\s*;(.*)/);
+    if (match && /\brel\s*=\s*"?[^";]*\bnext\b/i.test(match[2])) {
+      return new URL(match[1].trim(), base).toString();
+    }
+  }
+  return undefined;
+}
+
+function errorMessage(response: HttpResponse): string {
+  const data = response.data;
+  const detail = typeof data === 'string' ? data.slice(0, 200)
+    : data?.error?.message ?? data?.message ?? (typeof data?.error === 'string' ? data.error : undefined);
+  return detail ? `HTTP ${response.status}: ${detail}` : `HTTP ${response.status}`;
+}
+
+function withAuth(config: RestApiConfig, url: URL): Record<string, string> {
+  const headers: Record<string, string> = { Accept: 'application/json', ...config.headers };
+  const { auth } = config;
+  if (auth.kind === 'bearer') {
+    headers.Authorization = `Bearer ${auth.token}`;
+  } else if (auth.kind === 'basic') {
+    headers.Authorization = `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}`;
+  } else if (auth.kind === 'api-key') {
+    if (auth.in === 'header') headers[auth.name] = auth.value;
+    else url.searchParams.set(auth.name, auth.value);
+  }
+  return headers;
+}
+
+/**
+ * Requests one page, waiting and retrying when the API answers 429 or 503: for as long as
+ * Retry-After asks, otherwise with exponential backoff. Gives up after MAX_RETRIES.
+ */
+async function requestPage(config: RestApiConfig, pageUrl: string, http: HttpClient, sleep: (ms: number) => Promise<void>): Promise<HttpResponse> {
+  const url = new URL(pageUrl);
+  const headers = withAuth(config, url);
+  for (let attempt = 0; ; attempt++) {
+    let response: HttpResponse;
+    try {
+      response = await http({ method: config.method, url: url.toString(), headers, json: config.method === 'POST' ? config.body ?? {} : undefined });
+    } catch (error: any) {
+      throw new HttpError(502, `Cannot reach ${url.host}: ${error?.message ?? String(error)}`);
+    }
+    if (response.status !== 429 && response.status !== 503) {
+      if (response.status === 401 || response.status === 403) {
+        throw new HttpError(401, `The API rejected the credentials (${errorMessage(response)}).`);
+      }
+      if (response.status < 200 || response.status >= 300) {
+        throw new HttpError(502, `The API request failed (${errorMessage(response)}).`);
+      }
+      return response;
+    }
+    if (attempt >= MAX_RETRIES) {
+      throw new HttpError(502, `The API is still rate limiting after ${MAX_RETRIES} retries (${errorMessage(response)}).`);
+    }
+    const wait = retryAfterMs(response.headers?.['retry-after']) ?? BASE_BACKOFF_MS * 2 ** attempt;
+    await sleep(Math.min(wait, MAX_BACKOFF_MS));
+  }
+}
+
+function toCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Nested objects become dotted columns ({a: {b: 1}} → a.b); arrays stay JSON text.
+function flatten(value: unknown, prefix: string, row: RawRow): void {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, nested] of Object.entries(value)) {
+      flatten(nested, prefix ? `${prefix}.${key}` : key, row);
+    }
+  } else {
+    row[prefix || 'value'] = toCell(value);
+  }
+}
+
+/**
+ * Maps records to raw rows. With `fields`, each column takes the value its path selects;
+ * a path selecting several values (through a wildcard) joins them with ', '.
+ */
+export function mapRecords(records: unknown[], fields: Record<string, string>): { columns: string[]; rows: RawRow[] } {
+  const mapped = Object.keys(fields).length > 0;
+  const columns = new Set<string>(Object.keys(fields));
+  const rows = records.map((record) => {
+    const row: RawRow = {};
+    if (mapped) {
+      for (const [column, path] of Object.entries(fields)) {
+        row[column] = selectPath(record, path).map(toCell).join(', ');
+      }
+    } else {
+      flatten(record, '', row);
+      Object.keys(row).forEach((column) => columns.add(column));
+    }
+    return row;
+  });
+  // Fields missing from some records are blank there, as in a CSV with empty cells.
+  for (const row of rows) {
+    for (const column of columns) row[column] ??= '';
+  }
+  return { columns: [...columns], rows };
+}
+
+function pageRecords(config: RestApiConfig, data: unknown): unknown[] {
+  if (typeof data !== 'object' || data === null) {
+    throw new HttpError(422, 'The API did not return JSON.');
+  }
+  const selected = selectPath(data, config.recordsPath);
+  // A path ending in [*] selects the records themselves; otherwise it selects the array.
+  return selected.length === 1 && Array.isArray(selected[0]) ? selected[0] : selected;
+}
+
+/**
+ * Reads every page of the endpoint (up to `maxPages`) and maps the records to rows.
+ */
+export async function fetchRestRows(config: RestApiConfig, options: RestFetchOptions = {}): Promise<RestFetchResult> {
+  const http = options.http ?? axiosHttpClient;
+  const sleep = options.sleep ?? defaultSleep;
+  const maxPages = options.maxPages ?? config.maxPages;
+  const { pagination } = config;
+  const records: unknown[] = [];
+  let pageUrl: string | undefined = config.url;
+  let offset = 0;
+  let pages = 0;
+
+  while (pageUrl) {
+    if (pages >= maxPages) {
+      return { ...mapRecords(records, config.fields), pages, truncated: true };
+    }
+    const url: URL = new URL(pageUrl);
+    if (pagination.kind === 'offset') {
+      url.searchParams.set(pagination.offsetParam, String(offset));
+      url.searchParams.set(pagination.limitParam, String(pagination.pageSize));
+    }
+    const response = await requestPage(config, url.toString(), http, sleep);
+    const page = pageRecords(config, response.data);
+    records.push(...page);
+    pages++;
+
+    pageUrl = undefined;
+    if (pagination.kind === 'cursor') {
+      const cursor = toCell(selectPath(response.data, pagination.cursorPath)[0]);
+      if (cursor && page.length > 0 && cursor !== url.searchParams.get(pagination.cursorParam)) {
+        url.searchParams.set(pagination.cursorParam, cursor);
+        pageUrl = url.toString();
+      }
+    } else if (pagination.kind === 'offset') {
+      offset += page.length;
+      if (page.length >= pagination.pageSize) pageUrl = url.toString();
+    } else if (pagination.kind === 'link') {
+      pageUrl = nextLink(response.headers?.link, url.toString());
+    }
+
+    // Waits out an exhausted rate-limit window instead of spending a request on a 429.
+    const reset = pageUrl ? rateLimitResetMs(response.headers ?? {}) : undefined;
+    if (reset) await sleep(Math.min(reset, MAX_BACKOFF_MS));
+  }
+  return { ...mapRecords(records, config.fields), pages, truncated: false };
+}
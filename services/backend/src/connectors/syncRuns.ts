@@ -0,0 +1,136 @@
+/**
+ * syncRuns.ts - the history of connector syncs (`connector_sync_runs`). Each run records
+ * what triggered it, how long it took, how many attempts it needed and a log of what
+ * happened, so a failing sync can be traced from the Connectors tab.
+ */
+import { getStore } from '../store.js';
+import { HttpError } from '../errors.js';
+import { timestampId } from '../ids.js';
+import { SYNC_HISTORY_LIMIT } from '../config.js';
+
+export type SyncTrigger = 'manual' | 'schedule';
+export type SyncRunStatus = 'running' | 'ok' | 'error';
+
+export interface SyncLogEntry {
+  at: string;
+  message: string;
+}
+
+export interface SyncRun {
+  id: string;
+  connectorId: string;
+  trigger: SyncTrigger;
+  status: SyncRunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  attempts: number;
+  rowCount?: number;
+  error?: string;
+  log: SyncLogEntry[];
+}
+
+interface RunRecord {
+  id: string;
+  connector_id: string;
+  trigger: SyncTrigger;
+  status: SyncRunStatus;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  attempts: number;
+  row_count: number | null;
+  error: string | null;
+  log: string;
+}
+
+function toRun(record: RunRecord): SyncRun {
+  return {
+    id: record.id,
+    connectorId: record.connector_id,
+    trigger: record.trigger,
+    status: record.status,
+    startedAt: record.started_at,
+    finishedAt: record.finished_at ?? undefined,
+    durationMs: record.duration_ms ?? undefined,
+    attempts: record.attempts,
+    rowCount: record.row_count ?? undefined,
+    error: record.error ?? undefined,
+    log: JSON.parse(record.log),
+  };
+}
+
+export function startSyncRun(connectorId: string, trigger: SyncTrigger): SyncRun {
+  const id = timestampId('run');
+  getStore().prepare(`
+    INSERT INTO connector_sync_runs (id, connector_id, trigger, status, started_at) VALUES (?, ?, ?, 'running', ?)
+  `).run(id, connectorId, trigger, new Date().toISOString());
+  return getSyncRun(connectorId, id);
+}
+
+export function appendSyncLog(runId: string, message: string, attempts?: number): void {
+  const entry: SyncLogEntry = { at: new Date().toISOString(), message };
+  getStore().prepare(`
+    UPDATE connector_sync_runs SET log = json_insert(log, '$[#]', json(?)), attempts = COALESCE(?, attempts) WHERE id = ?
+  `).run(JSON.stringify(entry), attempts ?? null, runId);
+}
+
+/**
+ * Records how a run ended and drops the connector's oldest runs beyond SYNC_HISTORY_LIMIT.
+ */
+export function finishSyncRun(run: SyncRun, outcome: { rowCount: number } | { error: string }): void {
+  const db = getStore();
+  const finishedAt = new Date();
+  const failed = 'error' in outcome;
+  db.prepare(`
+    UPDATE connector_sync_runs SET status = ?, finished_at = ?, duration_ms = ?, row_count = ?, error = ? WHERE id = ?
+  `).run(
+    failed ? 'error' : 'ok',
+    finishedAt.toISOString(),
+    finishedAt.getTime() - Date.parse(run.startedAt),
+    failed ? null : outcome.rowCount,
+    failed ? outcome.error : null,
+    run.id,
+  );
+  db.prepare(`
+    DELETE FROM connector_sync_runs WHERE connector_id = ? AND id NOT IN (
+      SELECT id FROM connector_sync_runs WHERE connector_id = ? ORDER BY started_at DESC LIMIT ?
+    )
+  `).run(run.connectorId, run.connectorId, SYNC_HISTORY_LIMIT);
+}
+
+// The connector's runs, newest first, without their logs.
+export function listSyncRuns(connectorId: string, limit = SYNC_HISTORY_LIMIT): Omit<SyncRun, 'log'>[] {
+  const records = getStore().prepare(`
+    SELECT * FROM connector_sync_runs WHERE connector_id = ? ORDER BY started_at DESC, id DESC LIMIT ?
+  `).all(connectorId, limit) as RunRecord[];
+  return records.map((record) => {
+    const { log, ...run } = toRun(record);
+    return run;
+  });
+}
+
+export function getSyncRun(connectorId: string, runId: string): SyncRun {
+  const record = getStore().prepare('SELECT * FROM connector_sync_runs WHERE id = ? AND connector_id = ?').get(runId, connectorId) as RunRecord | undefined;
+  if (!record) {
+    throw new HttpError(404, `Sync run '${runId}' not found.`);
+  }
+  return toRun(record);
+}
+
+export function deleteSyncRuns(connectorId: string): void {
+  getStore().prepare('DELETE FROM connector_sync_runs WHERE connector_id = ?').run(connectorId);
+}
+
+/**
+ * Marks runs left 'running' by a stopped backend as failed. Called once on startup, before
+ * any sync can start.
+ */
+export function failInterruptedSyncRuns(): number {
+  const now = new Date().toISOString();
+  const entry = JSON.stringify({ at: now, message: 'The backend stopped before the sync finished.' });
+  return getStore().prepare(`
+    UPDATE connector_sync_runs SET status = 'error', finished_at = ?, error = 'Interrupted by a backend restart.', log = json_insert(log, '$[#]', json(?))
+    WHERE status = 'running'
+  `).run(now, entry).changes;
+}
@@ -0,0 +1,61 @@
+import { FastifyInstance } from 'fastify';
+import { listMetrics, MetricDefinition } from './metrics/definitions.js';
+import { evaluateMetric, KpiValue, BreakdownSlice } from './metrics/evaluate.js';
+import { HttpError } from './errors.js';
+
+// Each part carries the id of the metric behind it, so insights can link to it.
+interface DashboardPayload {
+  kpis: (KpiValue & { metricId: string })[];
+  // Points of the first series metric, in the shape the revenue chart expects.
+  revenueData: { name: string; revenue: number | null }[];
+  revenueTitle: string | null;
+  revenueMetric: string | null;
+  leadSourceData: BreakdownSlice[];
+  leadSourceTitle: string | null;
+  leadSourceMetric: string | null;
+  // Metrics that could not be evaluated; the rest of the dashboard is still returned.
+  errors: { metric: string; error: string }[];
+  generatedAt: string;
+}
+
+export default async function routes(server: FastifyInstance) {
+  // Everything the dashboard view shows, built from the metric definitions (see
+  // metrics/definitions.ts): every KPI metric, the first series and the first breakdown.
+  server.get('/api/dashboard', async (request, reply) => {
+    let metrics: MetricDefinition[];
+    try {
+      metrics = await listMetrics();
+    } catch (error) {
+      server.log.error(error, 'Failed to list metrics');
+      return reply.status(500).send({ error: 'Failed to build dashboard.' });
+    }
+
+    const series = metrics.find((m) => m.kind === 'series');
+    const breakdown = metrics.find((m) => m.kind === 'breakdown');
+    const payload: DashboardPayload = {
+      kpis: [],
+      revenueData: [],
+      revenueTitle: series?.name ?? null,
+      revenueMetric: series?.id ?? null,
+      leadSourceData: [],
+      leadSourceTitle: breakdown?.name ?? null,
+      leadSourceMetric: breakdown?.id ?? null,
+      errors: [],
+      generatedAt: new Date().toISOString(),
+    };
+
+    const shown = metrics.filter((m) => m.kind === 'kpi' || m === series || m === breakdown);
+    for (const metric of shown) {
+      try {
+        const result = await evaluateMetric(metric);
+        if (result.kind === 'kpi') payload.kpis.push({ ...result.kpi, metricId: metric.id });
+        if (result.kind === 'series') payload.revenueData = result.series.map(({ name, value }) => ({ name, revenue: value }));
+        if (result.kind === 'breakdown') payload.leadSourceData = result.breakdown;
+      } catch (error: any) {
+        if (!(error instanceof HttpError)) server.log.error(error, `Failed to evaluate metric ${metric.id}`);
+        payload.errors.push({ metric: metric.id, error: error instanceof HttpError ? error.message : 'Evaluation failed.' });
+      }
+    }
+    return payload;
+  });
+}
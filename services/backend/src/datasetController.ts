@@ -0,0 +1,155 @@
+import { FastifyInstance } from 'fastify';
+import { readDatasetSchema, overrideDatasetSchema, readDatasetRows, deleteDataset, rollbackDataset } from './datasets/storage.js';
+import { listDatasets, getDatasetMeta, updateDatasetMeta } from './datasets/catalog.js';
+import { listVersions, diffVersions } from './datasets/versions.js';
+import { renameDatasetIndex } from './rag/chunks.js';
+import { COLUMN_TYPES, ColumnType } from './datasets/schema.js';
+import { sendError } from './errors.js';
+
+const MAX_PREVIEW_ROWS = 500;
+const MAX_DIFF_ROWS = 500;
+
+function parseVersion(value: unknown): number | null {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+}
+
+export default async function routes(server: FastifyInstance) {
+  server.get('/api/datasets', async (request, reply) => {
+    try {
+      return { datasets: await listDatasets() };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to list datasets');
+    }
+  });
+
+  server.get('/api/datasets/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      const dataset = await getDatasetMeta(id);
+      return { ...dataset, schema: await readDatasetSchema(id) };
+    } catch (error) {
+      return sendError(reply, error, `Failed to read dataset ${id}`);
+    }
+  });
+
+  // Paginated preview: ?offset=0&limit=50
+  server.get('/api/datasets/:id/rows', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const query = request.query as { offset?: string; limit?: string };
+    const offset = Math.max(0, Number(query.offset) || 0);
+    const limit = Math.min(MAX_PREVIEW_ROWS, Math.max(1, Number(query.limit) || 50));
+    try {
+      const { rows, total } = await readDatasetRows(id, offset, limit);
+      return { rows, total, offset, limit };
+    } catch (error) {
+      return sendError(reply, error, `Failed to read rows of dataset ${id}`);
+    }
+  });
+
+  // Renames and/or retags a dataset: { "name": "...", "tags": ["finance"] }
+  server.patch('/api/datasets/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const { name, tags } = (request.body as any) ?? {};
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return reply.status(400).send({ error: '`name` must be a non-empty string.' });
+    }
+    if (tags !== undefined && (!Array.isArray(tags) || tags.some((t) => typeof t !== 'string'))) {
+      return reply.status(400).send({ error: '`tags` must be an array of strings.' });
+    }
+
+    try {
+      const patch: { name?: string; tags?: string[] } = {};
+      if (name !== undefined) patch.name = name.trim();
+      if (tags !== undefined) patch.tags = [...new Set<string>(tags.map((t: string) => t.trim()).filter(Boolean))];
+      const dataset = updateDatasetMeta(id, patch);
+      if (patch.name) renameDatasetIndex(id, dataset.name);
+      return dataset;
+    } catch (error) {
+      return sendError(reply, error, `Failed to update dataset ${id}`);
+    }
+  });
+
+  server.delete('/api/datasets/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      await deleteDataset(id);
+      server.log.info(`Deleted dataset ${id}`);
+      return { status: 'ok' };
+    } catch (error) {
+      return sendError(reply, error, `Failed to delete dataset ${id}`);
+    }
+  });
+
+  server.get('/api/datasets/:id/schema', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      return await readDatasetSchema(id);
+    } catch (error) {
+      return sendError(reply, error, `Failed to read schema for dataset ${id}`);
+    }
+  });
+
+  // Pins column types (e.g. { "overrides": { "zip": "string" } }) and re-coerces the dataset.
+  server.put('/api/datasets/:id/schema', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const overrides = (request.body as any)?.overrides;
+    if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+      return reply.status(400).send({ error: 'An `overrides` object mapping column names to types is required.' });
+    }
+    const invalid = Object.entries(overrides).filter(([, type]) => !COLUMN_TYPES.includes(type as ColumnType));
+    if (invalid.length > 0) {
+      return reply.status(400).send({ error: `Invalid type for column(s) ${invalid.map(([name]) => name).join(', ')}. Expected one of: ${COLUMN_TYPES.join(', ')}.` });
+    }
+
+    try {
+      const schema = await overrideDatasetSchema(id, overrides as Record<string, ColumnType>);
+      server.log.info(`Re-applied schema for dataset ${id} with overrides ${JSON.stringify(overrides)}`);
+      return schema;
+    } catch (error) {
+      return sendError(reply, error, `Failed to update schema for dataset ${id}`);
+    }
+  });
+
+  server.get('/api/datasets/:id/versions', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      return { versions: await listVersions(id) };
+    } catch (error) {
+      return sendError(reply, error, `Failed to list versions of dataset ${id}`);
+    }
+  });
+
+  // Compares two versions: ?from=1&to=2&limit=100. Row lists are capped at `limit`.
+  server.get('/api/datasets/:id/diff', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const query = request.query as { from?: string; to?: string; limit?: string };
+    const from = parseVersion(query.from);
+    const to = parseVersion(query.to);
+    if (from === null || to === null) {
+      return reply.status(400).send({ error: '`from` and `to` must be version numbers.' });
+    }
+    const limit = Math.min(MAX_DIFF_ROWS, Math.max(1, Number(query.limit) || 100));
+    try {
+      return await diffVersions(id, from, to, limit);
+    } catch (error) {
+      return sendError(reply, error, `Failed to diff versions ${from} and ${to} of dataset ${id}`);
+    }
+  });
+
+  // Restores an earlier version as a new one: { "version": 3 }
+  server.post('/api/datasets/:id/rollback', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const version = parseVersion((request.body as any)?.version);
+    if (version === null) {
+      return reply.status(400).send({ error: 'A `version` number is required.' });
+    }
+    try {
+      const result = await rollbackDataset(id, version);
+      server.log.info(`Rolled dataset ${id} back to version ${version} as version ${result.version.version}`);
+      return { ...result.dataset, schema: result.schema };
+    } catch (error) {
+      return sendError(reply, error, `Failed to roll back dataset ${id}`);
+    }
+  });
+}
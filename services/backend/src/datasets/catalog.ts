@@ -0,0 +1,132 @@
+import { getStore } from '../store.js';
+import { HttpError } from '../errors.js';
+import { DatasetSchema } from './schema.js';
+
+export interface DatasetSource {
+  // How the data arrived: a browser upload, a path on the backend host, a Google Drive file,
+  // a PostgreSQL table or query, or a REST API endpoint.
+  connector: 'upload' | 'file' | 'google-drive' | 'postgres' | 'rest-api';
+  format: string;
+  fileName?: string;
+  filePath?: string;
+  sheet?: string;
+  // Drive file id, for 'google-drive'.
+  fileId?: string;
+  // Connection id and, when a whole table is synced, its qualified name, for 'postgres'.
+  connectionId?: string;
+  table?: string;
+  // Source id and endpoint, for 'rest-api'.
+  sourceId?: string;
+  url?: string;
+}
+
+export interface DatasetMeta {
+  id: string;
+  name: string;
+  tags: string[];
+  source: DatasetSource;
+  // SQLite table holding the typed rows, for use with /api/query.
+  table: string;
+  // Columns identifying a row when a new export is upserted into the dataset.
+  primaryKey?: string[];
+  // Latest entry in the dataset's version history (see versions.ts); 0 before the first one.
+  version: number;
+  rowCount: number;
+  columnCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface DatasetRecord {
+  id: string;
+  name: string;
+  tags: string;
+  source: string;
+  table_name: string;
+  primary_key: string | null;
+  version: number;
+  row_count: number;
+  column_count: number;
+  schema: string;
+  created_at: string;
+  updated_at: string;
+}
+
+function toMeta(record: DatasetRecord): DatasetMeta {
+  return {
+    id: record.id,
+    name: record.name,
+    tags: JSON.parse(record.tags),
+    source: JSON.parse(record.source),
+    table: record.table_name,
+    primaryKey: record.primary_key ? JSON.parse(record.primary_key) : undefined,
+    version: record.version,
+    rowCount: record.row_count,
+    columnCount: record.column_count,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at,
+  };
+}
+
+function getRecord(id: string): DatasetRecord {
+  const record = getStore().prepare('SELECT * FROM datasets WHERE id = ?').get(id) as DatasetRecord | undefined;
+  if (!record) {
+    throw new HttpError(404, `Dataset '${id}' not found.`);
+  }
+  return record;
+}
+
+export async function listDatasets(): Promise<DatasetMeta[]> {
+  const records = getStore().prepare('SELECT * FROM datasets ORDER BY created_at DESC').all() as DatasetRecord[];
+  return records.map(toMeta);
+}
+
+export async function getDatasetMeta(id: string): Promise<DatasetMeta> {
+  return toMeta(getRecord(id));
+}
+
+export async function getDatasetSchema(id: string): Promise<DatasetSchema> {
+  return JSON.parse(getRecord(id).schema);
+}
+
+export function registerDataset(meta: DatasetMeta, schema: DatasetSchema): void {
+  getStore().prepare(`
+    INSERT INTO datasets (id, name, tags, source, table_name, primary_key, version, row_count, column_count, schema, created_at, updated_at)
+    VALUES (@id, @name, @tags, @source, @table, @primaryKey, @version, @rowCount, @columnCount, @schema, @createdAt, @updatedAt)
+  `).run({
+    ...meta,
+    tags: JSON.stringify(meta.tags),
+    source: JSON.stringify(meta.source),
+    primaryKey: meta.primaryKey ? JSON.stringify(meta.primaryKey) : null,
+    schema: JSON.stringify(schema),
+  });
+}
+
+// Synchronous, so that it can be part of the transaction that changes the dataset's rows.
+export function updateDatasetMeta(
+  id: string,
+  patch: Partial<Pick<DatasetMeta, 'name' | 'tags' | 'primaryKey' | 'version' | 'rowCount' | 'columnCount'>> & { schema?: DatasetSchema },
+): DatasetMeta {
+  const { schema, ...changes } = patch;
+  const next: DatasetMeta = { ...toMeta(getRecord(id)), ...changes, updatedAt: new Date().toISOString() };
+  getStore().prepare(`
+    UPDATE datasets SET name = @name, tags = @tags, primary_key = @primaryKey, version = @version, row_count = @rowCount, column_count = @columnCount,
+      schema = COALESCE(@schema, schema), updated_at = @updatedAt
+    WHERE id = @id
+  `).run({
+    id,
+    name: next.name,
+    tags: JSON.stringify(next.tags),
+    primaryKey: next.primaryKey ? JSON.stringify(next.primaryKey) : null,
+    version: next.version,
+    rowCount: next.rowCount,
+    columnCount: next.columnCount,
+    schema: schema ? JSON.stringify(schema) : null,
+    updatedAt: next.updatedAt,
+  });
+  return next;
+}
+
+export function removeDatasetMeta(id: string): void {
+  getStore().prepare('DELETE FROM datasets WHERE id = ?').run(id);
+}
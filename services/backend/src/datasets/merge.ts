@@ -0,0 +1,94 @@
+import { HttpError } from '../errors.js';
+
+export type RawRow = Record<string, string>;
+
+export interface UpsertReport {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+  // Incoming rows dropped because a later row in the same file had the same key.
+  duplicates: number;
+}
+
+export interface MergePlan {
+  inserts: RawRow[];
+  updates: { rowid: number; row: RawRow }[];
+  deletes: number[];
+  report: UpsertReport;
+}
+
+export function rowKey(row: RawRow, primaryKey: string[]): string {
+  return JSON.stringify(primaryKey.map((column) => (row[column] ?? '').trim()));
+}
+
+/**
+ * Keeps the last occurrence of each key, preserving the order in which keys first appear.
+ */
+export function dedupeRows(rows: RawRow[], primaryKey: string[]): { rows: RawRow[]; duplicates: number } {
+  const byKey = new Map<string, RawRow>();
+  for (const row of rows) {
+    byKey.set(rowKey(row, primaryKey), row);
+  }
+  return { rows: [...byKey.values()], duplicates: rows.length - byKey.size };
+}
+
+function sameRow(a: RawRow, b: RawRow, columns: string[]): boolean {
+  return columns.every((column) => (a[column] ?? '') === (b[column] ?? ''));
+}
+
+/**
+ * Works out how to bring the live rows of a dataset in line with a new export, matching
+ * rows on `primaryKey`. Rows are compared on every column in `columns`; a column missing
+ * from one side counts as empty. With `deleteMissing`, live rows whose key is absent from
+ * the incoming file are marked for deletion.
+ */
+export function planMerge(
+  existing: { rowid: number; row: RawRow }[],
+  incoming: RawRow[],
+  primaryKey: string[],
+  columns: string[],
+  deleteMissing: boolean,
+): MergePlan {
+  const existingByKey = new Map<string, { rowid: number; row: RawRow }>();
+  for (const entry of existing) {
+    const key = rowKey(entry.row, primaryKey);
+    if (existingByKey.has(key)) {
+      throw new HttpError(409, `Existing rows share the key ${key}; the dataset cannot be upserted on [${primaryKey.join(', ')}].`);
+    }
+    existingByKey.set(key, entry);
+  }
+
+  const { rows, duplicates } = dedupeRows(incoming, primaryKey);
+  const plan: MergePlan = {
+    inserts: [],
+    updates: [],
+    deletes: [],
+    report: { inserted: 0, updated: 0, unchanged: 0, deleted: 0, duplicates },
+  };
+
+  const seen = new Set<string>();
+  for (const row of rows) {
+    const key = rowKey(row, primaryKey);
+    seen.add(key);
+    const match = existingByKey.get(key);
+    if (!match) {
+      plan.inserts.push(row);
+    } else if (sameRow(match.row, row, columns)) {
+      plan.report.unchanged++;
+    } else {
+      plan.updates.push({ rowid: match.rowid, row });
+    }
+  }
+
+  if (deleteMissing) {
+    for (const [key, entry] of existingByKey) {
+      if (!seen.has(key)) plan.deletes.push(entry.rowid);
+    }
+  }
+
+  plan.report.inserted = plan.inserts.length;
+  plan.report.updated = plan.updates.length;
+  plan.report.deleted = plan.deletes.length;
+  return plan;
+}
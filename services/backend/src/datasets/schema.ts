@@ -0,0 +1,210 @@
+export type ColumnType = 'integer' | 'decimal' | 'currency' | 'percentage' | 'date' | 'boolean' | 'enum' | 'string';
+
+export const COLUMN_TYPES: ColumnType[] = ['integer', 'decimal', 'currency', 'percentage', 'date', 'boolean', 'enum', 'string'];
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  nullable: boolean;
+  // Set when the type came from a user override rather than inference.
+  overridden?: boolean;
+  // Allowed values of an enum column.
+  values?: string[];
+  // Non-empty raw values that could not be coerced to `type` and were stored as null.
+  invalidCount: number;
+}
+
+export interface DatasetSchema {
+  columns: ColumnSchema[];
+  inferredAt: string;
+}
+
+export type CellValue = string | number | boolean | null;
+
+const NULL_TOKENS = new Set(['', 'null', 'n/a', 'na', 'none', '-']);
+const TRUE_TOKENS = new Set(['true', 'yes', 'y']);
+const FALSE_TOKENS = new Set(['false', 'no', 'n']);
+
+const NUMBER = String.raw`[+-]?(?:\d{1,3}(?:,\d{3})+|\d+)?(?:\.\d+)?(?:[eE][+-]?\d+)?`;
+const INTEGER_RE = /^[+-]?(?:\d{1,3}(?:,\d{3})+|\d+)$/;
+const DECIMAL_RE = new RegExp(`^${NUMBER}$`);
+const PERCENT_RE = new RegExp(`^(${NUMBER})\\s?%$`);
+const CURRENCY_RE = new RegExp(`^([+-]?)\\s?[$€£¥]\\s?(${NUMBER})\\s?([kKmMbB])?$`);
+const ISO_DATE_RE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const SLASH_DATE_RE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+const MAGNITUDES: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+// Enum columns need few distinct values, each seen at least twice on average.
+const MAX_ENUM_VALUES = 20;
+
+function isNull(raw: string): boolean {
+  return NULL_TOKENS.has(raw.trim().toLowerCase());
+}
+
+function toNumber(text: string): number {
+  return Number(text.replace(/,/g, ''));
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function parseDate(raw: string): string | null {
+  const iso = ISO_DATE_RE.exec(raw);
+  if (iso) {
+    const date = new Date(raw.replace(' ', 'T') + (iso[4] && !iso[7] ? 'Z' : ''));
+    if (isNaN(date.getTime()) || Number(iso[2]) > 12 || Number(iso[3]) > 31) return null;
+    return iso[4] ? date.toISOString() : `${iso[1]}-${iso[2]}-${iso[3]}`;
+  }
+  const slash = SLASH_DATE_RE.exec(raw);
+  if (slash) {
+    // US month/day order unless the first part can only be a day.
+    let [month, day] = [Number(slash[1]), Number(slash[2])];
+    if (month > 12) [month, day] = [day, month];
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    return `${slash[3]}-${pad(month)}-${pad(day)}`;
+  }
+  return null;
+}
+
+/**
+ * Converts one raw text value to `type`. Returns `undefined` when the value does not
+ * fit the type, and `null` for empty/NA values.
+ *
+ * Currency values are stored as plain numbers ("$4.2M" → 4200000) and percentages in
+ * percent units ("12.5%" → 12.5); dates become ISO strings.
+ */
+export function coerceValue(raw: string, type: ColumnType, enumValues?: string[]): CellValue | undefined {
+  const text = raw.trim();
+  if (isNull(text)) return null;
+
+  switch (type) {
+    case 'integer':
+      return INTEGER_RE.test(text) ? toNumber(text) : undefined;
+    case 'decimal':
+      return DECIMAL_RE.test(text) && /\d/.test(text) ? toNumber(text) : undefined;
+    case 'percentage': {
+      const match = PERCENT_RE.exec(text);
+      return match && /\d/.test(match[1]) ? toNumber(match[1]) : undefined;
+    }
+    case 'currency': {
+      const match = CURRENCY_RE.exec(text);
+      if (match && /\d/.test(match[2])) {
+        const value = toNumber(match[2]) * (match[3] ? MAGNITUDES[match[3].toLowerCase()] : 1);
+        return match[1] === '-' ? -value : value;
+      }
+      // Plain numbers are accepted so a currency column tolerates unformatted cells.
+      return DECIMAL_RE.test(text) && /\d/.test(text) ? toNumber(text) : undefined;
+    }
+    case 'date':
+      return parseDate(text) ?? undefined;
+    case 'boolean': {
+      const lower = text.toLowerCase();
+      if (TRUE_TOKENS.has(lower)) return true;
+      if (FALSE_TOKENS.has(lower)) return false;
+      return undefined;
+    }
+    case 'enum':
+      return !enumValues || enumValues.includes(text) ? text : undefined;
+    case 'string':
+      return text;
+  }
+}
+
+function classify(text: string): ColumnType {
+  const lower = text.toLowerCase();
+  if (TRUE_TOKENS.has(lower) || FALSE_TOKENS.has(lower)) return 'boolean';
+  // Leading zeros mean an identifier (zip code, account number), not a quantity.
+  if (/^0\d/.test(text)) return 'string';
+  if (INTEGER_RE.test(text)) return 'integer';
+  if (coerceValue(text, 'decimal') !== undefined) return 'decimal';
+  if (coerceValue(text, 'percentage') !== undefined) return 'percentage';
+  if (CURRENCY_RE.test(text)) return 'currency';
+  if (parseDate(text) !== null) return 'date';
+  return 'string';
+}
+
+function inferColumn(name: string, values: string[]): ColumnSchema {
+  const present = values.map((v) => v.trim()).filter((v) => !isNull(v));
+  const nullable = present.length < values.length;
+  if (present.length === 0) {
+    return { name, type: 'string', nullable, invalidCount: 0 };
+  }
+
+  const kinds = new Set(present.map(classify));
+  let type: ColumnType = 'string';
+  if (kinds.size === 1) {
+    type = [...kinds][0];
+  } else if ([...kinds].every((k) => k === 'integer' || k === 'decimal')) {
+    type = 'decimal';
+  } else if (kinds.has('currency') && [...kinds].every((k) => k === 'integer' || k === 'decimal' || k === 'currency')) {
+    type = 'currency';
+  }
+
+  if (type === 'string') {
+    const distinct = [...new Set(present)];
+    if (distinct.length <= MAX_ENUM_VALUES && present.length >= distinct.length * 2) {
+      return { name, type: 'enum', nullable, values: distinct.sort(), invalidCount: 0 };
+    }
+  }
+  return { name, type, nullable, invalidCount: 0 };
+}
+
+export function columnNames(rows: Record<string, string>[]): string[] {
+  const names = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((key) => names.add(key)));
+  return [...names];
+}
+
+/**
+ * Infers a type for every column of raw (string-valued) rows. `overrides` pins the type of
+ * individual columns; an overridden enum takes its allowed values from the data.
+ */
+export function inferSchema(rows: Record<string, string>[], overrides: Record<string, ColumnType> = {}): DatasetSchema {
+  const columns = columnNames(rows).map((name) => {
+    const values = rows.map((row) => row[name] ?? '');
+    const inferred = inferColumn(name, values);
+    const override = overrides[name];
+    if (!override || override === inferred.type) return inferred;
+
+    const column: ColumnSchema = { name, type: override, nullable: inferred.nullable, overridden: true, invalidCount: 0 };
+    if (override === 'enum') {
+      column.values = [...new Set(values.map((v) => v.trim()).filter((v) => !isNull(v)))].sort();
+    }
+    return column;
+  });
+  return { columns, inferredAt: new Date().toISOString() };
+}
+
+/**
+ * Coerces raw rows to the schema's column types. Values that don't fit are stored as null
+ * and counted in the returned schema's `invalidCount`.
+ */
+export function coerceRows(rows: Record<string, string>[], schema: DatasetSchema): { rows: Record<string, CellValue>[]; schema: DatasetSchema } {
+  const invalid = new Map<string, number>();
+  const typed = rows.map((row) => {
+    const out: Record<string, CellValue> = {};
+    for (const column of schema.columns) {
+      const value = coerceValue(row[column.name] ?? '', column.type, column.values);
+      if (value === undefined) {
+        invalid.set(column.name, (invalid.get(column.name) ?? 0) + 1);
+        out[column.name] = null;
+      } else {
+        out[column.name] = value;
+      }
+    }
+    return out;
+  });
+
+  return {
+    rows: typed,
+    schema: {
+      ...schema,
+      columns: schema.columns.map((column) => {
+        const invalidCount = invalid.get(column.name) ?? 0;
+        return { ...column, invalidCount, nullable: column.nullable || invalidCount > 0 };
+      }),
+    },
+  };
+}
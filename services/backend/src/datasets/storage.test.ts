@@ -0,0 +1,73 @@
+/**
+ * Changes to an existing dataset: upserts and replacements that overlap, and a change that
+ * fails part-way, which must leave the raw rows, the typed table and the catalog as they were.
+ */
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// The store opens under DATA_DIR, so it is pointed at a fresh directory before it loads.
+const dataDir = await mkdtemp(path.join(tmpdir(), 'storage-test-'));
+process.env.DATA_DIR = dataDir;
+const { saveDataset, upsertDataset, replaceDataset, readDatasetRows } = await import('./storage.js');
+const { getDatasetMeta } = await import('./catalog.js');
+const { listVersions } = await import('./versions.js');
+const { getStore } = await import('../store.js');
+
+const SOURCE = { connector: 'upload' as const, format: 'csv', fileName: 'leads.csv' };
+
+after(() => rm(dataDir, { recursive: true, force: true }));
+
+function tables(prefix: string): string[] {
+  return (getStore().prepare("SELECT name FROM sqlite_schema WHERE type = 'table' AND name LIKE ? ORDER BY name").all(`${prefix}%`) as { name: string }[])
+    .map((row) => row.name);
+}
+
+async function rows(id: string) {
+  return (await readDatasetRows(id, 0, 100)).rows;
+}
+
+test('upserts update, insert, soft-delete and add columns', async () => {
+  const { id } = await saveDataset([{ id: '1', value: '10' }, { id: '2', value: '20' }, { id: '3', value: '30' }], SOURCE, { primaryKey: ['id'] });
+  const { report, dataset } = await upsertDataset(id, [{ id: '2', value: '25', owner: 'ana' }, { id: '4', value: '40', owner: 'ben' }], { deleteMissing: true });
+
+  assert.deepEqual(report, { inserted: 1, updated: 1, unchanged: 0, deleted: 2, duplicates: 0 });
+  assert.equal(dataset.version, 2);
+  assert.deepEqual(await rows(id), [{ id: 2, value: 25, owner: 'ana' }, { id: 4, value: 40, owner: 'ben' }]);
+  const raw = getStore().prepare(`SELECT id, __deleted_at IS NOT NULL AS deleted FROM ${dataset.table}_raw ORDER BY rowid`).all();
+  assert.deepEqual(raw, [{ id: '1', deleted: 1 }, { id: '2', deleted: 0 }, { id: '3', deleted: 1 }, { id: '4', deleted: 0 }]);
+});
+
+test('changes started at once are applied one after the other', async () => {
+  const { id, table } = await saveDataset([{ id: '1', value: '10' }], SOURCE, { primaryKey: ['id'] });
+  await Promise.all([
+    upsertDataset(id, [{ id: '2', value: '20' }]),
+    replaceDataset(id, [{ id: '1', value: '11' }, { id: '3', value: '30' }], SOURCE),
+    upsertDataset(id, [{ id: '4', value: '40' }]),
+  ]);
+
+  assert.deepEqual(await rows(id), [{ id: 1, value: 11 }, { id: 3, value: 30 }, { id: 4, value: 40 }]);
+  assert.deepEqual((await listVersions(id)).map((version) => [version.version, version.kind, version.rowCount]), [
+    [4, 'upsert', 3],
+    [3, 'ingest', 2],
+    [2, 'upsert', 2],
+    [1, 'ingest', 1],
+  ]);
+  assert.equal((await getDatasetMeta(id)).rowCount, 3);
+  assert.deepEqual(tables(`${table}_`).filter((name) => name.endsWith('_next')), []);
+});
+
+test('a change that fails leaves the raw rows, typed rows and catalog unchanged', async () => {
+  const { id, table } = await saveDataset([{ id: '1', value: '10' }], SOURCE, { primaryKey: ['id'] });
+  // The next version's snapshot table already exists, so recording the version fails.
+  getStore().exec(`CREATE TABLE ${table}_v2 (id TEXT)`);
+
+  await assert.rejects(upsertDataset(id, [{ id: '1', value: '99' }, { id: '2', value: '20', owner: 'ana' }]), /already exists/);
+  assert.deepEqual(await rows(id), [{ id: 1, value: 10 }]);
+  const raw = getStore().prepare(`SELECT * FROM ${table}_raw`).all();
+  assert.deepEqual(raw, [{ id: '1', value: '10', __deleted_at: null }]);
+  assert.equal((await getDatasetMeta(id)).version, 1);
+  assert.deepEqual(tables(`${table}_`).filter((name) => name.endsWith('_next')), []);
+});
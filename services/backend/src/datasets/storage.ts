@@ -0,0 +1,510 @@
+import Database from 'better-sqlite3';
+import path from 'path';
+import { getStore, quoteIdentifier, yieldToEventLoop } from '../store.js';
+import { HttpError, MalformedFileError } from '../errors.js';
+import { timestampId } from '../ids.js';
+import { inferSchema, coerceRows, columnNames, ColumnType, ColumnSchema, DatasetSchema, CellValue } from './schema.js';
+import { registerDataset, getDatasetMeta, getDatasetSchema, updateDatasetMeta, removeDatasetMeta, DatasetMeta, DatasetSource } from './catalog.js';
+import { dedupeRows, planMerge, MergePlan, RawRow, UpsertReport } from './merge.js';
+import { recordVersion, readVersion, readVersionRows, dropVersions, DatasetVersion } from './versions.js';
+import { indexDataset, removeDatasetIndex } from '../rag/chunks.js';
+
+/**
+ * Each dataset is stored in the SQLite store as two tables:
+ *   ds_<id>      typed rows, coerced to the schema (booleans as 0/1, dates as ISO text)
+ *   ds_<id>_raw  rows exactly as parsed, kept so the schema can be changed later
+ * and listed in the `datasets` catalog table (see catalog.ts). Row order is the SQLite rowid.
+ *
+ * Rows soft-deleted by an upsert stay in the raw table with `__deleted_at` set; the typed
+ * table only ever holds live rows. Each ingest also snapshots the live raw rows as a new
+ * version (see versions.ts) and re-indexes the dataset for /api/qa (see rag/chunks.ts).
+ */
+const DATASET_ID_RE = /^ingest-\d+$/;
+
+const DELETED_COLUMN = '__deleted_at';
+
+// Rows per transaction; the event loop gets a turn between batches.
+const INSERT_BATCH_SIZE = 5000;
+
+const COLUMN_AFFINITY: Record<ColumnType, string> = {
+  integer: 'INTEGER',
+  decimal: 'REAL',
+  currency: 'REAL',
+  percentage: 'REAL',
+  boolean: 'INTEGER',
+  date: 'TEXT',
+  enum: 'TEXT',
+  string: 'TEXT',
+};
+
+// Columns likely to be filtered or grouped on get an index.
+const INDEXED_TYPES: ColumnType[] = ['date', 'enum', 'boolean'];
+
+export function datasetTable(id: string): string {
+  if (!DATASET_ID_RE.test(id)) {
+    throw new HttpError(400, `Invalid dataset id '${id}'.`);
+  }
+  return `ds_${id.replace(/-/g, '_')}`;
+}
+
+function defaultName(source: DatasetSource): string {
+  const file = source.fileName ?? source.filePath;
+  const base = file ? path.basename(file, path.extname(file)) : 'Untitled dataset';
+  return source.sheet ? `${base} (${source.sheet})` : base;
+}
+
+function encodeValue(value: CellValue): string | number | null {
+  return typeof value === 'boolean' ? (value ? 1 : 0) : value;
+}
+
+function decodeRow(row: Record<string, unknown>, columns: ColumnSchema[]): Record<string, CellValue> {
+  const out: Record<string, CellValue> = {};
+  for (const column of columns) {
+    const value = row[column.name] as string | number | null;
+    out[column.name] = column.type === 'boolean' && value !== null ? value === 1 : value;
+  }
+  return out;
+}
+
+function assertDistinctColumns(names: string[]): void {
+  // SQLite column names are case-insensitive.
+  const seen = new Set<string>();
+  for (const name of names) {
+    const key = name.toLowerCase();
+    if (key === DELETED_COLUMN) {
+      throw new MalformedFileError(`Column name '${name}' is reserved.`);
+    }
+    if (seen.has(key)) {
+      throw new MalformedFileError(`Duplicate column name '${name}' (column names are case-insensitive).`);
+    }
+    seen.add(key);
+  }
+}
+
+// Adds the table to `created`, when given, as soon as it exists, even if filling it fails.
+async function createTable(db: Database.Database, table: string, columns: { name: string; type: string }[], rows: Record<string, unknown>[], created?: string[]): Promise<void> {
+  const columnList = columns.map((c) => `${quoteIdentifier(c.name)} ${c.type}`).join(', ');
+  db.exec(`CREATE TABLE ${quoteIdentifier(table)} (${columnList})`);
+  created?.push(table);
+
+  const insert = db.prepare(
+    `INSERT INTO ${quoteIdentifier(table)} VALUES (${columns.map(() => '?').join(', ')})`
+  );
+  const insertBatch = db.transaction((batch: Record<string, unknown>[]) => {
+    for (const row of batch) {
+      insert.run(columns.map((c) => row[c.name] ?? null));
+    }
+  });
+
+  for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+    insertBatch(rows.slice(start, start + INSERT_BATCH_SIZE));
+    await yieldToEventLoop();
+  }
+}
+
+function createIndexes(db: Database.Database, table: string, schema: DatasetSchema): void {
+  schema.columns
+    .filter((column) => INDEXED_TYPES.includes(column.type))
+    .forEach((column, index) => {
+      db.exec(`CREATE INDEX ${quoteIdentifier(`${table}_idx${index}`)} ON ${quoteIdentifier(table)} (${quoteIdentifier(column.name)})`);
+    });
+}
+
+async function writeTypedTable(db: Database.Database, table: string, rows: Record<string, CellValue>[], schema: DatasetSchema, created?: string[]): Promise<void> {
+  const encoded = rows.map((row) => {
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(row)) out[key] = encodeValue(row[key]);
+    return out;
+  });
+  await createTable(db, table, schema.columns.map((c) => ({ name: c.name, type: COLUMN_AFFINITY[c.type] })), encoded, created);
+}
+
+function dropTables(db: Database.Database, ...tables: string[]): void {
+  tables.forEach((table) => db.exec(`DROP TABLE IF EXISTS ${quoteIdentifier(table)}`));
+}
+
+function assertKeyColumns(primaryKey: string[], columns: string[]): void {
+  const missing = primaryKey.filter((name) => !columns.includes(name));
+  if (missing.length > 0) {
+    throw new HttpError(400, `Primary key column(s) not found in the data: ${missing.join(', ')}.`);
+  }
+}
+
+function emptyReport(inserted: number): UpsertReport {
+  return { inserted, updated: 0, unchanged: 0, deleted: 0, duplicates: 0 };
+}
+
+export interface SavedDataset {
+  id: string;
+  table: string;
+  schema: DatasetSchema;
+  dataset: DatasetMeta;
+  report: UpsertReport;
+}
+
+/**
+ * Stores rows as a new dataset, named after the source file unless `name` is given. With a
+ * `primaryKey`, rows sharing a key are collapsed to the last one and the key is remembered
+ * for later upserts.
+ */
+export async function saveDataset(rawRows: RawRow[], source: DatasetSource, options: { primaryKey?: string[]; name?: string } = {}): Promise<SavedDataset> {
+  const id = timestampId('ingest');
+  const table = datasetTable(id);
+  let duplicates = 0;
+  if (options.primaryKey) {
+    assertKeyColumns(options.primaryKey, Object.keys(rawRows[0] ?? {}));
+    ({ rows: rawRows, duplicates } = dedupeRows(rawRows, options.primaryKey));
+  }
+  const { rows, schema } = coerceRows(rawRows, inferSchema(rawRows));
+  assertDistinctColumns(schema.columns.map((c) => c.name));
+  if (schema.columns.length === 0) {
+    throw new MalformedFileError('File contains no columns.');
+  }
+
+  const db = getStore();
+  let dataset: DatasetMeta;
+  // Only the tables created here are dropped on failure; the version table is created in the
+  // transaction below, so it is rolled back with it.
+  const created: string[] = [];
+  try {
+    await createTable(db, `${table}_raw`, rawColumns(schema.columns.map((c) => c.name)), rawRows, created);
+    await writeTypedTable(db, table, rows, schema, created);
+    createIndexes(db, table, schema);
+
+    const now = new Date().toISOString();
+    dataset = {
+      id,
+      name: options.name ?? defaultName(source),
+      tags: [],
+      source,
+      table,
+      primaryKey: options.primaryKey,
+      version: 1,
+      rowCount: rows.length,
+      columnCount: schema.columns.length,
+      createdAt: now,
+      updatedAt: now,
+    };
+    db.transaction(() => {
+      registerDataset(dataset, schema);
+      recordVersion(db, dataset, `${table}_raw`, 1, { kind: 'ingest', schema, rowCount: rows.length, source });
+    })();
+  } catch (error) {
+    dropTables(db, ...created);
+    throw error;
+  }
+
+  await indexDataset(dataset, schema);
+  return { id, table, schema, dataset, report: { ...emptyReport(rows.length), duplicates } };
+}
+
+export async function readDatasetRows(id: string, offset: number, limit: number): Promise<{ rows: Record<string, CellValue>[]; total: number }> {
+  const { table, rowCount } = await getDatasetMeta(id);
+  const schema = await getDatasetSchema(id);
+  const rows = getStore()
+    .prepare(`SELECT * FROM ${quoteIdentifier(table)} ORDER BY rowid LIMIT ? OFFSET ?`)
+    .all(limit, offset) as Record<string, unknown>[];
+  return { rows: rows.map((row) => decodeRow(row, schema.columns)), total: rowCount };
+}
+
+export function deleteDataset(id: string): Promise<void> {
+  return withDataset(id, async () => {
+    const { table } = await getDatasetMeta(id);
+    const db = getStore();
+    db.transaction(() => {
+      dropTables(db, table, `${table}_raw`);
+      dropVersions(db, id);
+      removeDatasetIndex(id);
+      removeDatasetMeta(id);
+    })();
+  });
+}
+
+export async function readDatasetSchema(id: string): Promise<DatasetSchema> {
+  return getDatasetSchema(id);
+}
+
+function rawColumns(names: string[]): { name: string; type: string }[] {
+  return [...names.map((name) => ({ name, type: 'TEXT' })), { name: DELETED_COLUMN, type: 'TEXT' }];
+}
+
+// Raw tables written before upserts existed lack the soft-delete column.
+function ensureDeletedColumn(db: Database.Database, rawTable: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${quoteIdentifier(rawTable)})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === DELETED_COLUMN)) {
+    db.exec(`ALTER TABLE ${quoteIdentifier(rawTable)} ADD COLUMN ${quoteIdentifier(DELETED_COLUMN)} TEXT`);
+  }
+}
+
+function readLiveRawRows(db: Database.Database, table: string, columns: string[]): { rowid: number; row: RawRow }[] {
+  const rawTable = `${table}_raw`;
+  ensureDeletedColumn(db, rawTable);
+  const records = db.prepare(`
+    SELECT rowid AS __rowid, ${columns.map(quoteIdentifier).join(', ')} FROM ${quoteIdentifier(rawTable)}
+    WHERE ${quoteIdentifier(DELETED_COLUMN)} IS NULL ORDER BY rowid
+  `).all() as Record<string, string | number | null>[];
+  return records.map(({ __rowid, ...values }) => {
+    const row: RawRow = {};
+    for (const column of columns) row[column] = (values[column] as string | null) ?? '';
+    return { rowid: __rowid as number, row };
+  });
+}
+
+/**
+ * Infers the schema of raw rows with `pinned` column types. Columns keep the order of
+ * `columns` even when no rows remain.
+ */
+function inferColumns(rawRows: RawRow[], columns: string[], pinned: Record<string, ColumnType>): DatasetSchema {
+  const inferred = inferSchema(rawRows, pinned);
+  return {
+    ...inferred,
+    columns: columns.map((name) => inferred.columns.find((c) => c.name === name) ?? { name, type: pinned[name] ?? 'string', nullable: true, invalidCount: 0 }),
+  };
+}
+
+// Coerces the raw rows to `schema` into `<table>_next`, to be swapped in by swapTypedTable.
+async function stageTypedTable(db: Database.Database, table: string, rawRows: RawRow[], schema: DatasetSchema): Promise<DatasetSchema> {
+  const coerced = coerceRows(rawRows, schema);
+  const nextTable = `${table}_next`;
+  dropTables(db, nextTable);
+  try {
+    await writeTypedTable(db, nextTable, coerced.rows, coerced.schema);
+  } catch (error) {
+    dropTables(db, nextTable);
+    throw error;
+  }
+  return coerced.schema;
+}
+
+// Replaces the typed table with the one staged by stageTypedTable. Call within a transaction.
+function swapTypedTable(db: Database.Database, table: string, schema: DatasetSchema): void {
+  dropTables(db, table);
+  db.exec(`ALTER TABLE ${quoteIdentifier(`${table}_next`)} RENAME TO ${quoteIdentifier(table)}`);
+  createIndexes(db, table, schema);
+}
+
+const locks = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs `task` once earlier changes to the same dataset have finished. A change stages the
+ * dataset's new tables under fixed names across awaits, so two at once (an upload racing a
+ * scheduled sync, say) would overwrite each other's.
+ */
+function withDataset<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const previous = locks.get(id) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  locks.set(id, next);
+  const release = () => {
+    if (locks.get(id) === next) locks.delete(id);
+  };
+  next.then(release, release);
+  return next;
+}
+
+function pinnedTypes(schema: DatasetSchema): Record<string, ColumnType> {
+  const pinned: Record<string, ColumnType> = {};
+  schema.columns.filter((c) => c.overridden).forEach((c) => { pinned[c.name] = c.type; });
+  return pinned;
+}
+
+/**
+ * Re-runs inference from the raw rows with the given column types pinned, then rebuilds
+ * the typed table. Previous overrides are kept unless replaced.
+ */
+export function overrideDatasetSchema(id: string, overrides: Record<string, ColumnType>): Promise<DatasetSchema> {
+  return withDataset(id, async () => {
+    const { table } = await getDatasetMeta(id);
+    const previous = await getDatasetSchema(id);
+
+    const unknown = Object.keys(overrides).filter((name) => !previous.columns.some((c) => c.name === name));
+    if (unknown.length > 0) {
+      throw new HttpError(400, `Unknown column(s): ${unknown.join(', ')}.`);
+    }
+
+    const db = getStore();
+    const columns = previous.columns.map((c) => c.name);
+    const rawRows = readLiveRawRows(db, table, columns).map((entry) => entry.row);
+    const schema = await stageTypedTable(db, table, rawRows, inferColumns(rawRows, columns, { ...pinnedTypes(previous), ...overrides }));
+    const dataset = commitStaged(db, [`${table}_next`], () => {
+      swapTypedTable(db, table, schema);
+      return updateDatasetMeta(id, { columnCount: schema.columns.length, schema });
+    });
+    await indexDataset(dataset, schema);
+    return schema;
+  });
+}
+
+// Runs `commit` in one transaction, dropping the tables staged for it when it fails.
+function commitStaged<T>(db: Database.Database, staged: string[], commit: () => T): T {
+  try {
+    return db.transaction(commit)();
+  } catch (error) {
+    dropTables(db, ...staged);
+    throw error;
+  }
+}
+
+// The live raw rows once `plan` is applied, in rowid order, i.e. what the raw table will hold.
+function mergedRows(existing: { rowid: number; row: RawRow }[], plan: MergePlan, incomingColumns: string[], columns: string[]): RawRow[] {
+  const updates = new Map(plan.updates.map(({ rowid, row }) => [rowid, row]));
+  const deletes = new Set(plan.deletes);
+  const fill = (current: RawRow, incoming?: RawRow) => {
+    const row: RawRow = {};
+    for (const column of columns) {
+      row[column] = (incoming && incomingColumns.includes(column) ? incoming[column] : current[column]) ?? '';
+    }
+    return row;
+  };
+  return [
+    ...existing.filter(({ rowid }) => !deletes.has(rowid)).map(({ rowid, row }) => fill(row, updates.get(rowid))),
+    ...plan.inserts.map((row) => fill({}, row)),
+  ];
+}
+
+/**
+ * Merges a new export of the same source into an existing dataset, matching rows on the
+ * primary key (the one given, or the one stored with the dataset). Changed rows are
+ * updated in place, identical rows are left alone and new rows are appended. With
+ * `deleteMissing`, live rows absent from the export are soft-deleted. Columns that only
+ * exist in the export are added; columns it lacks keep their current values.
+ */
+export function upsertDataset(
+  id: string,
+  incomingRows: RawRow[],
+  options: { primaryKey?: string[]; deleteMissing?: boolean; source?: DatasetSource } = {},
+): Promise<SavedDataset> {
+  return withDataset(id, async () => {
+    const meta = await getDatasetMeta(id);
+    const previous = await getDatasetSchema(id);
+    const primaryKey = options.primaryKey ?? meta.primaryKey;
+    if (!primaryKey || primaryKey.length === 0) {
+      throw new HttpError(400, `Dataset '${id}' has no primary key; pass \`primaryKey\` to upsert into it.`);
+    }
+
+    const existingColumns = previous.columns.map((c) => c.name);
+    const incomingColumns = Object.keys(incomingRows[0] ?? {});
+    assertKeyColumns(primaryKey, existingColumns);
+    assertKeyColumns(primaryKey, incomingColumns);
+    const addedColumns = incomingColumns.filter((name) => !existingColumns.includes(name));
+    const columns = [...existingColumns, ...addedColumns];
+    assertDistinctColumns(columns);
+
+    const db = getStore();
+    const rawTable = quoteIdentifier(`${meta.table}_raw`);
+    const existing = readLiveRawRows(db, meta.table, existingColumns);
+    const plan = planMerge(existing, incomingRows, primaryKey, incomingColumns, options.deleteMissing ?? false);
+
+    // The typed table is built from the merged rows first, then the raw rows, the typed table,
+    // the version and the catalog all change in one transaction.
+    const rawRows = mergedRows(existing, plan, incomingColumns, columns);
+    const schema = await stageTypedTable(db, meta.table, rawRows, inferColumns(rawRows, columns, pinnedTypes(previous)));
+    const deletedAt = new Date().toISOString();
+    const dataset = commitStaged(db, [`${meta.table}_next`], () => {
+      let version = meta.version;
+      if (version === 0) {
+        // Datasets ingested before versioning get their current state recorded first.
+        recordVersion(db, meta, `${meta.table}_raw`, ++version, { kind: 'ingest', schema: previous, rowCount: existing.length, source: meta.source });
+      }
+      // Statements are prepared after the new columns exist.
+      addedColumns.forEach((name) => db.exec(`ALTER TABLE ${rawTable} ADD COLUMN ${quoteIdentifier(name)} TEXT`));
+      const insert = db.prepare(`INSERT INTO ${rawTable} (${incomingColumns.map(quoteIdentifier).join(', ')}) VALUES (${incomingColumns.map(() => '?').join(', ')})`);
+      const update = db.prepare(`UPDATE ${rawTable} SET ${incomingColumns.map((c) => `${quoteIdentifier(c)} = ?`).join(', ')} WHERE rowid = ?`);
+      const softDelete = db.prepare(`UPDATE ${rawTable} SET ${quoteIdentifier(DELETED_COLUMN)} = ? WHERE rowid = ?`);
+      plan.inserts.forEach((row) => insert.run(incomingColumns.map((c) => row[c] ?? '')));
+      plan.updates.forEach(({ rowid, row }) => update.run(...incomingColumns.map((c) => row[c] ?? ''), rowid));
+      plan.deletes.forEach((rowid) => softDelete.run(deletedAt, rowid));
+
+      swapTypedTable(db, meta.table, schema);
+      recordVersion(db, meta, `${meta.table}_raw`, ++version, { kind: 'upsert', schema, rowCount: rawRows.length, source: options.source, report: plan.report });
+      return updateDatasetMeta(id, { primaryKey, version, rowCount: rawRows.length, columnCount: schema.columns.length, schema });
+    });
+    await indexDataset(dataset, schema);
+    return { id, table: meta.table, schema, dataset, report: plan.report };
+  });
+}
+
+/**
+ * Restores the rows and schema of an earlier version and records the result as a new
+ * version, so the history itself is never rewritten.
+ */
+export function rollbackDataset(id: string, target: number): Promise<{ dataset: DatasetMeta; schema: DatasetSchema; version: DatasetVersion }> {
+  return withDataset(id, async () => {
+    const meta = await getDatasetMeta(id);
+    const { version: snapshot, schema: snapshotSchema } = await readVersion(id, target);
+    if (target === meta.version) {
+      throw new HttpError(409, `Dataset '${id}' is already at version ${target}.`);
+    }
+
+    // The snapshot's schema is applied as-is rather than re-inferred, so the typed rows match
+    // what was reported from that version.
+    const db = getStore();
+    const rawTable = `${meta.table}_raw`;
+    const columns = snapshotSchema.columns.map((c) => c.name);
+    const rawRows = readVersionRows(db, snapshot.table, snapshotSchema);
+    const schema = await stageTypedTable(db, meta.table, rawRows, snapshotSchema);
+    const { dataset, version } = commitStaged(db, [`${meta.table}_next`], () => {
+      dropTables(db, rawTable);
+      db.exec(`CREATE TABLE ${quoteIdentifier(rawTable)} (${rawColumns(columns).map((c) => `${quoteIdentifier(c.name)} ${c.type}`).join(', ')})`);
+      db.exec(`
+        INSERT INTO ${quoteIdentifier(rawTable)} (${columns.map(quoteIdentifier).join(', ')})
+        SELECT ${columns.map(quoteIdentifier).join(', ')} FROM ${quoteIdentifier(snapshot.table)} ORDER BY rowid
+      `);
+      swapTypedTable(db, meta.table, schema);
+      const version = recordVersion(db, meta, rawTable, meta.version + 1, { kind: 'rollback', schema, rowCount: rawRows.length, restoredFrom: target });
+      const primaryKey = meta.primaryKey?.every((name) => columns.includes(name)) ? meta.primaryKey : undefined;
+      return { dataset: updateDatasetMeta(id, { primaryKey, version: version.version, rowCount: rawRows.length, columnCount: schema.columns.length, schema }), version };
+    });
+    await indexDataset(dataset, schema);
+    return { dataset, schema, version };
+  });
+}
+
+/**
+ * Replaces every row of a dataset with a fresh export of its source, for sources that
+ * re-deliver the whole file but have no primary key to upsert on. Column types pinned by
+ * overrides are kept; the result is recorded as a new 'ingest' version.
+ */
+export function replaceDataset(id: string, rawRows: RawRow[], source: DatasetSource): Promise<SavedDataset> {
+  return withDataset(id, async () => {
+    const meta = await getDatasetMeta(id);
+    const previous = await getDatasetSchema(id);
+    const columns = columnNames(rawRows);
+    if (columns.length === 0) {
+      throw new MalformedFileError('File contains no columns.');
+    }
+    assertDistinctColumns(columns);
+
+    // Both the raw and the typed table are built alongside the current ones and swapped in
+    // with the new version in one transaction.
+    const db = getStore();
+    const rawTable = `${meta.table}_raw`;
+    const nextRawTable = `${rawTable}_next`;
+    const staged = [nextRawTable, `${meta.table}_next`];
+    dropTables(db, nextRawTable);
+    let schema: DatasetSchema;
+    try {
+      await createTable(db, nextRawTable, rawColumns(columns), rawRows);
+      schema = await stageTypedTable(db, meta.table, rawRows, inferColumns(rawRows, columns, pinnedTypes(previous)));
+    } catch (error) {
+      dropTables(db, ...staged);
+      throw error;
+    }
+
+    const report = { ...emptyReport(rawRows.length), deleted: meta.rowCount };
+    const dataset = commitStaged(db, staged, () => {
+      let version = meta.version;
+      if (version === 0) {
+        ensureDeletedColumn(db, rawTable);
+        recordVersion(db, meta, rawTable, ++version, { kind: 'ingest', schema: previous, rowCount: meta.rowCount, source: meta.source });
+      }
+      dropTables(db, rawTable);
+      db.exec(`ALTER TABLE ${quoteIdentifier(nextRawTable)} RENAME TO ${quoteIdentifier(rawTable)}`);
+      swapTypedTable(db, meta.table, schema);
+      recordVersion(db, meta, rawTable, ++version, { kind: 'ingest', schema, rowCount: rawRows.length, source, report });
+      const primaryKey = meta.primaryKey?.every((name) => columns.includes(name)) ? meta.primaryKey : undefined;
+      return updateDatasetMeta(id, { primaryKey, version, rowCount: rawRows.length, columnCount: schema.columns.length, schema });
+    });
+    await indexDataset(dataset, schema);
+    return { id, table: meta.table, schema, dataset, report };
+  });
+}
@@ -0,0 +1,239 @@
+import Database from 'better-sqlite3';
+import { getStore, quoteIdentifier } from '../store.js';
+import { HttpError } from '../errors.js';
+import { DatasetSchema, ColumnType } from './schema.js';
+import { DatasetSource, getDatasetMeta } from './catalog.js';
+import { dedupeRows, planMerge, rowKey, RawRow, UpsertReport } from './merge.js';
+
+/**
+ * Every ingest into a dataset records an immutable version: a snapshot table
+ * `ds_<id>_v<n>` holding the live raw rows at that point, plus an entry in
+ * `dataset_versions` with the schema that was applied to them. Snapshots are never
+ * modified; a rollback copies one back and records a new version.
+ */
+export type VersionKind = 'ingest' | 'upsert' | 'rollback';
+
+export interface DatasetVersion {
+  version: number;
+  kind: VersionKind;
+  // SQLite table holding the version's raw rows, for use with /api/query.
+  table: string;
+  source?: DatasetSource;
+  report?: UpsertReport;
+  restoredFrom?: number;
+  rowCount: number;
+  columnCount: number;
+  createdAt: string;
+}
+
+interface VersionRecord {
+  dataset_id: string;
+  version: number;
+  table_name: string;
+  kind: VersionKind;
+  source: string | null;
+  report: string | null;
+  restored_from: number | null;
+  row_count: number;
+  schema: string;
+  created_at: string;
+}
+
+export interface DatasetDiff {
+  from: DatasetVersion;
+  to: DatasetVersion;
+  // Columns rows were matched on; null when rows were compared as a whole.
+  key: string[] | null;
+  schema: {
+    added: string[];
+    removed: string[];
+    changed: { name: string; from: ColumnType; to: ColumnType }[];
+  };
+  rows: {
+    added: RawRow[];
+    removed: RawRow[];
+    changed: { before: RawRow; after: RawRow }[];
+  };
+  counts: { added: number; removed: number; changed: number; unchanged: number };
+  // True when a row list was cut to `limit` entries; `counts` always has the full totals.
+  truncated: boolean;
+}
+
+function toVersion(record: VersionRecord): DatasetVersion {
+  return {
+    version: record.version,
+    kind: record.kind,
+    table: record.table_name,
+    source: record.source ? JSON.parse(record.source) : undefined,
+    report: record.report ? JSON.parse(record.report) : undefined,
+    restoredFrom: record.restored_from ?? undefined,
+    rowCount: record.row_count,
+    columnCount: (JSON.parse(record.schema) as DatasetSchema).columns.length,
+    createdAt: record.created_at,
+  };
+}
+
+function getVersionRecord(id: string, version: number): VersionRecord {
+  const record = getStore()
+    .prepare('SELECT * FROM dataset_versions WHERE dataset_id = ? AND version = ?')
+    .get(id, version) as VersionRecord | undefined;
+  if (!record) {
+    throw new HttpError(404, `Version ${version} of dataset '${id}' not found.`);
+  }
+  return record;
+}
+
+/**
+ * Snapshots the live rows of `rawTable` as version `version`. Must run on the store
+ * connection, normally inside the caller's transaction.
+ */
+export function recordVersion(
+  db: Database.Database,
+  dataset: { id: string; table: string },
+  rawTable: string,
+  version: number,
+  entry: { kind: VersionKind; schema: DatasetSchema; rowCount: number; source?: DatasetSource; report?: UpsertReport; restoredFrom?: number },
+): DatasetVersion {
+  const table = `${dataset.table}_v${version}`;
+  const columns = entry.schema.columns.map((c) => quoteIdentifier(c.name)).join(', ');
+  db.exec(`
+    CREATE TABLE ${quoteIdentifier(table)} AS
+    SELECT ${columns} FROM ${quoteIdentifier(rawTable)} WHERE "__deleted_at" IS NULL ORDER BY rowid
+  `);
+
+  const record: VersionRecord = {
+    dataset_id: dataset.id,
+    version,
+    table_name: table,
+    kind: entry.kind,
+    source: entry.source ? JSON.stringify(entry.source) : null,
+    report: entry.report ? JSON.stringify(entry.report) : null,
+    restored_from: entry.restoredFrom ?? null,
+    row_count: entry.rowCount,
+    schema: JSON.stringify(entry.schema),
+    created_at: new Date().toISOString(),
+  };
+  db.prepare(`
+    INSERT INTO dataset_versions (dataset_id, version, table_name, kind, source, report, restored_from, row_count, schema, created_at)
+    VALUES (@dataset_id, @version, @table_name, @kind, @source, @report, @restored_from, @row_count, @schema, @created_at)
+  `).run(record);
+  return toVersion(record);
+}
+
+export async function listVersions(id: string): Promise<DatasetVersion[]> {
+  await getDatasetMeta(id); // 404 for unknown datasets
+  const records = getStore()
+    .prepare('SELECT * FROM dataset_versions WHERE dataset_id = ? ORDER BY version DESC')
+    .all(id) as VersionRecord[];
+  return records.map(toVersion);
+}
+
+export async function readVersion(id: string, version: number): Promise<{ version: DatasetVersion; schema: DatasetSchema }> {
+  const record = getVersionRecord(id, version);
+  return { version: toVersion(record), schema: JSON.parse(record.schema) };
+}
+
+export function readVersionRows(db: Database.Database, table: string, schema: DatasetSchema): RawRow[] {
+  const records = db.prepare(`SELECT * FROM ${quoteIdentifier(table)} ORDER BY rowid`).all() as Record<string, string | null>[];
+  return records.map((record) => {
+    const row: RawRow = {};
+    for (const column of schema.columns) row[column.name] = record[column.name] ?? '';
+    return row;
+  });
+}
+
+export function dropVersions(db: Database.Database, id: string): void {
+  const tables = db.prepare('SELECT table_name FROM dataset_versions WHERE dataset_id = ?').all(id) as { table_name: string }[];
+  tables.forEach(({ table_name }) => db.exec(`DROP TABLE IF EXISTS ${quoteIdentifier(table_name)}`));
+  db.prepare('DELETE FROM dataset_versions WHERE dataset_id = ?').run(id);
+}
+
+function hasUniqueKeys(rows: RawRow[], key: string[]): boolean {
+  return dedupeRows(rows, key).duplicates === 0;
+}
+
+// Without a usable key, rows are matched as a whole: only additions and removals are reported.
+function diffWholeRows(before: RawRow[], after: RawRow[], columns: string[]): { added: RawRow[]; removed: RawRow[]; unchanged: number } {
+  const remaining = new Map<string, RawRow[]>();
+  for (const row of before) {
+    const key = rowKey(row, columns);
+    remaining.set(key, [...(remaining.get(key) ?? []), row]);
+  }
+  const added: RawRow[] = [];
+  let unchanged = 0;
+  for (const row of after) {
+    const matches = remaining.get(rowKey(row, columns));
+    if (matches?.length) {
+      matches.pop();
+      unchanged++;
+    } else {
+      added.push(row);
+    }
+  }
+  return { added, removed: [...remaining.values()].flat(), unchanged };
+}
+
+/**
+ * Compares two versions of a dataset. Rows are matched on the dataset's primary key when
+ * both versions have it and it is unique in each; otherwise on their full contents.
+ */
+export async function diffVersions(id: string, from: number, to: number, limit: number): Promise<DatasetDiff> {
+  const meta = await getDatasetMeta(id);
+  const before = await readVersion(id, from);
+  const after = await readVersion(id, to);
+
+  const beforeColumns = before.schema.columns.map((c) => c.name);
+  const afterColumns = after.schema.columns.map((c) => c.name);
+  const schema: DatasetDiff['schema'] = {
+    added: afterColumns.filter((name) => !beforeColumns.includes(name)),
+    removed: beforeColumns.filter((name) => !afterColumns.includes(name)),
+    changed: [],
+  };
+  for (const column of after.schema.columns) {
+    const previous = before.schema.columns.find((c) => c.name === column.name);
+    if (previous && previous.type !== column.type) {
+      schema.changed.push({ name: column.name, from: previous.type, to: column.type });
+    }
+  }
+
+  const db = getStore();
+  const beforeRows = readVersionRows(db, before.version.table, before.schema);
+  const afterRows = readVersionRows(db, after.version.table, after.schema);
+  const columns = [...new Set([...beforeColumns, ...afterColumns])];
+
+  const key = meta.primaryKey?.every((name) => beforeColumns.includes(name) && afterColumns.includes(name))
+    && hasUniqueKeys(beforeRows, meta.primaryKey) && hasUniqueKeys(afterRows, meta.primaryKey)
+    ? meta.primaryKey
+    : null;
+
+  let rows: DatasetDiff['rows'];
+  let unchanged: number;
+  if (key) {
+    const plan = planMerge(beforeRows.map((row, rowid) => ({ rowid, row })), afterRows, key, columns, true);
+    rows = {
+      added: plan.inserts,
+      removed: plan.deletes.map((rowid) => beforeRows[rowid]),
+      changed: plan.updates.map(({ rowid, row }) => ({ before: beforeRows[rowid], after: row })),
+    };
+    unchanged = plan.report.unchanged;
+  } else {
+    const whole = diffWholeRows(beforeRows, afterRows, columns);
+    rows = { added: whole.added, removed: whole.removed, changed: [] };
+    unchanged = whole.unchanged;
+  }
+
+  const counts = { added: rows.added.length, removed: rows.removed.length, changed: rows.changed.length, unchanged };
+  return {
+    from: before.version,
+    to: after.version,
+    key,
+    schema,
+    rows: {
+      added: rows.added.slice(0, limit),
+      removed: rows.removed.slice(0, limit),
+      changed: rows.changed.slice(0, limit),
+    },
+    counts,
+    truncated: counts.added > limit || counts.removed > limit || counts.changed > limit,
+  };
+}
@@ -0,0 +1,34 @@
+import { FastifyReply } from 'fastify';
+
+/**
+ * Raised when an ingested file cannot be parsed, e.g. a CSV row with more
+ * columns than the header. Routes map it to a 422 response.
+ */
+export class MalformedFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MalformedFileError';
+  }
+}
+
+/**
+ * A request-level failure with the status code it should be reported with.
+ */
+export class HttpError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Answers a failed request: an HttpError with its own status and message, anything else with
+ * a 500 and `message`, after logging it.
+ */
+export function sendError(reply: FastifyReply, error: any, message: string) {
+  if (error instanceof HttpError) {
+    return reply.status(error.statusCode).send({ error: error.message });
+  }
+  reply.log.error(error, message);
+  return reply.status(500).send({ error: `${message}.` });
+}
@@ -0,0 +1,167 @@
+import { FastifyInstance } from 'fastify';
+import { getGoogleDrive } from './connectors/googleDrive.js';
+import {
+  browseDriveFolder,
+  importDriveFile,
+  listTrackedDriveFiles,
+  listWatchedDriveFolders,
+  untrackDriveFile,
+  unwatchDriveFolder,
+  watchDriveFolder,
+} from './connectors/driveSync.js';
+import { datasetTable } from './datasets/storage.js';
+import { HttpError, sendError } from './errors.js';
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * The OAuth redirect lands in the popup the UI opened for the consent screen. The page tells
+ * the opener how it went and closes itself; the message carries no tokens.
+ */
+function callbackPage(connected: boolean, message: string): string {
+  const payload = JSON.stringify({ source: 'google-drive', connected, message }).replace(/</g, '\\u003c');
+  return `<!doctype html>
+<html><head><title>Google Drive</title></head>
+<body style="font-family: sans-serif; padding: 2rem;">
+<p>${escapeHtml(message)}</p>
+<script>
+  if (window.opener) { window.opener.postMessage(${payload}, '*'); window.close(); }
+</script>
+</body></html>`;
+}
+
+function parsePrimaryKey(value: unknown): string[] | undefined {
+  const columns = typeof value === 'string' ? value.split(',')
+    : Array.isArray(value) && value.every((c) => typeof c === 'string') ? value as string[]
+    : value === undefined ? []
+    : null;
+  if (columns === null) {
+    throw new HttpError(400, '`primaryKey` must be a column name or a list of column names.');
+  }
+  const trimmed = columns.map((c) => c.trim()).filter(Boolean);
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+export default async function routes(server: FastifyInstance) {
+  server.get('/api/connectors/google-drive', async (request, reply) => {
+    try {
+      const drive = getGoogleDrive();
+      return {
+        configured: drive.isConfigured(),
+        ...drive.connection(),
+        folders: listWatchedDriveFolders(),
+        files: listTrackedDriveFiles(),
+      };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to read the Google Drive connection');
+    }
+  });
+
+  server.get('/api/connectors/google-drive/auth-url', async (request, reply) => {
+    try {
+      return { url: getGoogleDrive().authorizationUrl() };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to start the Google authorization');
+    }
+  });
+
+  // Redirect URI registered with Google (GOOGLE_REDIRECT_URI).
+  server.get('/api/connectors/google-drive/callback', async (request, reply) => {
+    const { code, state, error } = request.query as { code?: string; state?: string; error?: string };
+    reply.type('text/html');
+    if (error || !code || !state) {
+      const message = error === 'access_denied' ? 'Google Drive access was not granted.' : `Google authorization failed${error ? `: ${error}` : '.'}`;
+      return reply.status(400).send(callbackPage(false, message));
+    }
+    try {
+      const connection = await getGoogleDrive().completeAuthorization(code, state);
+      server.log.info(`Connected Google Drive${connection.account ? ` for ${connection.account}` : ''}`);
+      return callbackPage(true, 'Google Drive is connected. You can close this window.');
+    } catch (err) {
+      if (!(err instanceof HttpError)) server.log.error(err, 'Failed to complete the Google authorization');
+      const status = err instanceof HttpError ? err.statusCode : 500;
+      return reply.status(status).send(callbackPage(false, err instanceof HttpError ? err.message : 'Failed to complete the Google authorization.'));
+    }
+  });
+
+  // Forgets the stored tokens. Imported datasets and the sync list are kept.
+  server.post('/api/connectors/google-drive/disconnect', async (request, reply) => {
+    try {
+      getGoogleDrive().disconnect();
+      server.log.info('Disconnected Google Drive');
+      return { status: 'ok' };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to disconnect Google Drive');
+    }
+  });
+
+  // Lists a folder ('root' for My Drive), flagging files that can be imported.
+  server.get('/api/connectors/google-drive/files', async (request, reply) => {
+    const { folderId, pageToken } = request.query as { folderId?: string; pageToken?: string };
+    try {
+      return await browseDriveFolder(folderId || 'root', pageToken || undefined);
+    } catch (error) {
+      return sendError(reply, error, 'Failed to list Google Drive files');
+    }
+  });
+
+  // Imports a file as a new dataset, or into `dataset` matching rows on `primaryKey`.
+  // Importing a file again updates the dataset it was imported into before.
+  server.post('/api/connectors/google-drive/import', async (request, reply) => {
+    const body = (request.body ?? {}) as { fileId?: unknown; sheet?: unknown; primaryKey?: unknown; dataset?: unknown };
+    try {
+      if (typeof body.fileId !== 'string' || !body.fileId) {
+        throw new HttpError(400, 'A string `fileId` is required.');
+      }
+      if (body.dataset !== undefined && body.dataset !== '') {
+        datasetTable(String(body.dataset)); // validates the id
+      }
+      const imported = await importDriveFile(body.fileId, {
+        sheet: typeof body.sheet === 'string' && body.sheet ? body.sheet : undefined,
+        primaryKey: parsePrimaryKey(body.primaryKey),
+        dataset: body.dataset ? String(body.dataset) : undefined,
+      });
+      const { report, file, ...saved } = imported;
+      server.log.info(`Imported ${imported.ingested} ${imported.format} rows from Google Drive file ${file.name} to table ${saved.table}`);
+      return { status: 'ok', ...saved, upsert: report, fileName: file.name, fileId: file.id };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to import the Google Drive file');
+    }
+  });
+
+  // Stops syncing a file; its dataset is kept.
+  server.delete('/api/connectors/google-drive/files/:fileId', async (request, reply) => {
+    const { fileId } = request.params as { fileId: string };
+    try {
+      untrackDriveFile(fileId);
+      return { status: 'ok' };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to stop syncing the file');
+    }
+  });
+
+  // Watches a folder: each sync imports files added to it.
+  server.post('/api/connectors/google-drive/folders', async (request, reply) => {
+    const { folderId } = (request.body ?? {}) as { folderId?: unknown };
+    try {
+      if (typeof folderId !== 'string' || !folderId) {
+        throw new HttpError(400, 'A string `folderId` is required.');
+      }
+      return reply.status(201).send(await watchDriveFolder(folderId));
+    } catch (error) {
+      return sendError(reply, error, 'Failed to watch the Google Drive folder');
+    }
+  });
+
+  server.delete('/api/connectors/google-drive/folders/:folderId', async (request, reply) => {
+    const { folderId } = request.params as { folderId: string };
+    try {
+      unwatchDriveFolder(folderId);
+      return { status: 'ok' };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to stop watching the folder');
+    }
+  });
+}
@@ -0,0 +1,10 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { timestampId } from './ids.js';
+
+test('ids made in the same millisecond stay distinct', () => {
+  const ids = Array.from({ length: 1000 }, () => timestampId('ingest'));
+  assert.equal(new Set(ids).size, ids.length);
+  assert.match(ids[0], /^ingest-\d+$/);
+  assert.ok(Number(timestampId('workflow').split('-')[1]) > Number(ids[999].split('-')[1]));
+});
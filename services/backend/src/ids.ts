@@ -0,0 +1,10 @@
+let lastMs = 0;
+
+/**
+ * A new id for a stored record, e.g. `ingest-1700000000000`: the current time in
+ * milliseconds, bumped so that ids made in the same millisecond stay distinct.
+ */
+export function timestampId(prefix: string): string {
+  lastMs = Math.max(Date.now(), lastMs + 1);
+  return `${prefix}-${lastMs}`;
+}
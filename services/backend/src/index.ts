@@ -1,30 +1,48 @@
 import Fastify from 'fastify';
 import cors from '@fastify/cors';
-import dotenv from 'dotenv';
-import { GoogleGenAI, Chat } from '@google/genai';
 // Fix: Import `exit` from `process` to resolve TypeScript error "Property 'exit' does not exist on type 'Process'".
 import { exit } from 'process';
 import { mkdir } from 'fs/promises';
+import { DATA_DIR, RAG_TOP_K } from './config.js';
 import ingestRoutes from './ingestController.js';
-
-// Load environment variables from .env file
-dotenv.config();
+import datasetRoutes from './datasetController.js';
+import queryRoutes from './queryController.js';
+import metricRoutes from './metricController.js';
+import dashboardRoutes from './dashboardController.js';
+import connectorRoutes from './connectorController.js';
+import { registerBuiltInConnectors } from './connectors/builtins.js';
+import { startSyncScheduler } from './scheduling/syncScheduler.js';
+import { startWorkflowScheduler } from './scheduling/workflowScheduler.js';
+import { retrieveContext, ScoredChunk } from './rag/retriever.js';
+import { indexMissingDatasets } from './rag/chunks.js';
+import chatRoutes from './chatController.js';
+import workflowRoutes from './workflowController.js';
+import webhookRoutes from './webhookController.js';
+import { createChatSession, getChatSession, buildChatContext, appendChatExchange, withChatSession, ChatTurn, ChatToolCall } from './chat/sessions.js';
+import { createLlmOrchestrator, getLlm, setLlm, LlmTarget } from './llm/orchestrator.js';
+import { answerQuestion } from './analyst/agent.js';
+import { INSIGHT_SCHEMA, INSIGHT_INSTRUCTION, Insight, parseInsight, insightToText } from './analyst/insight.js';
+import { groundAnswer } from './analyst/grounding.js';
+import { HttpError } from './errors.js';
 
 const server = Fastify({ logger: true });
 
-// Check for API Key
-const apiKey = process.env.API_KEY;
-if (!apiKey) {
-  server.log.error('API_KEY is not set. Please add it to your .env file.');
-  // Fix: Replaced `process.exit` with imported `exit` to correct TypeScript type error.
-  exit(1);
-}
+// Folds older messages of a chat session into its running summary (see chat/sessions.ts).
+async function summarizeTurns(previous: string | undefined, turns: ChatTurn[]): Promise<string> {
+  const transcript = turns.map(({ role, text }) => `${role === 'user' ? 'User' : 'Analyst'}: ${text}`).join('\n\n');
+  const { text } = await getLlm().generate('summary', {
+    history: [],
+    message: `Update the summary of an analytics conversation with the messages below. Keep the questions asked, the figures, periods and datasets discussed, and any conclusions, so follow-up questions can still be understood. Write at most 200 words of plain text.
 
-const ai = new GoogleGenAI({ apiKey });
+Summary so far:
+${previous ?? '(none)'}
 
-// In-memory chat session for simplicity. 
-// In a real app, you'd manage sessions per user.
-let chat: Chat | null = null;
+New messages:
+${transcript}`,
+  });
+  if (!text.trim()) throw new Error('The model returned an empty summary.');
+  return text.trim();
+}
 
 // Register CORS
 await server.register(cors, { 
@@ -36,59 +54,231 @@ server.get('/api/health', async (request, reply) => {
   return { status: 'ok', timestamp: Date.now() };
 });
 
-// Placeholder ingest endpoint - The main route is now in ingestController
-server.post('/api/ingest', async (request, reply) => {
-    return { status: 'received', message: 'This is a generic ingest endpoint. Use specific routes like /api/ingest/csv for functionality.'};
-});
+// 'insight' asks for a structured analysis (see analyst/insight.ts) instead of free text.
+type AnswerFormat = 'text' | 'insight';
 
-// Question/Answering endpoint
-server.post('/api/qa', async (request, reply) => {
-  const { dashboardData, message } = request.body as { dashboardData: object, message: string };
+interface Question {
+  session: string;
+  message: string;
+  format: AnswerFormat;
+  systemInstruction: string;
+  sources: { datasetId: string; title: string; firstRow: number | null; lastRow: number | null }[];
+  // The retrieved rows themselves, which answers are checked against with the tool results.
+  excerpts: ScoredChunk[];
+}
 
-  if (!dashboardData || !message) {
-    reply.status(400).send({ message: 'Missing dashboardData or message in request body' });
-    return;
+/**
+ * Checks a /api/qa request body and gathers what answering it needs: its chat session (a new
+ * one when none is given), the relevant dataset rows and the system instruction. Figures are
+ * not put in the prompt; the model looks them up with the analyst tools (analyst/tools.ts).
+ */
+async function prepareQuestion(body: any): Promise<Question> {
+  const { message, datasets, sessionId, format = 'text' } = (body ?? {}) as { message: string, datasets?: string[], sessionId?: string, format?: AnswerFormat };
+
+  if (!message) {
+    throw new HttpError(400, 'Missing message in request body');
+  }
+  if (format !== 'text' && format !== 'insight') {
+    throw new HttpError(400, "`format` must be 'text' or 'insight'");
   }
-  
+
+  const session = sessionId ? getChatSession(sessionId).id : createChatSession().id;
+
+  // Rows from ingested datasets that look relevant to the question. Retrieval problems
+  // shouldn't stop the dashboard-only answer, so they are logged and skipped.
+  let retrieved: { context: string; chunks: ScoredChunk[] } = { context: '', chunks: [] };
   try {
-    // Re-initialize chat for each request to include the latest data, or manage sessions.
-    // This stateless approach is simpler for this example.
-    chat = ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-            systemInstruction: `You are an expert business analyst for 'Forever (43v3r) Technology'. Your task is to analyze the following KPIs from our 'Data Convergence AI' platform and answer user questions. The data is a snapshot from our unified dashboard.
+    retrieved = await retrieveContext(message, { limit: RAG_TOP_K, datasetIds: Array.isArray(datasets) ? datasets : undefined });
+  } catch (error) {
+    server.log.error(error, 'Failed to retrieve dataset context');
+  }
+  const datasetContext = retrieved.context
+    ? `
 
-Data Snapshot:
-${JSON.stringify(dashboardData, null, 2)}
+Relevant excerpts from ingested datasets (retrieved for this question, not exhaustive):
+${retrieved.context}
 
-When the user asks for an initial analysis, a summary, or something similar, provide:
+When your answer relies on these excerpts, mention the dataset and rows it comes from. If they don't contain what is needed, say so rather than guessing.`
+    : '';
+
+  const systemInstruction = `You are an expert business analyst for 'Forever (43v3r) Technology'. Your task is to answer questions about the business from the data in our 'Data Convergence AI' platform. Today is ${new Date().toISOString().slice(0, 10)}.
+
+Look up the figures you need with the tools: list_metrics and compute_metric for the metrics on the dashboard, and list_datasets, describe_dataset and aggregate for anything else in the ingested datasets. Only state numbers that come from tool results or the dataset excerpts below. If the data needed is not available, say so rather than guessing.
+
+${format === 'insight' ? INSIGHT_INSTRUCTION : `When the user asks for an initial analysis, a summary, or something similar, provide:
 1. A brief, high-level summary of the current business performance.
 2. One key positive trend to highlight and capitalize on.
 3. One area of concern with a specific, actionable recommendation for improvement.
 
-For all other follow-up questions, provide concise and data-driven answers based on the provided data snapshot. Format your response as clear, easy-to-read text. Do not use markdown formatting. Be conversational and helpful.`
-        },
-    });
+For all other follow-up questions, provide concise and data-driven answers. Format your response as clear, easy-to-read text. Do not use markdown formatting. Be conversational and helpful.`}${datasetContext}`;
 
-    const response = await chat.sendMessage({ message });
-    return { text: response.text };
+  return {
+    session,
+    message,
+    format,
+    systemInstruction,
+    sources: retrieved.chunks.map(({ datasetId, title, firstRow, lastRow }) => ({ datasetId, title, firstRow, lastRow })),
+    excerpts: retrieved.chunks,
+  };
+}
 
+/**
+ * The model request for a question: the session's stored conversation and the system
+ * instruction. It is rebuilt on each request from what the session has stored. Call within
+ * withChatSession.
+ */
+async function buildRequest({ session, message, systemInstruction }: Question, signal?: AbortSignal) {
+  const { summary, history } = await buildChatContext(session, summarizeTurns);
+  return {
+    system: summary
+      ? `${systemInstruction}\n\nSummary of the earlier part of this conversation:\n${summary}`
+      : systemInstruction,
+    history,
+    message,
+    signal,
+  };
+}
+
+function responseSchema({ format }: Question): Record<string, unknown> | undefined {
+  return format === 'insight' ? INSIGHT_SCHEMA : undefined;
+}
+
+// Question/Answering endpoint. With `format: 'insight'` the answer also comes as `insight`,
+// and `text` is its plain-text form. `segments` split `text` into sentences citing the
+// `citations` behind their numbers and flagging numbers not found in the data (see
+// analyst/grounding.ts).
+server.post('/api/qa', async (request, reply) => {
+  let question: Question;
+  try {
+    question = await prepareQuestion(request.body);
   } catch (error) {
-    server.log.error(error, 'Error calling Gemini API');
+    if (error instanceof HttpError) return reply.status(error.statusCode).send({ message: error.message });
+    throw error;
+  }
+
+  try {
+    return await withChatSession(question.session, async () => {
+      const answer = await answerQuestion(await buildRequest(question), { responseSchema: responseSchema(question) });
+      const insight = question.format === 'insight' ? parseInsight(answer.text) : undefined;
+      const text = insight ? insightToText(insight) : answer.text;
+      appendChatExchange(question.session, question.message, text, answer.toolCalls);
+      const { citations, segments } = await groundAnswer(text, answer.toolCalls, question.excerpts);
+      return { text, insight, citations, segments, toolCalls: answer.toolCalls, sessionId: question.session, sources: question.sources };
+    });
+  } catch (error) {
+    server.log.error(error, 'Error calling the language model');
     reply.status(500).send({ message: 'Failed to get a response from the AI.' });
   }
 });
 
+/**
+ * The same as /api/qa, streamed as Server-Sent Events: `session` ({ sessionId }) first, then
+ * `chunk` ({ text }) as the answer is generated and `tool` ({ name, args, result | error })
+ * after each tool call, and finally `done` ({ text, insight, citations, segments, toolCalls,
+ * sessionId, sources, stopped }) or `error` ({ message }). An insight is not sent in chunks, only with `done`.
+ * Closing the connection stops generation; the part already generated is kept in the session.
+ */
+server.post('/api/qa/stream', async (request, reply) => {
+  let question: Question;
+  try {
+    question = await prepareQuestion(request.body);
+  } catch (error) {
+    if (error instanceof HttpError) return reply.status(error.statusCode).send({ message: error.message });
+    throw error;
+  }
+
+  const abort = new AbortController();
+  reply.raw.on('close', () => {
+    if (!reply.raw.writableFinished) abort.abort();
+  });
+  // The response is written directly, so headers set by plugins (CORS) are copied over.
+  reply.hijack();
+  for (const [name, value] of Object.entries(reply.getHeaders())) {
+    if (value !== undefined) reply.raw.setHeader(name, value);
+  }
+  reply.raw.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  const send = (event: string, data: unknown) => {
+    if (!reply.raw.destroyed) reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  send('session', { sessionId: question.session });
+  try {
+    await withChatSession(question.session, async () => {
+      let text = '';
+      let insight: Insight | undefined;
+      const toolCalls: ChatToolCall[] = [];
+      try {
+        const answer = await answerQuestion(await buildRequest(question, abort.signal), {
+          onText: (chunk) => {
+            text += chunk;
+            send('chunk', { text: chunk });
+          },
+          onToolCall: (call) => {
+            toolCalls.push(call);
+            send('tool', call);
+          },
+          responseSchema: responseSchema(question),
+        });
+        if (question.format === 'insight') {
+          insight = parseInsight(answer.text);
+          text = insightToText(insight);
+        }
+      } catch (error) {
+        if (!abort.signal.aborted) throw error;
+      }
+      if (text) appendChatExchange(question.session, question.message, text, toolCalls);
+      const { citations, segments } = await groundAnswer(text, toolCalls, question.excerpts);
+      send('done', { text, insight, citations, segments, toolCalls, sessionId: question.session, sources: question.sources, stopped: abort.signal.aborted });
+    });
+    if (abort.signal.aborted) server.log.info(`Stopped generating an answer in chat session ${question.session}`);
+  } catch (error) {
+    server.log.error(error, 'Error calling the language model');
+    send('error', { message: 'Failed to get a response from the AI.' });
+  } finally {
+    reply.raw.end();
+  }
+});
+
+function describeTarget({ provider, model }: LlmTarget): string {
+  return `${provider}:${model}`;
+}
+
 // Start the server
 const start = async () => {
   try {
     // Ensure data directory exists
-    const DATA_DIR = './data';
     await mkdir(DATA_DIR, { recursive: true });
     server.log.info(`Data directory '${DATA_DIR}' is ready.`);
 
+    // Set before the schedulers start, so the workflows they run log model fallbacks too.
+    const llm = createLlmOrchestrator({
+      onFallback: (route, target, error) => server.log.warn(error, `Language model ${describeTarget(target)} failed for '${route}'`),
+    });
+    setLlm(llm);
+    for (const [route, targets] of Object.entries(llm.routes())) {
+      server.log.info(`Language models for '${route}': ${targets.map(describeTarget).join(' -> ')}`);
+    }
+
+    const indexed = await indexMissingDatasets();
+    if (indexed > 0) server.log.info(`Indexed ${indexed} dataset(s) for question answering.`);
+
     // Register ingestion routes
     await server.register(ingestRoutes);
+    await server.register(datasetRoutes);
+    await server.register(queryRoutes);
+    await server.register(metricRoutes);
+    await server.register(dashboardRoutes);
+    await server.register(chatRoutes);
+    registerBuiltInConnectors();
+    await server.register(connectorRoutes);
+    startSyncScheduler(server.log);
+    await server.register(workflowRoutes);
+    await server.register(webhookRoutes);
+    startWorkflowScheduler(server.log);
 
     const port = Number(process.env.BACKEND_PORT) || 8000;
     await server.listen({ port, host: '0.0.0.0' });
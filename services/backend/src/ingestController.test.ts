@@ -0,0 +1,60 @@
+/**
+ * Multipart uploads to /api/ingest: a file within the upload limit becomes a dataset, and one
+ * over it is refused with a 413 without leaving anything staged.
+ */
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import Fastify from 'fastify';
+
+// The store opens under DATA_DIR, so it is pointed at a fresh directory before it loads; the
+// upload limit is 1 MB so an oversized file stays small.
+const dataDir = await mkdtemp(path.join(tmpdir(), 'ingest-test-'));
+process.env.DATA_DIR = dataDir;
+process.env.MAX_UPLOAD_MB = '1';
+const { default: ingestRoutes } = await import('./ingestController.js');
+const { UPLOAD_DIR } = await import('./config.js');
+
+const BOUNDARY = 'ingest-test-boundary';
+const server = Fastify();
+
+before(() => server.register(ingestRoutes));
+
+after(async () => {
+  await server.close();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+function upload(fileName: string, content: string) {
+  const payload = [
+    `--${BOUNDARY}`,
+    `Content-Disposition: form-data; name="file"; filename="${fileName}"`,
+    'Content-Type: text/csv',
+    '',
+    content,
+    `--${BOUNDARY}--`,
+    '',
+  ].join('\r\n');
+  return server.inject({
+    method: 'POST',
+    url: '/api/ingest',
+    headers: { 'content-type': `multipart/form-data; boundary=${BOUNDARY}` },
+    payload,
+  });
+}
+
+test('ingests an uploaded CSV file', async () => {
+  const response = await upload('sales.csv', 'region,amount\nEU,10\nUS,32\n');
+  assert.equal(response.statusCode, 200);
+  assert.equal(response.json().ingested, 2);
+  assert.equal(response.json().fileName, 'sales.csv');
+});
+
+test('refuses a file over the upload limit with a 413', async () => {
+  const response = await upload('big.csv', `region,amount\n${'EU,10\n'.repeat(200_000)}`);
+  assert.equal(response.statusCode, 413, response.body);
+  assert.deepEqual(response.json(), { error: 'File exceeds the 1 MB upload limit.' });
+  assert.deepEqual(await readdir(UPLOAD_DIR), []);
+});
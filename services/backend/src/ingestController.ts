@@ -1,37 +1,256 @@
-import { FastifyInstance } from 'fastify';
-import { ingestCsvFile } from './connectors/csvIngest.js';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import multipart, { Multipart } from '@fastify/multipart';
+import { ingestFile, detectFileFormat, isFileFormat, FileFormat, FILE_FORMATS, FORMAT_MIME_TYPES } from './connectors/fileIngest.js';
+import { listExcelSheets } from './connectors/excelIngest.js';
+import { MalformedFileError, HttpError } from './errors.js';
+import { saveDataset, upsertDataset, SavedDataset, datasetTable } from './datasets/storage.js';
+import { DatasetSource } from './datasets/catalog.js';
+import { UpsertReport } from './datasets/merge.js';
+import { UPLOAD_DIR, MAX_UPLOAD_BYTES } from './config.js';
 import fs from 'fs';
+import { randomUUID } from 'crypto';
+import { mkdir, unlink } from 'fs/promises';
+import { pipeline } from 'stream/promises';
 import path from 'path';
 
+const UPLOAD_TOO_LARGE = `File exceeds the ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB upload limit.`;
+
+interface StagedUpload {
+  path: string;
+  fileName: string;
+  mimetype: string;
+  bytes: number;
+  fields: Record<string, string>;
+}
+
+interface IngestOptions {
+  format?: FileFormat;
+  // Formats a route accepts; anything else is rejected with 415.
+  allowedFormats?: FileFormat[];
+}
+
+function readFields(parts: Record<string, Multipart | Multipart[] | undefined>): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const [name, part] of Object.entries(parts)) {
+    if (part && !Array.isArray(part) && part.type === 'field') {
+      fields[name] = String(part.value);
+    }
+  }
+  return fields;
+}
+
+interface ParsedIngestOptions {
+  format?: FileFormat;
+  sheet?: string;
+  // Existing dataset to upsert into instead of creating a new one.
+  dataset?: string;
+  primaryKey?: string[];
+  deleteMissing: boolean;
+}
+
+// Multipart fields are strings, so `primaryKey` may be comma separated and `deleteMissing` 'true'.
+function parseIngestOptions(input: { format?: unknown; sheet?: unknown; dataset?: unknown; primaryKey?: unknown; deleteMissing?: unknown }): ParsedIngestOptions {
+  if (input.format !== undefined && input.format !== '' && !isFileFormat(input.format)) {
+    throw new HttpError(400, `Unsupported format '${input.format}'. Expected one of: ${FILE_FORMATS.join(', ')}.`);
+  }
+  if (input.dataset !== undefined && input.dataset !== '') {
+    datasetTable(String(input.dataset)); // validates the id
+  }
+
+  let primaryKey: string[] | undefined;
+  if (typeof input.primaryKey === 'string') {
+    primaryKey = input.primaryKey.split(',');
+  } else if (Array.isArray(input.primaryKey) && input.primaryKey.every((c) => typeof c === 'string')) {
+    primaryKey = input.primaryKey;
+  } else if (input.primaryKey !== undefined) {
+    throw new HttpError(400, '`primaryKey` must be a column name or a list of column names.');
+  }
+  primaryKey = primaryKey?.map((c) => c.trim()).filter(Boolean);
+
+  return {
+    format: input.format ? input.format as FileFormat : undefined,
+    sheet: typeof input.sheet === 'string' && input.sheet ? input.sheet : undefined,
+    dataset: input.dataset ? String(input.dataset) : undefined,
+    primaryKey: primaryKey && primaryKey.length > 0 ? primaryKey : undefined,
+    deleteMissing: input.deleteMissing === true || input.deleteMissing === 'true',
+  };
+}
+
+function storeRows(rows: Record<string, string>[], source: DatasetSource, options: ParsedIngestOptions): Promise<SavedDataset> {
+  if (options.dataset) {
+    return upsertDataset(options.dataset, rows, { primaryKey: options.primaryKey, deleteMissing: options.deleteMissing, source });
+  }
+  if (options.deleteMissing) {
+    throw new HttpError(400, '`deleteMissing` requires a target `dataset`.');
+  }
+  return saveDataset(rows, source, { primaryKey: options.primaryKey });
+}
+
+function describeReport(report: UpsertReport): string {
+  return `inserted ${report.inserted}, updated ${report.updated}, unchanged ${report.unchanged}, deleted ${report.deleted}, duplicates ${report.duplicates}`;
+}
+
+/**
+ * Streams the single uploaded file to UPLOAD_DIR, runs `handler` on it and removes it afterwards.
+ * Form fields are only visible if the client sends them before the file part.
+ */
+async function withUpload<T>(server: FastifyInstance, request: FastifyRequest, handler: (upload: StagedUpload) => Promise<T>): Promise<T> {
+  const file = await request.file();
+  if (!file) {
+    throw new HttpError(400, 'A `file` field is required in the multipart body.');
+  }
+
+  await mkdir(UPLOAD_DIR, { recursive: true });
+  const uploadPath = path.join(UPLOAD_DIR, `${randomUUID()}-${path.basename(file.filename)}`);
+
+  try {
+    let received = 0;
+    let nextLog = 0;
+    file.file.on('data', (chunk: Buffer) => {
+      received += chunk.length;
+      if (received >= nextLog) {
+        server.log.info(`Receiving ${file.filename}: ${received} bytes`);
+        nextLog += 5 * 1024 * 1024;
+      }
+    });
+    // A file over MAX_UPLOAD_BYTES is cut short, or its stream fails with
+    // FST_REQ_FILE_TOO_LARGE (see sendIngestError).
+    await pipeline(file.file, fs.createWriteStream(uploadPath));
+    if (file.file.truncated) {
+      throw new HttpError(413, UPLOAD_TOO_LARGE);
+    }
+
+    return await handler({
+      path: uploadPath,
+      fileName: file.filename,
+      mimetype: file.mimetype,
+      bytes: received,
+      fields: readFields(file.fields),
+    });
+  } finally {
+    await unlink(uploadPath).catch(() => {});
+  }
+}
+
+async function ingestUpload(server: FastifyInstance, request: FastifyRequest, options: IngestOptions) {
+  return withUpload(server, request, async (upload) => {
+    const parsed = parseIngestOptions(upload.fields);
+    const { format: requestedFormat, sheet } = parsed;
+    const format = requestedFormat ?? options.format ?? await detectFileFormat(upload.path, upload.fileName);
+
+    // Browsers disagree on MIME types for these files, so the format check comes first.
+    if ((options.allowedFormats && !options.allowedFormats.includes(format)) || !FORMAT_MIME_TYPES[format].includes(upload.mimetype)) {
+      const expected = (options.allowedFormats ?? FILE_FORMATS).map((f) => `.${f}`).join(', ');
+      throw new HttpError(415, `Unsupported file type for '${upload.fileName}'. Upload one of: ${expected}.`);
+    }
+
+    const result = await ingestFile(upload.path, { format, sheet });
+    if (result.rows.length === 0) {
+      throw new HttpError(422, `'${upload.fileName}' contains no data rows.`);
+    }
+
+    const { report, ...saved } = await storeRows(result.rows, { connector: 'upload', format, fileName: upload.fileName, sheet: result.sheet }, parsed);
+    server.log.info(`Ingested ${result.rows.length} ${format} rows from upload ${upload.fileName} (${upload.bytes} bytes) to table ${saved.table}: ${describeReport(report)}`);
+    return {
+      status: 'ok',
+      ingested: result.rows.length,
+      ...saved,
+      upsert: report,
+      format,
+      sheet: result.sheet,
+      fileName: upload.fileName,
+      bytes: upload.bytes,
+    };
+  });
+}
+
+async function ingestPath(server: FastifyInstance, request: FastifyRequest, options: IngestOptions) {
+  const data = request.body as any;
+  const filePath = data?.filePath;
+  if (!filePath || typeof filePath !== 'string') {
+    throw new HttpError(400, 'A string `filePath` is required in the request body.');
+  }
+
+  // Basic security check to prevent path traversal
+  if (filePath.includes('..')) {
+    throw new HttpError(400, 'Invalid file path.');
+  }
+
+  const parsed = parseIngestOptions(data);
+  const { format: requestedFormat, sheet } = parsed;
+  const format = requestedFormat ?? options.format ?? await detectFileFormat(filePath);
+  if (options.allowedFormats && !options.allowedFormats.includes(format)) {
+    throw new HttpError(415, `Unsupported file type for '${filePath}'.`);
+  }
+
+  const result = await ingestFile(filePath, { format, sheet });
+  const { report, ...saved } = await storeRows(result.rows, { connector: 'file', format, filePath, sheet: result.sheet }, parsed);
+
+  server.log.info(`Ingested ${result.rows.length} ${format} rows from ${filePath} to table ${saved.table}: ${describeReport(report)}`);
+  return { status: 'ok', ingested: result.rows.length, ...saved, upsert: report, format, sheet: result.sheet };
+}
+
+function sendIngestError(server: FastifyInstance, reply: FastifyReply, error: any, source: string) {
+  if (error?.code === 'FST_REQ_FILE_TOO_LARGE') {
+    error = new HttpError(413, UPLOAD_TOO_LARGE);
+  }
+  if (error instanceof HttpError) {
+    return reply.status(error.statusCode).send({ error: error.message });
+  }
+  if (error instanceof MalformedFileError) {
+    return reply.status(422).send({ error: error.message });
+  }
+  if (error.code === 'ENOENT') {
+    server.log.error(`File not found at path: ${source}`);
+    return reply.status(404).send({ error: `File not found at path: ${source}` });
+  }
+  server.log.error(error, `Failed to ingest file from ${source}`);
+  return reply.status(500).send({ error: 'Failed to process file.' });
+}
+
 export default async function routes(server: FastifyInstance) {
+  await server.register(multipart, {
+    limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+  });
+
+  // Accepts either a browser upload or a path that already exists on the backend host.
   server.post('/api/ingest/csv', async (request, reply) => {
-    const data = request.body as any;
-    const filePath = data.filePath;
-    if (!filePath || typeof filePath !== 'string') {
-        return reply.status(400).send({ error: 'A string `filePath` is required in the request body.' });
+    const options: IngestOptions = { allowedFormats: ['csv'] };
+    try {
+      return request.isMultipart()
+        ? await ingestUpload(server, request, options)
+        : await ingestPath(server, request, options);
+    } catch (error) {
+      return sendIngestError(server, reply, error, request.isMultipart() ? 'upload' : (request.body as any)?.filePath);
     }
+  });
 
-    // Basic security check to prevent path traversal
-    if (filePath.includes('..')) {
-        return reply.status(400).send({ error: 'Invalid file path.' });
+  // Same as /api/ingest/csv for any supported format. The format is detected from the file
+  // unless `format` is given; `sheet` selects the worksheet of an Excel workbook.
+  // Both routes upsert into `dataset` when it is given, matching rows on `primaryKey`.
+  server.post('/api/ingest', async (request, reply) => {
+    try {
+      return request.isMultipart()
+        ? await ingestUpload(server, request, {})
+        : await ingestPath(server, request, {});
+    } catch (error) {
+      return sendIngestError(server, reply, error, request.isMultipart() ? 'upload' : (request.body as any)?.filePath);
     }
+  });
 
+  // Lets the UI offer a sheet picker before ingesting a workbook.
+  server.post('/api/ingest/inspect', async (request, reply) => {
+    if (!request.isMultipart()) {
+      return reply.status(400).send({ error: 'Expected a multipart upload.' });
+    }
     try {
-        const rows = await ingestCsvFile(filePath);
-        
-        // store rows to disk for next RAG step
-        const outPath = path.join('data', `ingest-${Date.now()}.json`);
-        fs.writeFileSync(outPath, JSON.stringify(rows, null, 2));
-        
-        server.log.info(`Ingested ${rows.length} rows from ${filePath} to ${outPath}`);
-        return { status: 'ok', ingested: rows.length, path: outPath };
-    } catch (error: any) {
-        if (error.code === 'ENOENT') {
-            server.log.error(`File not found at path: ${filePath}`);
-            return reply.status(404).send({ error: `File not found at path: ${filePath}` });
-        }
-        server.log.error(error, `Failed to ingest CSV file from ${filePath}`);
-        return reply.status(500).send({ error: 'Failed to process CSV file.' });
+      return await withUpload(server, request, async (upload) => {
+        const format = await detectFileFormat(upload.path, upload.fileName);
+        const sheets = format === 'xlsx' || format === 'xls' ? await listExcelSheets(upload.path) : undefined;
+        return { fileName: upload.fileName, format, sheets };
+      });
+    } catch (error) {
+      return sendIngestError(server, reply, error, 'upload');
     }
   });
 }
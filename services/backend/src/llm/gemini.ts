@@ -0,0 +1,83 @@
+/**
+ * gemini.ts - Google Gemini through the @google/genai SDK.
+ */
+import { GoogleGenAI, Content, Part, GenerateContentResponse } from '@google/genai';
+import { LlmProvider, LlmRequest, LlmReply } from './provider.js';
+
+// Function responses have to be objects.
+function asObject(result: unknown): Record<string, unknown> {
+  return result !== null && typeof result === 'object' && !Array.isArray(result)
+    ? result as Record<string, unknown>
+    : { output: result };
+}
+
+function contents({ history, message, toolSteps = [] }: LlmRequest): Content[] {
+  return [
+    ...history.map(({ role, text }) => ({ role, parts: [{ text }] })),
+    { role: 'user', parts: [{ text: message }] },
+    ...toolSteps.flatMap(({ text, calls }) => [
+      {
+        role: 'model',
+        parts: [
+          ...(text ? [{ text }] : []),
+          ...calls.map(({ call }) => ({ functionCall: { name: call.name, args: call.args }, thoughtSignature: call.signature })),
+        ],
+      },
+      {
+        role: 'user',
+        parts: calls.map(({ call, result }) => ({ functionResponse: { name: call.name, response: asObject(result) } })),
+      },
+    ]),
+  ];
+}
+
+// Reads the parts directly, since `response.text` warns about function call parts.
+function toReply(response: GenerateContentResponse, callOffset = 0): LlmReply {
+  const parts: Part[] = response.candidates?.[0]?.content?.parts ?? [];
+  const reply: LlmReply = { text: '', toolCalls: [] };
+  for (const part of parts) {
+    if (part.text && !part.thought) reply.text += part.text;
+    if (part.functionCall?.name) {
+      reply.toolCalls.push({
+        id: part.functionCall.id ?? `call_${callOffset + reply.toolCalls.length + 1}`,
+        name: part.functionCall.name,
+        args: part.functionCall.args ?? {},
+        signature: part.thoughtSignature,
+      });
+    }
+  }
+  return reply;
+}
+
+export function createGeminiProvider(apiKey: string, defaultModel: string): LlmProvider {
+  const ai = new GoogleGenAI({ apiKey });
+  const params = (request: LlmRequest) => ({
+    model: request.model ?? defaultModel,
+    contents: contents(request),
+    config: {
+      systemInstruction: request.system,
+      abortSignal: request.signal,
+      tools: request.tools?.length
+        ? [{ functionDeclarations: request.tools.map(({ name, description, parameters }) => ({ name, description, parametersJsonSchema: parameters })) }]
+        : undefined,
+      ...(request.responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: request.responseSchema } : {}),
+    },
+  });
+
+  return {
+    name: 'gemini',
+    defaultModel,
+    async generate(request) {
+      return toReply(await ai.models.generateContent(params(request)));
+    },
+    async *stream(request) {
+      let calls = 0;
+      for await (const chunk of await ai.models.generateContentStream(params(request))) {
+        const { text, toolCalls } = toReply(chunk, calls);
+        if (text) yield { text };
+        for (const toolCall of toolCalls) yield { toolCall };
+        calls += toolCalls.length;
+      }
+    },
+  };
+}
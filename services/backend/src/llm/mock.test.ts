@@ -0,0 +1,42 @@
+/**
+ * The scripted mock provider, which CI answers questions with instead of a real model.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMockProvider } from './mock.js';
+
+const provider = createMockProvider([
+  { match: 'revenue', reply: 'Revenue grew 12% to $48,000.' },
+  { match: 'churn', tools: [{ name: 'compute_metric', args: { metric: 'churn-rate' } }], reply: 'Churn is 3.1%.' },
+  { match: 'broken', error: 'Model overloaded' },
+]);
+
+async function streamed(message: string): Promise<string> {
+  let text = '';
+  for await (const delta of provider.stream({ history: [], message })) {
+    if ('text' in delta) text += delta.text;
+  }
+  return text;
+}
+
+test('answers with the reply of the first entry matching the question', async () => {
+  assert.deepEqual(await provider.generate({ history: [], message: 'How did REVENUE do?' }), { text: 'Revenue grew 12% to $48,000.', toolCalls: [] });
+  assert.equal(await streamed('How did revenue do?'), 'Revenue grew 12% to $48,000.');
+});
+
+test('calls the scripted tools once before replying', async () => {
+  const tools = [{ name: 'compute_metric', description: 'Computes a metric.', parameters: {} }];
+  const first = await provider.generate({ history: [], message: 'What is churn?', tools });
+  assert.deepEqual(first, { text: '', toolCalls: [{ id: 'mock_1', name: 'compute_metric', args: { metric: 'churn-rate' } }] });
+
+  const toolSteps = [{ text: '', calls: [{ call: first.toolCalls[0], result: { value: 3.1 } }] }];
+  assert.equal((await provider.generate({ history: [], message: 'What is churn?', tools, toolSteps })).text, 'Churn is 3.1%.');
+});
+
+test('throws scripted errors and echoes questions no entry matches', async () => {
+  await assert.rejects(provider.generate({ history: [], message: 'broken question' }), /Model overloaded/);
+  const history = [{ role: 'user' as const, text: 'Hi' }, { role: 'model' as const, text: 'Hello' }];
+  assert.equal((await provider.generate({ history, message: 'Anything else?' })).text, 'Mock answer to "Anything else?" (2 earlier messages).');
+  const schema = { type: 'object', required: ['title', 'score'], properties: { title: { type: 'string' }, score: { type: 'number' } } };
+  assert.deepEqual(JSON.parse((await provider.generate({ history: [], message: 'Sum up', responseSchema: schema })).text), { title: 'Mock title for "Sum up"', score: 0 });
+});
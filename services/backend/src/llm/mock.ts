@@ -0,0 +1,84 @@
+/**
+ * mock.ts - a deterministic provider for offline development and CI. Answers come from a
+ * script of { match, reply } or { match, error } entries: the first entry whose regular
+ * expression matches the question decides the answer, or the error thrown (to exercise
+ * fallback). An entry may also list `tools` to call before answering. Questions no entry
+ * matches are echoed back, or answered with a minimal value when JSON is requested.
+ */
+import { readFileSync } from 'fs';
+import { LlmProvider, LlmRequest, LlmReply } from './provider.js';
+
+export interface MockScriptEntry {
+  match: string;
+  reply?: string;
+  error?: string;
+  tools?: { name: string; args?: Record<string, unknown> }[];
+}
+
+export function loadMockScript(file: string): MockScriptEntry[] {
+  const script = JSON.parse(readFileSync(file, 'utf8'));
+  if (!Array.isArray(script) || !script.every((entry) => typeof entry?.match === 'string')) {
+    throw new Error(`The mock LLM script '${file}' must be a JSON array of { match, reply } or { match, error } entries.`);
+  }
+  return script;
+}
+
+// The smallest value matching a JSON Schema: required properties only, empty lists, the
+// first enum value, and strings naming the property and the question.
+function sampleFromSchema(schema: any, message: string, name = 'value'): unknown {
+  if (Array.isArray(schema?.enum)) return schema.enum[0];
+  switch (schema?.type) {
+    case 'object':
+      return Object.fromEntries((schema.required ?? []).map((key: string) => [key, sampleFromSchema(schema.properties?.[key], message, key)]));
+    case 'array':
+      return [];
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    default:
+      return `Mock ${name} for "${message}"`;
+  }
+}
+
+export function createMockProvider(script: MockScriptEntry[] = [], delayMs = 0): LlmProvider {
+  const entries = script.map((entry) => ({ ...entry, pattern: new RegExp(entry.match, 'i') }));
+
+  // The scripted tools are called once, when the request offers them; the reply follows.
+  const answer = ({ message, history, tools = [], toolSteps = [], responseSchema, signal }: LlmRequest): LlmReply => {
+    signal?.throwIfAborted();
+    const entry = entries.find(({ pattern }) => pattern.test(message));
+    if (entry?.error) throw new Error(entry.error);
+    if (entry?.tools?.length && tools.length > 0 && toolSteps.length === 0) {
+      return {
+        text: '',
+        toolCalls: entry.tools.map(({ name, args }, index) => ({ id: `mock_${index + 1}`, name, args: args ?? {} })),
+      };
+    }
+    if (entry?.reply !== undefined) return { text: entry.reply, toolCalls: [] };
+    if (responseSchema) return { text: JSON.stringify(sampleFromSchema(responseSchema, message)), toolCalls: [] };
+    const used = toolSteps.flatMap(({ calls }) => calls.map(({ call }) => call.name));
+    return {
+      text: `Mock answer to "${message}"${used.length ? ` using ${used.join(', ')}` : ''} (${history.length} earlier messages).`,
+      toolCalls: [],
+    };
+  };
+
+  return {
+    name: 'mock',
+    defaultModel: 'scripted',
+    async generate(request) {
+      return answer(request);
+    },
+    async *stream(request) {
+      const { text, toolCalls } = answer(request);
+      for (const word of text.match(/\S+\s*/g) ?? []) {
+        if (delayMs > 0) await new Promise((resolve) => setTimeout(resolve, delayMs));
+        request.signal?.throwIfAborted();
+        yield { text: word };
+      }
+      for (const toolCall of toolCalls) yield { toolCall };
+    },
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * openaiCompatible.ts - any server implementing the OpenAI chat completions API: OpenAI
+ * itself, or a local Ollama, llama.cpp or vLLM server (e.g. http://localhost:11434/v1).
+ */
+import { LlmProvider, LlmRequest, LlmToolCall } from './provider.js';
+
+function messages({ system, history, message, toolSteps = [] }: LlmRequest) {
+  return [
+    ...(system ? [{ role: 'system', content: system }] : []),
+    ...history.map(({ role, text }) => ({ role: role === 'model' ? 'assistant' : 'user', content: text })),
+    { role: 'user', content: message },
+    ...toolSteps.flatMap(({ text, calls }) => [
+      {
+        role: 'assistant',
+        content: text || null,
+        tool_calls: calls.map(({ call }) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.args) },
+        })),
+      },
+      ...calls.map(({ call, result }) => ({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(result) })),
+    ]),
+  ];
+}
+
+// Arguments arrive as a JSON string, which smaller local models do not always get right.
+function toToolCall(id: string | undefined, name: string, args: string | undefined, index: number): LlmToolCall {
+  let parsed: unknown = {};
+  try {
+    parsed = args ? JSON.parse(args) : {};
+  } catch {
+    // Left empty; the tool then reports the missing arguments to the model.
+  }
+  return {
+    id: id || `call_${index + 1}`,
+    name,
+    args: parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : {},
+  };
+}
+
+async function failure(response: Response): Promise<Error> {
+  const body = await response.text().catch(() => '');
+  let detail = body.slice(0, 200);
+  try {
+    detail = JSON.parse(body)?.error?.message ?? detail;
+  } catch {
+    // Not JSON; the raw text is the detail.
+  }
+  return new Error(`The model server answered HTTP ${response.status}${detail ? `: ${detail}` : ''}`);
+}
+
+export function createOpenAiCompatibleProvider(baseUrl: string, apiKey: string, defaultModel: string): LlmProvider {
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const post = async (request: LlmRequest, stream: boolean) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: request.model ?? defaultModel,
+        messages: messages(request),
+        tools: request.tools?.length
+          ? request.tools.map(({ name, description, parameters }) => ({ type: 'function', function: { name, description, parameters } }))
+          : undefined,
+        response_format: request.responseSchema
+          ? { type: 'json_schema', json_schema: { name: 'response', schema: request.responseSchema } }
+          : undefined,
+        stream,
+      }),
+      signal: request.signal,
+    });
+    if (!response.ok) throw await failure(response);
+    return response;
+  };
+
+  return {
+    name: 'openai',
+    defaultModel,
+    async generate(request) {
+      const data = await (await post(request, false)).json() as any;
+      const message = data?.choices?.[0]?.message;
+      return {
+        text: message?.content ?? '',
+        toolCalls: (message?.tool_calls ?? []).map((call: any, index: number) =>
+          toToolCall(call.id, call.function?.name, call.function?.arguments, index)),
+      };
+    },
+    // The stream is Server-Sent Events of `data: {chunk}` lines, ended by `data: [DONE]`. Tool
+    // calls arrive in fragments keyed by index and are yielded once complete, at the end.
+    async *stream(request) {
+      const response = await post(request, true);
+      if (!response.body) return;
+      const decoder = new TextDecoder();
+      const calls: { id?: string; name: string; args: string }[] = [];
+      let buffer = '';
+      let done = false;
+      for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(bytes, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const data = line.match(/^data:\s*(.*)$/)?.[1]?.trim();
+          if (!data) continue;
+          if (data === '[DONE]') {
+            done = true;
+            break;
+          }
+          const delta = JSON.parse(data)?.choices?.[0]?.delta;
+          if (delta?.content) yield { text: delta.content as string };
+          for (const fragment of delta?.tool_calls ?? []) {
+            const call = calls[fragment.index ?? 0] ??= { name: '', args: '' };
+            call.id ??= fragment.id;
+            call.name += fragment.function?.name ?? '';
+            call.args += fragment.function?.arguments ?? '';
+          }
+        }
+        if (done) break;
+      }
+      for (const [index, call] of calls.entries()) {
+        if (call?.name) yield { toolCall: toToolCall(call.id, call.name, call.args, index) };
+      }
+    },
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Routing requests across providers: a failing primary falls back to the next target, a
+ * stream only before its first chunk, and a request fails once every target has.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLlmOrchestrator, LlmRoute, LlmTarget } from './orchestrator.js';
+import { createMockProvider } from './mock.js';
+import { LlmProvider } from './provider.js';
+
+// A primary that is down, and one that fails after it has started streaming.
+const down: LlmProvider = {
+  name: 'down',
+  defaultModel: 'primary-1',
+  async generate() {
+    throw new Error('503 Service Unavailable');
+  },
+  async *stream() {
+    throw new Error('503 Service Unavailable');
+  },
+};
+const flaky: LlmProvider = {
+  name: 'flaky',
+  defaultModel: 'primary-2',
+  async generate() {
+    throw new Error('Connection reset');
+  },
+  async *stream() {
+    yield { text: 'Revenue ' };
+    throw new Error('Connection reset');
+  },
+};
+const mock = createMockProvider([{ match: 'revenue', reply: 'Revenue grew 12%.' }]);
+
+function orchestrator(qa: string) {
+  const fallbacks: [LlmRoute, LlmTarget, string][] = [];
+  const llm = createLlmOrchestrator({
+    providers: { down, flaky, mock },
+    routes: { qa, summary: 'mock' },
+    onFallback: (route, target, error) => fallbacks.push([route, target, (error as Error).message]),
+  });
+  return { llm, fallbacks };
+}
+
+async function streamed(stream: AsyncIterable<{ text: string } | object>): Promise<string> {
+  let text = '';
+  for await (const delta of stream) {
+    if ('text' in delta) text += delta.text;
+  }
+  return text;
+}
+
+test('parses the targets of each route', () => {
+  const { llm } = orchestrator('down:primary-9, mock');
+  assert.deepEqual(llm.routes(), {
+    qa: [{ provider: 'down', model: 'primary-9' }, { provider: 'mock', model: 'scripted' }],
+    summary: [{ provider: 'mock', model: 'scripted' }],
+  });
+  assert.throws(() => orchestrator('missing'), /Unknown language model provider 'missing'/);
+});
+
+test('falls back to the next target when the primary throws', async () => {
+  const { llm, fallbacks } = orchestrator('down, mock');
+  assert.deepEqual(await llm.generate('qa', { history: [], message: 'How is revenue?' }), { text: 'Revenue grew 12%.', toolCalls: [] });
+  assert.deepEqual(fallbacks, [['qa', { provider: 'down', model: 'primary-1' }, '503 Service Unavailable']]);
+
+  assert.equal(await streamed(llm.stream('qa', { history: [], message: 'How is revenue?' })), 'Revenue grew 12%.');
+  assert.equal(fallbacks.length, 2);
+});
+
+test('does not fall back once a stream has started', async () => {
+  const { llm, fallbacks } = orchestrator('flaky, mock');
+  await assert.rejects(streamed(llm.stream('qa', { history: [], message: 'How is revenue?' })), /Connection reset/);
+  assert.deepEqual(fallbacks, []);
+});
+
+test('does not fall back for a request its caller stopped', async () => {
+  const { llm, fallbacks } = orchestrator('down, mock');
+  const controller = new AbortController();
+  controller.abort();
+  await assert.rejects(llm.generate('qa', { history: [], message: 'How is revenue?', signal: controller.signal }), /503/);
+  assert.deepEqual(fallbacks, []);
+});
+
+test('fails with every reason once all targets have failed', async () => {
+  const { llm, fallbacks } = orchestrator('down, flaky');
+  await assert.rejects(
+    llm.generate('qa', { history: [], message: 'How is revenue?' }),
+    { message: "No language model could answer the 'qa' request. down:primary-1: 503 Service Unavailable; flaky:primary-2: Connection reset" },
+  );
+  assert.equal(fallbacks.length, 2);
+});
@@ -0,0 +1,136 @@
+/**
+ * orchestrator.ts - picks the model for each kind of request. Every route has an ordered list
+ * of provider/model targets; a request goes to the first, and on to the next when a target
+ * fails. A streamed reply only falls back before its first chunk, so an answer is never
+ * stitched together from two models, and a request stopped by its caller never falls back.
+ */
+import {
+  API_KEY, LLM_PROVIDER, LLM_ROUTE_QA, LLM_ROUTE_SUMMARY, GEMINI_MODEL,
+  OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_MODEL, MOCK_LLM_SCRIPT, MOCK_LLM_DELAY_MS,
+} from '../config.js';
+import { LlmProvider, LlmRequest, LlmReply, LlmDelta } from './provider.js';
+import { createGeminiProvider } from './gemini.js';
+import { createOpenAiCompatibleProvider } from './openaiCompatible.js';
+import { createMockProvider, loadMockScript } from './mock.js';
+
+// 'qa' answers dashboard questions; 'summary' condenses older chat messages.
+export type LlmRoute = 'qa' | 'summary';
+
+export interface LlmTarget {
+  provider: string;
+  model: string;
+}
+
+export interface LlmOrchestrator {
+  routes(): Record<LlmRoute, LlmTarget[]>;
+  generate(route: LlmRoute, request: Omit<LlmRequest, 'model'>): Promise<LlmReply>;
+  stream(route: LlmRoute, request: Omit<LlmRequest, 'model'>): AsyncIterable<LlmDelta>;
+}
+
+export interface LlmOrchestratorOptions {
+  providers?: Record<string, LlmProvider>;
+  // Comma-separated `provider[:model]` lists per route.
+  routes?: Record<LlmRoute, string>;
+  // Called for each target that fails.
+  onFallback?: (route: LlmRoute, target: LlmTarget, error: unknown) => void;
+}
+
+// The providers available with the current configuration. Gemini needs an API key.
+function defaultProviders(): Record<string, LlmProvider> {
+  return {
+    ...(API_KEY ? { gemini: createGeminiProvider(API_KEY, GEMINI_MODEL) } : {}),
+    openai: createOpenAiCompatibleProvider(OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_MODEL),
+    mock: createMockProvider(MOCK_LLM_SCRIPT ? loadMockScript(MOCK_LLM_SCRIPT) : [], MOCK_LLM_DELAY_MS),
+  };
+}
+
+// Parses `gemini:gemini-2.5-pro, openai:llama3.1:8b, mock`. Only the first ':' separates the
+// provider from the model, as model names may contain one.
+function parseTargets(spec: string, providers: Record<string, LlmProvider>): { target: LlmTarget; provider: LlmProvider }[] {
+  const entries = spec.split(',').map((entry) => entry.trim()).filter(Boolean);
+  if (entries.length === 0) {
+    throw new Error('No language model provider is configured. Set LLM_PROVIDER.');
+  }
+  return entries.map((entry) => {
+    const separator = entry.indexOf(':');
+    const name = separator === -1 ? entry : entry.slice(0, separator);
+    const provider = providers[name];
+    if (!provider) {
+      throw new Error(name === 'gemini' && !API_KEY
+        ? 'The gemini language model provider needs API_KEY to be set.'
+        : `Unknown language model provider '${name}'. Available: ${Object.keys(providers).join(', ')}.`);
+    }
+    const model = separator === -1 ? provider.defaultModel : entry.slice(separator + 1) || provider.defaultModel;
+    return { target: { provider: name, model }, provider };
+  });
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Thrown when every target of a route has failed.
+function exhausted(route: LlmRoute, failures: string[]): Error {
+  return new Error(`No language model could answer the '${route}' request. ${failures.join('; ')}`);
+}
+
+export function createLlmOrchestrator(options: LlmOrchestratorOptions = {}): LlmOrchestrator {
+  const providers = options.providers ?? defaultProviders();
+  const specs = options.routes ?? { qa: LLM_ROUTE_QA || LLM_PROVIDER, summary: LLM_ROUTE_SUMMARY || LLM_PROVIDER };
+  const targets: Record<LlmRoute, ReturnType<typeof parseTargets>> = {
+    qa: parseTargets(specs.qa, providers),
+    summary: parseTargets(specs.summary, providers),
+  };
+
+  return {
+    routes() {
+      return { qa: targets.qa.map(({ target }) => target), summary: targets.summary.map(({ target }) => target) };
+    },
+
+    async generate(route, request) {
+      const failures: string[] = [];
+      for (const { target, provider } of targets[route]) {
+        try {
+          return await provider.generate({ ...request, model: target.model });
+        } catch (error) {
+          if (request.signal?.aborted) throw error;
+          failures.push(`${target.provider}:${target.model}: ${describeError(error)}`);
+          options.onFallback?.(route, target, error);
+        }
+      }
+      throw exhausted(route, failures);
+    },
+
+    async *stream(route, request) {
+      const failures: string[] = [];
+      for (const { target, provider } of targets[route]) {
+        let started = false;
+        try {
+          for await (const delta of provider.stream({ ...request, model: target.model })) {
+            started = true;
+            yield delta;
+          }
+          return;
+        } catch (error) {
+          if (started || request.signal?.aborted) throw error;
+          failures.push(`${target.provider}:${target.model}: ${describeError(error)}`);
+          options.onFallback?.(route, target, error);
+        }
+      }
+      throw exhausted(route, failures);
+    },
+  };
+}
+
+let llm: LlmOrchestrator | undefined;
+
+// The orchestrator built from the environment, created on first use.
+export function getLlm(): LlmOrchestrator {
+  llm ??= createLlmOrchestrator();
+  return llm;
+}
+
+// Swaps the orchestrator, e.g. for one with fallback logging or fake providers.
+export function setLlm(next: LlmOrchestrator): void {
+  llm = next;
+}
@@ -0,0 +1,59 @@
+/**
+ * provider.ts - the contract every language model backend implements. Providers are
+ * stateless: each request carries the system instruction and the conversation so far.
+ */
+import { ChatTurn } from '../chat/sessions.js';
+
+// A function the model may call, with its parameters as a JSON Schema object.
+export interface LlmTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  // Opaque data the provider needs back with the call, e.g. a Gemini thought signature.
+  signature?: string;
+}
+
+// One round of tool use within the answer being generated: the text the model wrote with
+// its calls, and what each call returned.
+export interface LlmToolStep {
+  text: string;
+  calls: { call: LlmToolCall; result: unknown }[];
+}
+
+export interface LlmRequest {
+  system?: string;
+  // Earlier turns, oldest first, starting with a user turn.
+  history: ChatTurn[];
+  message: string;
+  tools?: LlmTool[];
+  // Tool use so far in answering `message`, oldest first.
+  toolSteps?: LlmToolStep[];
+  // Constrains the answer to JSON matching this JSON Schema. Not combined with `tools`, which
+  // Gemini does not support.
+  responseSchema?: Record<string, unknown>;
+  // Overrides the provider's default model.
+  model?: string;
+  signal?: AbortSignal;
+}
+
+// Either the answer, or calls to make before asking again (possibly with some text).
+export interface LlmReply {
+  text: string;
+  toolCalls: LlmToolCall[];
+}
+
+export type LlmDelta = { text: string } | { toolCall: LlmToolCall };
+
+export interface LlmProvider {
+  name: string;
+  defaultModel: string;
+  generate(request: LlmRequest): Promise<LlmReply>;
+  // Yields the reply in pieces as it is generated.
+  stream(request: LlmRequest): AsyncIterable<LlmDelta>;
+}
@@ -0,0 +1,75 @@
+import { FastifyInstance } from 'fastify';
+import { listMetrics, getMetric, createMetric, replaceMetric, deleteMetric, parseMetricDefinition } from './metrics/definitions.js';
+import { evaluateMetric } from './metrics/evaluate.js';
+import { sendError } from './errors.js';
+
+export default async function routes(server: FastifyInstance) {
+  server.get('/api/metrics', async (request, reply) => {
+    try {
+      return { metrics: await listMetrics() };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to list metrics');
+    }
+  });
+
+  // Evaluates a definition without saving it, so a new metric can be checked first.
+  server.post('/api/metrics/preview', async (request, reply) => {
+    try {
+      return await evaluateMetric(parseMetricDefinition(request.body));
+    } catch (error) {
+      return sendError(reply, error, 'Failed to evaluate metric');
+    }
+  });
+
+  // Creates a metric, e.g.
+  // { "id": "total-revenue", "name": "Total Revenue", "kind": "kpi", "dataset": "ingest-1700000000000",
+  //   "aggregation": "sum", "column": "amount", "timeColumn": "closed_at", "grain": "month",
+  //   "format": "currency", "compact": true, "icon": "CurrencyDollarIcon" }
+  server.post('/api/metrics', async (request, reply) => {
+    try {
+      const metric = await createMetric(parseMetricDefinition(request.body));
+      server.log.info(`Created metric ${metric.id}`);
+      return reply.status(201).send(metric);
+    } catch (error) {
+      return sendError(reply, error, 'Failed to create metric');
+    }
+  });
+
+  server.get('/api/metrics/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      return await getMetric(id);
+    } catch (error) {
+      return sendError(reply, error, `Failed to read metric ${id}`);
+    }
+  });
+
+  server.put('/api/metrics/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      return await replaceMetric(parseMetricDefinition(request.body, id));
+    } catch (error) {
+      return sendError(reply, error, `Failed to update metric ${id}`);
+    }
+  });
+
+  server.delete('/api/metrics/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      await deleteMetric(id);
+      server.log.info(`Deleted metric ${id}`);
+      return { status: 'ok' };
+    } catch (error) {
+      return sendError(reply, error, `Failed to delete metric ${id}`);
+    }
+  });
+
+  server.get('/api/metrics/:id/value', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      return await evaluateMetric(await getMetric(id));
+    } catch (error) {
+      return sendError(reply, error, `Failed to evaluate metric ${id}`);
+    }
+  });
+}
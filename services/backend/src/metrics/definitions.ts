@@ -0,0 +1,206 @@
+import { getStore } from '../store.js';
+import { HttpError } from '../errors.js';
+import { TimeGrain, TIME_GRAINS } from './periods.js';
+
+/**
+ * Metrics are declared as JSON definitions stored in the `metrics` table and managed through
+ * /api/metrics, so adding one needs no code change. A definition names a dataset, how to
+ * aggregate one of its columns and how to present the result:
+ *   kpi        a single value for the latest period, compared with an earlier one
+ *   series     one value per period, e.g. revenue per month
+ *   breakdown  one value per distinct value of a column, e.g. leads per source
+ */
+export type MetricKind = 'kpi' | 'series' | 'breakdown';
+export type Aggregation = 'sum' | 'avg' | 'min' | 'max' | 'count' | 'count_distinct';
+export type FilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'in' | 'not_in' | 'is_null' | 'not_null';
+export type Comparison = 'previous_period' | 'previous_year' | 'none';
+export type MetricFormat = 'number' | 'currency' | 'percent';
+
+export const METRIC_KINDS: MetricKind[] = ['kpi', 'series', 'breakdown'];
+export const AGGREGATIONS: Aggregation[] = ['sum', 'avg', 'min', 'max', 'count', 'count_distinct'];
+export const FILTER_OPERATORS: FilterOperator[] = ['=', '!=', '>', '>=', '<', '<=', 'in', 'not_in', 'is_null', 'not_null'];
+export const COMPARISONS: Comparison[] = ['previous_period', 'previous_year', 'none'];
+export const METRIC_FORMATS: MetricFormat[] = ['number', 'currency', 'percent'];
+
+export type FilterValue = string | number | boolean;
+
+export interface MetricFilter {
+  column: string;
+  op: FilterOperator;
+  // A list for 'in'/'not_in', absent for 'is_null'/'not_null'.
+  value?: FilterValue | FilterValue[];
+}
+
+export interface MetricDefinition {
+  id: string;
+  name: string;
+  kind: MetricKind;
+  dataset: string;
+  aggregation: Aggregation;
+  // Column to aggregate; optional for 'count', which then counts rows.
+  column?: string;
+  filters: MetricFilter[];
+  // Date column periods are taken from. Required for series; lets a KPI compare periods.
+  timeColumn?: string;
+  grain?: TimeGrain;
+  comparison?: Comparison;
+  // Column a breakdown groups by.
+  groupBy?: string;
+  // Periods in a series, or categories in a breakdown (largest first).
+  limit?: number;
+  format: MetricFormat;
+  // ISO 4217 code for the 'currency' format.
+  currency?: string;
+  decimals?: number;
+  // Abbreviates large values, e.g. 4200000 as '4.2M'.
+  compact?: boolean;
+  // Heroicon name shown on KPI cards, e.g. 'CurrencyDollarIcon'.
+  icon?: string;
+  // Bar colours of a breakdown, cycled.
+  colors?: string[];
+  // Position among metrics of the same kind on the dashboard.
+  order?: number;
+}
+
+const METRIC_ID_RE = /^[a-z0-9][a-z0-9_-]*$/;
+
+function fail(message: string): never {
+  throw new HttpError(400, message);
+}
+
+function optionalString(input: any, field: string): string | undefined {
+  if (input[field] === undefined || input[field] === null || input[field] === '') return undefined;
+  if (typeof input[field] !== 'string') fail(`\`${field}\` must be a string.`);
+  return input[field];
+}
+
+function oneOf<T extends string>(value: unknown, allowed: T[], field: string): T {
+  if (!allowed.includes(value as T)) fail(`\`${field}\` must be one of: ${allowed.join(', ')}.`);
+  return value as T;
+}
+
+function optionalInteger(input: any, field: string, min: number): number | undefined {
+  if (input[field] === undefined || input[field] === null) return undefined;
+  if (!Number.isInteger(input[field]) || input[field] < min) fail(`\`${field}\` must be an integer of at least ${min}.`);
+  return input[field];
+}
+
+function isFilterValue(value: unknown): value is FilterValue {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function parseFilter(input: any, index: number): MetricFilter {
+  if (!input || typeof input !== 'object') fail(`Filter ${index + 1} must be an object.`);
+  if (typeof input.column !== 'string' || !input.column) fail(`Filter ${index + 1} needs a \`column\`.`);
+  const op = oneOf(input.op, FILTER_OPERATORS, `filters[${index}].op`);
+  if (op === 'is_null' || op === 'not_null') return { column: input.column, op };
+  if (op === 'in' || op === 'not_in') {
+    if (!Array.isArray(input.value) || !input.value.every(isFilterValue)) fail(`Filter ${index + 1} needs a list \`value\` for '${op}'.`);
+  } else if (!isFilterValue(input.value)) {
+    fail(`Filter ${index + 1} needs a string, number or boolean \`value\`.`);
+  }
+  return { column: input.column, op, value: input.value };
+}
+
+/**
+ * Checks the shape of a definition from an API request. Whether the dataset and columns exist
+ * is checked when the metric is evaluated, since datasets change after a metric is saved.
+ */
+export function parseMetricDefinition(input: any, id?: string): MetricDefinition {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) fail('A metric definition object is required.');
+
+  const metricId = id ?? input.id;
+  if (typeof metricId !== 'string' || !METRIC_ID_RE.test(metricId)) {
+    fail('`id` must be lowercase letters, digits, dashes or underscores.');
+  }
+  if (typeof input.name !== 'string' || !input.name.trim()) fail('`name` is required.');
+  if (typeof input.dataset !== 'string' || !input.dataset) fail('`dataset` is required.');
+
+  const kind = oneOf(input.kind, METRIC_KINDS, 'kind');
+  const aggregation = oneOf(input.aggregation, AGGREGATIONS, 'aggregation');
+  const column = optionalString(input, 'column');
+  if (!column && aggregation !== 'count') fail(`\`column\` is required for '${aggregation}'.`);
+  if (input.filters !== undefined && !Array.isArray(input.filters)) fail('`filters` must be a list.');
+
+  const definition: MetricDefinition = {
+    id: metricId,
+    name: input.name.trim(),
+    kind,
+    dataset: input.dataset,
+    aggregation,
+    column,
+    filters: (input.filters ?? []).map(parseFilter),
+    timeColumn: optionalString(input, 'timeColumn'),
+    grain: input.grain === undefined ? undefined : oneOf(input.grain, TIME_GRAINS, 'grain'),
+    comparison: input.comparison === undefined ? undefined : oneOf(input.comparison, COMPARISONS, 'comparison'),
+    groupBy: optionalString(input, 'groupBy'),
+    limit: optionalInteger(input, 'limit', 1),
+    format: input.format === undefined ? 'number' : oneOf(input.format, METRIC_FORMATS, 'format'),
+    currency: optionalString(input, 'currency'),
+    decimals: optionalInteger(input, 'decimals', 0),
+    compact: input.compact === undefined ? undefined : Boolean(input.compact),
+    icon: optionalString(input, 'icon'),
+    order: optionalInteger(input, 'order', 0),
+  };
+  if (input.colors !== undefined) {
+    if (!Array.isArray(input.colors) || !input.colors.every((c: unknown) => typeof c === 'string')) fail('`colors` must be a list of strings.');
+    definition.colors = input.colors;
+  }
+  if (definition.decimals !== undefined && definition.decimals > 10) fail('`decimals` must be at most 10.');
+  if (definition.currency !== undefined && !/^[A-Z]{3}$/.test(definition.currency)) fail('`currency` must be an ISO 4217 code such as USD.');
+
+  if (kind === 'series' && !definition.timeColumn) fail('A series needs a `timeColumn`.');
+  if (kind === 'breakdown' && !definition.groupBy) fail('A breakdown needs a `groupBy` column.');
+  if (definition.timeColumn && !definition.grain) definition.grain = 'month';
+  if (definition.comparison && definition.comparison !== 'none' && !definition.timeColumn) {
+    fail('Comparing periods needs a `timeColumn`.');
+  }
+
+  // Drop unset optional fields so stored definitions stay readable.
+  return Object.fromEntries(Object.entries(definition).filter(([, value]) => value !== undefined)) as MetricDefinition;
+}
+
+function byDisplayOrder(a: MetricDefinition, b: MetricDefinition): number {
+  return (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER) || a.name.localeCompare(b.name);
+}
+
+export async function listMetrics(): Promise<MetricDefinition[]> {
+  const rows = getStore().prepare('SELECT definition FROM metrics').all() as { definition: string }[];
+  return rows.map((row) => JSON.parse(row.definition) as MetricDefinition).sort(byDisplayOrder);
+}
+
+export async function getMetric(id: string): Promise<MetricDefinition> {
+  const row = getStore().prepare('SELECT definition FROM metrics WHERE id = ?').get(id) as { definition: string } | undefined;
+  if (!row) {
+    throw new HttpError(404, `Metric '${id}' not found.`);
+  }
+  return JSON.parse(row.definition);
+}
+
+export async function createMetric(definition: MetricDefinition): Promise<MetricDefinition> {
+  const db = getStore();
+  if (db.prepare('SELECT 1 FROM metrics WHERE id = ?').get(definition.id)) {
+    throw new HttpError(409, `Metric '${definition.id}' already exists.`);
+  }
+  const now = new Date().toISOString();
+  db.prepare('INSERT INTO metrics (id, definition, created_at, updated_at) VALUES (?, ?, ?, ?)')
+    .run(definition.id, JSON.stringify(definition), now, now);
+  return definition;
+}
+
+export async function replaceMetric(definition: MetricDefinition): Promise<MetricDefinition> {
+  const result = getStore()
+    .prepare('UPDATE metrics SET definition = ?, updated_at = ? WHERE id = ?')
+    .run(JSON.stringify(definition), new Date().toISOString(), definition.id);
+  if (result.changes === 0) {
+    throw new HttpError(404, `Metric '${definition.id}' not found.`);
+  }
+  return definition;
+}
+
+export async function deleteMetric(id: string): Promise<void> {
+  const result = getStore().prepare('DELETE FROM metrics WHERE id = ?').run(id);
+  if (result.changes === 0) {
+    throw new HttpError(404, `Metric '${id}' not found.`);
+  }
+}
@@ -0,0 +1,261 @@
+import { getReadOnlyStore, quoteIdentifier } from '../store.js';
+import { HttpError } from '../errors.js';
+import { getDatasetMeta, getDatasetSchema } from '../datasets/catalog.js';
+import { ColumnSchema, ColumnType } from '../datasets/schema.js';
+import { MetricDefinition, MetricFilter, FilterValue } from './definitions.js';
+import { periodExpression, periodLabel, shiftPeriod, yearAgo } from './periods.js';
+
+/**
+ * Result shapes match the dashboard types in the frontend's types.ts: a KPI card (with the
+ * icon as a Heroicon name), a revenue-style series and lead-source-style breakdown bars.
+ */
+export interface KpiValue {
+  title: string;
+  value: string;
+  change: string;
+  changeType: 'increase' | 'decrease';
+  icon: string;
+  // Unformatted numbers behind `value` and `change`; null when there is no data.
+  rawValue: number | null;
+  previousValue: number | null;
+  changePercent: number | null;
+  period?: string;
+  comparisonPeriod?: string;
+}
+
+export interface SeriesPoint {
+  name: string;
+  value: number | null;
+  period: string;
+}
+
+export interface BreakdownSlice {
+  name: string;
+  value: number;
+  fill: string;
+}
+
+export type MetricResult =
+  | { id: string; name: string; kind: 'kpi'; kpi: KpiValue }
+  | { id: string; name: string; kind: 'series'; series: SeriesPoint[] }
+  | { id: string; name: string; kind: 'breakdown'; breakdown: BreakdownSlice[] };
+
+const NUMERIC_TYPES: ColumnType[] = ['integer', 'decimal', 'currency', 'percentage', 'boolean'];
+
+const DEFAULT_SERIES_PERIODS = 12;
+const DEFAULT_BREAKDOWN_SIZE = 10;
+const DEFAULT_ICON = 'ChartBarIcon';
+const DEFAULT_COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#00F5D4', '#ff8042', '#a28cff'];
+
+type SqlValue = string | number | null;
+
+interface Query {
+  table: string;
+  aggregate: string;
+  where: string[];
+  params: SqlValue[];
+  period?: string;
+}
+
+function findColumn(columns: ColumnSchema[], name: string, dataset: string): ColumnSchema {
+  const column = columns.find((c) => c.name === name);
+  if (!column) {
+    throw new HttpError(422, `Column '${name}' not found in dataset '${dataset}'.`);
+  }
+  return column;
+}
+
+// Booleans are stored as 0/1 in the typed tables.
+function toSqlValue(value: FilterValue, column: ColumnSchema): SqlValue {
+  if (column.type === 'boolean') {
+    return value === true || ['true', 'yes', 'y', '1'].includes(String(value).toLowerCase()) ? 1 : 0;
+  }
+  return typeof value === 'boolean' ? String(value) : value;
+}
+
+function filterClause(filter: MetricFilter, column: ColumnSchema): { sql: string; params: SqlValue[] } {
+  const name = quoteIdentifier(column.name);
+  switch (filter.op) {
+    case 'is_null':
+      return { sql: `${name} IS NULL`, params: [] };
+    case 'not_null':
+      return { sql: `${name} IS NOT NULL`, params: [] };
+    case 'in':
+    case 'not_in': {
+      const values = (filter.value as FilterValue[]).map((v) => toSqlValue(v, column));
+      if (values.length === 0) return { sql: filter.op === 'in' ? '0' : '1', params: [] };
+      return { sql: `${name} ${filter.op === 'in' ? 'IN' : 'NOT IN'} (${values.map(() => '?').join(', ')})`, params: values };
+    }
+    default:
+      return { sql: `${name} ${filter.op} ?`, params: [toSqlValue(filter.value as FilterValue, column)] };
+  }
+}
+
+async function buildQuery(definition: MetricDefinition): Promise<Query> {
+  const meta = await getDatasetMeta(definition.dataset);
+  const { columns } = await getDatasetSchema(definition.dataset);
+  const label = meta.name;
+
+  let aggregate = 'COUNT(*)';
+  if (definition.column) {
+    const column = findColumn(columns, definition.column, label);
+    if ((definition.aggregation === 'sum' || definition.aggregation === 'avg') && !NUMERIC_TYPES.includes(column.type)) {
+      throw new HttpError(422, `Cannot ${definition.aggregation} column '${column.name}' of type ${column.type}.`);
+    }
+    const name = quoteIdentifier(column.name);
+    aggregate = definition.aggregation === 'count_distinct'
+      ? `COUNT(DISTINCT ${name})`
+      : `${definition.aggregation.toUpperCase()}(${name})`;
+  }
+
+  const query: Query = { table: quoteIdentifier(meta.table), aggregate, where: [], params: [] };
+  for (const filter of definition.filters) {
+    const clause = filterClause(filter, findColumn(columns, filter.column, label));
+    query.where.push(clause.sql);
+    query.params.push(...clause.params);
+  }
+
+  if (definition.timeColumn && definition.grain) {
+    const column = findColumn(columns, definition.timeColumn, label);
+    if (column.type !== 'date') {
+      throw new HttpError(422, `Time column '${column.name}' must be a date column, not ${column.type}.`);
+    }
+    query.period = periodExpression(quoteIdentifier(column.name), definition.grain);
+    query.where.push(`${quoteIdentifier(column.name)} IS NOT NULL`);
+  }
+  if (definition.groupBy) {
+    findColumn(columns, definition.groupBy, label);
+  }
+  return query;
+}
+
+function whereSql(where: string[]): string {
+  return where.length > 0 ? ` WHERE ${where.join(' AND ')}` : '';
+}
+
+function valuesByPeriod(query: Query): Map<string, number | null> {
+  const rows = getReadOnlyStore()
+    .prepare(`SELECT ${query.period} AS period, ${query.aggregate} AS value FROM ${query.table}${whereSql(query.where)} GROUP BY 1 ORDER BY 1`)
+    .all(...query.params) as { period: string; value: number | null }[];
+  return new Map(rows.map((row) => [row.period, row.value]));
+}
+
+export function formatMetricValue(value: number | null, definition: MetricDefinition): string {
+  if (value === null) return '—';
+  const options: Intl.NumberFormatOptions = {
+    maximumFractionDigits: definition.decimals ?? (definition.compact ? 1 : 2),
+    minimumFractionDigits: definition.decimals ?? 0,
+  };
+  if (definition.compact) options.notation = 'compact';
+  if (definition.format === 'currency') {
+    return new Intl.NumberFormat('en-US', { ...options, style: 'currency', currency: definition.currency ?? 'USD' }).format(value);
+  }
+  const formatted = new Intl.NumberFormat('en-US', options).format(value);
+  return definition.format === 'percent' ? `${formatted}%` : formatted;
+}
+
+async function evaluateKpi(definition: MetricDefinition): Promise<KpiValue> {
+  const query = await buildQuery(definition);
+  const kpi: KpiValue = {
+    title: definition.name,
+    value: '—',
+    change: '',
+    changeType: 'increase',
+    icon: definition.icon ?? DEFAULT_ICON,
+    rawValue: null,
+    previousValue: null,
+    changePercent: null,
+  };
+
+  if (!query.period || !definition.grain) {
+    const row = getReadOnlyStore()
+      .prepare(`SELECT ${query.aggregate} AS value FROM ${query.table}${whereSql(query.where)}`)
+      .get(...query.params) as { value: number | null };
+    kpi.rawValue = row.value;
+    kpi.value = formatMetricValue(row.value, definition);
+    return kpi;
+  }
+
+  // The current period is the latest one with data, so month-end numbers stay put until the
+  // next month's rows arrive.
+  const values = valuesByPeriod(query);
+  const current = [...values.keys()].pop();
+  if (current === undefined) return kpi;
+
+  kpi.period = periodLabel(current, definition.grain);
+  kpi.rawValue = values.get(current) ?? null;
+  kpi.value = formatMetricValue(kpi.rawValue, definition);
+
+  const comparison = definition.comparison ?? 'previous_period';
+  if (comparison === 'none') return kpi;
+
+  const previous = comparison === 'previous_year' ? yearAgo(current, definition.grain) : shiftPeriod(current, definition.grain, -1);
+  kpi.comparisonPeriod = periodLabel(previous, definition.grain);
+  kpi.previousValue = values.get(previous) ?? null;
+  if (kpi.rawValue !== null && kpi.previousValue) {
+    kpi.changePercent = ((kpi.rawValue - kpi.previousValue) / Math.abs(kpi.previousValue)) * 100;
+    kpi.changeType = kpi.changePercent < 0 ? 'decrease' : 'increase';
+    kpi.change = `${kpi.changePercent < 0 ? '-' : '+'}${Math.abs(kpi.changePercent).toFixed(1)}%`;
+  } else {
+    kpi.change = 'n/a';
+  }
+  return kpi;
+}
+
+async function evaluateSeries(definition: MetricDefinition): Promise<SeriesPoint[]> {
+  const query = await buildQuery(definition);
+  const grain = definition.grain!;
+  const values = valuesByPeriod(query);
+  const periods = [...values.keys()];
+  if (periods.length === 0) return [];
+
+  // Periods without rows count as zero for additive aggregations and as gaps otherwise.
+  const additive = ['sum', 'count', 'count_distinct'].includes(definition.aggregation);
+  const last = periods[periods.length - 1];
+  const size = definition.limit ?? DEFAULT_SERIES_PERIODS;
+  const points: SeriesPoint[] = [];
+  for (let period = last; points.length < size && period >= periods[0]; period = shiftPeriod(period, grain, -1)) {
+    const value = values.has(period) ? values.get(period)! : additive ? 0 : null;
+    points.unshift({ name: periodLabel(period, grain), value, period });
+  }
+  return points;
+}
+
+async function evaluateBreakdown(definition: MetricDefinition): Promise<BreakdownSlice[]> {
+  const query = await buildQuery(definition);
+  const where = [...query.where];
+  const params = [...query.params];
+
+  // With a time column, a breakdown covers the latest period only.
+  if (query.period) {
+    const latest = getReadOnlyStore()
+      .prepare(`SELECT MAX(${query.period}) AS period FROM ${query.table}${whereSql(query.where)}`)
+      .get(...query.params) as { period: string | null };
+    where.push(`${query.period} = ?`);
+    params.push(latest.period);
+  }
+
+  const groupBy = quoteIdentifier(definition.groupBy!);
+  const rows = getReadOnlyStore()
+    .prepare(`SELECT ${groupBy} AS name, ${query.aggregate} AS value FROM ${query.table}${whereSql(where)} GROUP BY 1 ORDER BY 2 DESC LIMIT ?`)
+    .all(...params, definition.limit ?? DEFAULT_BREAKDOWN_SIZE) as { name: string | number | null; value: number | null }[];
+
+  const colors = definition.colors?.length ? definition.colors : DEFAULT_COLORS;
+  return rows.map((row, index) => ({
+    name: row.name === null ? '(blank)' : String(row.name),
+    value: row.value ?? 0,
+    fill: colors[index % colors.length],
+  }));
+}
+
+export async function evaluateMetric(definition: MetricDefinition): Promise<MetricResult> {
+  const { id, name } = definition;
+  switch (definition.kind) {
+    case 'kpi':
+      return { id, name, kind: 'kpi', kpi: await evaluateKpi(definition) };
+    case 'series':
+      return { id, name, kind: 'series', series: await evaluateSeries(definition) };
+    case 'breakdown':
+      return { id, name, kind: 'breakdown', breakdown: await evaluateBreakdown(definition) };
+  }
+}
@@ -0,0 +1,89 @@
+export type TimeGrain = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export const TIME_GRAINS: TimeGrain[] = ['day', 'week', 'month', 'quarter', 'year'];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * SQL expression bucketing an ISO date column (see datasets/schema.ts) into period keys:
+ *   day '2024-03-05', week '2024-03-04' (the Monday), month '2024-03',
+ *   quarter '2024-Q1', year '2024'
+ * Keys of one grain sort chronologically as text.
+ */
+export function periodExpression(column: string, grain: TimeGrain): string {
+  const day = `substr(${column}, 1, 10)`;
+  switch (grain) {
+    case 'day':
+      return day;
+    case 'week':
+      return `date(${day}, '-6 days', 'weekday 1')`;
+    case 'month':
+      return `substr(${column}, 1, 7)`;
+    case 'quarter':
+      return `substr(${column}, 1, 4) || '-Q' || ((CAST(substr(${column}, 6, 2) AS INTEGER) + 2) / 3)`;
+    case 'year':
+      return `substr(${column}, 1, 4)`;
+  }
+}
+
+function parseDay(key: string): Date {
+  return new Date(`${key}T00:00:00Z`);
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Moves a period key by `steps` periods (negative for earlier ones).
+export function shiftPeriod(key: string, grain: TimeGrain, steps: number): string {
+  switch (grain) {
+    case 'day':
+    case 'week': {
+      const date = parseDay(key);
+      date.setUTCDate(date.getUTCDate() + steps * (grain === 'week' ? 7 : 1));
+      return formatDay(date);
+    }
+    case 'month': {
+      const index = Number(key.slice(0, 4)) * 12 + Number(key.slice(5, 7)) - 1 + steps;
+      return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+    }
+    case 'quarter': {
+      const index = Number(key.slice(0, 4)) * 4 + Number(key.slice(6)) - 1 + steps;
+      return `${Math.floor(index / 4)}-Q${(index % 4) + 1}`;
+    }
+    case 'year':
+      return String(Number(key) + steps);
+  }
+}
+
+// The same period one year earlier.
+export function yearAgo(key: string, grain: TimeGrain): string {
+  switch (grain) {
+    case 'day':
+      return `${Number(key.slice(0, 4)) - 1}${key.slice(4)}`;
+    case 'week':
+      return shiftPeriod(key, grain, -52);
+    case 'month':
+      return shiftPeriod(key, grain, -12);
+    case 'quarter':
+      return shiftPeriod(key, grain, -4);
+    case 'year':
+      return shiftPeriod(key, grain, -1);
+  }
+}
+
+// Human-readable label for chart axes, e.g. 'Mar 2024' or 'Q1 2024'.
+export function periodLabel(key: string, grain: TimeGrain): string {
+  switch (grain) {
+    case 'day':
+      return key;
+    case 'week':
+      return `Week of ${key}`;
+    case 'month':
+      return `${MONTHS[Number(key.slice(5, 7)) - 1]} ${key.slice(0, 4)}`;
+    case 'quarter':
+      return `${key.slice(5)} ${key.slice(0, 4)}`;
+    case 'year':
+      return key;
+  }
+}
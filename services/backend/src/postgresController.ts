@@ -0,0 +1,86 @@
+import { FastifyInstance } from 'fastify';
+import { fetchPostgresRows } from './connectors/postgres.js';
+import {
+  parsePostgresSource,
+  getPostgresConfig,
+  listPostgresSyncs,
+  createPostgresSync,
+  deletePostgresSync,
+  resetPostgresSync,
+  runPostgresSync,
+} from './connectors/postgresSync.js';
+import { HttpError, sendError } from './errors.js';
+
+const DEFAULT_PREVIEW_ROWS = 20;
+const MAX_PREVIEW_ROWS = 100;
+
+/**
+ * Routes of the PostgreSQL connector beyond the generic /api/connectors ones: previews and
+ * the syncs of a connection (a connector instance).
+ */
+export default async function routes(server: FastifyInstance) {
+  // First rows of a `table` or `query`, so a saved query can be checked before syncing it.
+  server.post('/api/connectors/postgres/connections/:id/preview', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const body = request.body as any;
+    try {
+      const limit = body?.limit === undefined ? DEFAULT_PREVIEW_ROWS : Number(body.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PREVIEW_ROWS) {
+        throw new HttpError(400, `\`limit\` must be an integer between 1 and ${MAX_PREVIEW_ROWS}.`);
+      }
+      return await fetchPostgresRows(getPostgresConfig(id), parsePostgresSource(body), { limit });
+    } catch (error) {
+      return sendError(reply, error, 'Failed to preview the PostgreSQL data');
+    }
+  });
+
+  server.get('/api/connectors/postgres/syncs', async (request, reply) => {
+    const { connectionId } = request.query as { connectionId?: string };
+    try {
+      return { syncs: listPostgresSyncs(connectionId || undefined) };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to list PostgreSQL syncs');
+    }
+  });
+
+  // Creates a sync, e.g.
+  // { "connectionId": "pg-1700000000000", "table": "public.orders", "cursorColumn": "updated_at", "primaryKey": ["id"] }
+  // or { "connectionId": "...", "name": "Closed deals", "query": "SELECT ... FROM deals WHERE stage = 'won'" }
+  server.post('/api/connectors/postgres/syncs', async (request, reply) => {
+    try {
+      return reply.status(201).send(createPostgresSync(request.body));
+    } catch (error) {
+      return sendError(reply, error, 'Failed to create the PostgreSQL sync');
+    }
+  });
+
+  server.delete('/api/connectors/postgres/syncs/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      deletePostgresSync(id);
+      return { status: 'ok' };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to delete the PostgreSQL sync');
+    }
+  });
+
+  server.post('/api/connectors/postgres/syncs/:id/run', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      const run = await runPostgresSync(id);
+      server.log.info(`Ran PostgreSQL sync ${id}: ${run.status}, ${run.fetched} rows read`);
+      return run;
+    } catch (error) {
+      return sendError(reply, error, 'Failed to run the PostgreSQL sync');
+    }
+  });
+
+  server.post('/api/connectors/postgres/syncs/:id/reset', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      return resetPostgresSync(id);
+    } catch (error) {
+      return sendError(reply, error, 'Failed to reset the PostgreSQL sync');
+    }
+  });
+}
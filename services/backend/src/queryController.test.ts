@@ -0,0 +1,71 @@
+/**
+ * POST /api/query against a store holding a dataset next to the backend's own tables, which
+ * keep credentials and secrets and must not be readable through the endpoint.
+ */
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import Fastify from 'fastify';
+
+// The store opens under DATA_DIR, so it is pointed at a fresh directory before it loads.
+const dataDir = await mkdtemp(path.join(tmpdir(), 'query-test-'));
+process.env.DATA_DIR = dataDir;
+const { default: queryRoutes } = await import('./queryController.js');
+const { saveDataset } = await import('./datasets/storage.js');
+const { getStore } = await import('./store.js');
+
+const server = Fastify();
+let table: string;
+
+before(async () => {
+  await server.register(queryRoutes);
+  ({ table } = await saveDataset(
+    [{ region: 'EU', amount: '10' }, { region: 'US', amount: '32' }],
+    { connector: 'upload', format: 'csv', fileName: 'sales.csv' },
+  ));
+  getStore()
+    .prepare("INSERT INTO oauth_tokens (provider, access_token, refresh_token, expires_at, connected_at) VALUES ('google-drive', 'access', 'refresh', '', '')")
+    .run();
+});
+
+after(async () => {
+  await server.close();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+function query(sql: string) {
+  return server.inject({ method: 'POST', url: '/api/query', payload: { sql } });
+}
+
+test('runs read-only queries over dataset tables', async () => {
+  const response = await query(`SELECT region, SUM(amount) AS total FROM ${table} WHERE amount > 5 GROUP BY region ORDER BY region`);
+  assert.equal(response.statusCode, 200);
+  assert.deepEqual(response.json(), { columns: ['region', 'total'], rows: [{ region: 'EU', total: 10 }, { region: 'US', total: 32 }], truncated: false });
+
+  const joined = await query(`WITH eu AS (SELECT * FROM ${table} WHERE region = 'EU') SELECT COUNT(*) AS n FROM eu, ${table}`);
+  assert.deepEqual(joined.json().rows, [{ n: 2 }]);
+});
+
+test('refuses to read the backend tables, however they are reached', async () => {
+  for (const sql of [
+    'SELECT refresh_token FROM oauth_tokens',
+    'SELECT id, webhook_key_salt FROM workflows',
+    `SELECT region FROM ${table} UNION SELECT config FROM connector_instances`,
+    `SELECT region, (SELECT access_token FROM oauth_tokens) FROM ${table}`,
+    `SELECT * FROM ${table}_raw`,
+    'SELECT sql FROM sqlite_schema',
+    "SELECT content FROM dataset_chunks WHERE dataset_chunks MATCH 'EU'",
+    "SELECT name FROM pragma_table_info('oauth_tokens')",
+  ]) {
+    const response = await query(sql);
+    assert.equal(response.statusCode, 403, sql);
+    assert.match(response.json().error, /^Only dataset tables can be queried/);
+  }
+});
+
+test('still rejects statements that write', async () => {
+  const response = await query(`DELETE FROM ${table}`);
+  assert.equal(response.statusCode, 400);
+});
@@ -0,0 +1,85 @@
+import { FastifyInstance } from 'fastify';
+import Database from 'better-sqlite3';
+import { getReadOnlyStore } from './store.js';
+
+const DEFAULT_ROW_LIMIT = 1000;
+const MAX_ROW_LIMIT = 10000;
+
+interface Instruction {
+  opcode: string;
+  p2: number;
+  p3: number;
+}
+
+/**
+ * The first table a statement reads that is not a dataset's typed table, or undefined when
+ * it only reads those. The tables come from the statement's bytecode: each table or index it
+ * opens is named by its root page (p2) in database p3 (0 is the store itself). Virtual tables
+ * (the /api/qa index, pragma functions) and the schema table have no such name, so they are
+ * refused too.
+ */
+function unreadableTable(db: Database.Database, sql: string, args: unknown[]): string | undefined {
+  const datasets = new Set((db.prepare('SELECT table_name FROM datasets').all() as { table_name: string }[]).map((row) => row.table_name));
+  const tables = new Map(
+    (db.prepare('SELECT rootpage, tbl_name FROM sqlite_schema WHERE rootpage > 0').all() as { rootpage: number; tbl_name: string }[])
+      .map((row) => [row.rootpage, row.tbl_name]),
+  );
+  for (const { opcode, p2, p3 } of db.prepare(`EXPLAIN ${sql}`).all(...args) as Instruction[]) {
+    if (opcode === 'VOpen') return 'a virtual table';
+    if (opcode !== 'OpenRead' && opcode !== 'ReopenIdx') continue;
+    const table = p3 === 0 ? tables.get(p2) : undefined;
+    if (!table) return 'an internal table';
+    if (!datasets.has(table)) return `'${table}'`;
+  }
+  return undefined;
+}
+
+export default async function routes(server: FastifyInstance) {
+  // Runs a single read-only SQL statement against the store, e.g.
+  // { "sql": "SELECT region, SUM(amount) AS total FROM ds_ingest_1700000000000 GROUP BY region" }
+  // Dataset table names are listed by GET /api/datasets; no other table can be read, since
+  // the store also holds credentials and secrets.
+  server.post('/api/query', async (request, reply) => {
+    const { sql, params, limit } = (request.body as any) ?? {};
+    if (!sql || typeof sql !== 'string') {
+      return reply.status(400).send({ error: 'A string `sql` is required in the request body.' });
+    }
+    if (params !== undefined && !Array.isArray(params) && (typeof params !== 'object' || params === null)) {
+      return reply.status(400).send({ error: '`params` must be an array or an object of named parameters.' });
+    }
+    const rowLimit = Math.min(MAX_ROW_LIMIT, Math.max(1, Number(limit) || DEFAULT_ROW_LIMIT));
+
+    const db = getReadOnlyStore();
+    const args = params === undefined ? [] : [params];
+    let statement;
+    try {
+      statement = db.prepare(sql);
+    } catch (error: any) {
+      return reply.status(400).send({ error: `Invalid SQL: ${error.message}` });
+    }
+    if (!statement.readonly || !statement.reader) {
+      return reply.status(400).send({ error: 'Only read-only statements that return rows are allowed.' });
+    }
+
+    try {
+      const denied = unreadableTable(db, sql, args);
+      if (denied) {
+        return reply.status(403).send({ error: `Only dataset tables can be queried, not ${denied}. They are listed by GET /api/datasets.` });
+      }
+      const rows: unknown[] = [];
+      let truncated = false;
+      for (const row of statement.iterate(...args)) {
+        if (rows.length === rowLimit) {
+          truncated = true;
+          break;
+        }
+        rows.push(row);
+      }
+      const columns = statement.columns().map((column) => column.name);
+      return { columns, rows, truncated };
+    } catch (error: any) {
+      server.log.error(error, 'Failed to run query');
+      return reply.status(400).send({ error: `Query failed: ${error.message}` });
+    }
+  });
+}
@@ -0,0 +1,98 @@
+import { getStore, quoteIdentifier, yieldToEventLoop } from '../store.js';
+import { listDatasets, getDatasetSchema, DatasetMeta } from '../datasets/catalog.js';
+import { DatasetSchema } from '../datasets/schema.js';
+
+/**
+ * Datasets are indexed for /api/qa as text chunks in the `dataset_chunks` FTS5 table: one
+ * overview chunk describing the columns, then one chunk per ROWS_PER_CHUNK rows rendered
+ * as "column: value" pairs. Chunks are rebuilt from the typed table whenever a dataset's
+ * rows change.
+ */
+const ROWS_PER_CHUNK = 20;
+
+// Rows read from the typed table per query while indexing.
+const READ_BATCH_SIZE = 5000;
+
+export interface DatasetChunk {
+  id: number;
+  datasetId: string;
+  title: string;
+  content: string;
+  // 1-based row range covered by the chunk; null for the overview chunk.
+  firstRow: number | null;
+  lastRow: number | null;
+}
+
+function formatValue(value: unknown, type: string): string {
+  if (type === 'boolean') return value === 1 ? 'true' : 'false';
+  return String(value);
+}
+
+function formatRow(row: Record<string, unknown>, schema: DatasetSchema): string {
+  return schema.columns
+    .filter((column) => row[column.name] !== null && row[column.name] !== '')
+    .map((column) => `${column.name}: ${formatValue(row[column.name], column.type)}`)
+    .join('; ');
+}
+
+function overview(meta: DatasetMeta, schema: DatasetSchema): string {
+  const columns = schema.columns
+    .map((column) => `${column.name} (${column.type}${column.values ? `: ${column.values.join(', ')}` : ''})`)
+    .join(', ');
+  return `Dataset with ${meta.rowCount} rows. SQL table ${meta.table}. Columns: ${columns}.`;
+}
+
+export function removeDatasetIndex(datasetId: string): void {
+  getStore().prepare('DELETE FROM dataset_chunks WHERE dataset_id = ?').run(datasetId);
+}
+
+// Chunk titles carry the dataset name so questions that name a dataset find its rows.
+export function renameDatasetIndex(datasetId: string, name: string): void {
+  getStore().prepare('UPDATE dataset_chunks SET title = ? WHERE dataset_id = ?').run(name, datasetId);
+}
+
+/**
+ * Replaces the chunks of a dataset with ones built from its current typed rows.
+ */
+export async function indexDataset(meta: DatasetMeta, schema: DatasetSchema): Promise<void> {
+  const db = getStore();
+  const insert = db.prepare('INSERT INTO dataset_chunks (title, content, dataset_id, first_row, last_row) VALUES (?, ?, ?, ?, ?)');
+  const select = db.prepare(`SELECT rowid AS __rowid, * FROM ${quoteIdentifier(meta.table)} WHERE rowid > ? ORDER BY rowid LIMIT ?`);
+
+  db.transaction(() => {
+    removeDatasetIndex(meta.id);
+    insert.run(meta.name, overview(meta, schema), meta.id, null, null);
+  })();
+
+  let lastRowid = 0;
+  let position = 0;
+  for (;;) {
+    const rows = select.all(lastRowid, READ_BATCH_SIZE) as Record<string, unknown>[];
+    if (rows.length === 0) break;
+    lastRowid = rows[rows.length - 1].__rowid as number;
+
+    db.transaction(() => {
+      for (let start = 0; start < rows.length; start += ROWS_PER_CHUNK) {
+        const chunk = rows.slice(start, start + ROWS_PER_CHUNK);
+        const lines = chunk.map((row, index) => `Row ${position + start + index + 1}: ${formatRow(row, schema)}`);
+        insert.run(meta.name, lines.join('\n'), meta.id, position + start + 1, position + start + chunk.length);
+      }
+    })();
+    position += rows.length;
+    await yieldToEventLoop();
+  }
+}
+
+/**
+ * Indexes datasets that have no chunks yet, e.g. ones ingested before retrieval existed.
+ */
+export async function indexMissingDatasets(): Promise<number> {
+  const indexed = new Set(
+    (getStore().prepare('SELECT DISTINCT dataset_id FROM dataset_chunks').all() as { dataset_id: string }[]).map((r) => r.dataset_id),
+  );
+  const missing = (await listDatasets()).filter((meta) => !indexed.has(meta.id));
+  for (const meta of missing) {
+    await indexDataset(meta, await getDatasetSchema(meta.id));
+  }
+  return missing.length;
+}
@@ -0,0 +1,31 @@
+/**
+ * Retrieving dataset chunks for /api/qa: row chunks carry the rows they cover, and the
+ * overview chunk, which covers none, no row range at all.
+ */
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// The store opens under DATA_DIR, so it is pointed at a fresh directory before it loads.
+const dataDir = await mkdtemp(path.join(tmpdir(), 'retriever-test-'));
+process.env.DATA_DIR = dataDir;
+const { retrieveContext } = await import('./retriever.js');
+const { saveDataset } = await import('../datasets/storage.js');
+
+after(() => rm(dataDir, { recursive: true, force: true }));
+
+test('gives row chunks their row range and the overview chunk none', async () => {
+  const rows = Array.from({ length: 25 }, (_, index) => ({ region: index < 20 ? 'EU' : 'APAC', amount: String(index) }));
+  const { id } = await saveDataset(rows, { connector: 'upload', format: 'csv', fileName: 'sales.csv' });
+
+  const { context, chunks } = await retrieveContext('APAC dataset', { limit: 5, datasetIds: [id] });
+  assert.deepEqual(
+    chunks.map(({ firstRow, lastRow }) => [firstRow, lastRow]).sort(),
+    [[21, 25], [null, null]].sort(),
+  );
+  assert.match(context, /\[sales \(.+\), overview\]\nDataset with 25 rows\./);
+  assert.match(context, /\[sales \(.+\), rows 21-25\]\nRow 21: region: APAC; amount: 20/);
+  assert.doesNotMatch(context, /rows 0-0|rows null/);
+});
@@ -0,0 +1,75 @@
+import { getStore } from '../store.js';
+import { DatasetChunk } from './chunks.js';
+
+export interface ScoredChunk extends DatasetChunk {
+  // Higher is more relevant; only comparable between chunks from the same retriever.
+  score: number;
+}
+
+export interface SearchOptions {
+  limit: number;
+  // Restricts the search to these datasets.
+  datasetIds?: string[];
+}
+
+/**
+ * Finds the dataset chunks most relevant to a question, from `dataset_chunks` (see chunks.ts).
+ */
+export interface Retriever {
+  search(query: string, options: SearchOptions): Promise<ScoredChunk[]>;
+}
+
+// Turns any text into tokens that are safe to use in an FTS5 MATCH expression.
+function tokenize(text: string): string[] {
+  return [...new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])];
+}
+
+function datasetFilter(datasetIds: string[] | undefined, column: string): { sql: string; params: string[] } {
+  if (!datasetIds || datasetIds.length === 0) return { sql: '1 = 1', params: [] };
+  return { sql: `${column} IN (${datasetIds.map(() => '?').join(', ')})`, params: datasetIds };
+}
+
+/**
+ * Ranks chunks with SQLite's built-in BM25. Query terms are OR-ed, so a chunk needs to
+ * share only one term with the question to be considered.
+ */
+export const bm25Retriever: Retriever = {
+  async search(query, { limit, datasetIds }) {
+    const terms = tokenize(query);
+    if (terms.length === 0) return [];
+    const filter = datasetFilter(datasetIds, 'dataset_id');
+    const rows = getStore().prepare(`
+      SELECT rowid AS id, title, content, dataset_id, first_row, last_row, bm25(dataset_chunks) AS rank
+      FROM dataset_chunks
+      WHERE dataset_chunks MATCH ? AND ${filter.sql}
+      ORDER BY rank LIMIT ?
+    `).all(terms.map((term) => `"${term}"`).join(' OR '), ...filter.params, limit) as
+      { id: number; title: string; content: string; dataset_id: string; first_row: number | null; last_row: number | null; rank: number }[];
+
+    // FTS5 reports BM25 as a negative number where lower is better.
+    return rows.map((row) => ({
+      id: row.id,
+      datasetId: row.dataset_id,
+      title: row.title,
+      content: row.content,
+      firstRow: row.first_row,
+      lastRow: row.last_row,
+      score: -row.rank,
+    }));
+  },
+};
+
+/**
+ * Renders the chunks most relevant to `question` as a block for the model prompt. Returns
+ * an empty context when nothing has been ingested or nothing matches.
+ */
+export async function retrieveContext(question: string, options: SearchOptions): Promise<{ context: string; chunks: ScoredChunk[] }> {
+  const chunks = await bm25Retriever.search(question, options);
+  const context = chunks
+    .map((chunk) => {
+      const range = chunk.firstRow === null ? 'overview' : `rows ${chunk.firstRow}-${chunk.lastRow}`;
+      return `[${chunk.title} (${chunk.datasetId}), ${range}]\n${chunk.content}`;
+    })
+    .join('\n\n');
+  return { context, chunks };
+}
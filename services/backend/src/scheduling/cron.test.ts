@@ -0,0 +1,87 @@
+/**
+ * Cron expressions: parsing every field syntax, and the next run in UTC and in a zone whose
+ * clocks change (Europe/Berlin, in spring on 29 Mar 2026 and in autumn on 25 Oct 2026).
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkTimeZone, nextCronRun, parseCron } from './cron.js';
+
+const sorted = (values: Set<number>) => [...values].sort((a, b) => a - b);
+
+// The next `count` runs after `after`, as ISO strings.
+function runs(expression: string, after: string, count: number, timeZone?: string): string[] {
+  const schedule = parseCron(expression);
+  const times: string[] = [];
+  let time: Date | undefined = new Date(after);
+  while (times.length < count && (time = nextCronRun(schedule, time, timeZone))) times.push(time.toISOString());
+  return times;
+}
+
+test('parses numbers, ranges, steps, lists, names and macros', () => {
+  const schedule = parseCron(' */15 9-17/4 1,15 jan-MAR mon-fri ');
+  assert.equal(schedule.expression, '*/15 9-17/4 1,15 jan-MAR mon-fri');
+  assert.deepEqual(sorted(schedule.minutes), [0, 15, 30, 45]);
+  assert.deepEqual(sorted(schedule.hours), [9, 13, 17]);
+  assert.deepEqual(sorted(schedule.daysOfMonth), [1, 15]);
+  assert.deepEqual(sorted(schedule.months), [1, 2, 3]);
+  assert.deepEqual(sorted(schedule.daysOfWeek), [1, 2, 3, 4, 5]);
+  assert.deepEqual([schedule.domRestricted, schedule.dowRestricted], [true, true]);
+
+  assert.deepEqual(sorted(parseCron('5/20 * * * *').minutes), [5, 25, 45]);
+  assert.deepEqual(sorted(parseCron('0 0 * * 7').daysOfWeek), [0]);
+  const weekly = parseCron('@Weekly');
+  assert.equal(weekly.expression, '@Weekly');
+  assert.deepEqual([sorted(weekly.minutes), sorted(weekly.hours), sorted(weekly.daysOfWeek)], [[0], [0], [0]]);
+});
+
+test('rejects malformed expressions with a 400', () => {
+  for (const [expression, message] of [
+    ['0 9 * *', /expected five fields/],
+    ['60 * * * *', /'60' is not a valid minute \(0-59\)/],
+    ['0 9 * foo *', /'foo' is not a valid month/],
+    ['0 17-9 * * *', /'17-9' runs backwards/],
+    ['*/0 * * * *', /'0' is not a valid step/],
+    ['0 0 30 feb *', /it never runs/],
+  ] as const) {
+    assert.throws(() => parseCron(expression), { statusCode: 400, message }, expression);
+  }
+});
+
+test('finds the next runs in UTC', () => {
+  assert.deepEqual(runs('30 9 * * mon-fri', '2026-06-05T09:30:00Z', 3), [
+    '2026-06-08T09:30:00.000Z',
+    '2026-06-09T09:30:00.000Z',
+    '2026-06-10T09:30:00.000Z',
+  ]);
+  // Both day fields restricted: the 1st of the month or any Sunday.
+  assert.deepEqual(runs('0 0 1 * sun', '2026-06-25T00:00:00Z', 3), [
+    '2026-06-28T00:00:00.000Z',
+    '2026-07-01T00:00:00.000Z',
+    '2026-07-05T00:00:00.000Z',
+  ]);
+  assert.deepEqual(runs('@yearly', '2026-12-31T23:59:30Z', 1), ['2027-01-01T00:00:00.000Z']);
+});
+
+test('follows the local time of a zone across its clock changes', () => {
+  // 09:00 in Berlin is 08:00 UTC in winter and 07:00 UTC in summer.
+  assert.deepEqual(runs('0 9 * * *', '2026-03-27T12:00:00Z', 3, 'Europe/Berlin'), [
+    '2026-03-28T08:00:00.000Z',
+    '2026-03-29T07:00:00.000Z',
+    '2026-03-30T07:00:00.000Z',
+  ]);
+  // 02:30 is skipped when the clocks go forward, so it runs at 03:30 that day instead.
+  assert.deepEqual(runs('30 2 * * *', '2026-03-28T12:00:00Z', 2, 'Europe/Berlin'), [
+    '2026-03-29T01:30:00.000Z',
+    '2026-03-30T00:30:00.000Z',
+  ]);
+  // 02:30 happens twice when they go back; it runs only the first time.
+  assert.deepEqual(runs('30 2 * * *', '2026-10-24T12:00:00Z', 2, 'Europe/Berlin'), [
+    '2026-10-25T00:30:00.000Z',
+    '2026-10-26T01:30:00.000Z',
+  ]);
+});
+
+test('checks time zone names', () => {
+  assert.equal(checkTimeZone('europe/berlin'), 'Europe/Berlin');
+  assert.throws(() => checkTimeZone('Mars/Olympus'), { statusCode: 400, message: /Unknown time zone 'Mars\/Olympus'/ });
+});
@@ -0,0 +1,222 @@
+/**
+ * cron.ts - five-field cron expressions (minute hour day-of-month month day-of-week),
+ * evaluated in UTC or in an IANA time zone such as 'Europe/Berlin'. Fields accept `*`, numbers, ranges (`1-5`), steps (`*\/15`, `0-30/10`),
+ * lists (`1,15`) and month/weekday names (`jan`, `mon-fri`). The macros @hourly, @daily,
+ * @weekly, @monthly and @yearly are accepted too.
+ */
+import { HttpError } from '../errors.js';
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // As in Vixie cron, when both day fields are restricted a day matching either one runs.
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  // Offset of names[0], e.g. 1 for months.
+  namesFrom?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesFrom: 1 },
+  // 7 is Sunday as well as 0.
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, namesFrom: 0 },
+];
+
+// Searching further than this many years ahead means the schedule never matches, e.g. 30 Feb.
+const MAX_SEARCH_YEARS = 5;
+
+function invalid(expression: string, detail: string): never {
+  throw new HttpError(400, `Invalid cron expression '${expression}': ${detail}.`);
+}
+
+function parseValue(text: string, spec: FieldSpec, expression: string): number {
+  const index = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = index >= 0 ? index + (spec.namesFrom ?? 0) : /^\d+$/.test(text) ? Number(text) : NaN;
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    invalid(expression, `'${text}' is not a valid ${spec.name} (${spec.min}-${spec.max})`);
+  }
+  return value;
+}
+
+function parseField(text: string, spec: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined || !range) invalid(expression, `'${part}' is not a valid ${spec.name}`);
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) invalid(expression, `'${stepText}' is not a valid step`);
+
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      [from, to] = [spec.min, spec.max];
+    } else if (range.includes('-')) {
+      const [start, end] = range.split('-');
+      [from, to] = [parseValue(start, spec, expression), parseValue(end, spec, expression)];
+      if (from > to) invalid(expression, `'${range}' runs backwards`);
+    } else {
+      from = parseValue(range, spec, expression);
+      // `5/15` means from 5 to the end of the range in steps of 15.
+      to = stepText === undefined ? from : spec.max;
+    }
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    invalid(trimmed, 'expected five fields (minute hour day-of-month month day-of-week)');
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index], trimmed));
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  const schedule: CronSchedule = {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: fields[2] !== '*',
+    dowRestricted: fields[4] !== '*',
+  };
+  if (!nextCronRun(schedule, new Date())) {
+    invalid(trimmed, 'it never runs');
+  }
+  return schedule;
+}
+
+/**
+ * Checks an IANA time zone name, e.g. 'America/New_York'; returns it in its canonical form.
+ */
+export function checkTimeZone(timeZone: string): string {
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone }).resolvedOptions().timeZone;
+  } catch {
+    throw new HttpError(400, `Unknown time zone '${timeZone}'. Use an IANA name such as 'Europe/London'.`);
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * The wall-clock time in `timeZone` at `instant`, as a Date whose UTC fields hold it, so the
+ * UTC search below can run on local times.
+ */
+function toWallClock(instant: Date, timeZone: string): Date {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map(({ type, value }) => [type, Number(value)]));
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, instant.getUTCMilliseconds()));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The instants at which `timeZone` shows a wall-clock time, earliest first: two when clocks
+ * go back and the time happens twice, and for a time skipped when clocks go forward, the
+ * instant the same distance past the change (02:30 becomes 03:30).
+ */
+function fromWallClock(wall: Date, timeZone: string): Date[] {
+  // The zone's offsets a day either side; no zone changes its offset twice within two days.
+  const offsets = [...new Set([wall.getTime() - DAY_MS, wall.getTime() + DAY_MS].map((time) => {
+    const instant = new Date(time);
+    return toWallClock(instant, timeZone).getTime() - time;
+  }))];
+  const instants = offsets
+    .map((offset) => new Date(wall.getTime() - offset))
+    .filter((instant) => toWallClock(instant, timeZone).getTime() === wall.getTime())
+    .sort((a, b) => a.getTime() - b.getTime());
+  return instants.length > 0 ? instants : [new Date(wall.getTime() - offsets[0])];
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.domRestricted && schedule.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * The first minute after `after` that the schedule runs at in `timeZone`, or undefined when
+ * it never does within MAX_SEARCH_YEARS. A time that happens twice when clocks go back runs
+ * once, at its first occurrence.
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date, timeZone = 'UTC'): Date | undefined {
+  if (timeZone === 'UTC') return nextUtcRun(schedule, after);
+  let wall = toWallClock(after, timeZone);
+  for (;;) {
+    const next = nextUtcRun(schedule, wall);
+    if (!next) return undefined;
+    const instant = fromWallClock(next, timeZone).find((candidate) => candidate > after);
+    if (instant) return instant;
+    wall = next;
+  }
+}
+
+// The search itself, on UTC fields.
+function nextUtcRun(schedule: CronSchedule, after: Date): Date | undefined {
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = after.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  // Skips whole months, days and hours that cannot match before looking at minutes.
+  while (date.getUTCFullYear() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!dayMatches(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  return undefined;
+}
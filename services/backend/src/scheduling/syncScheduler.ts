@@ -0,0 +1,61 @@
+/**
+ * syncScheduler.ts - runs connector syncs on their cron schedules. Every interval it starts
+ * the syncs that are due, each with retries (SYNC_MAX_ATTEMPTS); a connector that is still
+ * syncing when its next run comes round is skipped rather than synced twice.
+ */
+import { FastifyBaseLogger } from 'fastify';
+import { SYNC_MAX_ATTEMPTS, SYNC_SCHEDULER_INTERVAL_MS } from '../config.js';
+import {
+  listDueConnectorInstances,
+  advanceConnectorSchedule,
+  isConnectorSyncing,
+  syncConnectorInstance,
+} from '../connectors/registry.js';
+import { failInterruptedSyncRuns } from '../connectors/syncRuns.js';
+
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Starts the syncs due at `now` without waiting for them; returns the ids of the connectors
+ * started.
+ */
+export function runDueSyncs(log: FastifyBaseLogger, now = new Date()): string[] {
+  const started: string[] = [];
+  for (const instance of listDueConnectorInstances(now)) {
+    // Moved on first, so a sync that outlasts the interval is not picked up again.
+    advanceConnectorSchedule(instance, now);
+    if (isConnectorSyncing(instance.id)) {
+      log.info(`Skipped the scheduled sync of connector ${instance.id}: the previous sync is still running`);
+      continue;
+    }
+    started.push(instance.id);
+    syncConnectorInstance(instance.id, { trigger: 'schedule', maxAttempts: SYNC_MAX_ATTEMPTS }).then(
+      (result) => log.info(`Scheduled sync of connector ${instance.id} finished: ${result.rowCount} rows`),
+      (error) => log.warn(`Scheduled sync of connector ${instance.id} failed: ${error instanceof Error ? error.message : String(error)}`),
+    );
+  }
+  return started;
+}
+
+export function startSyncScheduler(log: FastifyBaseLogger, intervalMs = SYNC_SCHEDULER_INTERVAL_MS): void {
+  if (timer) return;
+  const interrupted = failInterruptedSyncRuns();
+  if (interrupted > 0) log.warn(`Marked ${interrupted} sync run(s) interrupted by the last shutdown as failed`);
+
+  const tick = () => {
+    try {
+      runDueSyncs(log);
+    } catch (error) {
+      log.error(error, 'Failed to start scheduled syncs');
+    }
+  };
+  timer = setInterval(tick, intervalMs);
+  // The scheduler alone should not keep the process alive.
+  timer.unref();
+  tick();
+}
+
+export function stopSyncScheduler(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
@@ -0,0 +1,75 @@
+/**
+ * Scheduled workflows after the backend was down: how many of the missed runs each catch-up
+ * policy makes up, and when the workflow runs next.
+ */
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { FastifyBaseLogger } from 'fastify';
+
+// The store opens under DATA_DIR, so it is pointed at a fresh directory before it loads.
+const dataDir = await mkdtemp(path.join(tmpdir(), 'scheduler-test-'));
+process.env.DATA_DIR = dataDir;
+const { runDueWorkflows } = await import('./workflowScheduler.js');
+const { createWorkflow, getWorkflowNextRunAt, parseWorkflowDefinition, setWorkflowNextRunAt } = await import('../workflows/definitions.js');
+const { getWorkflowRun, listWorkflowRuns } = await import('../workflows/runs.js');
+
+after(() => rm(dataDir, { recursive: true, force: true }));
+
+const warnings: string[] = [];
+const log = { info() {}, warn: (message: string) => warnings.push(message), error() {} } as unknown as FastifyBaseLogger;
+
+// An hourly workflow that last ran at 07:00 UTC, before the backend went down.
+function hourly(id: string, catchUp: string) {
+  createWorkflow(parseWorkflowDefinition({
+    id,
+    title: id,
+    enabled: true,
+    trigger: { type: 'schedule', name: 'Hourly', cron: '0 * * * *', catchUp },
+    steps: [{ id: 'at', type: 'set_values', params: { values: { at: '{{trigger.scheduledFor}}' } } }],
+  }));
+  setWorkflowNextRunAt(id, new Date('2026-06-01T08:00:00Z'));
+}
+
+// The times the workflow's runs were scheduled for, and whether each counted as late, once
+// they have all finished.
+async function scheduledRuns(id: string): Promise<[string, boolean][]> {
+  while (listWorkflowRuns(id).some((run) => run.status === 'running')) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  return listWorkflowRuns(id).reverse().map((run) => {
+    const { scheduledFor, late } = getWorkflowRun(id, run.id).input as { scheduledFor: string; late: boolean };
+    return [scheduledFor, late];
+  });
+}
+
+test('makes up missed runs according to the catch-up policy', async () => {
+  for (const [id, catchUp] of [['every-missed', 'all'], ['latest-missed', 'once'], ['none-missed', 'skip']]) hourly(id, catchUp);
+  // Back up at 12:30, after the 12:00 run was also missed.
+  const started = runDueWorkflows(log, new Date('2026-06-01T12:30:00Z'));
+
+  assert.deepEqual(started, ['every-missed', 'latest-missed']);
+  assert.deepEqual(await scheduledRuns('every-missed'), [
+    ['2026-06-01T08:00:00.000Z', true],
+    ['2026-06-01T09:00:00.000Z', true],
+    ['2026-06-01T10:00:00.000Z', true],
+    ['2026-06-01T11:00:00.000Z', true],
+    ['2026-06-01T12:00:00.000Z', true],
+  ]);
+  assert.deepEqual(await scheduledRuns('latest-missed'), [['2026-06-01T12:00:00.000Z', true]]);
+  assert.deepEqual(await scheduledRuns('none-missed'), []);
+  for (const id of ['every-missed', 'latest-missed', 'none-missed']) {
+    assert.equal(getWorkflowNextRunAt(id), '2026-06-01T13:00:00.000Z');
+  }
+  assert.match(warnings.find((warning) => warning.includes('none-missed'))!, /missed 5 scheduled run\(s\).*catching up with 0 \(policy 'skip'\)/);
+});
+
+test("'skip' still starts a run that is due on time", async () => {
+  hourly('on-time', 'skip');
+  // Back up at 12:02: 08:00 to 11:00 were missed, 12:00 is only just due.
+  assert.deepEqual(runDueWorkflows(log, new Date('2026-06-01T12:02:00Z')), ['on-time']);
+  assert.deepEqual(await scheduledRuns('on-time'), [['2026-06-01T12:00:00.000Z', false]]);
+  assert.equal(getWorkflowNextRunAt('on-time'), '2026-06-01T13:00:00.000Z');
+});
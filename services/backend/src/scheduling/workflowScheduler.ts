@@ -0,0 +1,95 @@
+/**
+ * workflowScheduler.ts - starts workflows with schedule triggers. Every interval it runs the
+ * workflows that are due; runs missed while the backend was down are made up according to
+ * each trigger's catch-up policy. A workflow whose previous run is still going when its next
+ * run comes round is skipped rather than run twice.
+ */
+import { FastifyBaseLogger } from 'fastify';
+import { WORKFLOW_MAX_CATCH_UP_RUNS, WORKFLOW_SCHEDULER_INTERVAL_MS } from '../config.js';
+import { listDueWorkflows, scheduleWorkflows, setWorkflowNextRunAt, WorkflowDefinition } from '../workflows/definitions.js';
+import { failInterruptedWorkflowRuns, listWorkflowRuns } from '../workflows/runs.js';
+import { startWorkflow } from '../workflows/engine.js';
+import { nextCronRun, parseCron } from './cron.js';
+
+let timer: NodeJS.Timeout | null = null;
+
+// How late a due run may start and still count as on time rather than missed.
+const onTimeMs = () => Math.max(5 * 60 * 1000, 2 * WORKFLOW_SCHEDULER_INTERVAL_MS);
+
+// Runs the workflow once for each scheduled time, one run after another.
+async function runScheduled(workflow: WorkflowDefinition, times: Date[], now: Date, log: FastifyBaseLogger): Promise<void> {
+  for (const time of times) {
+    const { run, finished } = startWorkflow(workflow.id, {
+      trigger: 'schedule',
+      // Steps can read these as `{{trigger.scheduledFor}}` and `{{trigger.late}}`.
+      input: { scheduledFor: time.toISOString(), late: now.getTime() - time.getTime() > onTimeMs() },
+    });
+    log.info(`Started scheduled run ${run.id} of workflow ${workflow.id} for ${time.toISOString()}`);
+    const result = await finished;
+    log.info(`Scheduled run ${result.id} of workflow ${workflow.id} finished: ${result.status}`);
+  }
+}
+
+/**
+ * Starts the workflows due at `now` without waiting for them; returns the ids of the
+ * workflows started.
+ */
+export function runDueWorkflows(log: FastifyBaseLogger, now = new Date()): string[] {
+  const started: string[] = [];
+  for (const { workflow, dueAt } of listDueWorkflows(now)) {
+    const { cron, timezone, catchUp = 'once' } = workflow.trigger;
+    const schedule = parseCron(cron!);
+    // The latest scheduled times up to now, and how many of all of them were missed.
+    const due: Date[] = [];
+    let missed = 0;
+    for (let time: Date | undefined = dueAt; time && time <= now; time = nextCronRun(schedule, time, timezone)) {
+      if (now.getTime() - time.getTime() > onTimeMs()) missed++;
+      due.push(time);
+      if (due.length > WORKFLOW_MAX_CATCH_UP_RUNS) due.shift();
+    }
+    // Moved on first, so a run that outlasts the interval is not started again.
+    setWorkflowNextRunAt(workflow.id, nextCronRun(schedule, now, timezone));
+
+    const latest = due[due.length - 1];
+    const onTime = now.getTime() - latest.getTime() <= onTimeMs();
+    const times = catchUp === 'all' ? due : catchUp === 'once' || onTime ? [latest] : [];
+    if (missed > 0) {
+      log.warn(`Workflow ${workflow.id} missed ${missed} scheduled run(s) while the backend was down; catching up with ${times.length} (policy '${catchUp}')`);
+    }
+    if (times.length === 0) continue;
+    if (listWorkflowRuns(workflow.id, 1)[0]?.status === 'running') {
+      log.info(`Skipped the scheduled run of workflow ${workflow.id}: the previous run is still going`);
+      continue;
+    }
+    started.push(workflow.id);
+    runScheduled(workflow, times, now, log).catch(
+      (error) => log.warn(`Scheduled run of workflow ${workflow.id} failed: ${error instanceof Error ? error.message : String(error)}`),
+    );
+  }
+  return started;
+}
+
+export function startWorkflowScheduler(log: FastifyBaseLogger, intervalMs = WORKFLOW_SCHEDULER_INTERVAL_MS): void {
+  if (timer) return;
+  const interrupted = failInterruptedWorkflowRuns();
+  if (interrupted > 0) log.warn(`Marked ${interrupted} workflow run(s) interrupted by the last shutdown as failed`);
+  const scheduled = scheduleWorkflows(new Date());
+  if (scheduled > 0) log.info(`Scheduled ${scheduled} workflow(s) that had no next run`);
+
+  const tick = () => {
+    try {
+      runDueWorkflows(log);
+    } catch (error) {
+      log.error(error, 'Failed to start scheduled workflows');
+    }
+  };
+  timer = setInterval(tick, intervalMs);
+  // The scheduler alone should not keep the process alive.
+  timer.unref();
+  tick();
+}
+
+export function stopWorkflowScheduler(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
@@ -0,0 +1,272 @@
+import Database from 'better-sqlite3';
+import path from 'path';
+import { DATA_DIR } from './config.js';
+
+export const STORE_PATH = path.join(DATA_DIR, 'store.db');
+
+// Tables owned by the backend itself, applied in order and tracked with PRAGMA user_version.
+// Append new entries; never edit one that has shipped. Dataset rows live in per-dataset
+// tables (see datasets/storage.ts).
+const MIGRATIONS = [
+  `CREATE TABLE IF NOT EXISTS datasets (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    tags TEXT NOT NULL DEFAULT '[]',
+    source TEXT NOT NULL,
+    table_name TEXT NOT NULL UNIQUE,
+    row_count INTEGER NOT NULL,
+    column_count INTEGER NOT NULL,
+    schema TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`,
+  `ALTER TABLE datasets ADD COLUMN primary_key TEXT`,
+  `ALTER TABLE datasets ADD COLUMN version INTEGER NOT NULL DEFAULT 0;
+  CREATE TABLE IF NOT EXISTS dataset_versions (
+    dataset_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    table_name TEXT NOT NULL UNIQUE,
+    kind TEXT NOT NULL,
+    source TEXT,
+    report TEXT,
+    restored_from INTEGER,
+    row_count INTEGER NOT NULL,
+    schema TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (dataset_id, version)
+  )`,
+  `CREATE VIRTUAL TABLE IF NOT EXISTS dataset_chunks USING fts5(
+    title, content, dataset_id UNINDEXED, first_row UNINDEXED, last_row UNINDEXED
+  );
+  CREATE TABLE IF NOT EXISTS chunk_embeddings (
+    chunk_id INTEGER PRIMARY KEY,
+    dataset_id TEXT NOT NULL,
+    vector BLOB NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS chunk_embeddings_dataset ON chunk_embeddings (dataset_id)`,
+  `CREATE TABLE IF NOT EXISTS metrics (
+    id TEXT PRIMARY KEY,
+    definition TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS oauth_tokens (
+    provider TEXT PRIMARY KEY,
+    access_token TEXT NOT NULL,
+    refresh_token TEXT,
+    expires_at TEXT NOT NULL,
+    scope TEXT,
+    account TEXT,
+    connected_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS drive_folders (
+    folder_id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    watched_at TEXT NOT NULL,
+    synced_at TEXT
+  );
+  CREATE TABLE IF NOT EXISTS drive_files (
+    file_id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    folder_id TEXT,
+    dataset_id TEXT NOT NULL,
+    sheet TEXT,
+    revision TEXT NOT NULL,
+    synced_at TEXT NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS postgres_connections (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    config TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS postgres_syncs (
+    id TEXT PRIMARY KEY,
+    connection_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    source TEXT NOT NULL,
+    cursor_column TEXT,
+    primary_key TEXT,
+    dataset_id TEXT,
+    cursor_value TEXT,
+    last_run_at TEXT,
+    last_status TEXT,
+    last_error TEXT,
+    last_row_count INTEGER,
+    created_at TEXT NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS rest_sources (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    config TEXT NOT NULL,
+    primary_key TEXT,
+    dataset_id TEXT,
+    last_run_at TEXT,
+    last_status TEXT,
+    last_error TEXT,
+    last_row_count INTEGER,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`,
+  // Connector instances replace the per-connector tables for PostgreSQL connections and REST
+  // sources, and record the linked Google Drive account as an instance.
+  `CREATE TABLE IF NOT EXISTS connector_instances (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    name TEXT NOT NULL,
+    config TEXT NOT NULL,
+    state TEXT,
+    last_sync_at TEXT,
+    last_status TEXT,
+    last_error TEXT,
+    last_row_count INTEGER,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  INSERT INTO connector_instances (id, type, name, config, created_at, updated_at)
+    SELECT id, 'postgres', name, config, created_at, updated_at FROM postgres_connections;
+  INSERT INTO connector_instances (id, type, name, config, state, last_sync_at, last_status, last_error, last_row_count, created_at, updated_at)
+    SELECT id, 'rest-api', name,
+      CASE WHEN primary_key IS NULL THEN config ELSE json_set(config, '$.primaryKey', json(primary_key)) END,
+      CASE WHEN dataset_id IS NULL THEN NULL ELSE json_object('datasetId', dataset_id) END,
+      last_run_at, last_status, last_error, last_row_count, created_at, updated_at
+    FROM rest_sources;
+  INSERT INTO connector_instances (id, type, name, config, created_at, updated_at)
+    SELECT 'drive-' || (CAST(strftime('%s', connected_at) AS INTEGER) * 1000), 'google-drive', 'Google Drive', '{}', connected_at, connected_at
+    FROM oauth_tokens WHERE provider = 'google-drive';
+  DROP TABLE postgres_connections;
+  DROP TABLE rest_sources`,
+  // Cron schedules for connector syncs, and the history of every sync run with its log.
+  `ALTER TABLE connector_instances ADD COLUMN schedule TEXT;
+  ALTER TABLE connector_instances ADD COLUMN next_sync_at TEXT;
+  ALTER TABLE connector_instances ADD COLUMN last_run_id TEXT;
+  CREATE TABLE IF NOT EXISTS connector_sync_runs (
+    id TEXT PRIMARY KEY,
+    connector_id TEXT NOT NULL,
+    trigger TEXT NOT NULL,
+    status TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    finished_at TEXT,
+    duration_ms INTEGER,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    row_count INTEGER,
+    error TEXT,
+    log TEXT NOT NULL DEFAULT '[]'
+  );
+  CREATE INDEX IF NOT EXISTS connector_sync_runs_connector ON connector_sync_runs (connector_id, started_at)`,
+  // Chat sessions for /api/qa. Messages up to `summarized_through` are folded into `summary`.
+  `CREATE TABLE IF NOT EXISTS chat_sessions (
+    id TEXT PRIMARY KEY,
+    summary TEXT,
+    summarized_through INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS chat_messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    text TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS chat_messages_session ON chat_messages (session_id, id)`,
+  // Tool calls the analyst made for an answer, as JSON on the answer's message.
+  `ALTER TABLE chat_messages ADD COLUMN tool_calls TEXT`,
+  // Workflow definitions and the history of their runs. The example workflows the Workflows
+  // view used to hard-code are added as definitions (a second apart, to keep their order);
+  // their URLs and metrics are left to fill in, so they start turned off.
+  `CREATE TABLE IF NOT EXISTS workflows (
+    id TEXT PRIMARY KEY,
+    definition TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS workflow_runs (
+    id TEXT PRIMARY KEY,
+    workflow_id TEXT NOT NULL,
+    trigger TEXT NOT NULL,
+    status TEXT NOT NULL,
+    input TEXT,
+    steps TEXT NOT NULL DEFAULT '[]',
+    error TEXT,
+    started_at TEXT NOT NULL,
+    finished_at TEXT,
+    duration_ms INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS workflow_runs_workflow ON workflow_runs (workflow_id, started_at);
+  INSERT INTO workflows (id, definition, created_at, updated_at) VALUES
+    ('monthly-sales-report', '{"id": "monthly-sales-report", "title": "Monthly Sales Report to Slack", "description": "Automatically generates a summary of the last month''s sales performance and posts it to the #sales channel.", "enabled": false, "trigger": {"type": "manual", "name": "Scheduled: 1st of month", "icon": "ClockIcon"}, "steps": [{"id": "sales", "type": "query_metric", "name": "Query Sales Data", "description": "From PostgreSQL", "icon": "TableCellsIcon", "params": {"metric": ""}, "onError": "stop", "retries": 1}, {"id": "summary", "type": "ai_summary", "name": "Generate Summary", "description": "Using AI Engine", "icon": "DocumentChartBarIcon", "params": {"prompt": "Summarise last month''s sales performance for the sales team in a few sentences.", "data": "{{steps.sales.result}}"}, "onError": "stop", "retries": 2}, {"id": "post", "type": "slack_message", "name": "Post to Slack", "description": "Channel: #sales", "icon": "PaperAirplaneIcon", "params": {"webhookUrl": "", "text": "{{steps.summary.text}}"}, "onError": "stop", "retries": 3}]}', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    ('high-value-lead-alert', '{"id": "high-value-lead-alert", "title": "New High-Value Lead Alert", "description": "When a new lead with a value over $10,000 is added via an external tool, notify the senior sales team via email.", "enabled": false, "trigger": {"type": "manual", "name": "REST API: New Lead", "icon": "UserPlusIcon"}, "steps": [{"id": "contact", "type": "set_values", "name": "Get Contact Details", "description": "From API Payload", "icon": "UserPlusIcon", "params": {"values": {"name": "{{trigger.name}}", "email": "{{trigger.email}}", "value": "{{trigger.value}}"}}, "onError": "stop", "retries": 0}, {"id": "email", "type": "http_request", "name": "Send Email", "description": "To sales-leads@43v3r.tech", "icon": "EnvelopeIcon", "params": {"url": "", "method": "POST", "body": {"to": "sales-leads@43v3r.tech", "subject": "New high-value lead: {{steps.contact.values.name}}", "text": "{{steps.contact.values.name}} ({{steps.contact.values.email}}) is worth {{steps.contact.values.value}}."}}, "onError": "continue", "retries": 3}, {"id": "task", "type": "http_request", "name": "Create Task", "description": "In internal CRM", "icon": "TicketIcon", "params": {"url": "", "method": "POST", "body": {"title": "Follow up with {{steps.contact.values.name}}", "contact": "{{steps.contact.values}}"}}, "onError": "stop", "retries": 3}]}', strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '+1 seconds'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '+1 seconds')),
+    ('csat-drop-alert', '{"id": "csat-drop-alert", "title": "CSAT Score Drop Notification", "description": "If the average CSAT score for the week drops below 90%, create a high-priority ticket for the support manager.", "enabled": false, "trigger": {"type": "manual", "name": "KPI Threshold Alert", "icon": "MegaphoneIcon"}, "steps": [{"id": "csat", "type": "query_metric", "name": "Monitor CSAT KPI", "description": "Real-time dashboard data", "icon": "ChatBubbleBottomCenterTextIcon", "params": {"metric": ""}, "onError": "stop", "retries": 1}, {"id": "below", "type": "condition", "name": "Below 90%?", "description": "Stops here when CSAT is at least 90", "icon": "FunnelIcon", "params": {"value": "{{steps.csat.value}}", "operator": "<", "threshold": 90}, "onError": "stop", "retries": 0}, {"id": "ticket", "type": "http_request", "name": "Create Support Ticket", "description": "Assign to Support Lead", "icon": "TicketIcon", "params": {"url": "", "method": "POST", "body": {"title": "CSAT dropped to {{steps.csat.formatted}}", "priority": "high", "assignee": "support-lead"}}, "onError": "continue", "retries": 3}, {"id": "alert", "type": "slack_message", "name": "Send Slack Alert", "description": "Channel: #support-alerts", "icon": "PaperAirplaneIcon", "params": {"webhookUrl": "", "text": "CSAT dropped to {{steps.csat.formatted}} ({{steps.csat.change}})."}, "onError": "stop", "retries": 3}]}', strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '+2 seconds'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '+2 seconds'))`,
+  // When each scheduled workflow next runs. The monthly sales report gets the schedule its
+  // trigger's name describes: 09:00 UTC on the 1st, run once for any months missed.
+  `ALTER TABLE workflows ADD COLUMN next_run_at TEXT;
+  UPDATE workflows
+    SET definition = json_set(definition, '$.trigger.type', 'schedule', '$.trigger.cron', '0 9 1 * *', '$.trigger.timezone', 'UTC', '$.trigger.catchUp', 'once')
+    WHERE id = 'monthly-sales-report' AND json_extract(definition, '$.trigger.type') = 'manual'`,
+  // Secrets for workflows started by webhooks. The high-value lead alert becomes the webhook
+  // its trigger's name describes, for leads worth more than 10,000; its secret is generated
+  // from its card.
+  `ALTER TABLE workflows ADD COLUMN webhook_secret TEXT;
+  UPDATE workflows
+    SET definition = json_set(definition, '$.trigger.type', 'webhook', '$.trigger.auth', 'api_key',
+      '$.trigger.schema', json('{"type": "object", "required": ["name", "email", "value"], "properties": {"name": {"type": "string", "minLength": 1}, "email": {"type": "string", "format": "email"}, "value": {"type": "number"}}}'),
+      '$.trigger.conditions', json('["value > 10000"]'))
+    WHERE id = 'high-value-lead-alert' AND json_extract(definition, '$.trigger.type') = 'manual'`,
+  // Webhook secrets are no longer stored: only a hash to check API keys against, and the salt
+  // the secret is derived from with the key in WEBHOOK_KEY_FILE (see workflows/webhooks.ts).
+  // Secrets generated before this have to be generated again.
+  `ALTER TABLE workflows ADD COLUMN webhook_key_hash TEXT;
+  ALTER TABLE workflows ADD COLUMN webhook_key_salt TEXT;
+  ALTER TABLE workflows DROP COLUMN webhook_secret`,
+  // Overview chunks cover no rows, so they get no row range rather than 0-0. Chunks are only
+  // retrieved with BM25, so the unused embeddings table goes.
+  `UPDATE dataset_chunks SET first_row = NULL, last_row = NULL WHERE first_row = 0;
+  DROP TABLE IF EXISTS chunk_embeddings`,
+];
+
+function migrate(db: Database.Database): void {
+  const version = db.pragma('user_version', { simple: true }) as number;
+  MIGRATIONS.slice(version).forEach((sql, index) => {
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${version + index + 1}`);
+    })();
+  });
+}
+
+let store: Database.Database | null = null;
+let readOnlyStore: Database.Database | null = null;
+
+/**
+ * The embedded SQLite store under DATA_DIR, opened on first use. The data directory must
+ * already exist (index.ts creates it on startup).
+ */
+export function getStore(): Database.Database {
+  if (!store) {
+    store = new Database(STORE_PATH);
+    store.pragma('journal_mode = WAL');
+    migrate(store);
+  }
+  return store;
+}
+
+// A separate read-only connection so user-supplied SQL can never modify the store.
+export function getReadOnlyStore(): Database.Database {
+  if (!readOnlyStore) {
+    getStore();
+    readOnlyStore = new Database(STORE_PATH, { readonly: true, fileMustExist: true });
+  }
+  return readOnlyStore;
+}
+
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+// Lets long write loops give other requests a turn on the event loop.
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
@@ -0,0 +1,59 @@
+import { FastifyInstance } from 'fastify';
+import { getWorkflow } from './workflows/definitions.js';
+import { authenticateWebhook, unmetWebhookCondition } from './workflows/webhooks.js';
+import { validateJsonSchema } from './workflows/jsonSchema.js';
+import { startWorkflow } from './workflows/engine.js';
+import { HttpError, sendError } from './errors.js';
+
+/**
+ * Inbound webhooks (workflows/webhooks.ts): external tools POST a JSON payload to a workflow's
+ * URL, and a run starts with the payload as its input when the request is authenticated, the
+ * payload matches the trigger's schema and meets its conditions.
+ */
+export default async function routes(server: FastifyInstance) {
+  // Bodies are kept as sent, since HMAC signatures are over the exact bytes; they are parsed
+  // in the route. This parser only applies to the routes registered here.
+  server.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => done(null, body));
+
+  // Starts a run of the workflow: answers 202 { status: 'started', runId }, or 200
+  // { status: 'ignored', reason } when a condition is not met.
+  server.post('/api/webhooks/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      const workflow = getWorkflow(id);
+      const { trigger } = workflow;
+      if (trigger.type !== 'webhook') throw new HttpError(404, `Workflow '${id}' is not started by a webhook.`);
+      const rawBody = typeof request.body === 'string' ? request.body : '';
+      authenticateWebhook(id, trigger.auth ?? 'api_key', request.headers, rawBody);
+      if (!workflow.enabled) throw new HttpError(409, `Workflow '${id}' is turned off.`);
+
+      let payload: unknown = {};
+      if (rawBody.trim()) {
+        try {
+          payload = JSON.parse(rawBody);
+        } catch {
+          throw new HttpError(400, 'The request body is not valid JSON.');
+        }
+      }
+      if (trigger.schema) {
+        const errors = validateJsonSchema(payload, trigger.schema);
+        if (errors.length > 0) throw new HttpError(400, `The payload does not match the workflow's schema: ${errors.join(' ')}`);
+      }
+      const unmet = unmetWebhookCondition(payload, trigger.conditions ?? []);
+      if (unmet) {
+        server.log.info(`Ignored a webhook for workflow ${id}: ${unmet}`);
+        return { status: 'ignored', reason: `Condition not met: ${unmet}.` };
+      }
+
+      const { run, finished } = startWorkflow(id, { trigger: 'webhook', input: payload });
+      server.log.info(`Started run ${run.id} of workflow ${id} from its webhook`);
+      finished.then(
+        (result) => server.log.info(`Run ${result.id} of workflow ${id} finished: ${result.status}`),
+        (error) => server.log.error(error, `Run ${run.id} of workflow ${id} could not be recorded`),
+      );
+      return reply.status(202).send({ status: 'started', runId: run.id });
+    } catch (error) {
+      return sendError(reply, error, `Failed to handle the webhook for workflow ${id}`);
+    }
+  });
+}
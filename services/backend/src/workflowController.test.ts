@@ -0,0 +1,62 @@
+/**
+ * GET /api/workflows/schedule-preview, which the workflow builder shows the next runs of a
+ * schedule from while it is edited.
+ */
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import Fastify from 'fastify';
+
+// The store opens under DATA_DIR, so it is pointed at a fresh directory before it loads.
+const dataDir = await mkdtemp(path.join(tmpdir(), 'workflow-routes-test-'));
+process.env.DATA_DIR = dataDir;
+const { default: workflowRoutes } = await import('./workflowController.js');
+
+const server = Fastify();
+
+before(() => server.register(workflowRoutes));
+
+after(async () => {
+  await server.close();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+function preview(query: Record<string, string>) {
+  return server.inject({ method: 'GET', url: '/api/workflows/schedule-preview', query });
+}
+
+test('lists the next runs of a schedule in its time zone', async () => {
+  const requestedAt = Date.now();
+  const response = await preview({ cron: '0 9 * * *', timezone: 'asia/tokyo', count: '3' });
+  assert.equal(response.statusCode, 200);
+  const { cron, timezone, nextRuns } = response.json();
+  assert.deepEqual([cron, timezone], ['0 9 * * *', 'Asia/Tokyo']);
+
+  // 09:00 in Tokyo is midnight UTC, on three days in a row starting within a day from now.
+  assert.equal(nextRuns.length, 3);
+  const times = nextRuns.map((run: string) => new Date(run).getTime());
+  assert.ok(nextRuns.every((run: string) => run.endsWith('T00:00:00.000Z')), nextRuns.join());
+  assert.ok(times[0] > requestedAt && times[0] <= requestedAt + 24 * 60 * 60 * 1000);
+  assert.deepEqual(times.slice(1).map((time: number, index: number) => time - times[index]), [86_400_000, 86_400_000]);
+});
+
+test('lists five runs by default and at most twenty', async () => {
+  assert.equal((await preview({ cron: '*/5 * * * *' })).json().nextRuns.length, 5);
+  const capped = (await preview({ cron: '*/5 * * * *', count: '500' })).json();
+  assert.equal(capped.timezone, 'UTC');
+  assert.equal(capped.nextRuns.length, 20);
+});
+
+test('refuses a missing or invalid schedule with a 400', async () => {
+  for (const [query, error] of [
+    [{}, /`cron` is required/],
+    [{ cron: '0 25 * * *' }, /'25' is not a valid hour/],
+    [{ cron: '0 9 * * *', timezone: 'Mars/Olympus' }, /Unknown time zone/],
+  ] as const) {
+    const response = await preview(query);
+    assert.equal(response.statusCode, 400);
+    assert.match(response.json().error, error);
+  }
+});
@@ -0,0 +1,180 @@
+import { FastifyInstance } from 'fastify';
+import {
+  listWorkflows,
+  getWorkflow,
+  createWorkflow,
+  replaceWorkflow,
+  setWorkflowEnabled,
+  deleteWorkflow,
+  parseWorkflowDefinition,
+  getWorkflowNextRunAt,
+  WORKFLOW_TRIGGERS,
+} from './workflows/definitions.js';
+import { WORKFLOW_STEP_TYPES } from './workflows/steps.js';
+import { listWorkflowRuns, getWorkflowRun } from './workflows/runs.js';
+import { hasWebhookSecret, rotateWebhookSecret } from './workflows/webhooks.js';
+import { startWorkflow } from './workflows/engine.js';
+import { checkTimeZone, nextCronRun, parseCron } from './scheduling/cron.js';
+import { HttpError, sendError } from './errors.js';
+
+// Most upcoming runs a schedule preview lists.
+const MAX_PREVIEW_RUNS = 20;
+
+/**
+ * Workflow definitions (workflows/definitions.ts), runs started by hand, the run history of
+ * each workflow and webhook secrets. Webhooks themselves are received in webhookController.ts.
+ */
+export default async function routes(server: FastifyInstance) {
+  // What the workflow builder offers: the trigger types, and the step types with their typed
+  // inputs and outputs.
+  server.get('/api/workflows/catalog', async () => ({
+    triggers: WORKFLOW_TRIGGERS,
+    stepTypes: WORKFLOW_STEP_TYPES.map(({ run, skipsRest, ...stepType }) => stepType),
+  }));
+
+  // The next times a schedule runs, for the builder to show while it is edited:
+  // ?cron=0 9 * * 1&timezone=Europe/London&count=5
+  server.get('/api/workflows/schedule-preview', async (request, reply) => {
+    const { cron, timezone, count } = request.query as { cron?: string; timezone?: string; count?: string };
+    try {
+      if (!cron?.trim()) throw new HttpError(400, '`cron` is required.');
+      const schedule = parseCron(cron);
+      const zone = checkTimeZone(timezone?.trim() || 'UTC');
+      const nextRuns: string[] = [];
+      let after: Date | undefined = new Date();
+      while (nextRuns.length < Math.min(Number(count) || 5, MAX_PREVIEW_RUNS)) {
+        after = nextCronRun(schedule, after, zone);
+        if (!after) break;
+        nextRuns.push(after.toISOString());
+      }
+      return { cron: schedule.expression, timezone: zone, nextRuns };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to preview the schedule');
+    }
+  });
+
+  // Every workflow with its latest run, if it has run, its next scheduled run and whether it
+  // has a webhook secret (the secret itself is never listed).
+  server.get('/api/workflows', async (request, reply) => {
+    try {
+      return {
+        workflows: listWorkflows().map((workflow) => ({
+          ...workflow,
+          lastRun: listWorkflowRuns(workflow.id, 1)[0],
+          nextRunAt: getWorkflowNextRunAt(workflow.id),
+          hasWebhookSecret: hasWebhookSecret(workflow.id),
+        })),
+      };
+    } catch (error) {
+      return sendError(reply, error, 'Failed to list workflows');
+    }
+  });
+
+  // Creates a workflow, e.g.
+  // { "title": "Weekly revenue",
+  //   "trigger": { "type": "schedule", "name": "Every Monday", "cron": "0 9 * * 1", "timezone": "Europe/London" },
+  //   "steps": [{ "id": "revenue", "type": "query_metric", "params": { "metric": "total-revenue" } },
+  //             { "id": "post", "type": "slack_message", "params": { "webhookUrl": "https://hooks.slack.com/...",
+  //               "text": "Revenue: {{steps.revenue.formatted}} ({{steps.revenue.change}})" } }] }
+  server.post('/api/workflows', async (request, reply) => {
+    try {
+      const workflow = createWorkflow(parseWorkflowDefinition(request.body));
+      server.log.info(`Created workflow ${workflow.id}`);
+      return reply.status(201).send(workflow);
+    } catch (error) {
+      return sendError(reply, error, 'Failed to create the workflow');
+    }
+  });
+
+  server.get('/api/workflows/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      return getWorkflow(id);
+    } catch (error) {
+      return sendError(reply, error, `Failed to read workflow ${id}`);
+    }
+  });
+
+  server.put('/api/workflows/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      return replaceWorkflow(parseWorkflowDefinition(request.body, id));
+    } catch (error) {
+      return sendError(reply, error, `Failed to update workflow ${id}`);
+    }
+  });
+
+  // Turns a workflow on or off: { enabled }. A workflow whose steps are incomplete is refused
+  // with a 422.
+  server.patch('/api/workflows/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      return setWorkflowEnabled(id, (request.body as any)?.enabled);
+    } catch (error) {
+      return sendError(reply, error, `Failed to update workflow ${id}`);
+    }
+  });
+
+  server.delete('/api/workflows/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      deleteWorkflow(id);
+      server.log.info(`Deleted workflow ${id}`);
+      return { status: 'ok' };
+    } catch (error) {
+      return sendError(reply, error, `Failed to delete workflow ${id}`);
+    }
+  });
+
+  // Runs a workflow by hand: { input? }, which steps read as `{{trigger.<field>}}`. Answers
+  // with the new run at once; its progress is read from the run history.
+  server.post('/api/workflows/:id/runs', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      const { run, finished } = startWorkflow(id, { trigger: 'manual', input: (request.body as any)?.input });
+      server.log.info(`Started run ${run.id} of workflow ${id}`);
+      finished.then(
+        (result) => server.log.info(`Run ${result.id} of workflow ${id} finished: ${result.status}`),
+        (error) => server.log.error(error, `Run ${run.id} of workflow ${id} could not be recorded`),
+      );
+      return reply.status(202).send(run);
+    } catch (error) {
+      return sendError(reply, error, `Failed to run workflow ${id}`);
+    }
+  });
+
+  // Generates a new webhook secret, replacing any old one: { secret }. This is the only time
+  // the secret is shown.
+  server.post('/api/workflows/:id/webhook-secret', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      if (getWorkflow(id).trigger.type !== 'webhook') throw new HttpError(400, `Workflow '${id}' is not started by a webhook.`);
+      const secret = rotateWebhookSecret(id);
+      server.log.info(`Generated a new webhook secret for workflow ${id}`);
+      return { secret };
+    } catch (error) {
+      return sendError(reply, error, `Failed to generate a webhook secret for workflow ${id}`);
+    }
+  });
+
+  // The workflow's runs, newest first, with each step's status and timing.
+  server.get('/api/workflows/:id/runs', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    try {
+      getWorkflow(id);
+      return { runs: listWorkflowRuns(id) };
+    } catch (error) {
+      return sendError(reply, error, `Failed to list the runs of workflow ${id}`);
+    }
+  });
+
+  // One run with each step's inputs, outputs and log.
+  server.get('/api/workflows/:id/runs/:runId', async (request, reply) => {
+    const { id, runId } = request.params as { id: string; runId: string };
+    try {
+      return getWorkflowRun(id, runId);
+    } catch (error) {
+      return sendError(reply, error, `Failed to read run ${runId}`);
+    }
+  });
+}
@@ -0,0 +1,35 @@
+/**
+ * Turning workflows on: the example workflows the store is seeded with have empty URLs and
+ * metrics, and must stay off until those are filled in.
+ */
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// The store opens under DATA_DIR, so it is pointed at a fresh directory before it loads.
+const dataDir = await mkdtemp(path.join(tmpdir(), 'workflows-test-'));
+process.env.DATA_DIR = dataDir;
+const { getWorkflow, parseWorkflowDefinition, replaceWorkflow, setWorkflowEnabled } = await import('./definitions.js');
+
+after(() => rm(dataDir, { recursive: true, force: true }));
+
+test('refuses to turn on a workflow whose required step params are empty', () => {
+  assert.throws(() => setWorkflowEnabled('high-value-lead-alert', true), {
+    statusCode: 422,
+    message: /New High-Value Lead Alert' cannot be turned on until its steps are filled in\. .*`url` is required/,
+  });
+  assert.equal(getWorkflow('high-value-lead-alert').enabled, false);
+  // Turning one off never needs its steps to be complete.
+  assert.equal(setWorkflowEnabled('high-value-lead-alert', false).enabled, false);
+});
+
+test('turns a workflow on once its steps are filled in', () => {
+  const workflow = getWorkflow('high-value-lead-alert');
+  const steps = workflow.steps.map((step) => (step.type === 'http_request' ? { ...step, params: { ...step.params, url: 'https://crm.example.com/hooks' } } : step));
+  replaceWorkflow(parseWorkflowDefinition({ ...workflow, steps }, workflow.id));
+
+  assert.equal(setWorkflowEnabled('high-value-lead-alert', true).enabled, true);
+  assert.equal(getWorkflow('high-value-lead-alert').enabled, true);
+});
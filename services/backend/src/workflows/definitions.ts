@@ -0,0 +1,335 @@
+import { getStore } from '../store.js';
+import { HttpError } from '../errors.js';
+import { timestampId } from '../ids.js';
+import { getWorkflowStepType, WorkflowStepType } from './steps.js';
+import { convertInput, referencesIn } from './params.js';
+import { checkTimeZone, nextCronRun, parseCron } from '../scheduling/cron.js';
+import { formatWebhookCondition, parseWebhookCondition, WebhookAuth, WEBHOOK_AUTH_MODES } from './webhooks.js';
+import { checkJsonSchema, JsonSchema } from './jsonSchema.js';
+
+/**
+ * Workflows are stored as JSON definitions in the `workflows` table and managed through
+ * /api/workflows. A definition is a trigger followed by a chain of steps, each of a type from
+ * the step catalog (steps.ts). Step parameters are literal values or `{{path}}` references
+ * to the trigger's input or an earlier step's outputs, e.g. `{{steps.sales.formatted}}`;
+ * engine.ts resolves them when the workflow runs. Icons are Heroicon names, as for metrics.
+ * Scheduled workflows also keep when they next run (`next_run_at`), for the scheduler in
+ * scheduling/workflowScheduler.ts, and webhook-triggered ones what their secret is checked
+ * with (webhooks.ts).
+ */
+export type WorkflowTriggerType = 'manual' | 'schedule' | 'webhook';
+export type StepErrorPolicy = 'stop' | 'continue';
+// What becomes of scheduled runs missed while the backend was down: none are made up, one run
+// stands in for all of them, or each is run in turn.
+export type CatchUpPolicy = 'skip' | 'once' | 'all';
+
+export const STEP_ERROR_POLICIES: StepErrorPolicy[] = ['stop', 'continue'];
+export const CATCH_UP_POLICIES: CatchUpPolicy[] = ['skip', 'once', 'all'];
+
+// Most times a failing step is retried after its first attempt.
+export const MAX_STEP_RETRIES = 5;
+
+// A kind of trigger offered by the workflow builder.
+export interface WorkflowTriggerOption {
+  type: WorkflowTriggerType;
+  label: string;
+  description: string;
+  // Heroicon given to new triggers of this type.
+  icon: string;
+}
+
+export const WORKFLOW_TRIGGERS: WorkflowTriggerOption[] = [
+  { type: 'manual', label: 'Manual', description: 'Runs when started from its card or through the API.', icon: 'HandRaisedIcon' },
+  { type: 'schedule', label: 'Schedule', description: 'Runs on a cron schedule in a time zone of your choice, and can still be run by hand.', icon: 'ClockIcon' },
+  { type: 'webhook', label: 'Webhook', description: 'Runs when an external tool POSTs to its URL with the webhook secret; steps read the payload as `{{trigger.<field>}}`.', icon: 'GlobeAltIcon' },
+];
+
+export interface WorkflowTrigger {
+  type: WorkflowTriggerType;
+  // Shown on the workflow card, e.g. 'Scheduled: 1st of month'.
+  name: string;
+  icon?: string;
+  // Schedule triggers: a cron expression, read in an IANA time zone (UTC by default).
+  cron?: string;
+  timezone?: string;
+  catchUp?: CatchUpPolicy;
+  // Webhook triggers: how requests prove they know the secret, the JSON Schema the payload
+  // must match, and conditions it must meet, e.g. 'value > 10000'.
+  auth?: WebhookAuth;
+  schema?: JsonSchema;
+  conditions?: string[];
+}
+
+export interface WorkflowStepDefinition {
+  // Unique within the workflow; later steps refer to the outputs as `steps.<id>.<output>`.
+  id: string;
+  type: string;
+  name: string;
+  description: string;
+  icon?: string;
+  params: Record<string, unknown>;
+  // What happens when the step still fails after its retries: the run stops, or carries on
+  // with the next step.
+  onError: StepErrorPolicy;
+  retries: number;
+}
+
+export interface WorkflowDefinition {
+  id: string;
+  title: string;
+  description: string;
+  // Only enabled workflows are started by their trigger; any workflow can be run by hand.
+  enabled: boolean;
+  trigger: WorkflowTrigger;
+  steps: WorkflowStepDefinition[];
+}
+
+const WORKFLOW_ID_RE = /^[a-z0-9][a-z0-9_-]*$/;
+const STEP_ID_RE = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+function fail(message: string): never {
+  throw new HttpError(400, message);
+}
+
+function requiredText(input: any, field: string, label = `\`${field}\``): string {
+  if (typeof input[field] !== 'string' || !input[field].trim()) fail(`${label} is required.`);
+  return input[field].trim();
+}
+
+function optionalText(input: any, field: string, label = `\`${field}\``): string | undefined {
+  if (input[field] === undefined || input[field] === null || input[field] === '') return undefined;
+  if (typeof input[field] !== 'string') fail(`${label} must be a string.`);
+  return input[field].trim();
+}
+
+function oneOf<T extends string>(value: unknown, allowed: T[], label: string): T {
+  if (!allowed.includes(value as T)) fail(`${label} must be one of: ${allowed.join(', ')}.`);
+  return value as T;
+}
+
+function parseTrigger(input: any): WorkflowTrigger {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) fail('`trigger` must be an object.');
+  const icon = optionalText(input, 'icon', '`trigger.icon`');
+  const trigger: WorkflowTrigger = {
+    type: oneOf(input.type ?? 'manual', WORKFLOW_TRIGGERS.map((option) => option.type), '`trigger.type`'),
+    name: requiredText(input, 'name', '`trigger.name`'),
+    ...(icon ? { icon } : {}),
+  };
+  if (trigger.type === 'schedule') {
+    trigger.cron = parseCron(requiredText(input, 'cron', '`trigger.cron`')).expression;
+    trigger.timezone = checkTimeZone(optionalText(input, 'timezone', '`trigger.timezone`') ?? 'UTC');
+    trigger.catchUp = oneOf(input.catchUp ?? 'once', CATCH_UP_POLICIES, '`trigger.catchUp`');
+  }
+  if (trigger.type === 'webhook') {
+    trigger.auth = oneOf(input.auth ?? 'api_key', WEBHOOK_AUTH_MODES, '`trigger.auth`');
+    if (input.schema !== undefined && input.schema !== null) trigger.schema = checkJsonSchema(input.schema, 'trigger.schema');
+    if (input.conditions !== undefined && input.conditions !== null) {
+      if (!Array.isArray(input.conditions) || input.conditions.some((condition: unknown) => typeof condition !== 'string')) {
+        fail('`trigger.conditions` must be a list of conditions, e.g. ["value > 10000"].');
+      }
+      const conditions = (input.conditions as string[]).filter((condition) => condition.trim());
+      if (conditions.length > 0) trigger.conditions = conditions.map((condition) => formatWebhookCondition(parseWebhookCondition(condition)));
+    }
+  }
+  return trigger;
+}
+
+function parseStep(input: any, index: number): WorkflowStepDefinition {
+  const label = `Step ${index + 1}`;
+  if (!input || typeof input !== 'object' || Array.isArray(input)) fail(`${label} must be an object.`);
+  if (typeof input.id !== 'string' || !STEP_ID_RE.test(input.id)) {
+    fail(`${label} needs an \`id\` of letters, digits and underscores, starting with a letter.`);
+  }
+  const stepType = getWorkflowStepType(requiredText(input, 'type', `${label}'s \`type\``));
+  if (input.params !== undefined && (typeof input.params !== 'object' || input.params === null || Array.isArray(input.params))) {
+    fail(`${label}'s \`params\` must be an object.`);
+  }
+  const retries = input.retries ?? 0;
+  if (!Number.isInteger(retries) || retries < 0 || retries > MAX_STEP_RETRIES) {
+    fail(`${label}'s \`retries\` must be a whole number from 0 to ${MAX_STEP_RETRIES}.`);
+  }
+  const icon = optionalText(input, 'icon', `${label}'s \`icon\``);
+  return {
+    id: input.id,
+    type: stepType.type,
+    name: optionalText(input, 'name', `${label}'s \`name\``) || stepType.label,
+    description: optionalText(input, 'description', `${label}'s \`description\``) ?? '',
+    ...(icon ? { icon } : {}),
+    params: input.params ?? {},
+    onError: oneOf(input.onError ?? 'stop', STEP_ERROR_POLICIES, `${label}'s \`onError\``),
+    retries,
+  };
+}
+
+function checkReference(path: string, earlier: Map<string, WorkflowStepType>, label: string): void {
+  const [root, stepId, output] = path.split('.');
+  if (root === 'trigger') return;
+  if (root !== 'steps') fail(`${label}: '{{${path}}}' must start with 'trigger.' or 'steps.'.`);
+  const stepType = earlier.get(stepId);
+  if (!stepType) fail(`${label} refers to step '${stepId}', which does not run before it.`);
+  if (output !== undefined && !(output in stepType.outputs)) {
+    fail(`${label} refers to '${output}' of step '${stepId}', which only has: ${Object.keys(stepType.outputs).join(', ')}.`);
+  }
+}
+
+// Checks each step's parameters against its step type. Values with references are only
+// checked once they resolve, when the workflow runs.
+function checkParams(steps: WorkflowStepDefinition[]): void {
+  const earlier = new Map<string, WorkflowStepType>();
+  for (const [index, step] of steps.entries()) {
+    const label = `Step ${index + 1} ('${step.name}')`;
+    const stepType = getWorkflowStepType(step.type);
+    for (const name of Object.keys(step.params)) {
+      if (!(name in stepType.inputs)) {
+        fail(`${label} has no parameter \`${name}\`; ${stepType.label} takes: ${Object.keys(stepType.inputs).join(', ')}.`);
+      }
+    }
+    for (const [name, field] of Object.entries(stepType.inputs)) {
+      const references = referencesIn(step.params[name]);
+      for (const path of references) checkReference(path, earlier, `${label}'s \`${name}\``);
+      if (references.length > 0) continue;
+      try {
+        convertInput(step.params[name], field, name);
+      } catch (error) {
+        fail(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    earlier.set(step.id, stepType);
+  }
+}
+
+/**
+ * Checks a definition from an API request, including each step's parameters against its
+ * step type.
+ */
+export function parseWorkflowDefinition(input: any, id?: string): WorkflowDefinition {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) fail('A workflow definition object is required.');
+  const workflowId = id ?? input.id ?? timestampId('workflow');
+  if (typeof workflowId !== 'string' || !WORKFLOW_ID_RE.test(workflowId)) {
+    fail('`id` must be lowercase letters, digits, dashes or underscores.');
+  }
+  if (!Array.isArray(input.steps) || input.steps.length === 0) fail('A workflow needs at least one step in `steps`.');
+  const steps = input.steps.map(parseStep);
+  const seen = new Set<string>();
+  for (const step of steps) {
+    if (seen.has(step.id)) fail(`Two steps have the id '${step.id}'.`);
+    seen.add(step.id);
+  }
+  checkParams(steps);
+  return {
+    id: workflowId,
+    title: requiredText(input, 'title'),
+    description: optionalText(input, 'description') ?? '',
+    enabled: input.enabled === undefined ? false : Boolean(input.enabled),
+    trigger: parseTrigger(input.trigger),
+    steps,
+  };
+}
+
+export function listWorkflows(): WorkflowDefinition[] {
+  const rows = getStore().prepare('SELECT definition FROM workflows ORDER BY created_at, id').all() as { definition: string }[];
+  return rows.map((row) => JSON.parse(row.definition));
+}
+
+export function getWorkflow(id: string): WorkflowDefinition {
+  const row = getStore().prepare('SELECT definition FROM workflows WHERE id = ?').get(id) as { definition: string } | undefined;
+  if (!row) {
+    throw new HttpError(404, `Workflow '${id}' not found.`);
+  }
+  return JSON.parse(row.definition);
+}
+
+export function createWorkflow(definition: WorkflowDefinition): WorkflowDefinition {
+  const db = getStore();
+  if (db.prepare('SELECT 1 FROM workflows WHERE id = ?').get(definition.id)) {
+    throw new HttpError(409, `Workflow '${definition.id}' already exists.`);
+  }
+  const now = new Date();
+  db.prepare('INSERT INTO workflows (id, definition, next_run_at, created_at, updated_at) VALUES (?, ?, ?, ?, ?)')
+    .run(definition.id, JSON.stringify(definition), nextScheduledRun(definition, now)?.toISOString() ?? null, now.toISOString(), now.toISOString());
+  return definition;
+}
+
+// A changed schedule, or a workflow turned back on, next runs at the schedule's next time from now.
+export function replaceWorkflow(definition: WorkflowDefinition): WorkflowDefinition {
+  const now = new Date();
+  const result = getStore()
+    .prepare('UPDATE workflows SET definition = ?, next_run_at = ?, updated_at = ? WHERE id = ?')
+    .run(JSON.stringify(definition), nextScheduledRun(definition, now)?.toISOString() ?? null, now.toISOString(), definition.id);
+  if (result.changes === 0) {
+    throw new HttpError(404, `Workflow '${definition.id}' not found.`);
+  }
+  return definition;
+}
+
+/**
+ * Turns a workflow on or off. It is only turned on once its steps pass the same checks as in
+ * the builder, so that e.g. an example workflow whose URLs are still empty stays off; a 422
+ * HttpError says what is missing.
+ */
+export function setWorkflowEnabled(id: string, enabled: unknown): WorkflowDefinition {
+  if (typeof enabled !== 'boolean') fail('`enabled` must be true or false.');
+  const workflow = getWorkflow(id);
+  if (enabled) {
+    try {
+      checkParams(workflow.steps);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new HttpError(422, `'${workflow.title}' cannot be turned on until its steps are filled in. ${reason}`);
+    }
+  }
+  return replaceWorkflow({ ...workflow, enabled });
+}
+
+// Removes the workflow and its run history.
+export function deleteWorkflow(id: string): void {
+  const db = getStore();
+  const result = db.prepare('DELETE FROM workflows WHERE id = ?').run(id);
+  if (result.changes === 0) {
+    throw new HttpError(404, `Workflow '${id}' not found.`);
+  }
+  db.prepare('DELETE FROM workflow_runs WHERE workflow_id = ?').run(id);
+}
+
+/**
+ * When a workflow's schedule next runs after `after`; undefined for workflows that are off or
+ * not started by a schedule.
+ */
+export function nextScheduledRun(definition: WorkflowDefinition, after: Date): Date | undefined {
+  const { trigger } = definition;
+  if (!definition.enabled || trigger.type !== 'schedule' || !trigger.cron) return undefined;
+  return nextCronRun(parseCron(trigger.cron), after, trigger.timezone);
+}
+
+export function getWorkflowNextRunAt(id: string): string | undefined {
+  const row = getStore().prepare('SELECT next_run_at FROM workflows WHERE id = ?').get(id) as { next_run_at: string | null } | undefined;
+  return row?.next_run_at ?? undefined;
+}
+
+export function setWorkflowNextRunAt(id: string, next: Date | undefined): void {
+  getStore().prepare('UPDATE workflows SET next_run_at = ? WHERE id = ?').run(next?.toISOString() ?? null, id);
+}
+
+// Scheduled workflows whose next run is due at `now`, with the time it was due.
+export function listDueWorkflows(now: Date): { workflow: WorkflowDefinition; dueAt: Date }[] {
+  const rows = getStore().prepare(`
+    SELECT definition, next_run_at FROM workflows WHERE next_run_at IS NOT NULL AND next_run_at <= ? ORDER BY next_run_at
+  `).all(now.toISOString()) as { definition: string; next_run_at: string }[];
+  return rows.map((row) => ({ workflow: JSON.parse(row.definition), dueAt: new Date(row.next_run_at) }));
+}
+
+/**
+ * Gives enabled scheduled workflows without a next run one, e.g. those scheduled by a
+ * migration. Returns how many were scheduled.
+ */
+export function scheduleWorkflows(now: Date): number {
+  const rows = getStore().prepare('SELECT definition FROM workflows WHERE next_run_at IS NULL').all() as { definition: string }[];
+  let scheduled = 0;
+  for (const definition of rows.map((row) => JSON.parse(row.definition) as WorkflowDefinition)) {
+    const next = nextScheduledRun(definition, now);
+    if (!next) continue;
+    setWorkflowNextRunAt(definition.id, next);
+    scheduled++;
+  }
+  return scheduled;
+}
@@ -0,0 +1,162 @@
+/**
+ * engine.ts - runs workflows. Steps run one after another; each step's parameters are resolved
+ * against the trigger's input and the outputs of the steps before it, converted to the types
+ * its step type declares, and the step is retried with exponential backoff when it fails.
+ * Every change is saved to the run history (runs.ts) as it happens.
+ */
+import { HttpError } from '../errors.js';
+import { WORKFLOW_RETRY_BASE_MS } from '../config.js';
+import { getWorkflow, WorkflowStepDefinition } from './definitions.js';
+import { getWorkflowStepType, WorkflowStepType } from './steps.js';
+import { REFERENCE_RE, WHOLE_REFERENCE_RE, convertInput } from './params.js';
+import { startWorkflowRun, saveStepRuns, finishWorkflowRun, WorkflowRun, WorkflowRunTrigger } from './runs.js';
+
+export interface WorkflowRunOptions {
+  trigger?: WorkflowRunTrigger;
+  // The trigger's input, e.g. a webhook payload; steps read it as `{{trigger.<field>}}`.
+  input?: unknown;
+  // Waits between attempts; replaceable so retries can run without real delays.
+  sleep?: (ms: number) => Promise<void>;
+}
+
+// What `{{...}}` references resolve against.
+interface Scope {
+  trigger: unknown;
+  steps: Record<string, Record<string, unknown>>;
+}
+
+// Longest wait between two attempts of a step.
+const MAX_RETRY_DELAY_MS = 15 * 60 * 1000;
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function fail(message: string): never {
+  throw new HttpError(400, message);
+}
+
+function lookup(scope: Scope, path: string): unknown {
+  const [root, ...keys] = path.split('.');
+  if (root !== 'trigger' && root !== 'steps') fail(`'{{${path}}}' must start with 'trigger.' or 'steps.'.`);
+  if (root === 'steps' && !(keys[0] in scope.steps)) {
+    fail(`'{{${path}}}' refers to step '${keys[0]}', which has not run before this one.`);
+  }
+  let value: any = scope[root];
+  for (const key of keys) {
+    if (value === null || typeof value !== 'object' || !(key in value)) fail(`There is nothing at '{{${path}}}'.`);
+    value = value[key];
+  }
+  return value;
+}
+
+/**
+ * Replaces references in a parameter. A string that is a single reference takes the value as
+ * it is, so numbers and objects keep their type; references within text are written out.
+ */
+function resolve(value: unknown, scope: Scope): unknown {
+  if (typeof value === 'string') {
+    const whole = value.match(WHOLE_REFERENCE_RE);
+    if (whole) return lookup(scope, whole[1]);
+    return value.replace(REFERENCE_RE, (_, path: string) => {
+      const found = lookup(scope, path);
+      return typeof found === 'string' ? found : JSON.stringify(found);
+    });
+  }
+  if (Array.isArray(value)) return value.map((item) => resolve(item, scope));
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolve(item, scope)]));
+  }
+  return value;
+}
+
+function resolveInputs(step: WorkflowStepDefinition, stepType: WorkflowStepType, scope: Scope): Record<string, unknown> {
+  const inputs: Record<string, unknown> = {};
+  for (const [name, field] of Object.entries(stepType.inputs)) {
+    const value = convertInput(resolve(step.params[name], scope), field, name);
+    if (value !== undefined) inputs[name] = value;
+  }
+  return inputs;
+}
+
+// Client errors such as a missing parameter fail the same way on every attempt.
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof HttpError)) return true;
+  return error.statusCode >= 500 || error.statusCode === 429;
+}
+
+async function execute(run: WorkflowRun, steps: WorkflowStepDefinition[], input: unknown, sleep: (ms: number) => Promise<void>): Promise<WorkflowRun> {
+  const scope: Scope = { trigger: input ?? {}, steps: {} };
+  let stoppedBy: string | undefined;
+  let skipping = false;
+  let continuedAfterError = false;
+
+  for (const [index, step] of steps.entries()) {
+    const record = run.steps[index];
+    if (skipping) {
+      record.status = 'skipped';
+      continue;
+    }
+    const log = (message: string) => {
+      record.log.push({ at: new Date().toISOString(), message });
+      saveStepRuns(run);
+    };
+    Object.assign(record, { status: 'running', startedAt: new Date().toISOString() });
+    saveStepRuns(run);
+
+    try {
+      const stepType = getWorkflowStepType(step.type);
+      const inputs = resolveInputs(step, stepType, scope);
+      record.inputs = inputs;
+      let outputs: Record<string, unknown>;
+      for (let attempt = 1; ; attempt++) {
+        record.attempts = attempt;
+        if (step.retries > 0) log(`Attempt ${attempt} of ${step.retries + 1} started.`);
+        try {
+          outputs = await stepType.run(inputs, { log });
+          break;
+        } catch (error) {
+          if (attempt > step.retries || !isRetryable(error)) throw error;
+          const delay = Math.min(WORKFLOW_RETRY_BASE_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+          log(`Failed: ${error instanceof Error ? error.message : String(error)}`);
+          log(`Retrying in ${Math.round(delay / 1000)}s.`);
+          await sleep(delay);
+        }
+      }
+      Object.assign(record, { status: 'ok', outputs });
+      scope.steps[step.id] = outputs;
+      if (stepType.skipsRest?.(outputs)) {
+        log('The remaining steps are skipped.');
+        skipping = true;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      Object.assign(record, { status: 'error', error: message });
+      record.log.push({ at: new Date().toISOString(), message: `Failed: ${message}` });
+      if (step.onError === 'stop') {
+        stoppedBy = `Step '${step.name}' failed: ${message}`;
+        skipping = true;
+      } else {
+        continuedAfterError = true;
+        record.log.push({ at: new Date().toISOString(), message: 'Continuing with the next step.' });
+      }
+    } finally {
+      const finishedAt = new Date();
+      Object.assign(record, { finishedAt: finishedAt.toISOString(), durationMs: finishedAt.getTime() - Date.parse(record.startedAt!) });
+      saveStepRuns(run);
+    }
+  }
+
+  finishWorkflowRun(run, stoppedBy ? 'error' : continuedAfterError ? 'partial' : 'ok', stoppedBy);
+  return run;
+}
+
+/**
+ * Starts a run of a workflow and returns it at once, with `finished` settling when the run
+ * ends. Runs are recorded whatever their outcome, so `finished` only rejects if the run
+ * history itself cannot be written.
+ */
+export function startWorkflow(id: string, options: WorkflowRunOptions = {}): { run: WorkflowRun; finished: Promise<WorkflowRun> } {
+  const workflow = getWorkflow(id);
+  const run = startWorkflowRun(workflow, options.trigger ?? 'manual', options.input);
+  const snapshot = structuredClone(run);
+  return { run: snapshot, finished: execute(run, workflow.steps, options.input, options.sleep ?? defaultSleep) };
+}
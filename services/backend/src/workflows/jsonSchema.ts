@@ -0,0 +1,153 @@
+/**
+ * jsonSchema.ts - checks webhook payloads against a JSON Schema. Covers the common keywords:
+ * type, enum, const, properties, required, additionalProperties, items, minItems, maxItems,
+ * minLength, maxLength, pattern, format ('email', 'date-time', 'uri'), minimum, maximum,
+ * exclusiveMinimum and exclusiveMaximum. Other keywords are refused when the schema is saved
+ * rather than silently ignored.
+ */
+import { HttpError } from '../errors.js';
+
+export type JsonSchema = Record<string, unknown>;
+
+const TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+const KEYWORDS = new Set([
+  '$schema', 'title', 'description', 'default', 'examples',
+  'type', 'enum', 'const', 'properties', 'required', 'additionalProperties', 'items', 'minItems', 'maxItems',
+  'minLength', 'maxLength', 'pattern', 'format', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum',
+]);
+
+const FORMATS: Record<string, (value: string) => boolean> = {
+  email: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  'date-time': (value) => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value) && !Number.isNaN(Date.parse(value)),
+  uri: (value) => {
+    try {
+      return Boolean(new URL(value).protocol);
+    } catch {
+      return false;
+    }
+  },
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  if (type === 'integer') return Number.isInteger(value);
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+  return typeOf(value) === type;
+}
+
+/**
+ * Checks that a schema only uses the keywords above, with values of the right kind; `path`
+ * names the schema in messages.
+ */
+export function checkJsonSchema(schema: unknown, path = 'schema'): JsonSchema {
+  const fail = (message: string): never => {
+    throw new HttpError(400, `\`${path}\` ${message}`);
+  };
+  if (!isObject(schema)) fail('must be a JSON Schema object.');
+  const s = schema as JsonSchema;
+  for (const keyword of Object.keys(s)) {
+    if (!KEYWORDS.has(keyword)) fail(`uses '${keyword}', which is not supported. Supported keywords: ${[...KEYWORDS].join(', ')}.`);
+  }
+  const types = s.type === undefined ? [] : Array.isArray(s.type) ? s.type : [s.type];
+  if (types.some((type) => !TYPES.includes(type as string))) fail(`has a \`type\` other than ${TYPES.join(', ')}.`);
+  if (s.enum !== undefined && !Array.isArray(s.enum)) fail('has an `enum` that is not a list.');
+  if (s.required !== undefined && (!Array.isArray(s.required) || s.required.some((name) => typeof name !== 'string'))) {
+    fail('has a `required` that is not a list of property names.');
+  }
+  if (s.format !== undefined && !(typeof s.format === 'string' && s.format in FORMATS)) {
+    fail(`has a \`format\` other than ${Object.keys(FORMATS).join(', ')}.`);
+  }
+  if (s.pattern !== undefined) {
+    try {
+      new RegExp(s.pattern as string, 'u');
+    } catch {
+      fail('has a `pattern` that is not a valid regular expression.');
+    }
+  }
+  for (const keyword of ['minItems', 'maxItems', 'minLength', 'maxLength', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum']) {
+    if (s[keyword] !== undefined && typeof s[keyword] !== 'number') fail(`has a \`${keyword}\` that is not a number.`);
+  }
+  if (s.properties !== undefined) {
+    if (!isObject(s.properties)) fail('has `properties` that are not an object.');
+    for (const [name, property] of Object.entries(s.properties as JsonSchema)) checkJsonSchema(property, `${path}.properties.${name}`);
+  }
+  if (s.additionalProperties !== undefined && typeof s.additionalProperties !== 'boolean') {
+    checkJsonSchema(s.additionalProperties, `${path}.additionalProperties`);
+  }
+  if (s.items !== undefined) checkJsonSchema(s.items, `${path}.items`);
+  return s;
+}
+
+/**
+ * The ways `value` breaks `schema`, e.g. ["`value` must be a number."]; empty when it
+ * matches. `path` names the value in messages.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = 'payload'): string[] {
+  const errors: string[] = [];
+  const name = `\`${path}\``;
+
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    return [`${name} must be ${types.map((type) => (type === 'integer' ? 'a whole number' : type === 'array' ? 'a list' : `a ${type}`)).join(' or ')}, not ${JSON.stringify(value)}.`];
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${name} must be one of: ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}.`);
+  }
+  if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${name} must be ${JSON.stringify(schema.const)}.`);
+  }
+
+  if (typeof value === 'number') {
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema as Record<string, number | undefined>;
+    if (minimum !== undefined && value < minimum) errors.push(`${name} must be at least ${minimum}.`);
+    if (maximum !== undefined && value > maximum) errors.push(`${name} must be at most ${maximum}.`);
+    if (exclusiveMinimum !== undefined && value <= exclusiveMinimum) errors.push(`${name} must be more than ${exclusiveMinimum}.`);
+    if (exclusiveMaximum !== undefined && value >= exclusiveMaximum) errors.push(`${name} must be less than ${exclusiveMaximum}.`);
+  }
+
+  if (typeof value === 'string') {
+    const { minLength, maxLength } = schema as Record<string, number | undefined>;
+    if (minLength !== undefined && value.length < minLength) errors.push(`${name} must be at least ${minLength} characters long.`);
+    if (maxLength !== undefined && value.length > maxLength) errors.push(`${name} must be at most ${maxLength} characters long.`);
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern, 'u').test(value)) {
+      errors.push(`${name} must match ${schema.pattern}.`);
+    }
+    if (typeof schema.format === 'string' && FORMATS[schema.format] && !FORMATS[schema.format](value)) {
+      errors.push(`${name} must be a valid ${schema.format}.`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    const { minItems, maxItems } = schema as Record<string, number | undefined>;
+    if (minItems !== undefined && value.length < minItems) errors.push(`${name} must have at least ${minItems} items.`);
+    if (maxItems !== undefined && value.length > maxItems) errors.push(`${name} must have at most ${maxItems} items.`);
+    if (isObject(schema.items)) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items as JsonSchema, `${path}[${index}]`)));
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = isObject(schema.properties) ? (schema.properties as Record<string, JsonSchema>) : {};
+    for (const required of (schema.required as string[] | undefined) ?? []) {
+      if (!(required in value)) errors.push(`\`${path}.${required}\` is required.`);
+    }
+    for (const [key, item] of Object.entries(value)) {
+      if (key in properties) {
+        errors.push(...validateJsonSchema(item, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`\`${path}.${key}\` is not allowed.`);
+      } else if (isObject(schema.additionalProperties)) {
+        errors.push(...validateJsonSchema(item, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+  return errors;
+}
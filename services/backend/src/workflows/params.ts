@@ -0,0 +1,50 @@
+/**
+ * params.ts - step parameters. A parameter is a literal value or text with `{{path}}`
+ * references to the trigger's input or an earlier step's outputs; both the definition checks
+ * (definitions.ts) and the engine (engine.ts) read them with these helpers.
+ */
+import { HttpError } from '../errors.js';
+import { StepField } from './steps.js';
+
+export const REFERENCE_RE = /\{\{\s*([^{}]+?)\s*\}\}/g;
+export const WHOLE_REFERENCE_RE = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+
+function fail(message: string): never {
+  throw new HttpError(400, message);
+}
+
+// Every reference path in a parameter, including those in the strings of a JSON value.
+export function referencesIn(value: unknown): string[] {
+  if (typeof value === 'string') return [...value.matchAll(REFERENCE_RE)].map((match) => match[1]);
+  if (Array.isArray(value)) return value.flatMap(referencesIn);
+  if (value !== null && typeof value === 'object') return Object.values(value).flatMap(referencesIn);
+  return [];
+}
+
+// Converts a parameter to its declared type, e.g. the text "90" for a number.
+export function convertInput(value: unknown, field: StepField, name: string): unknown {
+  if (value === undefined || value === null || value === '') {
+    if (field.default !== undefined) return field.default;
+    if (field.required) fail(`\`${name}\` is required.`);
+    return undefined;
+  }
+  let converted: unknown = value;
+  switch (field.type) {
+    case 'string':
+      if (typeof value === 'number' || typeof value === 'boolean') converted = String(value);
+      else if (typeof value !== 'string') fail(`\`${name}\` must be text, not ${JSON.stringify(value)}.`);
+      break;
+    case 'number':
+      converted = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof converted !== 'number' || !Number.isFinite(converted)) fail(`\`${name}\` must be a number, not ${JSON.stringify(value)}.`);
+      break;
+    case 'boolean':
+      converted = value === 'true' ? true : value === 'false' ? false : value;
+      if (typeof converted !== 'boolean') fail(`\`${name}\` must be true or false, not ${JSON.stringify(value)}.`);
+      break;
+  }
+  if (field.options && !field.options.includes(converted as string)) {
+    fail(`\`${name}\` must be one of: ${field.options.join(', ')}.`);
+  }
+  return converted;
+}
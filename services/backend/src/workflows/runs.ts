@@ -0,0 +1,162 @@
+/**
+ * runs.ts - the history of workflow runs (`workflow_runs`). A run records what started it,
+ * the trigger's input, and for every step its status, timing, attempts, resolved inputs,
+ * outputs and log, so a failing workflow can be traced from its card.
+ */
+import { getStore } from '../store.js';
+import { HttpError } from '../errors.js';
+import { timestampId } from '../ids.js';
+import { WORKFLOW_HISTORY_LIMIT } from '../config.js';
+import { WorkflowDefinition } from './definitions.js';
+
+export type WorkflowRunTrigger = 'manual' | 'schedule' | 'webhook';
+// 'partial' is a run that finished although steps allowed to fail ('continue') did.
+export type WorkflowRunStatus = 'running' | 'ok' | 'partial' | 'error';
+export type StepRunStatus = 'pending' | 'running' | 'ok' | 'error' | 'skipped';
+
+export interface WorkflowLogEntry {
+  at: string;
+  message: string;
+}
+
+export interface StepRun {
+  id: string;
+  name: string;
+  type: string;
+  status: StepRunStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+  attempts: number;
+  inputs?: Record<string, unknown>;
+  outputs?: Record<string, unknown>;
+  error?: string;
+  log: WorkflowLogEntry[];
+}
+
+export interface WorkflowRun {
+  id: string;
+  workflowId: string;
+  trigger: WorkflowRunTrigger;
+  status: WorkflowRunStatus;
+  input: unknown;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  error?: string;
+  steps: StepRun[];
+}
+
+// A run as listed: each step's status and timing, without its data and log.
+export type WorkflowRunSummary = Omit<WorkflowRun, 'input' | 'steps'> & {
+  steps: Omit<StepRun, 'inputs' | 'outputs' | 'log'>[];
+};
+
+interface RunRecord {
+  id: string;
+  workflow_id: string;
+  trigger: WorkflowRunTrigger;
+  status: WorkflowRunStatus;
+  input: string | null;
+  steps: string;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+}
+
+function toRun(record: RunRecord): WorkflowRun {
+  return {
+    id: record.id,
+    workflowId: record.workflow_id,
+    trigger: record.trigger,
+    status: record.status,
+    input: record.input === null ? null : JSON.parse(record.input),
+    startedAt: record.started_at,
+    finishedAt: record.finished_at ?? undefined,
+    durationMs: record.duration_ms ?? undefined,
+    error: record.error ?? undefined,
+    steps: JSON.parse(record.steps),
+  };
+}
+
+export function startWorkflowRun(workflow: WorkflowDefinition, trigger: WorkflowRunTrigger, input: unknown): WorkflowRun {
+  const run: WorkflowRun = {
+    id: timestampId('wfrun'),
+    workflowId: workflow.id,
+    trigger,
+    status: 'running',
+    input: input ?? null,
+    startedAt: new Date().toISOString(),
+    steps: workflow.steps.map(({ id, name, type }) => ({ id, name, type, status: 'pending', attempts: 0, log: [] })),
+  };
+  getStore().prepare(`
+    INSERT INTO workflow_runs (id, workflow_id, trigger, status, input, steps, started_at) VALUES (?, ?, ?, 'running', ?, ?, ?)
+  `).run(run.id, run.workflowId, trigger, JSON.stringify(run.input), JSON.stringify(run.steps), run.startedAt);
+  return run;
+}
+
+// Stores the progress of a running run's steps.
+export function saveStepRuns(run: WorkflowRun): void {
+  getStore().prepare('UPDATE workflow_runs SET steps = ? WHERE id = ?').run(JSON.stringify(run.steps), run.id);
+}
+
+/**
+ * Records how a run ended and drops the workflow's oldest runs beyond WORKFLOW_HISTORY_LIMIT.
+ */
+export function finishWorkflowRun(run: WorkflowRun, status: Exclude<WorkflowRunStatus, 'running'>, error?: string): void {
+  const db = getStore();
+  const finishedAt = new Date();
+  Object.assign(run, { status, error, finishedAt: finishedAt.toISOString(), durationMs: finishedAt.getTime() - Date.parse(run.startedAt) });
+  db.prepare(`
+    UPDATE workflow_runs SET status = ?, steps = ?, error = ?, finished_at = ?, duration_ms = ? WHERE id = ?
+  `).run(status, JSON.stringify(run.steps), error ?? null, run.finishedAt, run.durationMs, run.id);
+  db.prepare(`
+    DELETE FROM workflow_runs WHERE workflow_id = ? AND id NOT IN (
+      SELECT id FROM workflow_runs WHERE workflow_id = ? ORDER BY started_at DESC LIMIT ?
+    )
+  `).run(run.workflowId, run.workflowId, WORKFLOW_HISTORY_LIMIT);
+}
+
+// The workflow's runs, newest first.
+export function listWorkflowRuns(workflowId: string, limit = WORKFLOW_HISTORY_LIMIT): WorkflowRunSummary[] {
+  const records = getStore().prepare(`
+    SELECT * FROM workflow_runs WHERE workflow_id = ? ORDER BY started_at DESC, id DESC LIMIT ?
+  `).all(workflowId, limit) as RunRecord[];
+  return records.map((record) => {
+    const { input, steps, ...run } = toRun(record);
+    return { ...run, steps: steps.map(({ inputs, outputs, log, ...step }) => step) };
+  });
+}
+
+export function getWorkflowRun(workflowId: string, runId: string): WorkflowRun {
+  const record = getStore().prepare('SELECT * FROM workflow_runs WHERE id = ? AND workflow_id = ?').get(runId, workflowId) as RunRecord | undefined;
+  if (!record) {
+    throw new HttpError(404, `Workflow run '${runId}' not found.`);
+  }
+  return toRun(record);
+}
+
+/**
+ * Marks runs left 'running' by a stopped backend as failed, along with the step that was
+ * running. Called once on startup, before any workflow can run.
+ */
+export function failInterruptedWorkflowRuns(): number {
+  const db = getStore();
+  const records = db.prepare("SELECT * FROM workflow_runs WHERE status = 'running'").all() as RunRecord[];
+  const now = new Date().toISOString();
+  for (const run of records.map(toRun)) {
+    for (const step of run.steps) {
+      if (step.status === 'running') {
+        Object.assign(step, { status: 'error', finishedAt: now, error: 'Interrupted by a backend restart.' });
+        step.log.push({ at: now, message: 'The backend stopped before the step finished.' });
+      } else if (step.status === 'pending') {
+        step.status = 'skipped';
+      }
+    }
+    db.prepare(`
+      UPDATE workflow_runs SET status = 'error', steps = ?, error = 'Interrupted by a backend restart.', finished_at = ? WHERE id = ?
+    `).run(JSON.stringify(run.steps), now, run.id);
+  }
+  return records.length;
+}
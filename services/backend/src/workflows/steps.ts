@@ -0,0 +1,212 @@
+/**
+ * steps.ts - the catalog of workflow step types. Each type declares the typed inputs it
+ * takes and the typed outputs it produces; the engine (engine.ts) resolves a step's
+ * parameters into inputs of the declared types, and later steps read its outputs.
+ */
+import { HttpError } from '../errors.js';
+import { getMetric } from '../metrics/definitions.js';
+import { evaluateMetric } from '../metrics/evaluate.js';
+import { answerQuestion } from '../analyst/agent.js';
+import { axiosHttpClient, HttpRequest } from '../connectors/http.js';
+
+// 'json' is any JSON value: an object, a list, or a string, number or boolean.
+export type WorkflowValueType = 'string' | 'number' | 'boolean' | 'json';
+
+export interface StepField {
+  type: WorkflowValueType;
+  label: string;
+  description?: string;
+  required?: boolean;
+  // The allowed values of a string input.
+  options?: string[];
+  default?: unknown;
+  // Whether the builder offers several lines for a string, e.g. a prompt.
+  multiline?: boolean;
+}
+
+export interface StepContext {
+  // Adds a line to the step's log in the run history.
+  log(message: string): void;
+}
+
+export interface WorkflowStepType {
+  type: string;
+  label: string;
+  description: string;
+  // Heroicon shown for new steps of this type.
+  icon: string;
+  inputs: Record<string, StepField>;
+  outputs: Record<string, Omit<StepField, 'required' | 'options' | 'default' | 'multiline'>>;
+  run(inputs: Record<string, any>, context: StepContext): Promise<Record<string, unknown>>;
+  // Whether the remaining steps are skipped after these outputs, e.g. a condition not met.
+  skipsRest?(outputs: Record<string, unknown>): boolean;
+}
+
+// Raised for a failed step that would fail the same way if retried.
+function fail(message: string): never {
+  throw new HttpError(400, message);
+}
+
+const COMPARISONS: Record<string, (a: number, b: number) => boolean> = {
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b,
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b,
+  '=': (a, b) => a === b,
+  '!=': (a, b) => a !== b,
+};
+
+async function send(request: HttpRequest, context: StepContext): Promise<{ status: number; body: unknown }> {
+  context.log(`${request.method} ${request.url}`);
+  const response = await axiosHttpClient(request);
+  context.log(`Answered HTTP ${response.status}.`);
+  if (response.status >= 500 || response.status === 429) {
+    throw new Error(`${request.url} answered HTTP ${response.status}.`);
+  }
+  if (response.status >= 400) fail(`${request.url} answered HTTP ${response.status}.`);
+  return { status: response.status, body: response.data ?? null };
+}
+
+const queryMetric: WorkflowStepType = {
+  type: 'query_metric',
+  label: 'Query metric',
+  description: 'Computes a saved metric, as shown on the dashboard.',
+  icon: 'TableCellsIcon',
+  inputs: {
+    metric: { type: 'string', label: 'Metric', description: 'Id of a saved metric.', required: true },
+  },
+  outputs: {
+    value: { type: 'number', label: 'Value', description: 'The latest value of a KPI.' },
+    formatted: { type: 'string', label: 'Formatted value' },
+    change: { type: 'string', label: 'Change', description: 'Change on the comparison period, e.g. +4.2%.' },
+    period: { type: 'string', label: 'Period' },
+    result: { type: 'json', label: 'Full result', description: 'Every value of the metric, including series and breakdowns.' },
+  },
+  async run({ metric }, context) {
+    const result = await evaluateMetric(await getMetric(metric));
+    if (result.kind !== 'kpi') {
+      context.log(`Metric '${metric}' is a ${result.kind}; only \`result\` is set.`);
+      return { result };
+    }
+    const { rawValue, value, change, period } = result.kpi;
+    context.log(`${metric} = ${value}${period ? ` (${period})` : ''}`);
+    return { value: rawValue, formatted: value, change: change ?? '', period: period ?? '', result };
+  },
+};
+
+const aiSummary: WorkflowStepType = {
+  type: 'ai_summary',
+  label: 'AI summary',
+  description: 'Asks the AI analyst, which can look up datasets and metrics itself, and returns its answer.',
+  icon: 'DocumentChartBarIcon',
+  inputs: {
+    prompt: { type: 'string', label: 'Prompt', required: true, multiline: true },
+    data: { type: 'json', label: 'Data', description: 'Figures from earlier steps to base the answer on.' },
+  },
+  outputs: {
+    text: { type: 'string', label: 'Answer' },
+  },
+  async run({ prompt, data }, context) {
+    const answer = await answerQuestion({
+      system: `You are an expert business analyst for 'Forever (43v3r) Technology', writing for an automated report. Today is ${new Date().toISOString().slice(0, 10)}. Look up the figures you need with the tools and only state numbers that come from them or from the data given. Answer in plain text without markdown.`,
+      history: [],
+      message: data === undefined ? prompt : `${prompt}\n\nData:\n${JSON.stringify(data, null, 2)}`,
+    });
+    for (const call of answer.toolCalls) context.log(`Called ${call.name}${call.error ? `: ${call.error}` : ''}`);
+    if (!answer.text.trim()) throw new Error('The model returned an empty answer.');
+    return { text: answer.text.trim() };
+  },
+};
+
+const condition: WorkflowStepType = {
+  type: 'condition',
+  label: 'Condition',
+  description: 'Compares a number with a threshold; when the comparison does not hold, the remaining steps are skipped.',
+  icon: 'FunnelIcon',
+  inputs: {
+    value: { type: 'number', label: 'Value', required: true },
+    operator: { type: 'string', label: 'Operator', options: Object.keys(COMPARISONS), default: '>' },
+    threshold: { type: 'number', label: 'Threshold', required: true },
+  },
+  outputs: {
+    passed: { type: 'boolean', label: 'Passed' },
+  },
+  async run({ value, operator, threshold }, context) {
+    const passed = COMPARISONS[operator](value, threshold);
+    context.log(`${value} ${operator} ${threshold}: ${passed ? 'yes' : 'no'}`);
+    return { passed };
+  },
+  skipsRest: ({ passed }) => !passed,
+};
+
+const setValues: WorkflowStepType = {
+  type: 'set_values',
+  label: 'Set values',
+  description: 'Picks values from the trigger and earlier steps, for later steps to use.',
+  icon: 'VariableIcon',
+  inputs: {
+    values: { type: 'json', label: 'Values', required: true },
+  },
+  outputs: {
+    values: { type: 'json', label: 'Values' },
+  },
+  async run({ values }) {
+    return { values };
+  },
+};
+
+const httpRequest: WorkflowStepType = {
+  type: 'http_request',
+  label: 'HTTP request',
+  description: 'Calls a URL, e.g. a CRM or email service webhook. Server errors are retried; client errors are not.',
+  icon: 'GlobeAltIcon',
+  inputs: {
+    url: { type: 'string', label: 'URL', required: true },
+    method: { type: 'string', label: 'Method', options: ['GET', 'POST'], default: 'POST' },
+    headers: { type: 'json', label: 'Headers' },
+    body: { type: 'json', label: 'JSON body' },
+  },
+  outputs: {
+    status: { type: 'number', label: 'Status code' },
+    body: { type: 'json', label: 'Response body' },
+  },
+  async run({ url, method, headers, body }, context) {
+    if (headers !== undefined && (typeof headers !== 'object' || headers === null || Array.isArray(headers))) {
+      fail('`headers` must be an object of header names and values.');
+    }
+    return send({
+      method,
+      url,
+      headers: headers && Object.fromEntries(Object.entries(headers).map(([name, value]) => [name, String(value)])),
+      json: method === 'POST' ? body ?? {} : undefined,
+    }, context);
+  },
+};
+
+const slackMessage: WorkflowStepType = {
+  type: 'slack_message',
+  label: 'Slack message',
+  description: 'Posts a message to a Slack channel through an incoming webhook.',
+  icon: 'PaperAirplaneIcon',
+  inputs: {
+    webhookUrl: { type: 'string', label: 'Webhook URL', required: true },
+    text: { type: 'string', label: 'Message', required: true, multiline: true },
+  },
+  outputs: {
+    status: { type: 'number', label: 'Status code' },
+  },
+  async run({ webhookUrl, text }, context) {
+    const { status } = await send({ method: 'POST', url: webhookUrl, json: { text } }, context);
+    return { status };
+  },
+};
+
+export const WORKFLOW_STEP_TYPES: WorkflowStepType[] = [queryMetric, aiSummary, condition, setValues, httpRequest, slackMessage];
+
+export function getWorkflowStepType(type: string): WorkflowStepType {
+  const stepType = WORKFLOW_STEP_TYPES.find((candidate) => candidate.type === type);
+  if (!stepType) {
+    throw new HttpError(400, `Unknown step type '${type}'. Known types: ${WORKFLOW_STEP_TYPES.map((t) => t.type).join(', ')}.`);
+  }
+  return stepType;
+}
@@ -0,0 +1,59 @@
+/**
+ * Webhook secrets: generated from a key kept outside the store, which only holds what they
+ * are checked with, and accepted as an API key or an HMAC signature of the body.
+ */
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// The store opens under DATA_DIR, so it is pointed at a fresh directory before it loads.
+const dataDir = await mkdtemp(path.join(tmpdir(), 'webhooks-test-'));
+process.env.DATA_DIR = dataDir;
+const { authenticateWebhook, hasWebhookSecret, rotateWebhookSecret } = await import('./webhooks.js');
+const { getStore } = await import('../store.js');
+
+const ID = 'lead-alert';
+const BODY = '{"value": 12000}';
+
+const sign = (secret: string, body: string) => `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+
+before(() => {
+  getStore()
+    .prepare("INSERT INTO workflows (id, definition, created_at, updated_at) VALUES (?, '{}', '', '')")
+    .run(ID);
+});
+
+after(() => rm(dataDir, { recursive: true, force: true }));
+
+test('stores only a hash and a salt, never the secret itself', () => {
+  assert.equal(hasWebhookSecret(ID), false);
+  const secret = rotateWebhookSecret(ID);
+  assert.match(secret, /^whsec_[0-9a-f]{64}$/);
+  assert.equal(hasWebhookSecret(ID), true);
+
+  const row = getStore().prepare('SELECT * FROM workflows WHERE id = ?').get(ID) as Record<string, unknown>;
+  assert.equal(row.webhook_key_hash, crypto.createHash('sha256').update(secret).digest('hex'));
+  assert.ok(!Object.values(row).some((value) => typeof value === 'string' && value.includes(secret.slice('whsec_'.length))));
+  assert.throws(() => rotateWebhookSecret('missing'), { statusCode: 404 });
+});
+
+test('accepts the current secret as an API key', () => {
+  const secret = rotateWebhookSecret(ID);
+  authenticateWebhook(ID, 'api_key', { 'x-api-key': secret }, BODY);
+  authenticateWebhook(ID, 'api_key', { authorization: `Bearer ${secret}` }, BODY);
+  assert.throws(() => authenticateWebhook(ID, 'api_key', { 'x-api-key': `${secret}0` }, BODY), { statusCode: 401 });
+  assert.throws(() => authenticateWebhook(ID, 'api_key', {}, BODY), { statusCode: 401 });
+
+  rotateWebhookSecret(ID);
+  assert.throws(() => authenticateWebhook(ID, 'api_key', { 'x-api-key': secret }, BODY), { statusCode: 401, message: /not valid/ });
+});
+
+test('accepts bodies signed with the current secret', () => {
+  const secret = rotateWebhookSecret(ID);
+  authenticateWebhook(ID, 'hmac', { 'x-webhook-signature': sign(secret, BODY) }, BODY);
+  assert.throws(() => authenticateWebhook(ID, 'hmac', { 'x-webhook-signature': sign(secret, '{"value": 1}') }, BODY), { statusCode: 401 });
+  assert.throws(() => authenticateWebhook(ID, 'hmac', { 'x-api-key': secret }, BODY), { statusCode: 401, message: /Signature/ });
+});
@@ -0,0 +1,176 @@
+/**
+ * webhooks.ts - workflows started by an inbound webhook (POST /api/webhooks/:id). Each such
+ * workflow has its own secret, sent as an API key or used to sign the body with HMAC-SHA256,
+ * depending on the trigger's `auth`. The secret itself is never stored: it is derived from a
+ * random salt (`webhook_key_salt`) with the key in WEBHOOK_KEY_FILE, and API keys are checked
+ * against its SHA-256 hash (`webhook_key_hash`). The payload is checked against the
+ * trigger's JSON Schema (jsonSchema.ts), and the run only starts when every condition holds,
+ * e.g. `value > 10000` or `status = "new"`.
+ */
+import crypto from 'crypto';
+import { readFileSync, writeFileSync } from 'fs';
+import { getStore } from '../store.js';
+import { HttpError } from '../errors.js';
+import { WEBHOOK_KEY_FILE } from '../config.js';
+
+export type WebhookAuth = 'api_key' | 'hmac';
+
+export const WEBHOOK_AUTH_MODES: WebhookAuth[] = ['api_key', 'hmac'];
+
+export interface WebhookCondition {
+  // A dotted path into the payload, e.g. `lead.value`.
+  path: string;
+  operator: string;
+  value: string | number | boolean | null;
+}
+
+// The request headers a webhook is authenticated with, lower-cased as Node gives them.
+export const API_KEY_HEADER = 'x-api-key';
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+
+const CONDITION_RE = /^\s*([A-Za-z_$][\w$]*(?:\.[\w$]+)*)\s*(>=|<=|!=|=|>|<)\s*(.+?)\s*$/;
+
+const COMPARISONS: Record<string, (a: any, b: any) => boolean> = {
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b,
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b,
+  '=': (a, b) => a === b,
+  '!=': (a, b) => a !== b,
+};
+
+/**
+ * Reads a condition such as `value > 10000`: a payload path, a comparison and a number,
+ * a quoted string, true, false or null.
+ */
+export function parseWebhookCondition(text: string): WebhookCondition {
+  const match = CONDITION_RE.exec(text);
+  if (!match) {
+    throw new HttpError(400, `Condition '${text}' must be a payload field, a comparison (${Object.keys(COMPARISONS).join(' ')}) and a value, e.g. 'value > 10000'.`);
+  }
+  const [, path, operator, literal] = match;
+  let value: WebhookCondition['value'];
+  try {
+    value = JSON.parse(literal.startsWith("'") && literal.endsWith("'") ? `"${literal.slice(1, -1)}"` : literal);
+  } catch {
+    throw new HttpError(400, `Condition '${text}' must compare with a number, quoted text (e.g. "new"), true, false or null, not ${literal}.`);
+  }
+  if (value !== null && !['string', 'number', 'boolean'].includes(typeof value)) {
+    throw new HttpError(400, `Condition '${text}' must compare with a number, text, true, false or null.`);
+  }
+  if (['>', '>=', '<', '<='].includes(operator) && typeof value !== 'number') {
+    throw new HttpError(400, `Condition '${text}' can only use ${operator} with a number.`);
+  }
+  return { path, operator, value };
+}
+
+export function formatWebhookCondition({ path, operator, value }: WebhookCondition): string {
+  return `${path} ${operator} ${JSON.stringify(value)}`;
+}
+
+function valueAt(payload: unknown, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => (value !== null && typeof value === 'object' ? value[key] : undefined), payload);
+}
+
+/**
+ * The first of `conditions` the payload does not meet, as text for the response; undefined
+ * when it meets them all. Numbers sent as text, e.g. "12000", compare as numbers.
+ */
+export function unmetWebhookCondition(payload: unknown, conditions: string[]): string | undefined {
+  for (const text of conditions) {
+    const condition = parseWebhookCondition(text);
+    let actual = valueAt(payload, condition.path);
+    if (typeof condition.value === 'number' && typeof actual === 'string' && actual.trim() !== '') actual = Number(actual);
+    const comparable = typeof condition.value === 'number' ? typeof actual === 'number' && Number.isFinite(actual) : actual !== undefined;
+    if (!comparable || !COMPARISONS[condition.operator](actual, condition.value)) {
+      return `${text} (${condition.path} is ${actual === undefined ? 'missing' : JSON.stringify(actual)})`;
+    }
+  }
+  return undefined;
+}
+
+let webhookKey: Buffer | null = null;
+
+// The key webhook secrets are derived from, read from WEBHOOK_KEY_FILE or created there.
+function getWebhookKey(): Buffer {
+  if (!webhookKey) {
+    try {
+      writeFileSync(WEBHOOK_KEY_FILE, crypto.randomBytes(32).toString('hex'), { mode: 0o600, flag: 'wx' });
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') throw error;
+    }
+    webhookKey = Buffer.from(readFileSync(WEBHOOK_KEY_FILE, 'utf8').trim(), 'hex');
+  }
+  return webhookKey;
+}
+
+function deriveSecret(id: string, salt: string): string {
+  return `whsec_${crypto.createHmac('sha256', getWebhookKey()).update(`${id}:${salt}`).digest('hex')}`;
+}
+
+function hashSecret(secret: string): Buffer {
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+function getWebhookKeyRecord(id: string): { hash: string; salt: string } | undefined {
+  const row = getStore().prepare('SELECT webhook_key_hash, webhook_key_salt FROM workflows WHERE id = ?').get(id) as
+    { webhook_key_hash: string | null; webhook_key_salt: string | null } | undefined;
+  return row?.webhook_key_hash && row.webhook_key_salt ? { hash: row.webhook_key_hash, salt: row.webhook_key_salt } : undefined;
+}
+
+export function hasWebhookSecret(id: string): boolean {
+  return getWebhookKeyRecord(id) !== undefined;
+}
+
+/**
+ * Gives the workflow a new webhook secret and returns it; the old one stops working at once.
+ * The secret is only shown here, so callers pass it on to the user.
+ */
+export function rotateWebhookSecret(id: string): string {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const secret = deriveSecret(id, salt);
+  const result = getStore()
+    .prepare('UPDATE workflows SET webhook_key_hash = ?, webhook_key_salt = ? WHERE id = ?')
+    .run(hashSecret(secret).toString('hex'), salt, id);
+  if (result.changes === 0) {
+    throw new HttpError(404, `Workflow '${id}' not found.`);
+  }
+  return secret;
+}
+
+// Compares hashes so neither the length nor the content of the secret leaks through timing.
+function sameHash(given: string, expected: Buffer): boolean {
+  return crypto.timingSafeEqual(hashSecret(given), expected);
+}
+
+function header(headers: Record<string, string | string[] | undefined>, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Checks a webhook request against the workflow's secret: the key in `X-API-Key` (or
+ * `Authorization: Bearer <key>`), or an `X-Webhook-Signature: sha256=<hex>` HMAC of the raw
+ * body. Throws a 401 HttpError when it does not match.
+ */
+export function authenticateWebhook(
+  id: string,
+  auth: WebhookAuth,
+  headers: Record<string, string | string[] | undefined>,
+  rawBody: string,
+): void {
+  const record = getWebhookKeyRecord(id);
+  if (!record) {
+    throw new HttpError(401, `Workflow '${id}' has no webhook secret yet; generate one from its card.`);
+  }
+  if (auth === 'hmac') {
+    const signature = header(headers, SIGNATURE_HEADER)?.trim().replace(/^sha256=/, '');
+    if (!signature) throw new HttpError(401, 'The `X-Webhook-Signature` header is required.');
+    const expected = crypto.createHmac('sha256', deriveSecret(id, record.salt)).update(rawBody).digest('hex');
+    if (!sameHash(signature.toLowerCase(), hashSecret(expected))) throw new HttpError(401, 'The webhook signature does not match.');
+    return;
+  }
+  const key = header(headers, API_KEY_HEADER)?.trim() ?? header(headers, 'authorization')?.match(/^Bearer\s+(.+)$/i)?.[1].trim();
+  if (!key) throw new HttpError(401, 'An API key is required in the `X-API-Key` header.');
+  if (!sameHash(key, Buffer.from(record.hash, 'hex'))) throw new HttpError(401, 'The API key is not valid for this workflow.');
+}
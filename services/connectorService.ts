@@ -0,0 +1,85 @@
+import { BACKEND_URL } from './apiConfig';
+import type { Connector, ConnectorType, ConnectorSyncResult, DiscoveredStream, SyncRun, SyncRunDetail } from '../types';
+
+const BASE_PATH = '/api/connectors';
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+    try {
+        const response = await fetch(`${BACKEND_URL}${BASE_PATH}${path}`, init);
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        }
+        return data as T;
+    } catch (error) {
+        if (error instanceof TypeError) { // Network error
+            throw new Error("Cannot connect to the backend service. Please ensure it's running.");
+        }
+        throw error;
+    }
+}
+
+function sendJson<T>(method: string, path: string, body: unknown = {}): Promise<T> {
+    return request<T>(path, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+}
+
+export async function listConnectorTypes(): Promise<ConnectorType[]> {
+    const data = await request<{ types: ConnectorType[] }>('/types');
+    return data.types;
+}
+
+export async function listConnectors(): Promise<Connector[]> {
+    const data = await request<{ connectors: Connector[] }>('');
+    return data.connectors;
+}
+
+export function createConnector(type: string, name: string, settings: Record<string, unknown>): Promise<Connector> {
+    return sendJson<Connector>('POST', '', { type, name, settings });
+}
+
+// Omitted secrets keep the saved ones.
+export function updateConnector(id: string, name: string, settings: Record<string, unknown>): Promise<Connector> {
+    return sendJson<Connector>('PUT', `/${encodeURIComponent(id)}`, { name, settings });
+}
+
+export async function deleteConnector(id: string): Promise<void> {
+    await request<{ status: string }>(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+// Tests unsaved settings; with `id`, omitted secrets are that connector's.
+export async function testConnectorSettings(type: string, settings: Record<string, unknown>, id?: string): Promise<string> {
+    const data = await sendJson<{ message: string }>('POST', '/test', { type, settings, id });
+    return data.message;
+}
+
+export async function testConnector(id: string): Promise<string> {
+    const data = await sendJson<{ message: string }>('POST', `/${encodeURIComponent(id)}/test`);
+    return data.message;
+}
+
+export async function discoverConnector(id: string): Promise<DiscoveredStream[]> {
+    const data = await request<{ streams: DiscoveredStream[] }>(`/${encodeURIComponent(id)}/discover`);
+    return data.streams;
+}
+
+export function syncConnector(id: string): Promise<ConnectorSyncResult> {
+    return sendJson<ConnectorSyncResult>('POST', `/${encodeURIComponent(id)}/sync`);
+}
+
+// Sets the cron schedule the connector syncs on; null turns scheduled syncs off.
+export function setConnectorSchedule(id: string, schedule: string | null): Promise<Connector> {
+    return sendJson<Connector>('PUT', `/${encodeURIComponent(id)}/schedule`, { schedule });
+}
+
+export async function listSyncRuns(id: string): Promise<SyncRun[]> {
+    const data = await request<{ runs: SyncRun[] }>(`/${encodeURIComponent(id)}/runs`);
+    return data.runs;
+}
+
+export function getSyncRun(id: string, runId: string): Promise<SyncRunDetail> {
+    return request<SyncRunDetail>(`/${encodeURIComponent(id)}/runs/${encodeURIComponent(runId)}`);
+}
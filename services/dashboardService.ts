@@ -0,0 +1,28 @@
+import type { ElementType } from 'react';
+import * as OutlineIcons from '@heroicons/react/24/outline';
+import { BACKEND_URL } from './apiConfig';
+import type { DashboardData, Kpi } from '../types';
+
+// KPI metrics name their icon as a string, so any outline Heroicon can be used without code changes.
+const ICONS = OutlineIcons as unknown as Record<string, ElementType | undefined>;
+
+type KpiPayload = Omit<Kpi, 'icon'> & { icon: string };
+
+export async function getDashboard(): Promise<DashboardData> {
+    try {
+        const response = await fetch(`${BACKEND_URL}/api/dashboard`);
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        }
+        return {
+            ...data,
+            kpis: (data.kpis as KpiPayload[]).map(kpi => ({ ...kpi, icon: ICONS[kpi.icon] ?? OutlineIcons.ChartBarIcon })),
+        };
+    } catch (error) {
+        if (error instanceof TypeError) { // Network error
+            throw new Error("Cannot connect to the backend service. Please ensure it's running.");
+        }
+        throw error;
+    }
+}
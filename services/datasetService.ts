@@ -0,0 +1,72 @@
+import { BACKEND_URL } from './apiConfig';
+import type { ColumnType, DatasetSchema, DatasetSummary, DatasetDetail, DatasetRowsPage, DatasetVersion, DatasetDiff } from '../types';
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+    try {
+        const response = await fetch(`${BACKEND_URL}${path}`, init);
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        }
+        return data as T;
+    } catch (error) {
+        if (error instanceof TypeError) { // Network error
+            throw new Error("Cannot connect to the backend service. Please ensure it's running.");
+        }
+        throw error;
+    }
+}
+
+export function getDatasetSchema(id: string): Promise<DatasetSchema> {
+    return request<DatasetSchema>(`/api/datasets/${encodeURIComponent(id)}/schema`);
+}
+
+export function overrideDatasetSchema(id: string, overrides: Record<string, ColumnType>): Promise<DatasetSchema> {
+    return request<DatasetSchema>(`/api/datasets/${encodeURIComponent(id)}/schema`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ overrides }),
+    });
+}
+
+export async function listDatasets(): Promise<DatasetSummary[]> {
+    const data = await request<{ datasets: DatasetSummary[] }>('/api/datasets');
+    return data.datasets;
+}
+
+export function getDataset(id: string): Promise<DatasetDetail> {
+    return request<DatasetDetail>(`/api/datasets/${encodeURIComponent(id)}`);
+}
+
+export function getDatasetRows(id: string, offset: number, limit: number): Promise<DatasetRowsPage> {
+    return request<DatasetRowsPage>(`/api/datasets/${encodeURIComponent(id)}/rows?offset=${offset}&limit=${limit}`);
+}
+
+export function updateDataset(id: string, patch: { name?: string; tags?: string[] }): Promise<DatasetSummary> {
+    return request<DatasetSummary>(`/api/datasets/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(patch),
+    });
+}
+
+export async function deleteDataset(id: string): Promise<void> {
+    await request<{ status: string }>(`/api/datasets/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export async function listDatasetVersions(id: string): Promise<DatasetVersion[]> {
+    const data = await request<{ versions: DatasetVersion[] }>(`/api/datasets/${encodeURIComponent(id)}/versions`);
+    return data.versions;
+}
+
+export function diffDatasetVersions(id: string, from: number, to: number): Promise<DatasetDiff> {
+    return request<DatasetDiff>(`/api/datasets/${encodeURIComponent(id)}/diff?from=${from}&to=${to}`);
+}
+
+export function rollbackDataset(id: string, version: number): Promise<DatasetDetail> {
+    return request<DatasetDetail>(`/api/datasets/${encodeURIComponent(id)}/rollback`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version }),
+    });
+}
@@ -1,25 +1,36 @@
-const BACKEND_URL = 'http://localhost:8000';
+import { BACKEND_URL } from './apiConfig';
+import type { ChatToolCall, Insight, AnswerFormat, AnswerCitation, AnswerSegment } from '../types';
 
-export async function sendChatMessage(dashboardData: object, message: string): Promise<string> {
+export interface ChatReply {
+    // The plain-text answer; for an insight, its text form.
+    text: string;
+    // Set when the answer was asked for in the 'insight' format.
+    insight?: Insight;
+    // `text` split into sentences, citing where their numbers came from.
+    citations: AnswerCitation[];
+    segments: AnswerSegment[];
+    // Tools the analyst called to look up the figures in the answer.
+    toolCalls: ChatToolCall[];
+    // The session the answer was given in; a new one when none was passed.
+    sessionId: string;
+}
+
+async function postJson<T>(path: string, body: unknown): Promise<T> {
     try {
-        const response = await fetch(`${BACKEND_URL}/api/qa`, {
+        const response = await fetch(`${BACKEND_URL}${path}`, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
             },
-            body: JSON.stringify({
-                dashboardData,
-                message,
-            }),
+            body: JSON.stringify(body),
         });
 
         if (!response.ok) {
             const errorData = await response.json();
-            throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+            throw new Error(errorData.message || errorData.error || `HTTP error! status: ${response.status}`);
         }
 
-        const data = await response.json();
-        return data.text;
+        return await response.json() as T;
     } catch (error) {
         console.error("Error calling backend API:", error);
         if (error instanceof TypeError) { // Network error
@@ -28,3 +39,101 @@ export async function sendChatMessage(dashboardData: object, message: string): P
         throw error; // Re-throw other errors
     }
 }
+
+// Starts a conversation kept on the backend, so follow-up questions can refer to earlier answers.
+export async function createChatSession(): Promise<string> {
+    const session = await postJson<{ id: string }>('/api/chat/sessions', {});
+    return session.id;
+}
+
+export function sendChatMessage(sessionId: string | null, message: string, format: AnswerFormat = 'text'): Promise<ChatReply> {
+    return postJson<ChatReply>('/api/qa', {
+        sessionId: sessionId ?? undefined,
+        message,
+        format,
+    });
+}
+
+export interface StreamedChatReply {
+    text: string;
+    insight?: Insight;
+    // Missing when the answer was stopped.
+    citations?: AnswerCitation[];
+    segments?: AnswerSegment[];
+    toolCalls: ChatToolCall[];
+    // Null only when the question was stopped before the backend assigned a session.
+    sessionId: string | null;
+    // True when generation was stopped before the answer was complete.
+    stopped: boolean;
+}
+
+interface StreamOptions {
+    // 'insight' asks for a structured analysis, which arrives whole rather than in chunks.
+    format?: AnswerFormat;
+    onChunk: (text: string) => void;
+    // Called after each tool call the analyst makes.
+    onToolCall?: (call: ChatToolCall) => void;
+    // Aborting stops generation on the backend; the text so far is resolved as a stopped reply.
+    signal?: AbortSignal;
+}
+
+/**
+ * Asks a question through /api/qa/stream, passing the answer to `onChunk` as it is generated.
+ */
+export async function streamChatMessage(sessionId: string | null, message: string, { format = 'text', onChunk, onToolCall, signal }: StreamOptions): Promise<StreamedChatReply> {
+    let currentSession = sessionId;
+    let text = '';
+    const toolCalls: ChatToolCall[] = [];
+    try {
+        const response = await fetch(`${BACKEND_URL}/api/qa/stream`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ sessionId: sessionId ?? undefined, message, format }),
+            signal,
+        });
+        if (!response.ok || !response.body) {
+            const errorData = await response.json().catch(() => ({}));
+            throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+        }
+
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        for (;;) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            buffer += value;
+            // Events are separated by a blank line; the last piece may be incomplete.
+            const events = buffer.split('\n\n');
+            buffer = events.pop() ?? '';
+            for (const event of events) {
+                const name = event.match(/^event: (.*)$/m)?.[1];
+                const data = JSON.parse(event.match(/^data: (.*)$/m)?.[1] ?? '{}');
+                if (name === 'session') {
+                    currentSession = data.sessionId;
+                } else if (name === 'chunk') {
+                    text += data.text;
+                    onChunk(data.text);
+                } else if (name === 'tool') {
+                    toolCalls.push(data);
+                    onToolCall?.(data);
+                } else if (name === 'done') {
+                    return { text: data.text, insight: data.insight, citations: data.citations, segments: data.segments, toolCalls: data.toolCalls, sessionId: data.sessionId, stopped: data.stopped };
+                } else if (name === 'error') {
+                    throw new Error(data.message);
+                }
+            }
+        }
+        throw new Error('The answer ended unexpectedly.');
+    } catch (error) {
+        if (signal?.aborted) {
+            return { text, toolCalls, sessionId: currentSession, stopped: true };
+        }
+        console.error("Error calling backend API:", error);
+        if (error instanceof TypeError) { // Network error
+            throw new Error("Cannot connect to the backend service. Please ensure it's running.");
+        }
+        throw error;
+    }
+}
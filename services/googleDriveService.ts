@@ -0,0 +1,63 @@
+import { BACKEND_URL } from './apiConfig';
+import type { DriveStatus, DriveFolderListing, DriveImportResult, WatchedDriveFolder } from '../types';
+
+const BASE_PATH = '/api/connectors/google-drive';
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+    try {
+        const response = await fetch(`${BACKEND_URL}${BASE_PATH}${path}`, init);
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        }
+        return data as T;
+    } catch (error) {
+        if (error instanceof TypeError) { // Network error
+            throw new Error("Cannot connect to the backend service. Please ensure it's running.");
+        }
+        throw error;
+    }
+}
+
+function postJson<T>(path: string, body: unknown = {}): Promise<T> {
+    return request<T>(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+}
+
+export function getDriveStatus(): Promise<DriveStatus> {
+    return request<DriveStatus>('');
+}
+
+export async function getDriveAuthUrl(): Promise<string> {
+    const data = await request<{ url: string }>('/auth-url');
+    return data.url;
+}
+
+export async function disconnectDrive(): Promise<void> {
+    await postJson<{ status: string }>('/disconnect');
+}
+
+export function listDriveFolder(folderId: string, pageToken?: string): Promise<DriveFolderListing> {
+    const params = new URLSearchParams({ folderId });
+    if (pageToken) params.set('pageToken', pageToken);
+    return request<DriveFolderListing>(`/files?${params}`);
+}
+
+export function importDriveFile(fileId: string, options: { sheet?: string; primaryKey?: string[] } = {}): Promise<DriveImportResult> {
+    return postJson<DriveImportResult>('/import', { fileId, ...options });
+}
+
+export async function untrackDriveFile(fileId: string): Promise<void> {
+    await request<{ status: string }>(`/files/${encodeURIComponent(fileId)}`, { method: 'DELETE' });
+}
+
+export function watchDriveFolder(folderId: string): Promise<WatchedDriveFolder> {
+    return postJson<WatchedDriveFolder>('/folders', { folderId });
+}
+
+export async function unwatchDriveFolder(folderId: string): Promise<void> {
+    await request<{ status: string }>(`/folders/${encodeURIComponent(folderId)}`, { method: 'DELETE' });
+}
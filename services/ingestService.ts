@@ -0,0 +1,66 @@
+import { BACKEND_URL } from './apiConfig';
+import type { IngestResult, FileInspection } from '../types';
+
+// Mirrors the backend default (MAX_UPLOAD_MB) so oversized files are rejected before uploading.
+export const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+export const UPLOAD_EXTENSIONS = ['.csv', '.xlsx', '.xls', '.json', '.ndjson', '.jsonl'];
+
+// fetch() has no upload progress events, so uploads go through XMLHttpRequest.
+function postMultipart<T>(path: string, formData: FormData, onProgress?: (percent: number) => void): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        xhr.open('POST', `${BACKEND_URL}${path}`);
+
+        xhr.upload.onprogress = (event) => {
+            if (event.lengthComputable && onProgress) {
+                onProgress(Math.round((event.loaded / event.total) * 100));
+            }
+        };
+
+        xhr.onload = () => {
+            let data: any = null;
+            try {
+                data = JSON.parse(xhr.responseText);
+            } catch {
+                // Fall through to the generic status message below.
+            }
+            if (xhr.status >= 200 && xhr.status < 300) {
+                resolve(data as T);
+            } else {
+                reject(new Error(data?.error || `HTTP error! status: ${xhr.status}`));
+            }
+        };
+
+        xhr.onerror = () => {
+            reject(new Error("Cannot connect to the backend service. Please ensure it's running."));
+        };
+
+        xhr.send(formData);
+    });
+}
+
+export function inspectFile(file: File): Promise<FileInspection> {
+    const formData = new FormData();
+    formData.append('file', file);
+    return postMultipart<FileInspection>('/api/ingest/inspect', formData);
+}
+
+export interface UploadOptions {
+    sheet?: string;
+    // Existing dataset to upsert into; a new dataset is created when omitted.
+    dataset?: string;
+    primaryKey?: string[];
+    deleteMissing?: boolean;
+}
+
+export function uploadFile(file: File, options: UploadOptions = {}, onProgress?: (percent: number) => void): Promise<IngestResult> {
+    const formData = new FormData();
+    // The backend only sees fields that precede the file part.
+    if (options.sheet) formData.append('sheet', options.sheet);
+    if (options.dataset) formData.append('dataset', options.dataset);
+    if (options.primaryKey?.length) formData.append('primaryKey', options.primaryKey.join(','));
+    if (options.deleteMissing) formData.append('deleteMissing', 'true');
+    formData.append('file', file);
+    return postMultipart<IngestResult>('/api/ingest', formData, onProgress);
+}
@@ -0,0 +1,56 @@
+import { BACKEND_URL } from './apiConfig';
+import type { PostgresSync, PostgresSyncRun, DatasetRow } from '../types';
+
+const BASE_PATH = '/api/connectors/postgres';
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+    try {
+        const response = await fetch(`${BACKEND_URL}${BASE_PATH}${path}`, init);
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        }
+        return data as T;
+    } catch (error) {
+        if (error instanceof TypeError) { // Network error
+            throw new Error("Cannot connect to the backend service. Please ensure it's running.");
+        }
+        throw error;
+    }
+}
+
+function sendJson<T>(method: string, path: string, body: unknown = {}): Promise<T> {
+    return request<T>(path, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+}
+
+// A table ('schema.table') or a saved SELECT query.
+export type PostgresSourceInput = { table: string } | { query: string };
+
+export function previewPostgresSource(connectionId: string, source: PostgresSourceInput, limit = 20): Promise<{ columns: string[]; rows: DatasetRow[] }> {
+    return sendJson('POST', `/connections/${encodeURIComponent(connectionId)}/preview`, { ...source, limit });
+}
+
+export async function listPostgresSyncs(connectionId: string): Promise<PostgresSync[]> {
+    const data = await request<{ syncs: PostgresSync[] }>(`/syncs?connectionId=${encodeURIComponent(connectionId)}`);
+    return data.syncs;
+}
+
+export function createPostgresSync(sync: PostgresSourceInput & { connectionId: string; name?: string; cursorColumn?: string; primaryKey?: string[] }): Promise<PostgresSync> {
+    return sendJson<PostgresSync>('POST', '/syncs', sync);
+}
+
+export async function deletePostgresSync(id: string): Promise<void> {
+    await request<{ status: string }>(`/syncs/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export function runPostgresSync(id: string): Promise<PostgresSyncRun> {
+    return sendJson<PostgresSyncRun>('POST', `/syncs/${encodeURIComponent(id)}/run`);
+}
+
+export function resetPostgresSync(id: string): Promise<PostgresSync> {
+    return sendJson<PostgresSync>('POST', `/syncs/${encodeURIComponent(id)}/reset`);
+}
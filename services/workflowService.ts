@@ -0,0 +1,91 @@
+import type { ElementType } from 'react';
+import * as OutlineIcons from '@heroicons/react/24/outline';
+import { BACKEND_URL } from './apiConfig';
+import type { SchedulePreview, Workflow, WorkflowCatalog, WorkflowDefinition, WorkflowRun, WorkflowRunSummary } from '../types';
+
+const BASE_PATH = '/api/workflows';
+
+// Workflows name their icons as strings, like KPI metrics.
+const ICONS = OutlineIcons as unknown as Record<string, ElementType | undefined>;
+
+export const workflowIcon = (name: string | undefined, fallback: ElementType = OutlineIcons.Cog6ToothIcon): ElementType =>
+    (name && ICONS[name]) || fallback;
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+    try {
+        const response = await fetch(`${BACKEND_URL}${BASE_PATH}${path}`, init);
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        }
+        return data as T;
+    } catch (error) {
+        if (error instanceof TypeError) { // Network error
+            throw new Error("Cannot connect to the backend service. Please ensure it's running.");
+        }
+        throw error;
+    }
+}
+
+function sendJson<T>(method: string, path: string, body: unknown = {}): Promise<T> {
+    return request<T>(path, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+}
+
+export function getWorkflowCatalog(): Promise<WorkflowCatalog> {
+    return request<WorkflowCatalog>('/catalog');
+}
+
+// The next times a cron schedule runs in `timezone`; rejects with the reason an expression is invalid.
+export function previewSchedule(cron: string, timezone: string, signal?: AbortSignal): Promise<SchedulePreview> {
+    const query = new URLSearchParams({ cron, timezone });
+    return request<SchedulePreview>(`/schedule-preview?${query}`, { signal });
+}
+
+export async function listWorkflows(): Promise<Workflow[]> {
+    const data = await request<{ workflows: Workflow[] }>('');
+    return data.workflows;
+}
+
+export function createWorkflow(definition: Omit<WorkflowDefinition, 'id'>): Promise<WorkflowDefinition> {
+    return sendJson<WorkflowDefinition>('POST', '', definition);
+}
+
+export function updateWorkflow(definition: WorkflowDefinition): Promise<WorkflowDefinition> {
+    return sendJson<WorkflowDefinition>('PUT', `/${encodeURIComponent(definition.id)}`, definition);
+}
+
+export function setWorkflowEnabled(id: string, enabled: boolean): Promise<WorkflowDefinition> {
+    return sendJson<WorkflowDefinition>('PATCH', `/${encodeURIComponent(id)}`, { enabled });
+}
+
+// Deletes the workflow along with its run history.
+export async function deleteWorkflow(id: string): Promise<void> {
+    await request<{ status: string }>(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+// Starts a run by hand; the run is returned at once and finishes in the background.
+export function runWorkflow(id: string, input?: unknown): Promise<WorkflowRun> {
+    return sendJson<WorkflowRun>('POST', `/${encodeURIComponent(id)}/runs`, { input });
+}
+
+export async function listWorkflowRuns(id: string): Promise<WorkflowRunSummary[]> {
+    const data = await request<{ runs: WorkflowRunSummary[] }>(`/${encodeURIComponent(id)}/runs`);
+    return data.runs;
+}
+
+export function getWorkflowRun(id: string, runId: string): Promise<WorkflowRun> {
+    return request<WorkflowRun>(`/${encodeURIComponent(id)}/runs/${encodeURIComponent(runId)}`);
+}
+
+// Replaces the workflow's webhook secret; the returned secret cannot be read again later.
+export async function rotateWebhookSecret(id: string): Promise<string> {
+    const data = await sendJson<{ secret: string }>('POST', `/${encodeURIComponent(id)}/webhook-secret`);
+    return data.secret;
+}
+
+// Where external tools POST to start a workflow.
+export const webhookUrl = (id: string) => `${BACKEND_URL}/api/webhooks/${encodeURIComponent(id)}`;
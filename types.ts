@@ -6,11 +6,15 @@ export interface Kpi {
   change: string;
   changeType: 'increase' | 'decrease';
   icon: ElementType;
+  // Label of the period `change` is measured against, e.g. 'Feb 2024'.
+  comparisonPeriod?: string;
+  // Id of the metric behind the card, which insights link to.
+  metricId?: string;
 }
 
 export interface RevenueData {
   name: string;
-  revenue: number;
+  revenue: number | null;
 }
 
 export interface LeadSource {
@@ -19,35 +23,273 @@ export interface LeadSource {
   fill: string;
 }
 
+export interface DashboardData {
+  kpis: Kpi[];
+  revenueData: RevenueData[];
+  revenueTitle: string | null;
+  revenueMetric: string | null;
+  leadSourceData: LeadSource[];
+  leadSourceTitle: string | null;
+  leadSourceMetric: string | null;
+  errors: { metric: string; error: string }[];
+  generatedAt: string;
+}
+
+export type ConnectorStatusValue = 'Connected' | 'Syncing' | 'Error' | 'Not connected';
+
+// One input of a connector's settings form; see ConnectorForm. Dotted keys build nested settings.
+export interface ConnectorField {
+  key: string;
+  label: string;
+  type: 'text' | 'password' | 'number' | 'boolean' | 'select' | 'textarea' | 'json' | 'map' | 'list';
+  required?: boolean;
+  placeholder?: string;
+  help?: string;
+  default?: string | number | boolean;
+  options?: { value: string; label: string }[];
+  separator?: string;
+  visibleWhen?: { key: string; equals: string[] };
+}
+
+export interface ConnectorType {
+  type: string;
+  name: string;
+  description: string;
+  iconUrl: string;
+  singleton: boolean;
+  fields: ConnectorField[];
+}
+
+// A configured connector instance, with its settings stripped of secrets.
 export interface Connector {
+  id: string;
+  type: string;
+  typeName: string;
   name: string;
-  status: 'Connected' | 'Syncing' | 'Error';
   iconUrl: string;
+  settings: Record<string, unknown>;
+  status: ConnectorStatusValue;
+  lastSyncAt?: string;
+  lastStatus?: 'ok' | 'error';
+  lastError?: string;
+  lastRowCount?: number;
+  lastRunId?: string;
+  // Cron expression (UTC) the connector syncs on, and when the next scheduled sync is due.
+  schedule?: string;
+  nextSyncAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SyncRun {
+  id: string;
+  connectorId: string;
+  trigger: 'manual' | 'schedule';
+  status: 'running' | 'ok' | 'error';
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  attempts: number;
+  rowCount?: number;
+  error?: string;
+}
+
+export interface SyncRunDetail extends SyncRun {
+  log: { at: string; message: string }[];
+}
+
+export interface DiscoveredStream {
+  name: string;
+  kind?: string;
+  columns: { name: string; type?: string }[];
+  sampleRows?: Record<string, string>[];
+}
+
+export interface ConnectorSyncResult {
+  rowCount: number;
+  datasets: DatasetSummary[];
+  message: string;
+  runId: string;
+  connector: Connector;
+}
+
+// A tool the analyst called while answering, e.g. to aggregate a dataset, with its outcome.
+export interface ChatToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+}
+
+export interface InsightPoint {
+  title: string;
+  detail: string;
+  // Id of the metric the point is about.
+  metric?: string;
+}
+
+// A structured analysis from the AI, rendered as cards instead of prose.
+export interface Insight {
+  summary: string;
+  highlights: InsightPoint[];
+  concerns: (InsightPoint & { severity: 'low' | 'medium' | 'high' })[];
+  actions: { title: string; detail: string }[];
+  metrics: { id: string; name: string; value?: string }[];
+}
+
+export type AnswerFormat = 'text' | 'insight';
+
+// Where a figure in an answer came from.
+export type AnswerCitation =
+  | { kind: 'kpi'; metricId: string; title: string; period?: string }
+  | { kind: 'chart'; metricId: string; title: string; point: string }
+  | { kind: 'dataset'; datasetId: string; title: string; detail?: string; firstRow?: number; lastRow?: number };
+
+// A sentence of an answer with the citations behind its numbers.
+export interface AnswerSegment {
+  text: string;
+  // Indexes into the message's citations.
+  citations: number[];
+  // Numbers not found in the data the analyst looked at, as [start, end) offsets into `text`.
+  unsupported: { start: number; end: number }[];
 }
 
 export interface ChatMessage {
   sender: 'user' | 'ai';
   text: string;
+  // Set while the answer is still arriving, and when it was stopped before it finished.
+  streaming?: boolean;
+  stopped?: boolean;
+  toolCalls?: ChatToolCall[];
+  insight?: Insight;
+  // Set once the answer is complete; the segments join back into `text`.
+  citations?: AnswerCitation[];
+  segments?: AnswerSegment[];
 }
 
+// Workflows are plain JSON, as stored by the backend; icons are Heroicon names.
 export interface WorkflowStep {
+  // Later steps refer to this step's outputs as `{{steps.<id>.<output>}}`.
+  id: string;
+  type: string;
   name: string;
   description: string;
-  icon: ElementType;
+  icon?: string;
+  // Literal values or text with `{{trigger.<field>}}` and `{{steps.<id>.<output>}}` references.
+  params: Record<string, unknown>;
+  onError: 'stop' | 'continue';
+  retries: number;
 }
 
-export interface Workflow {
-  id: number;
+export type WorkflowRunStatus = 'running' | 'ok' | 'partial' | 'error';
+
+export interface StepRun {
+  id: string;
+  name: string;
+  type: string;
+  status: 'pending' | 'running' | 'ok' | 'error' | 'skipped';
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+  attempts: number;
+  inputs?: Record<string, unknown>;
+  outputs?: Record<string, unknown>;
+  error?: string;
+  log: { at: string; message: string }[];
+}
+
+export interface WorkflowRun {
+  id: string;
+  workflowId: string;
+  trigger: WorkflowTriggerType;
+  // 'partial' is a run that finished although steps allowed to fail did.
+  status: WorkflowRunStatus;
+  input: unknown;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  error?: string;
+  steps: StepRun[];
+}
+
+// A run as listed, without the trigger's input or each step's data and log.
+export type WorkflowRunSummary = Omit<WorkflowRun, 'input' | 'steps'> & {
+  steps: Omit<StepRun, 'inputs' | 'outputs' | 'log'>[];
+};
+
+export type WorkflowTriggerType = 'manual' | 'schedule' | 'webhook';
+// What becomes of scheduled runs missed while the backend was down.
+export type CatchUpPolicy = 'skip' | 'once' | 'all';
+// How webhook requests prove they know the workflow's secret.
+export type WebhookAuth = 'api_key' | 'hmac';
+
+export interface WorkflowDefinition {
+  id: string;
   title: string;
   description: string;
   trigger: {
+    type: WorkflowTriggerType;
     name: string;
-    icon: ElementType;
+    icon?: string;
+    // Schedule triggers: a cron expression read in an IANA time zone.
+    cron?: string;
+    timezone?: string;
+    catchUp?: CatchUpPolicy;
+    // Webhook triggers: the JSON Schema the payload must match and conditions it must meet.
+    auth?: WebhookAuth;
+    schema?: Record<string, unknown>;
+    conditions?: string[];
   };
   steps: WorkflowStep[];
   enabled: boolean;
 }
 
+export interface Workflow extends WorkflowDefinition {
+  lastRun?: WorkflowRunSummary;
+  // When a scheduled workflow next runs.
+  nextRunAt?: string;
+  // Whether a webhook secret has been generated; the secret itself is only shown once.
+  hasWebhookSecret?: boolean;
+}
+
+export interface SchedulePreview {
+  cron: string;
+  timezone: string;
+  nextRuns: string[];
+}
+
+// A typed input or output of a step type.
+export interface WorkflowField {
+  type: 'string' | 'number' | 'boolean' | 'json';
+  label: string;
+  description?: string;
+  required?: boolean;
+  options?: string[];
+  default?: unknown;
+  multiline?: boolean;
+}
+
+export interface WorkflowStepType {
+  type: string;
+  label: string;
+  description: string;
+  icon: string;
+  inputs: Record<string, WorkflowField>;
+  outputs: Record<string, WorkflowField>;
+}
+
+export interface WorkflowTriggerOption {
+  type: WorkflowTriggerType;
+  label: string;
+  description: string;
+  icon: string;
+}
+
+export interface WorkflowCatalog {
+  triggers: WorkflowTriggerOption[];
+  stepTypes: WorkflowStepType[];
+}
+
 export type Role = 'Admin' | 'Editor' | 'Viewer';
 
 export interface User {
@@ -66,4 +308,207 @@ export interface ApiKey {
   created: string;
 }
 
-export type ActiveView = 'dashboard' | 'workflows' | 'architecture' | 'settings';
\ No newline at end of file
+export type IngestFileFormat = 'csv' | 'xlsx' | 'xls' | 'json' | 'ndjson';
+
+export type ColumnType = 'integer' | 'decimal' | 'currency' | 'percentage' | 'date' | 'boolean' | 'enum' | 'string';
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  nullable: boolean;
+  overridden?: boolean;
+  values?: string[];
+  invalidCount: number;
+}
+
+export interface DatasetSchema {
+  columns: ColumnSchema[];
+  inferredAt: string;
+}
+
+export interface DatasetSource {
+  connector: 'upload' | 'file' | 'google-drive' | 'postgres' | 'rest-api';
+  format: string;
+  fileName?: string;
+  filePath?: string;
+  sheet?: string;
+  fileId?: string;
+  connectionId?: string;
+  table?: string;
+  sourceId?: string;
+  url?: string;
+}
+
+export interface DatasetSummary {
+  id: string;
+  name: string;
+  tags: string[];
+  source: DatasetSource;
+  table: string;
+  primaryKey?: string[];
+  version: number;
+  rowCount: number;
+  columnCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DatasetDetail extends DatasetSummary {
+  schema: DatasetSchema;
+}
+
+export type DatasetRow = Record<string, string | number | boolean | null>;
+
+export interface DatasetRowsPage {
+  rows: DatasetRow[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export interface UpsertReport {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+  duplicates: number;
+}
+
+export interface DatasetVersion {
+  version: number;
+  kind: 'ingest' | 'upsert' | 'rollback';
+  table: string;
+  source?: DatasetSource;
+  report?: UpsertReport;
+  restoredFrom?: number;
+  rowCount: number;
+  columnCount: number;
+  createdAt: string;
+}
+
+export type RawDatasetRow = Record<string, string>;
+
+export interface DatasetDiff {
+  from: DatasetVersion;
+  to: DatasetVersion;
+  key: string[] | null;
+  schema: {
+    added: string[];
+    removed: string[];
+    changed: { name: string; from: ColumnType; to: ColumnType }[];
+  };
+  rows: {
+    added: RawDatasetRow[];
+    removed: RawDatasetRow[];
+    changed: { before: RawDatasetRow; after: RawDatasetRow }[];
+  };
+  counts: { added: number; removed: number; changed: number; unchanged: number };
+  truncated: boolean;
+}
+
+export interface IngestResult {
+  status: 'ok';
+  id: string;
+  ingested: number;
+  table: string;
+  schema: DatasetSchema;
+  dataset: DatasetSummary;
+  upsert: UpsertReport;
+  format: IngestFileFormat;
+  sheet?: string;
+  fileName: string;
+  bytes: number;
+}
+
+export interface DriveFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  modifiedTime?: string;
+  size?: number;
+  isFolder: boolean;
+  importable: boolean;
+  datasetId?: string;
+}
+
+export interface DriveFolderListing {
+  folder: { id: string; name: string };
+  entries: DriveFile[];
+  nextPageToken?: string;
+}
+
+export interface TrackedDriveFile {
+  fileId: string;
+  name: string;
+  mimeType: string;
+  folderId?: string;
+  datasetId: string;
+  sheet?: string;
+  syncedAt: string;
+}
+
+export interface WatchedDriveFolder {
+  folderId: string;
+  name: string;
+  watchedAt: string;
+  syncedAt?: string;
+}
+
+export interface DriveStatus {
+  configured: boolean;
+  connected: boolean;
+  account?: string;
+  connectedAt?: string;
+  folders: WatchedDriveFolder[];
+  files: TrackedDriveFile[];
+}
+
+export interface DriveImportResult {
+  status: 'ok';
+  id: string;
+  ingested: number;
+  table: string;
+  schema: DatasetSchema;
+  dataset: DatasetSummary;
+  upsert: UpsertReport;
+  format: IngestFileFormat;
+  sheet?: string;
+  fileName: string;
+  fileId: string;
+}
+
+export type PostgresSource =
+  | { kind: 'table'; schema: string; table: string }
+  | { kind: 'query'; query: string };
+
+export interface PostgresSync {
+  id: string;
+  connectionId: string;
+  name: string;
+  source: PostgresSource;
+  cursorColumn?: string;
+  primaryKey?: string[];
+  datasetId?: string;
+  cursorValue?: string;
+  lastRunAt?: string;
+  lastStatus?: 'ok' | 'error';
+  lastError?: string;
+  lastRowCount?: number;
+  createdAt: string;
+}
+
+export interface PostgresSyncRun {
+  sync: PostgresSync;
+  fetched: number;
+  status: 'created' | 'updated' | 'unchanged';
+  dataset?: DatasetSummary;
+  report?: UpsertReport;
+}
+
+export interface FileInspection {
+  fileName: string;
+  format: IngestFileFormat;
+  sheets?: string[];
+}
+
+export type ActiveView = 'dashboard' | 'datasets' | 'workflows' | 'architecture' | 'settings';
\ No newline at end of file